@@ -0,0 +1,11 @@
+import nextJest from 'next/jest.js';
+
+// Loads next.config and .env files and compiles TypeScript with the same SWC setup as the app
+const createJestConfig = nextJest({ dir: './' });
+
+export default createJestConfig({
+  testEnvironment: 'node',
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+});
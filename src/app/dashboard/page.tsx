@@ -10,6 +10,8 @@ import FuelPanel from '@/components/trading/FuelPanel';
 import AlphaCompounderWidget from '@/components/trading/AlphaCompounderWidget';
 import XPatWidget from '@/components/trading/XPatWidget';
 import ExchangeConnectionModal from '@/components/trading/ExchangeConnectionModal';
+import RiskGuardrailsPanel from '@/components/trading/RiskGuardrailsPanel';
+import ExchangeKeyHealthPanel from '@/components/trading/ExchangeKeyHealthPanel';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { ErrorMessage } from '@/components/ui/ErrorMessage';
 
@@ -159,6 +161,26 @@ export default function TradingBotDashboard() {
           </div>
         </div>
 
+        {/* Risk Guardrails & Kill Switch */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.35 }}
+          className="mt-6"
+        >
+          <RiskGuardrailsPanel bots={tradingBots} />
+        </motion.div>
+
+        {/* Exchange Key Health */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.38 }}
+          className="mt-6"
+        >
+          <ExchangeKeyHealthPanel credentials={exchangeCredentials} />
+        </motion.div>
+
         {/* Quick Stats Section - Mobile optimized */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import {
   Cog6ToothIcon,
@@ -22,6 +22,7 @@ import SettingsCard from '@/components/settings/SettingsCard';
 import SettingsItem from '@/components/settings/SettingsItem';
 import LoadingButton from '@/components/settings/LoadingButton';
 import ExchangeSettings from '@/components/settings/ExchangeSettings';
+import WithdrawalAllowlistSettings from '@/components/settings/WithdrawalAllowlistSettings';
 
 // Types for different settings sections
 interface PasswordChangeData {
@@ -53,6 +54,14 @@ export default function SettingsPage() {
   const { isAuthenticated, isLoading: authLoading } = useAuth();
   const router = useRouter();
 
+  // Deep links such as /settings?tab=exchanges from the dashboard
+  useEffect(() => {
+    const tab = new URLSearchParams(window.location.search).get('tab');
+    if (tab === 'exchanges' || tab === 'security') {
+      setActiveTab(tab);
+    }
+  }, []);
+
   // Show loading while auth is being checked
   if (authLoading) {
     return (
@@ -358,6 +367,8 @@ function SecuritySettings({
             Coming Soon
           </LoadingButton>
         </SettingsCard>
+
+        <WithdrawalAllowlistSettings />
       </div>
     </div>
   );
@@ -15,6 +15,8 @@ import {
   CpuChipIcon,
   CheckCircleIcon,
   XCircleIcon,
+  AdjustmentsHorizontalIcon,
+  BeakerIcon,
 } from '@heroicons/react/24/outline';
 
 import {
@@ -25,6 +27,10 @@ import {
 } from '@/services/aiAnalysis';
 import { TradingBot, tradingBotService } from '@/services/tradingBot';
 import fuelService, { FuelBalance } from '@/services/fuel';
+import { BotRealtimeEvent } from '@/services/websocket';
+import { useBotRealtimeUpdates } from '@/hooks/useBotRealtimeUpdates';
+import ConfigVersionPerformance from '@/components/trading/ConfigVersionPerformance';
+import BotMarketChart from '@/components/trading/BotMarketChart';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -36,6 +42,16 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { PerformanceStats } from '@/components/ai-analysis/PerformanceStats';
 import { ChartGallery } from '@/components/ai-analysis/ChartGallery';
 import { DetailedAnalysisView } from '@/components/ai-analysis/DetailedAnalysisView';
+import { ShadowComparison } from '@/components/ai-analysis/ShadowComparison';
+import { AnalysisLogSearch } from '@/components/ai-analysis/AnalysisLogSearch';
+
+// Tailwind needs complete class names, so the tab grid is looked up by tab count
+const TAB_GRID_COLUMNS: Record<number, string> = {
+  4: 'grid-cols-4',
+  5: 'grid-cols-5',
+  6: 'grid-cols-6',
+  7: 'grid-cols-7',
+};
 
 // Analysis Log Card Component
 interface AnalysisLogCardProps {
@@ -281,6 +297,36 @@ const AnalysisPage: React.FC = () => {
     loadFuelBalance();
   }, [loadFuelBalance]);
 
+  // Live updates: new analyses appear at the top of the first page as they are logged
+  const handleBotEvent = useCallback(
+    (event: BotRealtimeEvent) => {
+      if (event.type === 'bot_status') {
+        setBot(prev => (prev ? { ...prev, ...event.bot, status: event.status } : prev));
+        return;
+      }
+      if (event.type !== 'ai_analysis') return;
+
+      const { log } = event;
+      const matchesFilter =
+        (!filter.symbol || filter.symbol === log.symbol) &&
+        (!filter.analysis_type || filter.analysis_type === log.analysis_type) &&
+        (!filter.signal_action || filter.signal_action === log.signal_action);
+      if (!matchesFilter) return;
+
+      setTotalLogs(prev => prev + 1);
+      if ((filter.offset || 0) === 0 && filter.sort_order !== 'asc') {
+        setAnalysisLogs(prev =>
+          prev.some(existing => existing.id === log.id)
+            ? prev
+            : [log, ...prev].slice(0, filter.limit || 20),
+        );
+      }
+    },
+    [filter],
+  );
+
+  useBotRealtimeUpdates([botId], { onEvent: handleBotEvent });
+
   // Filter handlers
   const handleFilterChange = (key: keyof AIAnalysisFilter, value: unknown) => {
     setFilter(prev => ({
@@ -309,6 +355,9 @@ const AnalysisPage: React.FC = () => {
   const hasNextPage = (filter.offset || 0) + (filter.limit || 20) < totalLogs;
   const hasPrevPage = (filter.offset || 0) > 0;
 
+  const isAISignalBot = bot?.strategy.type === 'ai_signal';
+  const tabCount = 5 + (bot?.parent_id ? 1 : 0) + (isAISignalBot ? 1 : 0);
+
   if (loadingBot) {
     return (
       <div className="min-h-screen bg-gray-50 py-8">
@@ -451,9 +500,7 @@ const AnalysisPage: React.FC = () => {
 
         {/* Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList
-            className={`grid w-full ${bot?.parent_id ? 'grid-cols-4' : 'grid-cols-3'} bg-gray-100`}
-          >
+          <TabsList className={`grid w-full ${TAB_GRID_COLUMNS[tabCount]} bg-gray-100`}>
             <TabsTrigger
               value="logs"
               className="flex items-center gap-2 font-medium data-[state=active]:bg-white data-[state=active]:text-gray-900"
@@ -461,6 +508,13 @@ const AnalysisPage: React.FC = () => {
               <ChartBarIcon className="h-4 w-4" />
               My Analysis
             </TabsTrigger>
+            <TabsTrigger
+              value="search"
+              className="flex items-center gap-2 font-medium data-[state=active]:bg-white data-[state=active]:text-gray-900"
+            >
+              <MagnifyingGlassIcon className="h-4 w-4" />
+              Search
+            </TabsTrigger>
             {bot?.parent_id && (
               <TabsTrigger
                 value="parent-logs"
@@ -484,6 +538,22 @@ const AnalysisPage: React.FC = () => {
               <CpuChipIcon className="h-4 w-4" />
               Chart Gallery
             </TabsTrigger>
+            <TabsTrigger
+              value="versions"
+              className="flex items-center gap-2 font-medium data-[state=active]:bg-white data-[state=active]:text-gray-900"
+            >
+              <AdjustmentsHorizontalIcon className="h-4 w-4" />
+              Config Versions
+            </TabsTrigger>
+            {isAISignalBot && (
+              <TabsTrigger
+                value="variants"
+                className="flex items-center gap-2 font-medium data-[state=active]:bg-white data-[state=active]:text-gray-900"
+              >
+                <BeakerIcon className="h-4 w-4" />
+                Model A/B
+              </TabsTrigger>
+            )}
           </TabsList>
 
           {/* Analysis Logs Tab */}
@@ -645,6 +715,11 @@ const AnalysisPage: React.FC = () => {
             </div>
           </TabsContent>
 
+          {/* Full-text Search Tab */}
+          <TabsContent value="search" className="space-y-6">
+            <AnalysisLogSearch botId={botId} onViewDetails={handleViewDetails} />
+          </TabsContent>
+
           {/* Parent Analysis Logs Tab (for child bots) */}
           {bot?.parent_id && (
             <TabsContent value="parent-logs" className="space-y-6">
@@ -768,7 +843,7 @@ const AnalysisPage: React.FC = () => {
                 <LoadingSpinner size="md" />
               </div>
             ) : analysisStats ? (
-              <PerformanceStats stats={analysisStats} />
+              <PerformanceStats stats={analysisStats} tradingMode={bot?.trading_mode} />
             ) : (
               <div className="bg-white rounded-lg shadow-sm p-8 text-center">
                 <ChartBarIcon className="h-16 w-16 mx-auto text-gray-400 mb-4" />
@@ -782,8 +857,21 @@ const AnalysisPage: React.FC = () => {
 
           {/* Chart Gallery Tab */}
           <TabsContent value="charts" className="space-y-6">
+            {bot && <BotMarketChart bot={bot} onViewAnalysis={handleViewDetails} />}
             <ChartGallery botId={botId} />
           </TabsContent>
+
+          {/* Config Versions Tab */}
+          <TabsContent value="versions" className="space-y-6">
+            {bot && <ConfigVersionPerformance bot={bot} />}
+          </TabsContent>
+
+          {/* Shadow Variant Comparison Tab */}
+          {isAISignalBot && (
+            <TabsContent value="variants" className="space-y-6">
+              <ShadowComparison botId={botId} tradingMode={bot?.trading_mode} />
+            </TabsContent>
+          )}
         </Tabs>
 
         {/* Detailed Log Modal */}
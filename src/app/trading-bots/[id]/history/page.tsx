@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { ArrowLeftIcon, ChartBarIcon } from '@heroicons/react/24/outline';
 import {
@@ -11,6 +11,12 @@ import {
 } from '@/services/tradingBot';
 import PositionHistorySummaryComponent from '@/components/trading/PositionHistorySummary';
 import PositionHistoryTable from '@/components/trading/PositionHistoryTable';
+import PaperAccountPanel from '@/components/trading/PaperAccountPanel';
+import TradeJournalExport from '@/components/trading/TradeJournalExport';
+import PerformanceFeeHistory from '@/components/trading/PerformanceFeeHistory';
+import BotScheduleTimeline from '@/components/trading/BotScheduleTimeline';
+import { useBotRealtimeUpdates } from '@/hooks/useBotRealtimeUpdates';
+import { BotRealtimeEvent } from '@/services/websocket';
 
 export default function BotPositionHistoryPage() {
   const params = useParams();
@@ -22,6 +28,7 @@ export default function BotPositionHistoryPage() {
   const [summary, setSummary] = useState<PositionHistorySummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -48,7 +55,31 @@ export default function BotPositionHistoryPage() {
     if (botId) {
       fetchData();
     }
-  }, [botId]);
+  }, [botId, refreshKey]);
+
+  // Refresh in place on live events so the table doesn't flash the loading state
+  const handleBotEvent = useCallback(
+    async (event: BotRealtimeEvent) => {
+      if (event.type === 'bot_status') {
+        setBot(prev => (prev ? { ...prev, ...event.bot, status: event.status } : prev));
+        return;
+      }
+      if (event.type === 'ai_analysis') return;
+
+      try {
+        const historyData = await tradingBotService.getBotPositionHistory(botId);
+        setPositions(historyData.positions);
+        setSummary(historyData.summary);
+      } catch (err) {
+        console.error('Failed to refresh position history:', err);
+      }
+    },
+    [botId],
+  );
+
+  const { isConnected: isLive } = useBotRealtimeUpdates([botId], { onEvent: handleBotEvent });
+
+  const isPaperBot = bot?.execution_mode === 'paper';
 
   if (loading) {
     return (
@@ -118,6 +149,23 @@ export default function BotPositionHistoryPage() {
                     )}
                     <span className="mx-1">•</span>
                     <span className="capitalize">{bot.strategy.type.replace('_', ' ')}</span>
+                    {isLive && (
+                      <>
+                        <span className="mx-1">•</span>
+                        <span className="inline-flex items-center text-xs text-green-700">
+                          <span className="mr-1 h-2 w-2 rounded-full bg-green-500"></span>
+                          Live
+                        </span>
+                      </>
+                    )}
+                    {isPaperBot && (
+                      <>
+                        <span className="mx-1">•</span>
+                        <span className="text-xs bg-purple-100 text-purple-800 px-2 py-1 rounded">
+                          Paper trading
+                        </span>
+                      </>
+                    )}
                   </div>
                 </div>
               )}
@@ -125,10 +173,38 @@ export default function BotPositionHistoryPage() {
           </div>
         </div>
 
+        {/* Schedule */}
+        {bot?.schedule?.enabled && (
+          <div className="mb-8">
+            <BotScheduleTimeline bot={bot} />
+          </div>
+        )}
+
+        {/* Paper Account */}
+        {bot && isPaperBot && (
+          <div className="mb-8">
+            <PaperAccountPanel bot={bot} onReset={() => setRefreshKey(key => key + 1)} />
+          </div>
+        )}
+
         {/* Summary Section */}
         {summary && (
           <div className="mb-8">
-            <PositionHistorySummaryComponent summary={summary} />
+            <PositionHistorySummaryComponent summary={summary} isSimulated={isPaperBot} />
+          </div>
+        )}
+
+        {/* Trade Journal Export */}
+        {bot && (
+          <div className="mb-8">
+            <TradeJournalExport bot={bot} positions={positions} />
+          </div>
+        )}
+
+        {/* Copy-trading performance fees */}
+        {bot && (bot.parent_id || bot.is_copyable) && (
+          <div className="mb-8">
+            <PerformanceFeeHistory bot={bot} />
           </div>
         )}
 
@@ -0,0 +1,518 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import {
+  ArrowLeftIcon,
+  ArrowPathIcon,
+  BanknotesIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+} from '@heroicons/react/24/outline';
+import {
+  ExchangeAssetBalance,
+  ExchangeMarket,
+  ExchangeOpenOrder,
+  exchangeService,
+} from '@/services/exchange';
+import { tradingBotService, TradingPosition } from '@/services/tradingBot';
+import { reconcileAccount, ReconciliationIssue } from '@/utils/accountReconciliation';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+
+// Prevent static generation for this page
+export const dynamic = 'force-dynamic';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+
+const formatAmount = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 8 });
+
+const formatPnl = (value: number) => `${value >= 0 ? '+' : ''}${formatCurrency(value)}`;
+
+const ISSUE_LABELS: Record<ReconciliationIssue['kind'], string> = {
+  missing_on_exchange: 'Missing on exchange',
+  quantity_mismatch: 'Quantity mismatch',
+  balance_shortfall: 'Balance shortfall',
+};
+
+function BalanceTable({ balances }: { balances: ExchangeAssetBalance[] }) {
+  const sorted = [...balances]
+    .filter(balance => balance.total > 0)
+    .sort((a, b) => (b.usd_value ?? 0) - (a.usd_value ?? 0));
+
+  if (sorted.length === 0) {
+    return <p className="text-sm text-gray-500">No assets in this wallet.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead>
+          <tr className="text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+            <th className="py-2 pr-4">Asset</th>
+            <th className="py-2 pr-4 text-right">Free</th>
+            <th className="py-2 pr-4 text-right">Locked</th>
+            <th className="py-2 pr-4 text-right">Total</th>
+            <th className="py-2 text-right">Value</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {sorted.map(balance => (
+            <tr key={balance.asset}>
+              <td className="py-2 pr-4 font-medium text-gray-900">{balance.asset}</td>
+              <td className="py-2 pr-4 text-right text-gray-700">{formatAmount(balance.free)}</td>
+              <td className="py-2 pr-4 text-right text-gray-500">{formatAmount(balance.locked)}</td>
+              <td className="py-2 pr-4 text-right text-gray-900">{formatAmount(balance.total)}</td>
+              <td className="py-2 text-right text-gray-700">
+                {balance.usd_value !== undefined ? formatCurrency(balance.usd_value) : '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function ExchangeAccountPage() {
+  const params = useParams();
+  const router = useRouter();
+  const credentialId = params.id as string;
+  const [wallet, setWallet] = useState<ExchangeMarket>('spot');
+
+  const { data: credential } = useQuery({
+    queryKey: ['exchange-credentials', credentialId],
+    queryFn: () => exchangeService.getExchangeCredentialsByID(credentialId),
+  });
+
+  const {
+    data: snapshot,
+    isLoading: isSnapshotLoading,
+    isFetching: isSnapshotFetching,
+    error: snapshotError,
+    refetch,
+  } = useQuery({
+    queryKey: ['exchange-credentials', credentialId, 'account'],
+    queryFn: () => exchangeService.getAccountSnapshot(credentialId),
+  });
+
+  const { data: bots, isLoading: isBotsLoading } = useQuery({
+    queryKey: ['trading-bots', 'user'],
+    queryFn: () => tradingBotService.getUserBots(),
+  });
+
+  const boundBotIds = (bots ?? [])
+    .filter(
+      bot =>
+        bot.exchange_credentials_id === credentialId &&
+        bot.execution_mode !== 'paper' &&
+        bot.status !== 'draft',
+    )
+    .map(bot => bot.id);
+
+  // Open positions of the live bots on this key. Bots whose positions fail to load are left
+  // out, so reconciliation reports them as not reconciled instead of holding nothing.
+  const { data: positionsByBot, isLoading: isPositionsLoading } = useQuery({
+    queryKey: ['trading-bots', 'positions', 'by-credential', credentialId, boundBotIds],
+    queryFn: async () => {
+      const positions = await Promise.allSettled(
+        boundBotIds.map(id => tradingBotService.getBotPositions(id)),
+      );
+      const result: Record<string, TradingPosition[]> = {};
+      boundBotIds.forEach((id, index) => {
+        const loaded = positions[index];
+        if (loaded?.status === 'fulfilled') {
+          result[id] = loaded.value;
+        } else {
+          console.error(`Failed to load positions of bot ${id}:`, loaded?.reason);
+        }
+      });
+      return result;
+    },
+    enabled: !!bots,
+  });
+
+  const report = useMemo(
+    () =>
+      snapshot && bots && positionsByBot ? reconcileAccount(snapshot, bots, positionsByBot) : null,
+    [snapshot, bots, positionsByBot],
+  );
+
+  const botNames = useMemo(() => new Map((bots ?? []).map(bot => [bot.id, bot.name])), [bots]);
+
+  if (isSnapshotLoading || isBotsLoading || isPositionsLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const orderOwner = (order: ExchangeOpenOrder) =>
+    order.bot_id ? (botNames.get(order.bot_id) ?? 'Another bot') : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-6">
+          <button
+            onClick={() => router.push('/trading-bots')}
+            className="inline-flex items-center text-sm font-medium text-gray-500 hover:text-gray-700 mb-4"
+          >
+            <ArrowLeftIcon className="mr-1 h-5 w-5" />
+            Back to Trading Bots
+          </button>
+          <div className="bg-white rounded-lg shadow-sm px-6 py-4 flex items-center justify-between">
+            <div className="flex items-center">
+              <BanknotesIcon className="h-8 w-8 text-primary-600 mr-3" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">
+                  {credential?.account_name ?? 'Exchange Account'}
+                </h1>
+                <p className="text-sm text-gray-600">
+                  <span className="capitalize">{credential?.exchange}</span>
+                  {credential?.is_testnet && ' testnet'}
+                  {snapshot && ` • Updated ${new Date(snapshot.fetched_at).toLocaleTimeString()}`}
+                </p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => refetch()}
+              loading={isSnapshotFetching}
+              className="flex items-center gap-2"
+            >
+              <ArrowPathIcon className="h-4 w-4" />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        {snapshotError || !snapshot ? (
+          <ErrorMessage
+            message={
+              snapshotError instanceof Error
+                ? snapshotError.message
+                : 'Failed to load exchange account'
+            }
+            showRetry
+            onRetry={() => refetch()}
+          />
+        ) : (
+          <div className="space-y-6">
+            {snapshot.errors && Object.keys(snapshot.errors).length > 0 && (
+              <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-800">
+                <p className="font-medium">Parts of the account could not be read:</p>
+                <ul className="mt-1 list-disc pl-5">
+                  {Object.entries(snapshot.errors).map(([part, message]) => (
+                    <li key={part}>
+                      <span className="capitalize">{part}</span>: {message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Summary */}
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              <div className="bg-white rounded-lg shadow-sm p-4">
+                <div className="text-sm text-gray-500">Account Value</div>
+                <div className="text-lg font-semibold text-gray-900">
+                  {snapshot.total_usd_value !== undefined
+                    ? formatCurrency(snapshot.total_usd_value)
+                    : '—'}
+                </div>
+              </div>
+              <div className="bg-white rounded-lg shadow-sm p-4">
+                <div className="text-sm text-gray-500">Open Orders</div>
+                <div className="text-lg font-semibold text-gray-900">
+                  {snapshot.open_orders.length}
+                  {report && report.unowned_orders.length > 0 && (
+                    <span className="ml-2 text-xs font-normal text-yellow-700">
+                      {report.unowned_orders.length} not from a bot
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="bg-white rounded-lg shadow-sm p-4">
+                <div className="text-sm text-gray-500">Futures Positions</div>
+                <div className="text-lg font-semibold text-gray-900">
+                  {snapshot.positions.length}
+                </div>
+              </div>
+              <div className="bg-white rounded-lg shadow-sm p-4">
+                <div className="text-sm text-gray-500">Reconciliation Issues</div>
+                <div
+                  className={`text-lg font-semibold ${report?.issue_count ? 'text-red-600' : 'text-green-600'}`}
+                >
+                  {report?.issue_count ?? 0}
+                </div>
+              </div>
+            </div>
+
+            {/* Reconciliation */}
+            {report && (
+              <div className="bg-white rounded-lg shadow-sm p-6">
+                <h3 className="text-lg font-medium text-gray-900 mb-1">Reconciliation</h3>
+                <p className="text-xs text-gray-500 mb-4">
+                  Live bots on this key compared with the exchange. Quantities within 1% match.
+                </p>
+
+                <div className="grid gap-4 mb-4 sm:grid-cols-2">
+                  {(['spot', 'futures'] as const).map(mode => (
+                    <div key={mode} className="rounded-md bg-gray-50 p-3 text-sm">
+                      <div className="font-medium capitalize text-gray-900">{mode} wallet</div>
+                      <div className="text-gray-600">
+                        Bots track {formatCurrency(report.allocated[mode])} • Exchange holds{' '}
+                        {formatCurrency(report.available[mode])} in stablecoins
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {report.skipped_checks.length > 0 && (
+                  <ul className="mb-4 space-y-1 rounded-md border border-yellow-200 bg-yellow-50 px-3 py-2 text-sm text-yellow-800">
+                    {report.skipped_checks.map(message => (
+                      <li key={message}>{message}</li>
+                    ))}
+                  </ul>
+                )}
+
+                {report.account_issues.length > 0 && (
+                  <ul className="mb-4 space-y-2">
+                    {report.account_issues.map(issue => (
+                      <li
+                        key={issue.message}
+                        className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800"
+                      >
+                        <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+                        {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {report.bots.length === 0 ? (
+                  <p className="text-sm text-gray-500">No live bots use this key.</p>
+                ) : (
+                  <div className="divide-y divide-gray-100">
+                    {report.bots.map(bot => (
+                      <div key={bot.bot_id} className="py-3">
+                        <div className="flex items-center justify-between">
+                          <button
+                            onClick={() => router.push(`/trading-bots/${bot.bot_id}/history`)}
+                            className="text-sm font-medium text-gray-900 hover:text-primary-600"
+                          >
+                            {bot.bot_name}
+                          </button>
+                          <span className="flex items-center gap-1 text-xs text-gray-500">
+                            <span className="capitalize">{bot.trading_mode}</span> •{' '}
+                            {bot.reconciled ? (
+                              <>
+                                {bot.open_positions} open positions
+                                {bot.issues.length === 0 && (
+                                  <CheckCircleIcon className="ml-1 h-4 w-4 text-green-500" />
+                                )}
+                              </>
+                            ) : (
+                              <span className="text-yellow-700">
+                                Positions could not be loaded, not reconciled
+                              </span>
+                            )}
+                          </span>
+                        </div>
+                        {bot.issues.length > 0 && (
+                          <ul className="mt-2 space-y-1">
+                            {bot.issues.map(issue => (
+                              <li key={issue.message} className="text-sm text-red-700">
+                                <span className="font-medium">{ISSUE_LABELS[issue.kind]}:</span>{' '}
+                                {issue.message}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Balances */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-medium text-gray-900">Balances</h3>
+                <div className="inline-flex rounded-md border border-gray-300 text-sm">
+                  {(['spot', 'futures'] as ExchangeMarket[]).map(market => (
+                    <button
+                      key={market}
+                      onClick={() => setWallet(market)}
+                      className={`px-3 py-1 capitalize ${
+                        wallet === market
+                          ? 'bg-primary-600 text-white'
+                          : 'bg-white text-gray-700 hover:bg-gray-50'
+                      } first:rounded-l-md last:rounded-r-md`}
+                    >
+                      {market}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <BalanceTable
+                balances={wallet === 'spot' ? snapshot.spot_balances : snapshot.futures_balances}
+              />
+            </div>
+
+            {/* Positions */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Futures Positions</h3>
+              {snapshot.positions.length === 0 ? (
+                <p className="text-sm text-gray-500">No open positions.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead>
+                      <tr className="text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                        <th className="py-2 pr-4">Symbol</th>
+                        <th className="py-2 pr-4">Side</th>
+                        <th className="py-2 pr-4 text-right">Size</th>
+                        <th className="py-2 pr-4 text-right">Entry</th>
+                        <th className="py-2 pr-4 text-right">Mark</th>
+                        <th className="py-2 pr-4 text-right">Liq.</th>
+                        <th className="py-2 pr-4 text-right">Unrealized</th>
+                        <th className="py-2">Owner</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {snapshot.positions.map(position => {
+                        const unowned = report?.unowned_positions.includes(position);
+                        return (
+                          <tr key={`${position.symbol}_${position.side}`}>
+                            <td className="py-2 pr-4 font-medium text-gray-900">
+                              {position.symbol}
+                            </td>
+                            <td
+                              className={`py-2 pr-4 uppercase ${position.side === 'long' ? 'text-green-600' : 'text-red-600'}`}
+                            >
+                              {position.side}
+                              {position.leverage ? ` ${position.leverage}x` : ''}
+                            </td>
+                            <td className="py-2 pr-4 text-right">{formatAmount(position.size)}</td>
+                            <td className="py-2 pr-4 text-right">
+                              {formatAmount(position.entry_price)}
+                            </td>
+                            <td className="py-2 pr-4 text-right">
+                              {formatAmount(position.mark_price)}
+                            </td>
+                            <td className="py-2 pr-4 text-right text-gray-500">
+                              {position.liquidation_price
+                                ? formatAmount(position.liquidation_price)
+                                : '—'}
+                            </td>
+                            <td
+                              className={`py-2 pr-4 text-right ${position.unrealized_pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}
+                            >
+                              {formatPnl(position.unrealized_pnl)}
+                            </td>
+                            <td className="py-2">
+                              {report && !report.position_owners_known ? (
+                                <span className="text-xs text-gray-500">Unknown</span>
+                              ) : unowned ? (
+                                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800">
+                                  No bot
+                                </span>
+                              ) : (
+                                <span className="text-xs text-gray-500">Bot managed</span>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            {/* Open orders */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Open Orders</h3>
+              {snapshot.open_orders.length === 0 ? (
+                <p className="text-sm text-gray-500">No open orders.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead>
+                      <tr className="text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                        <th className="py-2 pr-4">Created</th>
+                        <th className="py-2 pr-4">Symbol</th>
+                        <th className="py-2 pr-4">Type</th>
+                        <th className="py-2 pr-4">Side</th>
+                        <th className="py-2 pr-4 text-right">Price</th>
+                        <th className="py-2 pr-4 text-right">Filled / Qty</th>
+                        <th className="py-2">Owner</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {snapshot.open_orders.map(order => (
+                        <tr key={order.id}>
+                          <td className="py-2 pr-4 text-gray-500">
+                            {new Date(order.created_at).toLocaleString()}
+                          </td>
+                          <td className="py-2 pr-4 font-medium text-gray-900">
+                            {order.symbol}
+                            <span className="ml-1 text-xs font-normal capitalize text-gray-500">
+                              {order.market}
+                            </span>
+                          </td>
+                          <td className="py-2 pr-4 text-gray-700">
+                            {order.type.replace(/_/g, ' ')}
+                            {order.reduce_only && (
+                              <span className="ml-1 text-xs text-gray-500">reduce-only</span>
+                            )}
+                          </td>
+                          <td
+                            className={`py-2 pr-4 uppercase ${order.side === 'buy' ? 'text-green-600' : 'text-red-600'}`}
+                          >
+                            {order.side}
+                          </td>
+                          <td className="py-2 pr-4 text-right">
+                            {order.price !== undefined ? formatAmount(order.price) : 'Market'}
+                            {order.stop_price !== undefined && (
+                              <span className="block text-xs text-gray-500">
+                                stop {formatAmount(order.stop_price)}
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-2 pr-4 text-right">
+                            {formatAmount(order.filled_quantity)} / {formatAmount(order.quantity)}
+                          </td>
+                          <td className="py-2">
+                            {orderOwner(order) ?? (
+                              <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800">
+                                No bot
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
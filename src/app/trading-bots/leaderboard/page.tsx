@@ -0,0 +1,335 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  ArrowLeftIcon,
+  CheckBadgeIcon,
+  TrophyIcon,
+  UserGroupIcon,
+} from '@heroicons/react/24/outline';
+import { StrategyType, TradingBot } from '@/services/tradingBot';
+import {
+  copyTradingService,
+  LeaderFilters,
+  LeaderProfile,
+  LeaderSortKey,
+  LeaderTrackRecord,
+} from '@/services/copyTrading';
+import { strategyTypes } from '@/schemas/botTemplate';
+import CopyBotModal from '@/components/trading/CopyBotModal';
+import LeaderSettingsPanel from '@/components/trading/LeaderSettingsPanel';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+
+// Prevent static generation for this page
+export const dynamic = 'force-dynamic';
+
+const SORT_OPTIONS: { value: LeaderSortKey; label: string }[] = [
+  { value: 'return', label: 'Total Return' },
+  { value: 'sharpe', label: 'Sharpe Ratio' },
+  { value: 'drawdown', label: 'Lowest Drawdown' },
+  { value: 'followers', label: 'Most Followers' },
+  { value: 'aum', label: 'Assets Under Management' },
+  { value: 'age', label: 'Longest Track Record' },
+];
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const parseOptionalNumber = (value: string) => (value ? parseFloat(value) : undefined);
+
+export default function LeaderboardPage() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [filters, setFilters] = useState<LeaderFilters>({ sort_by: 'return', limit: 50 });
+  const [verifiedOnly, setVerifiedOnly] = useState(false);
+  const [botToCopy, setBotToCopy] = useState<TradingBot | null>(null);
+
+  const {
+    data: leaders,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ['trading-bots', 'leaders', filters],
+    queryFn: () => copyTradingService.getLeaders(filters),
+  });
+
+  const rows = useMemo(
+    () =>
+      (leaders ?? [])
+        .map(leader => ({ leader, record: copyTradingService.getTrackRecord(leader) }))
+        .filter(({ record }) => !verifiedOnly || record.is_verified),
+    [leaders, verifiedOnly],
+  );
+
+  const updateFilter = <K extends keyof LeaderFilters>(key: K, value: LeaderFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => router.push('/trading-bots')}
+              className="text-gray-500 hover:text-gray-700"
+              title="Back to Trading Bots"
+            >
+              <ArrowLeftIcon className="h-6 w-6" />
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+                <TrophyIcon className="h-7 w-7 text-yellow-500" />
+                Copy-Trading Leaderboard
+              </h1>
+              <p className="text-sm text-gray-600">
+                Follow top bots and share a portion of your profits with their owners
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white rounded-lg shadow-sm p-4 grid grid-cols-2 md:grid-cols-6 gap-4">
+          <div>
+            <label htmlFor="leader_strategy" className="block text-xs font-medium text-gray-700">
+              Strategy
+            </label>
+            <select
+              id="leader_strategy"
+              value={filters.strategy ?? ''}
+              onChange={e =>
+                updateFilter('strategy', (e.target.value || undefined) as StrategyType | undefined)
+              }
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            >
+              <option value="">All strategies</option>
+              {strategyTypes.map(type => (
+                <option key={type} value={type}>
+                  {type.replace(/_/g, ' ')}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="leader_drawdown" className="block text-xs font-medium text-gray-700">
+              Max Drawdown (%)
+            </label>
+            <input
+              type="number"
+              id="leader_drawdown"
+              min="0"
+              value={filters.max_drawdown ?? ''}
+              onChange={e => updateFilter('max_drawdown', parseOptionalNumber(e.target.value))}
+              placeholder="Any"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="leader_age" className="block text-xs font-medium text-gray-700">
+              Min Age (days)
+            </label>
+            <input
+              type="number"
+              id="leader_age"
+              min="0"
+              value={filters.min_age_days ?? ''}
+              onChange={e => updateFilter('min_age_days', parseOptionalNumber(e.target.value))}
+              placeholder="Any"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="leader_min_aum" className="block text-xs font-medium text-gray-700">
+              Min AUM (USDT)
+            </label>
+            <input
+              type="number"
+              id="leader_min_aum"
+              min="0"
+              value={filters.min_aum ?? ''}
+              onChange={e => updateFilter('min_aum', parseOptionalNumber(e.target.value))}
+              placeholder="Any"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="leader_max_aum" className="block text-xs font-medium text-gray-700">
+              Max AUM (USDT)
+            </label>
+            <input
+              type="number"
+              id="leader_max_aum"
+              min="0"
+              value={filters.max_aum ?? ''}
+              onChange={e => updateFilter('max_aum', parseOptionalNumber(e.target.value))}
+              placeholder="Any"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="leader_sort" className="block text-xs font-medium text-gray-700">
+              Sort By
+            </label>
+            <select
+              id="leader_sort"
+              value={filters.sort_by}
+              onChange={e => updateFilter('sort_by', e.target.value as LeaderSortKey)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            >
+              {SORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <label className="col-span-2 md:col-span-6 flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={verifiedOnly}
+              onChange={e => setVerifiedOnly(e.target.checked)}
+              className="mr-2 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            Verified track records only
+          </label>
+        </div>
+
+        {/* Leaders */}
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : error ? (
+          <ErrorMessage message={error.message || 'Failed to load leaders'} />
+        ) : rows.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm p-8 text-center">
+            <UserGroupIcon className="h-16 w-16 mx-auto text-gray-400 mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No Leaders Found</h3>
+            <p className="text-gray-600">Try loosening the filters above.</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {[
+                    '#',
+                    'Leader',
+                    'Return',
+                    'Max DD',
+                    'Sharpe',
+                    'Win Rate',
+                    'Followers',
+                    'AUM',
+                    'Fee',
+                    'Age',
+                    '',
+                  ].map(heading => (
+                    <th
+                      key={heading}
+                      className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rows.map(({ leader, record }, index) => (
+                  <LeaderRow
+                    key={leader.bot.id}
+                    rank={index + 1}
+                    leader={leader}
+                    record={record}
+                    onCopy={() => setBotToCopy(leader.bot)}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <LeaderSettingsPanel />
+      </div>
+
+      {botToCopy && (
+        <CopyBotModal
+          isOpen={!!botToCopy}
+          initialBot={botToCopy}
+          onClose={() => setBotToCopy(null)}
+          onSuccess={() => {
+            queryClient.invalidateQueries({ queryKey: ['trading-bots'] });
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function LeaderRow({
+  rank,
+  leader,
+  record,
+  onCopy,
+}: {
+  rank: number;
+  leader: LeaderProfile;
+  record: LeaderTrackRecord;
+  onCopy: () => void;
+}) {
+  const { bot, statistics } = leader;
+
+  return (
+    <tr className="hover:bg-gray-50">
+      <td className="px-4 py-3 font-medium text-gray-500">{rank}</td>
+      <td className="px-4 py-3">
+        <div className="flex items-center gap-1 font-medium text-gray-900">
+          {bot.name}
+          {record.is_verified ? (
+            <CheckBadgeIcon className="h-4 w-4 text-blue-500" title="Verified track record" />
+          ) : (
+            <span
+              className="rounded bg-gray-100 px-1.5 py-0.5 text-xs font-normal text-gray-500"
+              title={record.unverified_reasons.join('\n')}
+            >
+              Unverified
+            </span>
+          )}
+        </div>
+        <div className="text-xs text-gray-500">
+          by {leader.owner_name} • {bot.strategy.type.replace(/_/g, ' ')} • {bot.symbols.join(', ')}
+        </div>
+      </td>
+      <td
+        className={`px-4 py-3 font-medium ${record.return_percent >= 0 ? 'text-green-600' : 'text-red-600'}`}
+      >
+        {formatPercent(record.return_percent)}
+      </td>
+      <td className="px-4 py-3 text-red-600">{record.max_drawdown_percent.toFixed(1)}%</td>
+      <td className="px-4 py-3 text-gray-900">{statistics.sharpe_ratio.toFixed(2)}</td>
+      <td className="px-4 py-3 text-gray-900">{statistics.win_rate.toFixed(1)}%</td>
+      <td className="px-4 py-3 text-gray-900">{leader.follower_count}</td>
+      <td className="px-4 py-3 text-gray-900">{formatCurrency(leader.aum)}</td>
+      <td className="px-4 py-3 text-gray-900">{leader.performance_fee_percent}%</td>
+      <td className="px-4 py-3 text-gray-600">{record.age_days}d</td>
+      <td className="px-4 py-3 text-right">
+        <Button size="sm" onClick={onCopy}>
+          Copy
+        </Button>
+      </td>
+    </tr>
+  );
+}
@@ -13,6 +13,11 @@ import {
   RocketLaunchIcon,
   DocumentChartBarIcon,
   ChevronDownIcon,
+  ChartPieIcon,
+  ArrowDownTrayIcon,
+  TrophyIcon,
+  DocumentTextIcon,
+  BanknotesIcon,
 } from '@heroicons/react/24/outline';
 import {
   CheckCircleIcon,
@@ -23,6 +28,7 @@ import {
 import toast from 'react-hot-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { tradingBotService, TradingBot, BotStatus, UserBotStatistics } from '@/services/tradingBot';
+import { botTemplateService } from '@/services/botTemplates';
 import CreateBotModal from '@/components/trading/CreateBotModal';
 import CopyBotModal from '@/components/trading/CopyBotModal';
 import ConfigureBotModal from '@/components/trading/ConfigureBotModal';
@@ -225,42 +231,65 @@ export default function TradingBotsPage() {
                   <p className="text-sm text-gray-600">Manage your automated trading strategies</p>
                 </div>
               </div>
-              <div className="relative" ref={dropdownRef}>
+              <div className="flex items-center gap-3">
                 <button
-                  onClick={() => setShowCreateDropdown(!showCreateDropdown)}
-                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                  onClick={() => router.push('/trading-bots/portfolio')}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
                 >
-                  <PlusIcon className="h-5 w-5 mr-2" />
-                  Create Bot
-                  <ChevronDownIcon className="h-4 w-4 ml-2" />
+                  <ChartPieIcon className="h-5 w-5 mr-2" />
+                  Portfolio
                 </button>
+                <button
+                  onClick={() => router.push('/trading-bots/leaderboard')}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                >
+                  <TrophyIcon className="h-5 w-5 mr-2" />
+                  Leaderboard
+                </button>
+                <button
+                  onClick={() => router.push('/trading-bots/prompt-templates')}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                >
+                  <DocumentTextIcon className="h-5 w-5 mr-2" />
+                  Prompts
+                </button>
+                <div className="relative" ref={dropdownRef}>
+                  <button
+                    onClick={() => setShowCreateDropdown(!showCreateDropdown)}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                  >
+                    <PlusIcon className="h-5 w-5 mr-2" />
+                    Create Bot
+                    <ChevronDownIcon className="h-4 w-4 ml-2" />
+                  </button>
 
-                {showCreateDropdown && (
-                  <div className="absolute right-0 mt-2 w-56 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-10">
-                    <div className="py-1">
-                      <button
-                        onClick={() => {
-                          setIsCreateModalOpen(true);
-                          setShowCreateDropdown(false);
-                        }}
-                        className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
-                      >
-                        <PlusIcon className="h-4 w-4 mr-2" />
-                        Create from Scratch
-                      </button>
-                      <button
-                        onClick={() => {
-                          setIsCopyModalOpen(true);
-                          setShowCreateDropdown(false);
-                        }}
-                        className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
-                      >
-                        <DocumentChartBarIcon className="h-4 w-4 mr-2" />
-                        Create from Template
-                      </button>
+                  {showCreateDropdown && (
+                    <div className="absolute right-0 mt-2 w-56 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-10">
+                      <div className="py-1">
+                        <button
+                          onClick={() => {
+                            setIsCreateModalOpen(true);
+                            setShowCreateDropdown(false);
+                          }}
+                          className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                        >
+                          <PlusIcon className="h-4 w-4 mr-2" />
+                          Create from Scratch
+                        </button>
+                        <button
+                          onClick={() => {
+                            setIsCopyModalOpen(true);
+                            setShowCreateDropdown(false);
+                          }}
+                          className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                        >
+                          <DocumentChartBarIcon className="h-4 w-4 mr-2" />
+                          Create from Template
+                        </button>
+                      </div>
                     </div>
-                  </div>
-                )}
+                  )}
+                </div>
               </div>
             </div>
           </div>
@@ -447,6 +476,11 @@ export default function TradingBotsPage() {
                           </div>
                           <div className="text-sm text-gray-500">
                             {bot.trading_mode.toUpperCase()}
+                            {bot.execution_mode === 'paper' && (
+                              <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-purple-100 text-purple-800">
+                                PAPER
+                              </span>
+                            )}
                           </div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
@@ -536,6 +570,20 @@ export default function TradingBotsPage() {
                               <DocumentChartBarIcon className="h-5 w-5" />
                             </button>
 
+                            {bot.exchange_credentials_id && bot.execution_mode !== 'paper' && (
+                              <button
+                                onClick={() =>
+                                  router.push(
+                                    `/trading-bots/exchange-accounts/${bot.exchange_credentials_id}`,
+                                  )
+                                }
+                                className="text-gray-600 hover:text-gray-900"
+                                title="View Exchange Account"
+                              >
+                                <BanknotesIcon className="h-5 w-5" />
+                              </button>
+                            )}
+
                             {/* AI Analysis button - only show for AI Signal bots */}
                             {bot.strategy.type === 'ai_signal' && (
                               <button
@@ -561,6 +609,21 @@ export default function TradingBotsPage() {
                               </button>
                             )}
 
+                            {/* Templates carry no exchange credentials; copied bots belong to their parent */}
+                            {!bot.parent_id && (
+                              <button
+                                onClick={() =>
+                                  botTemplateService.downloadTemplate(
+                                    botTemplateService.fromBot(bot),
+                                  )
+                                }
+                                className="text-gray-600 hover:text-gray-900"
+                                title="Export as Template"
+                              >
+                                <ArrowDownTrayIcon className="h-5 w-5" />
+                              </button>
+                            )}
+
                             <button
                               onClick={() => handleBotAction('delete', bot.id, bot)}
                               disabled={actionLoading === bot.id}
@@ -0,0 +1,460 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeftIcon, ChartPieIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { tradingBotService, TradingPosition } from '@/services/tradingBot';
+import { exchangeService } from '@/services/exchange';
+import EquityCurveChart from '@/components/trading/EquityCurveChart';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+import {
+  buildEquityCurve,
+  buildPortfolioTrades,
+  computeRiskRatios,
+  correlationMatrix,
+  dailyReturnsByBot,
+  exposureHeatmap,
+  groupPnl,
+  PnlBreakdownRow,
+  portfolioDailyReturns,
+} from '@/utils/portfolioAnalytics';
+
+// Prevent static generation for this page
+export const dynamic = 'force-dynamic';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const formatLabel = (label: string) => label.replace(/_/g, ' ');
+
+// Red for negative, green for positive correlation; intensity follows magnitude
+const correlationColor = (value: number) => {
+  const alpha = Math.min(Math.abs(value), 1) * 0.8;
+  return value >= 0 ? `rgba(22, 163, 74, ${alpha})` : `rgba(220, 38, 38, ${alpha})`;
+};
+
+function PnlBreakdownTable({ title, rows }: { title: string; rows: PnlBreakdownRow[] }) {
+  const maxAbs = Math.max(1, ...rows.map(row => Math.abs(row.pnl)));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">{title}</h3>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">No closed trades yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {rows.map(row => (
+            <div key={row.label}>
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium text-gray-900 capitalize">
+                  {formatLabel(row.label)}
+                </span>
+                <span className={row.pnl >= 0 ? 'text-green-600' : 'text-red-600'}>
+                  {formatCurrency(row.pnl)}
+                </span>
+              </div>
+              <div className="mt-1 h-2 rounded bg-gray-100">
+                <div
+                  className={`h-2 rounded ${row.pnl >= 0 ? 'bg-green-500' : 'bg-red-500'}`}
+                  style={{ width: `${(Math.abs(row.pnl) / maxAbs) * 100}%` }}
+                />
+              </div>
+              <div className="mt-1 text-xs text-gray-500">
+                {row.trades} trades • {row.win_rate.toFixed(1)}% win rate •{' '}
+                {formatCurrency(row.volume)} volume
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function PortfolioAnalyticsPage() {
+  const router = useRouter();
+  const [includePaper, setIncludePaper] = useState(false);
+
+  const {
+    data: allBots,
+    isLoading: isBotsLoading,
+    error: botsError,
+  } = useQuery({
+    queryKey: ['trading-bots', 'user'],
+    queryFn: () => tradingBotService.getUserBots(),
+  });
+
+  const { data: exchangeCredentials } = useQuery({
+    queryKey: ['exchange-credentials'],
+    queryFn: () => exchangeService.getExchangeCredentials(),
+  });
+
+  const trackedBotIds = (allBots ?? []).filter(bot => bot.status !== 'draft').map(bot => bot.id);
+
+  // Position history of every bot, fetched in parallel. Bots whose history fails to load are
+  // left out of positionsByBot and reported, rather than counted as having no trades.
+  const {
+    data: histories,
+    isLoading: isHistoryLoading,
+    isFetching: isHistoryFetching,
+    refetch: refetchHistories,
+  } = useQuery({
+    queryKey: ['trading-bots', 'portfolio', trackedBotIds],
+    queryFn: async () => {
+      const results = await Promise.allSettled(
+        trackedBotIds.map(id => tradingBotService.getBotPositionHistory(id)),
+      );
+      const positionsByBot: Record<string, TradingPosition[]> = {};
+      const failed: { bot_id: string; reason: string }[] = [];
+      trackedBotIds.forEach((id, index) => {
+        const result = results[index];
+        if (result?.status === 'fulfilled') {
+          positionsByBot[id] = result.value.positions;
+        } else {
+          failed.push({
+            bot_id: id,
+            reason:
+              result?.reason instanceof Error
+                ? result.reason.message
+                : 'Position history unavailable',
+          });
+        }
+      });
+      return { positionsByBot, failed };
+    },
+    enabled: !!allBots,
+  });
+  const positionsByBot = histories?.positionsByBot;
+
+  const analytics = useMemo(() => {
+    if (!allBots || !positionsByBot) return null;
+
+    // Only bots whose history loaded; the others are listed above the analytics
+    const bots = allBots.filter(
+      bot =>
+        bot.status !== 'draft' &&
+        (includePaper || bot.execution_mode !== 'paper') &&
+        positionsByBot[bot.id] !== undefined,
+    );
+    const exchangeLabels: Record<string, string> = {};
+    (exchangeCredentials ?? []).forEach(credential => {
+      exchangeLabels[credential.id] = `${credential.exchange} • ${credential.account_name}`;
+    });
+
+    const startingEquity = bots.reduce((sum, bot) => sum + bot.starting_balance, 0);
+    const trades = buildPortfolioTrades(bots, positionsByBot, exchangeLabels);
+    const equityCurve = buildEquityCurve(trades, startingEquity);
+    const returnsByBot = dailyReturnsByBot(bots, trades);
+
+    return {
+      bots,
+      trades,
+      startingEquity,
+      equityCurve,
+      ratios: computeRiskRatios(portfolioDailyReturns(trades, startingEquity), equityCurve),
+      bySymbol: groupPnl(trades, 'symbol'),
+      byStrategy: groupPnl(trades, 'strategy'),
+      byExchange: groupPnl(trades, 'exchange'),
+      correlation: correlationMatrix(returnsByBot),
+      heatmap: exposureHeatmap(bots, positionsByBot, exchangeLabels),
+    };
+  }, [allBots, positionsByBot, exchangeCredentials, includePaper]);
+
+  const botNames = useMemo(
+    () => new Map((allBots ?? []).map(bot => [bot.id, bot.name])),
+    [allBots],
+  );
+
+  const failedHistories = (histories?.failed ?? []).filter(failure => {
+    const bot = allBots?.find(b => b.id === failure.bot_id);
+    return !!bot && (includePaper || bot.execution_mode !== 'paper');
+  });
+
+  if (isBotsLoading || isHistoryLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (botsError) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <ErrorMessage message={botsError.message || 'Failed to load portfolio data'} />
+      </div>
+    );
+  }
+
+  const totalPnl = analytics?.trades.reduce((sum, trade) => sum + trade.pnl, 0) ?? 0;
+
+  const statCards = analytics
+    ? [
+        {
+          label: 'Realized P&L',
+          value: formatCurrency(totalPnl),
+          positive: totalPnl >= 0,
+        },
+        {
+          label: 'Total Return',
+          value: formatPercent(analytics.ratios.total_return_percent),
+          positive: analytics.ratios.total_return_percent >= 0,
+        },
+        {
+          label: 'Max Drawdown',
+          value: `${analytics.ratios.max_drawdown_percent.toFixed(2)}%`,
+          positive: false,
+        },
+        {
+          label: 'Sharpe',
+          value: analytics.ratios.sharpe_ratio.toFixed(2),
+          positive: analytics.ratios.sharpe_ratio >= 0,
+        },
+        {
+          label: 'Sortino',
+          value: analytics.ratios.sortino_ratio.toFixed(2),
+          positive: analytics.ratios.sortino_ratio >= 0,
+        },
+        {
+          label: 'Calmar',
+          value: analytics.ratios.calmar_ratio.toFixed(2),
+          positive: analytics.ratios.calmar_ratio >= 0,
+        },
+      ]
+    : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-6">
+          <button
+            onClick={() => router.push('/trading-bots')}
+            className="inline-flex items-center text-sm font-medium text-gray-500 hover:text-gray-700 mb-4"
+          >
+            <ArrowLeftIcon className="mr-1 h-5 w-5" />
+            Back to Trading Bots
+          </button>
+          <div className="bg-white rounded-lg shadow-sm px-6 py-4 flex items-center justify-between">
+            <div className="flex items-center">
+              <ChartPieIcon className="h-8 w-8 text-primary-600 mr-3" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Portfolio Analytics</h1>
+                <p className="text-sm text-gray-600">
+                  {analytics?.bots.length ?? 0} bots • {analytics?.trades.length ?? 0} closed trades
+                  • {formatCurrency(analytics?.startingEquity ?? 0)} starting capital
+                </p>
+              </div>
+            </div>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={includePaper}
+                onChange={e => setIncludePaper(e.target.checked)}
+                className="mr-2 h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+              />
+              Include paper bots
+            </label>
+          </div>
+        </div>
+
+        {failedHistories.length > 0 && (
+          <div className="mb-6 flex items-start justify-between gap-4 rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-800">
+            <div className="flex items-start space-x-3">
+              <ExclamationTriangleIcon className="mt-0.5 h-5 w-5 flex-shrink-0 text-yellow-500" />
+              <div>
+                <p className="font-medium">
+                  Partial portfolio: the history of {failedHistories.length}{' '}
+                  {failedHistories.length === 1 ? 'bot' : 'bots'} could not be loaded
+                </p>
+                <ul className="mt-1 space-y-0.5 text-xs">
+                  {failedHistories.map(failure => (
+                    <li key={failure.bot_id}>
+                      {botNames.get(failure.bot_id) ?? failure.bot_id}: {failure.reason}
+                    </li>
+                  ))}
+                </ul>
+                <p className="mt-1 text-xs">
+                  The figures below leave these bots out, including their starting capital.
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => refetchHistories()}
+              disabled={isHistoryFetching}
+              className="flex-shrink-0 text-sm font-medium text-yellow-800 underline hover:text-yellow-900 disabled:opacity-50"
+            >
+              Retry
+            </button>
+          </div>
+        )}
+
+        {!analytics || analytics.bots.length === 0 ? (
+          failedHistories.length === 0 && (
+            <div className="bg-white rounded-lg shadow-sm p-12 text-center">
+              <ChartPieIcon className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No bots to analyze</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Start a trading bot to see portfolio analytics here.
+              </p>
+            </div>
+          )
+        ) : (
+          <div className="space-y-6">
+            {/* Risk-adjusted stats */}
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-3 lg:grid-cols-6">
+              {statCards.map(card => (
+                <div key={card.label} className="bg-white rounded-lg shadow-sm p-4">
+                  <div className="text-sm text-gray-500">{card.label}</div>
+                  <div
+                    className={`text-lg font-semibold ${card.positive ? 'text-green-600' : 'text-red-600'}`}
+                  >
+                    {card.value}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Equity curve */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-1">Equity Curve</h3>
+              <p className="text-xs text-gray-500 mb-4">
+                Combined realized equity after each closed trade; drawdown shaded in red
+              </p>
+              {analytics.equityCurve.length < 2 ? (
+                <p className="text-sm text-gray-500">Not enough closed trades to plot.</p>
+              ) : (
+                <>
+                  <EquityCurveChart points={analytics.equityCurve} className="w-full h-56" />
+                  <div className="mt-2 flex justify-between text-xs text-gray-500">
+                    <span>
+                      {new Date(analytics.equityCurve[0]!.timestamp).toLocaleDateString()}
+                    </span>
+                    <span>
+                      {new Date(
+                        analytics.equityCurve[analytics.equityCurve.length - 1]!.timestamp,
+                      ).toLocaleDateString()}
+                    </span>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* PnL breakdowns */}
+            <div className="grid gap-6 lg:grid-cols-3">
+              <PnlBreakdownTable title="P&L by Symbol" rows={analytics.bySymbol} />
+              <PnlBreakdownTable title="P&L by Strategy" rows={analytics.byStrategy} />
+              <PnlBreakdownTable title="P&L by Exchange" rows={analytics.byExchange} />
+            </div>
+
+            {/* Correlation matrix */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-1">Return Correlation</h3>
+              <p className="text-xs text-gray-500 mb-4">
+                Pearson correlation of daily returns. Highly correlated bots add little
+                diversification.
+              </p>
+              {analytics.correlation.bot_ids.length < 2 ? (
+                <p className="text-sm text-gray-500">
+                  At least two bots with closed trades are needed.
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="text-xs">
+                    <thead>
+                      <tr>
+                        <th className="p-2"></th>
+                        {analytics.correlation.bot_ids.map(id => (
+                          <th
+                            key={id}
+                            className="p-2 font-medium text-gray-600 max-w-[8rem] truncate"
+                          >
+                            {botNames.get(id)}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analytics.correlation.bot_ids.map((rowId, i) => (
+                        <tr key={rowId}>
+                          <th className="p-2 text-left font-medium text-gray-600 max-w-[10rem] truncate">
+                            {botNames.get(rowId)}
+                          </th>
+                          {analytics.correlation.values[i]!.map((value, j) => (
+                            <td
+                              key={analytics.correlation.bot_ids[j]}
+                              className="p-2 text-center text-gray-900"
+                              style={{ backgroundColor: correlationColor(value) }}
+                            >
+                              {value.toFixed(2)}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            {/* Exposure heatmap */}
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-1">Open Exposure</h3>
+              <p className="text-xs text-gray-500 mb-4">
+                Notional value of open positions by symbol and exchange
+              </p>
+              {analytics.heatmap.symbols.length === 0 ? (
+                <p className="text-sm text-gray-500">No open positions.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="text-xs">
+                    <thead>
+                      <tr>
+                        <th className="p-2"></th>
+                        {analytics.heatmap.exchanges.map(exchange => (
+                          <th key={exchange} className="p-2 font-medium text-gray-600 capitalize">
+                            {exchange}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analytics.heatmap.symbols.map((symbol, i) => (
+                        <tr key={symbol}>
+                          <th className="p-2 text-left font-medium text-gray-600">{symbol}</th>
+                          {analytics.heatmap.values[i]!.map((value, j) => (
+                            <td
+                              key={analytics.heatmap.exchanges[j]}
+                              className="p-2 text-center text-gray-900 min-w-[6rem]"
+                              style={{
+                                backgroundColor:
+                                  value > 0
+                                    ? `rgba(234, 88, 12, ${0.1 + (value / analytics.heatmap.max) * 0.7})`
+                                    : undefined,
+                              }}
+                            >
+                              {value > 0 ? formatCurrency(value) : '—'}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,557 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import {
+  ArrowLeftIcon,
+  ArrowUturnLeftIcon,
+  DocumentTextIcon,
+  EyeIcon,
+  PlusIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import { TradingMode } from '@/services/tradingBot';
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  PLACEHOLDER_GROUP_LABELS,
+  PlaceholderGroup,
+  PROMPT_PLACEHOLDERS,
+  PromptTemplate,
+  PromptTemplateInput,
+  PromptTemplateVersion,
+  promptTemplateService,
+} from '@/services/promptTemplates';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+
+// Prevent static generation for this page
+export const dynamic = 'force-dynamic';
+
+const TIMEFRAMES = ['5m', '15m', '30m', '1h', '4h', '1d'];
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm';
+
+const emptyDraft = (): PromptTemplateInput => ({
+  name: '',
+  description: '',
+  body: DEFAULT_PROMPT_TEMPLATE,
+  change_note: '',
+});
+
+export default function PromptTemplatesPage() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  // null = creating a new template
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PromptTemplateInput>(emptyDraft);
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  const [previewSymbol, setPreviewSymbol] = useState('BTCUSDT');
+  const [previewMode, setPreviewMode] = useState<TradingMode>('spot');
+  const [mainTimeframe, setMainTimeframe] = useState('1h');
+  const [higherTimeframe, setHigherTimeframe] = useState('4h');
+  const [preview, setPreview] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  const {
+    data: templates = [],
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ['trading-bots', 'prompt-templates'],
+    queryFn: () => promptTemplateService.getTemplates(),
+  });
+
+  const { data: versions = [], isLoading: loadingVersions } = useQuery({
+    queryKey: ['trading-bots', 'prompt-templates', selectedId, 'versions'],
+    queryFn: () => promptTemplateService.getTemplateVersions(selectedId ?? ''),
+    enabled: !!selectedId,
+  });
+
+  const selected = templates.find(template => template.id === selectedId);
+  const validationError = promptTemplateService.validateTemplate(draft);
+  const usedPlaceholders = useMemo(
+    () => new Set(promptTemplateService.extractPlaceholders(draft.body)),
+    [draft.body],
+  );
+  const hasChanges =
+    !selected ||
+    draft.body !== selected.body ||
+    draft.name !== selected.name ||
+    (draft.description ?? '') !== (selected.description ?? '');
+
+  const updateDraft = <K extends keyof PromptTemplateInput>(
+    key: K,
+    value: PromptTemplateInput[K],
+  ) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const selectTemplate = (template: PromptTemplate | null) => {
+    setSelectedId(template?.id ?? null);
+    setDraft(
+      template
+        ? {
+            name: template.name,
+            description: template.description ?? '',
+            body: template.body,
+            change_note: '',
+          }
+        : emptyDraft(),
+    );
+    setPreview(null);
+    setPreviewError(null);
+  };
+
+  const insertPlaceholder = (key: string) => {
+    const token = `{{${key}}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? draft.body.length;
+    const end = textarea?.selectionEnd ?? draft.body.length;
+    updateDraft('body', draft.body.slice(0, start) + token + draft.body.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const restoreVersion = (version: PromptTemplateVersion) => {
+    setDraft(prev => ({
+      ...prev,
+      body: version.body,
+      change_note: `Restore v${version.version}`,
+    }));
+    toast.success(`Loaded v${version.version}. Save to make it the latest version.`);
+  };
+
+  const handlePreview = async () => {
+    if (!previewSymbol.trim()) {
+      setPreviewError('Enter a symbol to preview');
+      return;
+    }
+
+    setPreviewing(true);
+    setPreviewError(null);
+    try {
+      const context = await promptTemplateService.buildPreviewContext(
+        previewSymbol.trim().toUpperCase(),
+        mainTimeframe,
+        higherTimeframe,
+        previewMode,
+      );
+      setPreview(promptTemplateService.renderPrompt(draft.body, context));
+    } catch (err) {
+      setPreview(null);
+      setPreviewError(err instanceof Error ? err.message : 'Failed to render preview');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = selectedId
+        ? await promptTemplateService.updateTemplate(selectedId, draft)
+        : await promptTemplateService.createTemplate(draft);
+      await queryClient.invalidateQueries({ queryKey: ['trading-bots', 'prompt-templates'] });
+      setSelectedId(saved.id);
+      setDraft(prev => ({ ...prev, change_note: '' }));
+      toast.success(`Saved ${saved.name} v${saved.latest_version}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    if (
+      !window.confirm(
+        `Delete the "${selected.name}" template? Bots using it fall back to the built-in prompt.`,
+      )
+    ) {
+      return;
+    }
+
+    setDeleting(true);
+    try {
+      await promptTemplateService.deleteTemplate(selected.id);
+      queryClient.setQueryData<PromptTemplate[]>(['trading-bots', 'prompt-templates'], prev =>
+        (prev ?? []).filter(template => template.id !== selected.id),
+      );
+      selectTemplate(null);
+      toast.success('Template deleted');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete template');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const placeholderGroups = Object.keys(PLACEHOLDER_GROUP_LABELS) as PlaceholderGroup[];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => router.push('/trading-bots')}
+              className="text-gray-500 hover:text-gray-700"
+              title="Back to Trading Bots"
+            >
+              <ArrowLeftIcon className="h-6 w-6" />
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+                <DocumentTextIcon className="h-7 w-7 text-primary-600" />
+                Prompt Templates
+              </h1>
+              <p className="text-sm text-gray-600">
+                Write the analysis prompt your AI Signal bots send to the model
+              </p>
+            </div>
+          </div>
+          <Button onClick={() => selectTemplate(null)}>
+            <PlusIcon className="h-5 w-5 mr-2" />
+            New Template
+          </Button>
+        </div>
+
+        {error ? (
+          <ErrorMessage message={error.message || 'Failed to load prompt templates'} />
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            {/* Template list */}
+            <div className="bg-white rounded-lg shadow-sm p-4 h-fit">
+              <h2 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-3">
+                Your Templates
+              </h2>
+              {isLoading ? (
+                <div className="flex justify-center py-6">
+                  <LoadingSpinner size="md" />
+                </div>
+              ) : templates.length === 0 ? (
+                <p className="text-sm text-gray-600">No templates yet.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {templates.map(template => (
+                    <li key={template.id}>
+                      <button
+                        type="button"
+                        onClick={() => selectTemplate(template)}
+                        className={`w-full text-left px-3 py-2 rounded-md text-sm ${
+                          template.id === selectedId
+                            ? 'bg-primary-50 text-primary-700'
+                            : 'text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        <span className="font-medium">{template.name}</span>
+                        <span className="ml-2 text-xs text-gray-500">
+                          v{template.latest_version}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Editor */}
+            <div className="lg:col-span-3 space-y-6">
+              <div className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-lg font-semibold">
+                    {selected ? `Edit ${selected.name}` : 'New Template'}
+                  </h2>
+                  {selected && (
+                    <button
+                      type="button"
+                      onClick={handleDelete}
+                      disabled={deleting}
+                      className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                      title="Delete Template"
+                    >
+                      <TrashIcon className="h-5 w-5" />
+                    </button>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label
+                      htmlFor="template_name"
+                      className="block text-sm font-medium text-gray-700"
+                    >
+                      Name *
+                    </label>
+                    <input
+                      type="text"
+                      id="template_name"
+                      value={draft.name}
+                      onChange={e => updateDraft('name', e.target.value)}
+                      placeholder="Momentum with position context"
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="template_description"
+                      className="block text-sm font-medium text-gray-700"
+                    >
+                      Description
+                    </label>
+                    <input
+                      type="text"
+                      id="template_description"
+                      value={draft.description ?? ''}
+                      onChange={e => updateDraft('description', e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label
+                    htmlFor="template_body"
+                    className="block text-sm font-medium text-gray-700"
+                  >
+                    Prompt *
+                  </label>
+                  <textarea
+                    id="template_body"
+                    ref={bodyRef}
+                    rows={14}
+                    value={draft.body}
+                    onChange={e => updateDraft('body', e.target.value)}
+                    className={`${inputClassName} font-mono text-xs`}
+                  />
+                  {validationError && (
+                    <p className="mt-1 text-xs text-red-600">{validationError}</p>
+                  )}
+                </div>
+
+                {/* Placeholder palette */}
+                <div className="space-y-2">
+                  <p className="text-xs text-gray-500">
+                    Click a placeholder to insert it at the cursor. Missing values render as
+                    &quot;n/a&quot;.
+                  </p>
+                  {placeholderGroups.map(group => (
+                    <div key={group} className="flex flex-wrap items-center gap-1">
+                      <span className="text-xs font-medium text-gray-700 w-36">
+                        {PLACEHOLDER_GROUP_LABELS[group]}
+                      </span>
+                      {PROMPT_PLACEHOLDERS.filter(placeholder => placeholder.group === group).map(
+                        placeholder => (
+                          <button
+                            key={placeholder.key}
+                            type="button"
+                            onClick={() => insertPlaceholder(placeholder.key)}
+                            title={placeholder.description}
+                            className={`px-2 py-0.5 rounded font-mono text-xs ${
+                              usedPlaceholders.has(placeholder.key)
+                                ? 'bg-primary-100 text-primary-700'
+                                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                            }`}
+                          >
+                            {placeholder.key}
+                          </button>
+                        ),
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex flex-col gap-3 md:flex-row md:items-end">
+                  <div className="flex-1">
+                    <label
+                      htmlFor="change_note"
+                      className="block text-sm font-medium text-gray-700"
+                    >
+                      Change Note
+                    </label>
+                    <input
+                      type="text"
+                      id="change_note"
+                      value={draft.change_note ?? ''}
+                      onChange={e => updateDraft('change_note', e.target.value)}
+                      placeholder={selected ? 'What changed in this version?' : 'Initial version'}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <Button
+                    onClick={handleSave}
+                    disabled={saving || !hasChanges || !!validationError}
+                  >
+                    {saving
+                      ? 'Saving...'
+                      : selected
+                        ? `Save as v${selected.latest_version + 1}`
+                        : 'Create Template'}
+                  </Button>
+                </div>
+              </div>
+
+              {/* Preview */}
+              <div className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+                <h2 className="text-lg font-semibold flex items-center gap-2">
+                  <EyeIcon className="h-5 w-5" />
+                  Preview
+                </h2>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+                  <div>
+                    <label
+                      htmlFor="preview_symbol"
+                      className="block text-xs font-medium text-gray-700"
+                    >
+                      Symbol
+                    </label>
+                    <input
+                      type="text"
+                      id="preview_symbol"
+                      value={previewSymbol}
+                      onChange={e => setPreviewSymbol(e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="preview_mode"
+                      className="block text-xs font-medium text-gray-700"
+                    >
+                      Market
+                    </label>
+                    <select
+                      id="preview_mode"
+                      value={previewMode}
+                      onChange={e => setPreviewMode(e.target.value as TradingMode)}
+                      className={inputClassName}
+                    >
+                      <option value="spot">Spot</option>
+                      <option value="futures">Futures</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="preview_main_tf"
+                      className="block text-xs font-medium text-gray-700"
+                    >
+                      Main Timeframe
+                    </label>
+                    <select
+                      id="preview_main_tf"
+                      value={mainTimeframe}
+                      onChange={e => setMainTimeframe(e.target.value)}
+                      className={inputClassName}
+                    >
+                      {TIMEFRAMES.map(timeframe => (
+                        <option key={timeframe} value={timeframe}>
+                          {timeframe}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="preview_higher_tf"
+                      className="block text-xs font-medium text-gray-700"
+                    >
+                      Higher Timeframe
+                    </label>
+                    <select
+                      id="preview_higher_tf"
+                      value={higherTimeframe}
+                      onChange={e => setHigherTimeframe(e.target.value)}
+                      className={inputClassName}
+                    >
+                      {TIMEFRAMES.map(timeframe => (
+                        <option key={timeframe} value={timeframe}>
+                          {timeframe}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <Button variant="outline" onClick={handlePreview} disabled={previewing}>
+                    {previewing ? 'Rendering...' : 'Render Preview'}
+                  </Button>
+                </div>
+                {previewError && <ErrorMessage message={previewError} />}
+                {preview !== null && (
+                  <>
+                    <pre className="whitespace-pre-wrap rounded-md bg-gray-50 border border-gray-200 p-4 font-mono text-xs text-gray-800">
+                      {preview}
+                    </pre>
+                    <p className="text-xs text-gray-500">
+                      Rendered with current market data and no open position. Live analyses also
+                      fill in the bot&apos;s position, so their prompts may differ.
+                    </p>
+                  </>
+                )}
+              </div>
+
+              {/* Version history */}
+              {selected && (
+                <div className="bg-white rounded-lg shadow-sm p-6">
+                  <h2 className="text-lg font-semibold mb-4">Version History</h2>
+                  {loadingVersions ? (
+                    <div className="flex justify-center py-6">
+                      <LoadingSpinner size="md" />
+                    </div>
+                  ) : (
+                    <ul className="divide-y divide-gray-200">
+                      {versions.map(version => (
+                        <li key={version.id} className="flex items-center justify-between py-3">
+                          <div>
+                            <p className="text-sm font-medium text-gray-900">
+                              v{version.version}
+                              {version.version === selected.latest_version && (
+                                <span className="ml-2 text-xs font-normal text-green-600">
+                                  latest
+                                </span>
+                              )}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {new Date(version.created_at).toLocaleString()}
+                              {version.change_note ? ` · ${version.change_note}` : ''}
+                            </p>
+                          </div>
+                          {version.body !== draft.body && (
+                            <button
+                              type="button"
+                              onClick={() => restoreVersion(version)}
+                              className="flex items-center text-sm text-primary-600 hover:text-primary-800"
+                            >
+                              <ArrowUturnLeftIcon className="h-4 w-4 mr-1" />
+                              Restore
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
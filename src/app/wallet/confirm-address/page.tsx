@@ -0,0 +1,94 @@
+'use client';
+
+import { useEffect, useRef, useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import {
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  ShieldCheckIcon,
+} from '@heroicons/react/24/outline';
+import withdrawalService, { AddressBookEntry } from '@/services/withdrawals';
+import { networkRegistry } from '@/services/networks';
+
+// Loading component for Suspense fallback
+const ConfirmAddressLoading = () => (
+  <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+  </div>
+);
+
+// Landing page for the link in the address-book confirmation email
+function ConfirmAddressContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [entry, setEntry] = useState<AddressBookEntry | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Tokens are single-use; guard against the effect running twice in development
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token) {
+      setError('This confirmation link is missing its token.');
+      return;
+    }
+    if (submitted.current) return;
+    submitted.current = true;
+
+    withdrawalService
+      .confirmAddressBookEntry(token)
+      .then(setEntry)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to confirm address'));
+  }, [token]);
+
+  if (!entry && !error) {
+    return <ConfirmAddressLoading />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="max-w-md w-full bg-white rounded-lg border border-gray-200 p-6 text-center">
+        {entry ? (
+          <>
+            <CheckCircleIcon className="h-12 w-12 text-green-500 mx-auto mb-4" />
+            <h1 className="text-lg font-semibold text-gray-900">Address confirmed</h1>
+            <p className="mt-2 text-sm text-gray-600">
+              <strong>{entry.name}</strong> on {networkRegistry.get(entry.network)?.name}
+            </p>
+            <p className="mt-1 text-xs text-gray-500 font-mono break-all">{entry.address}</p>
+            {entry.unlocks_at && (
+              <div className="mt-4 bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-700 flex items-start space-x-2 text-left">
+                <ShieldCheckIcon className="h-5 w-5 text-blue-400 flex-shrink-0" />
+                <span>
+                  You can withdraw to this address from{' '}
+                  {new Date(entry.unlocks_at).toLocaleString()}. If you did not add it, change your
+                  password and contact support now.
+                </span>
+              </div>
+            )}
+          </>
+        ) : (
+          <>
+            <ExclamationTriangleIcon className="h-12 w-12 text-red-400 mx-auto mb-4" />
+            <h1 className="text-lg font-semibold text-gray-900">Could not confirm address</h1>
+            <p className="mt-2 text-sm text-gray-600">{error}</p>
+          </>
+        )}
+        <Link
+          href="/wallet"
+          className="mt-6 inline-block px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Back to Wallet
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+export default function ConfirmAddressPage() {
+  return (
+    <Suspense fallback={<ConfirmAddressLoading />}>
+      <ConfirmAddressContent />
+    </Suspense>
+  );
+}
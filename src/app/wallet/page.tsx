@@ -1,22 +1,28 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
 import {
   WalletIcon,
   ArrowDownTrayIcon,
   ArrowUpTrayIcon,
   ArrowsRightLeftIcon,
+  ArrowPathIcon,
   ChartBarIcon,
   FunnelIcon,
   MagnifyingGlassIcon,
   ExclamationTriangleIcon,
+  QueueListIcon,
 } from '@heroicons/react/24/outline';
 import WalletCard from '../../components/wallet/WalletCard';
 import PointsCard from '../../components/wallet/PointsCard';
 import TransactionList from '../../components/wallet/TransactionList';
 import DepositModal from '../../components/wallet/DepositModal';
+import DepositTracker from '../../components/wallet/DepositTracker';
 import WithdrawalForm from '../../components/wallet/WithdrawalForm';
+import ConvertForm from '../../components/wallet/ConvertForm';
 import walletService, {
+  Currency,
   WalletSummary,
   TransactionType,
   TransactionStatus,
@@ -25,7 +31,10 @@ import loyaltyService, { LoyaltyAccount } from '../../services/loyalty';
 import { useAuth } from '../../contexts/AuthContext';
 import { DepositCurrency } from '@/services/deposits';
 
-type ViewMode = 'overview' | 'deposit' | 'withdraw' | 'transfer';
+type ViewMode = 'overview' | 'deposit' | 'withdraw' | 'transfer' | 'convert';
+
+const isWalletCurrency = (value: string | null): value is Currency =>
+  value === 'USDT' || value === 'POL' || value === 'USD';
 
 const WalletPage: React.FC = () => {
   const { user } = useAuth();
@@ -35,6 +44,7 @@ const WalletPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('overview');
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [convertPair, setConvertPair] = useState<{ from?: Currency; to?: Currency }>({});
 
   // Modals and forms
   const [showDepositModal, setShowDepositModal] = useState(false);
@@ -96,6 +106,20 @@ const WalletPage: React.FC = () => {
     loadWalletData();
   }, [loadWalletData]);
 
+  // Deep links such as /wallet?view=convert&to=USDT from the invoice payment modal
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (params.get('view') === 'convert') {
+      const from = params.get('from');
+      const to = params.get('to');
+      setConvertPair({
+        from: isWalletCurrency(from) ? from : undefined,
+        to: isWalletCurrency(to) ? to : undefined,
+      });
+      setViewMode('convert');
+    }
+  }, []);
+
   // Refresh check-in stats when page becomes visible (user returns to page)
   useEffect(() => {
     const handleVisibilityChange = () => {
@@ -125,6 +149,15 @@ const WalletPage: React.FC = () => {
     }
   };
 
+  // Reload balances in place; loadWalletData would swap the page for the loading screen
+  const handleDepositCredited = useCallback(async () => {
+    try {
+      setWalletSummary(await walletService.getWalletSummary());
+    } catch (err) {
+      console.error('Failed to refresh wallet summary:', err);
+    }
+  }, []);
+
   const handleWithdrawalSuccess = (transactionId: string) => {
     setShowWithdrawalSuccess(transactionId);
     setViewMode('overview');
@@ -135,6 +168,11 @@ const WalletPage: React.FC = () => {
     setViewMode('overview');
   };
 
+  const handleConversionSuccess = () => {
+    setViewMode('overview');
+    handleDepositCredited();
+  };
+
   // const getExchangeRates = async () => {
   //   try {
   //     return await walletService.getExchangeRates();
@@ -224,6 +262,14 @@ const WalletPage: React.FC = () => {
                 <ArrowsRightLeftIcon className="h-4 w-4 mr-2" />
                 Transfer
               </button>
+
+              <button
+                onClick={() => handleViewModeChange('convert')}
+                className="inline-flex items-center justify-center px-3 sm:px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors text-sm sm:text-base"
+              >
+                <ArrowPathIcon className="h-4 w-4 mr-2" />
+                Convert
+              </button>
             </div>
           </div>
 
@@ -305,10 +351,13 @@ const WalletPage: React.FC = () => {
               </div>
             )}
 
+            {/* Incoming deposits, refreshes balances once credited */}
+            <DepositTracker notify onCredited={handleDepositCredited} className="mb-8" />
+
             {/* Quick Actions */}
             <div className="bg-white rounded-lg border border-gray-200 p-6 mb-8">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h3>
-              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
                 <button
                   onClick={() => handleViewModeChange('deposit')}
                   className="p-4 rounded-lg border-2 border-dashed border-green-300 text-green-700 hover:border-green-400 hover:bg-green-50 transition-all"
@@ -335,6 +384,15 @@ const WalletPage: React.FC = () => {
                   <div className="font-medium">Transfer Funds</div>
                   <div className="text-sm opacity-75">Send to other users</div>
                 </button>
+
+                <Link
+                  href="/wallet/payouts"
+                  className="p-4 rounded-lg border-2 border-dashed border-purple-300 text-purple-700 hover:border-purple-400 hover:bg-purple-50 transition-all text-center"
+                >
+                  <QueueListIcon className="h-8 w-8 mx-auto mb-2" />
+                  <div className="font-medium">Batch Payouts</div>
+                  <div className="text-sm opacity-75">Pay many addresses or schedule</div>
+                </Link>
               </div>
             </div>
 
@@ -400,6 +458,8 @@ const WalletPage: React.FC = () => {
                         <option value="transfer">Transfers</option>
                         <option value="purchase">Purchases</option>
                         <option value="refund">Refunds</option>
+                        <option value="conversion_out">Conversions (sent)</option>
+                        <option value="conversion_in">Conversions (received)</option>
                       </select>
                     </div>
 
@@ -459,6 +519,19 @@ const WalletPage: React.FC = () => {
           </div>
         )}
 
+        {/* Currency Conversion */}
+        {viewMode === 'convert' && (
+          <div className="max-w-2xl mx-auto">
+            <ConvertForm
+              initialFrom={convertPair.from}
+              initialTo={convertPair.to}
+              onSuccess={handleConversionSuccess}
+              onCancel={() => setViewMode('overview')}
+              className="mt-6"
+            />
+          </div>
+        )}
+
         {/* Transfer Form (Placeholder) */}
         {viewMode === 'transfer' && (
           <div className="max-w-2xl mx-auto">
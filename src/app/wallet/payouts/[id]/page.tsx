@@ -0,0 +1,170 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeftIcon, LinkIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import payoutService, { PayoutBatch } from '@/services/payouts';
+import withdrawalService from '@/services/withdrawals';
+import { networkRegistry } from '@/services/networks';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+
+// Prevent static generation for this page
+export const dynamic = 'force-dynamic';
+
+const isInProgress = (batch?: PayoutBatch) =>
+  batch?.status === 'pending' || batch?.status === 'processing';
+
+export default function PayoutBatchPage() {
+  const params = useParams();
+  const batchId = params.id as string;
+  const queryClient = useQueryClient();
+  const [cancelling, setCancelling] = useState(false);
+
+  const {
+    data: batch,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey: ['wallet', 'payout-batches', batchId],
+    queryFn: () => payoutService.getBatch(batchId),
+    // Rows settle one by one while the batch runs
+    refetchInterval: query => (isInProgress(query.state.data) ? 10000 : false),
+  });
+
+  const handleCancel = async () => {
+    if (!confirm('Cancel the withdrawals in this batch that have not been sent yet?')) return;
+
+    setCancelling(true);
+    try {
+      const updated = await payoutService.cancelBatch(batchId);
+      queryClient.setQueryData(['wallet', 'payout-batches', batchId], updated);
+      toast.success('Unsent withdrawals cancelled');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to cancel batch');
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        <Link
+          href="/wallet/payouts"
+          className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <ArrowLeftIcon className="h-4 w-4 mr-1" />
+          Back to Payouts
+        </Link>
+
+        {error || !batch ? (
+          <ErrorMessage
+            message={error instanceof Error ? error.message : 'Batch not found'}
+            showRetry
+            onRetry={() => refetch()}
+          />
+        ) : (
+          <div className="bg-white rounded-lg border border-gray-200 p-6">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+              <div>
+                <h1 className="text-xl font-bold text-gray-900">{batch.name}</h1>
+                <p className="text-sm text-gray-500">
+                  Created {new Date(batch.created_at).toLocaleString()} · {batch.items.length}{' '}
+                  withdrawals
+                </p>
+              </div>
+              <div className="flex items-center space-x-3">
+                <span
+                  className={`inline-flex px-2 py-1 rounded-full text-xs font-medium border ${
+                    payoutService.getBatchStatusDisplayInfo(batch.status).color
+                  }`}
+                >
+                  {payoutService.getBatchStatusDisplayInfo(batch.status).label}
+                </span>
+                {isInProgress(batch) && (
+                  <button
+                    onClick={handleCancel}
+                    disabled={cancelling}
+                    className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+                  >
+                    {cancelling ? 'Cancelling...' : 'Cancel Unsent'}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">#</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Address</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Network</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-500">Amount</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-500">Fee</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {batch.items.map((item, index) => {
+                    const status = withdrawalService.getStatusDisplayInfo(item.status);
+                    return (
+                      <tr key={item.id}>
+                        <td className="px-3 py-2 text-gray-500">{item.line ?? index + 1}</td>
+                        <td className="px-3 py-2 font-mono text-xs break-all">
+                          {item.recipient_address}
+                        </td>
+                        <td className="px-3 py-2">
+                          {networkRegistry.get(item.network)?.name ?? item.network}
+                        </td>
+                        <td className="px-3 py-2 text-right whitespace-nowrap">
+                          {item.amount} {item.currency}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-600">{item.fee_amount}</td>
+                        <td className="px-3 py-2">
+                          <span
+                            className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium border ${status.color}`}
+                          >
+                            {status.label}
+                          </span>
+                          {item.transaction_hash && (
+                            <a
+                              href={networkRegistry.getExplorerUrl(
+                                item.network,
+                                item.transaction_hash,
+                                'tx',
+                              )}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="ml-2 inline-flex items-center text-xs text-blue-600 hover:text-blue-800"
+                            >
+                              Tx <LinkIcon className="h-3 w-3 ml-0.5" />
+                            </a>
+                          )}
+                          {item.error && <div className="text-xs text-red-600">{item.error}</div>}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
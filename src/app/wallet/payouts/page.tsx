@@ -0,0 +1,123 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import {
+  ArrowLeftIcon,
+  ArrowUpTrayIcon,
+  CalendarIcon,
+  ClipboardDocumentListIcon,
+} from '@heroicons/react/24/outline';
+import BatchPayoutUpload from '@/components/wallet/BatchPayoutUpload';
+import ScheduledPayouts from '@/components/wallet/ScheduledPayouts';
+import payoutService from '@/services/payouts';
+
+type PayoutTab = 'upload' | 'history' | 'scheduled';
+
+const TABS: Array<{ id: PayoutTab; name: string; icon: typeof ArrowUpTrayIcon }> = [
+  { id: 'upload', name: 'Batch Upload', icon: ArrowUpTrayIcon },
+  { id: 'history', name: 'Batches', icon: ClipboardDocumentListIcon },
+  { id: 'scheduled', name: 'Scheduled', icon: CalendarIcon },
+];
+
+export default function PayoutsPage() {
+  const [activeTab, setActiveTab] = useState<PayoutTab>('upload');
+
+  const { data: batches = [], isLoading } = useQuery({
+    queryKey: ['wallet', 'payout-batches'],
+    queryFn: () => payoutService.getBatches(),
+    enabled: activeTab === 'history',
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        <Link
+          href="/wallet"
+          className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <ArrowLeftIcon className="h-4 w-4 mr-1" />
+          Back to Wallet
+        </Link>
+
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">Payouts</h1>
+          <p className="text-sm text-gray-600">
+            Pay many addresses at once from a CSV file, or schedule recurring withdrawals
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg border border-gray-200">
+          <div className="border-b border-gray-200 px-6">
+            <nav className="flex space-x-6">
+              {TABS.map(tab => {
+                const Icon = tab.icon;
+                return (
+                  <button
+                    key={tab.id}
+                    onClick={() => setActiveTab(tab.id)}
+                    className={`flex items-center py-4 text-sm font-medium border-b-2 transition-colors ${
+                      activeTab === tab.id
+                        ? 'border-blue-600 text-blue-600'
+                        : 'border-transparent text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    <Icon className="h-4 w-4 mr-2" />
+                    {tab.name}
+                  </button>
+                );
+              })}
+            </nav>
+          </div>
+
+          <div className="p-6">
+            {activeTab === 'upload' && <BatchPayoutUpload />}
+
+            {activeTab === 'scheduled' && <ScheduledPayouts />}
+
+            {activeTab === 'history' &&
+              (isLoading ? (
+                <div className="text-center py-4">
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+                </div>
+              ) : batches.length === 0 ? (
+                <p className="text-sm text-gray-500">No batches yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {batches.map(batch => {
+                    const status = payoutService.getBatchStatusDisplayInfo(batch.status);
+                    const completed = batch.items.filter(
+                      item => item.status === 'completed',
+                    ).length;
+                    return (
+                      <li key={batch.id}>
+                        <Link
+                          href={`/wallet/payouts/${batch.id}`}
+                          className="flex items-center justify-between p-4 hover:bg-gray-50"
+                        >
+                          <div>
+                            <div className="font-medium text-gray-900">{batch.name}</div>
+                            <div className="text-xs text-gray-500">
+                              {new Date(batch.created_at).toLocaleString()} · {completed}/
+                              {batch.items.length} completed
+                              {batch.schedule_id && ' · Scheduled'}
+                            </div>
+                          </div>
+                          <span
+                            className={`inline-flex px-2 py-1 rounded-full text-xs font-medium border ${status.color}`}
+                          >
+                            {status.label}
+                          </span>
+                        </Link>
+                      </li>
+                    );
+                  })}
+                </ul>
+              ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,482 @@
+'use client';
+
+import React, { FormEvent, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import {
+  BookmarkIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ClockIcon,
+  ListBulletIcon,
+  MagnifyingGlassIcon,
+  PresentationChartLineIcon,
+  TrashIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+
+import { AIAnalysisLog, aiAnalysisService } from '@/services/aiAnalysis';
+import {
+  AnalysisSearchCriteria,
+  analysisSearchService,
+  FacetCount,
+  HighlightSegment,
+  SavedAnalysisSearch,
+  SEARCHABLE_FIELDS,
+  SignalAction,
+  STRENGTH_BANDS,
+  StrengthBand,
+} from '@/services/analysisSearch';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+import { AnalysisTimeline } from './AnalysisTimeline';
+
+interface AnalysisLogSearchProps {
+  botId: string;
+  onViewDetails: (log: AIAnalysisLog) => void;
+}
+
+type ListFacetKey = 'symbols' | 'actions' | 'strength_bands' | 'models';
+type ResultView = 'list' | 'timeline';
+
+const PAGE_SIZE = 25;
+const TIMELINE_PAGE_SIZE = 200;
+
+const BOOLEAN_FACET_LABELS = {
+  executed: { true: 'Trade executed', false: 'Not executed' },
+  errored: { true: 'Errored', false: 'Succeeded' },
+};
+
+export const AnalysisLogSearch: React.FC<AnalysisLogSearchProps> = ({ botId, onViewDetails }) => {
+  const queryClient = useQueryClient();
+  const [textInput, setTextInput] = useState('');
+  const [criteria, setCriteria] = useState<AnalysisSearchCriteria>({});
+  const [offset, setOffset] = useState(0);
+  const [view, setView] = useState<ResultView>('list');
+  const [saveName, setSaveName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const pageSize = view === 'timeline' ? TIMELINE_PAGE_SIZE : PAGE_SIZE;
+
+  const { data, isLoading, isFetching, error } = useQuery({
+    queryKey: ['ai-analysis', 'search', botId, criteria, offset, pageSize],
+    queryFn: () =>
+      analysisSearchService.search({ ...criteria, bot_id: botId, limit: pageSize, offset }),
+    placeholderData: previous => previous,
+  });
+
+  const { data: savedSearches = [] } = useQuery({
+    queryKey: ['ai-analysis', 'saved-searches', botId],
+    queryFn: () => analysisSearchService.getSavedSearches(botId),
+  });
+
+  const terms = analysisSearchService.parseSearchTerms(criteria.text);
+  const results = data?.results ?? [];
+  const total = data?.total ?? 0;
+
+  const applyCriteria = (next: AnalysisSearchCriteria) => {
+    setCriteria(next);
+    setOffset(0);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    applyCriteria({ ...criteria, text: textInput.trim() || undefined });
+  };
+
+  const toggleFacet = (key: ListFacetKey, value: string) => {
+    const current = (criteria[key] as string[] | undefined) ?? [];
+    const next = current.includes(value)
+      ? current.filter(entry => entry !== value)
+      : [...current, value];
+    applyCriteria({ ...criteria, [key]: next.length > 0 ? next : undefined });
+  };
+
+  const toggleBooleanFacet = (key: 'executed' | 'errored', value: boolean) => {
+    applyCriteria({ ...criteria, [key]: criteria[key] === value ? undefined : value });
+  };
+
+  const loadSavedSearch = (saved: SavedAnalysisSearch) => {
+    setTextInput(saved.criteria.text ?? '');
+    applyCriteria(saved.criteria);
+  };
+
+  const clearSearch = () => {
+    setTextInput('');
+    applyCriteria({});
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saved = await analysisSearchService.saveSearch(botId, saveName, criteria);
+      queryClient.setQueryData<SavedAnalysisSearch[]>(
+        ['ai-analysis', 'saved-searches', botId],
+        prev => [...(prev ?? []), saved],
+      );
+      setSaveName('');
+      toast.success('Search saved');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save search');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteSaved = async (saved: SavedAnalysisSearch) => {
+    try {
+      await analysisSearchService.deleteSavedSearch(botId, saved.id);
+      queryClient.setQueryData<SavedAnalysisSearch[]>(
+        ['ai-analysis', 'saved-searches', botId],
+        prev => (prev ?? []).filter(entry => entry.id !== saved.id),
+      );
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete saved search');
+    }
+  };
+
+  const facets = data?.facets;
+
+  return (
+    <div className="space-y-6">
+      {/* Search bar */}
+      <div className="bg-white rounded-lg shadow-sm p-4 space-y-3">
+        <form onSubmit={handleSubmit} className="flex flex-col gap-2 md:flex-row">
+          <div className="relative flex-1">
+            <MagnifyingGlassIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              value={textInput}
+              onChange={e => setTextInput(e.target.value)}
+              placeholder='Search reasoning, risk and AI responses, e.g. "double top" divergence'
+              className="pl-9"
+            />
+          </div>
+          <Button type="submit">Search</Button>
+          {analysisSearchService.hasCriteria(criteria) && (
+            <Button type="button" variant="outline" onClick={clearSearch}>
+              <XMarkIcon className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+          )}
+        </form>
+
+        <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+          <div className="flex flex-wrap items-center gap-2">
+            <BookmarkIcon className="h-4 w-4 text-gray-500" />
+            {savedSearches.length === 0 ? (
+              <span className="text-xs text-gray-500">No saved searches</span>
+            ) : (
+              savedSearches.map(saved => (
+                <span
+                  key={saved.id}
+                  className="inline-flex items-center rounded-full bg-gray-100 text-xs text-gray-700"
+                >
+                  <button
+                    type="button"
+                    onClick={() => loadSavedSearch(saved)}
+                    className="pl-3 pr-1 py-1 hover:text-primary-700"
+                  >
+                    {saved.name}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteSaved(saved)}
+                    className="pr-2 py-1 text-gray-400 hover:text-red-600"
+                    title="Delete saved search"
+                  >
+                    <TrashIcon className="h-3 w-3" />
+                  </button>
+                </span>
+              ))
+            )}
+          </div>
+          {analysisSearchService.hasCriteria(criteria) && (
+            <div className="flex items-center gap-2">
+              <Input
+                value={saveName}
+                onChange={e => setSaveName(e.target.value)}
+                placeholder="Name this search"
+                className="text-sm"
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleSave}
+                disabled={saving || !saveName.trim()}
+              >
+                Save
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Facets */}
+        <div className="bg-white rounded-lg shadow-sm p-4 space-y-5 h-fit">
+          <FacetGroup
+            title="Symbol"
+            counts={facets?.symbol ?? []}
+            selected={criteria.symbols ?? []}
+            onToggle={value => toggleFacet('symbols', value)}
+          />
+          <FacetGroup
+            title="Action"
+            counts={facets?.action ?? []}
+            selected={criteria.actions ?? []}
+            onToggle={value => toggleFacet('actions', value as SignalAction)}
+            label={value => aiAnalysisService.getSignalActionDisplay(value).label}
+          />
+          <FacetGroup
+            title="Strength"
+            counts={facets?.strength_band ?? []}
+            selected={criteria.strength_bands ?? []}
+            onToggle={value => toggleFacet('strength_bands', value as StrengthBand)}
+            label={value => STRENGTH_BANDS.find(band => band.value === value)?.label ?? value}
+          />
+          <FacetGroup
+            title="Model"
+            counts={facets?.model ?? []}
+            selected={criteria.models ?? []}
+            onToggle={value => toggleFacet('models', value)}
+          />
+          {(['executed', 'errored'] as const).map(key => (
+            <FacetGroup
+              key={key}
+              title={key === 'executed' ? 'Execution' : 'Errors'}
+              counts={facets?.[key] ?? []}
+              selected={criteria[key] === undefined ? [] : [String(criteria[key])]}
+              onToggle={value => toggleBooleanFacet(key, value === 'true')}
+              label={value => BOOLEAN_FACET_LABELS[key][value === 'true' ? 'true' : 'false']}
+            />
+          ))}
+        </div>
+
+        {/* Results */}
+        <div className="lg:col-span-3 space-y-4">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-600">
+              {total} matching {total === 1 ? 'analysis' : 'analyses'}
+              {isFetching && !isLoading && <span className="ml-2 text-gray-400">Updating…</span>}
+            </span>
+            <div className="flex items-center gap-1">
+              {(
+                [
+                  { value: 'list', label: 'List', icon: ListBulletIcon },
+                  { value: 'timeline', label: 'Timeline', icon: PresentationChartLineIcon },
+                ] as const
+              ).map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => {
+                    setView(option.value);
+                    setOffset(0);
+                  }}
+                  className={`flex items-center gap-1 px-3 py-1 text-sm rounded-md ${
+                    view === option.value
+                      ? 'bg-primary-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  <option.icon className="h-4 w-4" />
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner size="md" />
+            </div>
+          ) : error ? (
+            <ErrorMessage message={error.message || 'Failed to search analysis logs'} />
+          ) : view === 'timeline' ? (
+            <AnalysisTimeline botId={botId} logs={results} onViewDetails={onViewDetails} />
+          ) : results.length === 0 ? (
+            <div className="bg-white rounded-lg shadow-sm p-8 text-center text-gray-600">
+              No analyses match this search.
+            </div>
+          ) : (
+            <>
+              {results.map(log => (
+                <SearchResultCard
+                  key={log.id}
+                  log={log}
+                  terms={terms}
+                  onViewDetails={onViewDetails}
+                />
+              ))}
+
+              {total > PAGE_SIZE && (
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-600">
+                    Showing {offset + 1} to {Math.min(offset + PAGE_SIZE, total)} of {total}
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setOffset(offset - PAGE_SIZE)}
+                      disabled={offset === 0}
+                    >
+                      <ChevronLeftIcon className="h-4 w-4" />
+                      Previous
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setOffset(offset + PAGE_SIZE)}
+                      disabled={!data?.has_more}
+                    >
+                      Next
+                      <ChevronRightIcon className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+          {view === 'timeline' && total > TIMELINE_PAGE_SIZE && (
+            <p className="text-xs text-gray-500">
+              The timeline shows the latest {TIMELINE_PAGE_SIZE} matches. Narrow the search or date
+              range to see older analyses.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+function FacetGroup({
+  title,
+  counts,
+  selected,
+  onToggle,
+  label = value => value,
+}: {
+  title: string;
+  counts: FacetCount[];
+  selected: string[];
+  onToggle: (value: string) => void;
+  label?: (value: string) => string;
+}) {
+  // Keep selected values visible even when the current matches no longer contain them
+  const rows = [
+    ...counts,
+    ...selected
+      .filter(value => !counts.some(count => count.value === value))
+      .map(value => ({ value, count: 0 })),
+  ];
+  if (rows.length === 0) return null;
+
+  return (
+    <div>
+      <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">{title}</h4>
+      <ul className="space-y-1">
+        {rows.map(row => (
+          <li key={row.value}>
+            <label className="flex items-center justify-between text-sm text-gray-700 cursor-pointer">
+              <span className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(row.value)}
+                  onChange={() => onToggle(row.value)}
+                  className="mr-2 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                {label(row.value)}
+              </span>
+              <span className="text-xs text-gray-500">{row.count}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-200 text-gray-900 rounded px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        ),
+      )}
+    </>
+  );
+}
+
+function SearchResultCard({
+  log,
+  terms,
+  onViewDetails,
+}: {
+  log: AIAnalysisLog;
+  terms: string[];
+  onViewDetails: (log: AIAnalysisLog) => void;
+}) {
+  const signalDisplay = aiAnalysisService.getSignalActionDisplay(log.signal_action);
+  const snippets = analysisSearchService.getSnippets(log, terms);
+
+  return (
+    <div
+      className="bg-white rounded-lg shadow-sm p-4 hover:shadow-md transition-shadow cursor-pointer"
+      onClick={() => onViewDetails(log)}
+    >
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm text-gray-500">
+          <ClockIcon className="h-4 w-4 inline mr-1" />
+          {aiAnalysisService.formatTimestamp(log.timestamp)}
+        </span>
+        <Badge variant="outline">{log.symbol}</Badge>
+        {log.signal_action && (
+          <Badge className={signalDisplay.color}>
+            {signalDisplay.icon} {signalDisplay.label}
+          </Badge>
+        )}
+        {log.signal_strength !== undefined && (
+          <span
+            className={`text-sm font-medium ${aiAnalysisService.getSignalStrengthColor(log.signal_strength)}`}
+          >
+            {aiAnalysisService.formatSignalStrength(log.signal_strength)}
+          </span>
+        )}
+        <span className="text-xs text-gray-500">
+          {log.ai_provider}/{log.ai_model}
+        </span>
+        {log.trade_executed && <Badge className="bg-green-100 text-green-700">Executed</Badge>}
+        {aiAnalysisService.hasError(log) && (
+          <Badge className="bg-red-100 text-red-700">Error</Badge>
+        )}
+      </div>
+
+      <div className="mt-3 space-y-1 text-sm text-gray-700">
+        {snippets.length > 0 ? (
+          snippets.map(snippet => (
+            <p key={snippet.field}>
+              <strong>
+                {SEARCHABLE_FIELDS.find(entry => entry.field === snippet.field)?.label}:
+              </strong>{' '}
+              <Highlighted segments={snippet.segments} />
+            </p>
+          ))
+        ) : (
+          <p>
+            <strong>Reason:</strong> {log.reason_analysis.substring(0, 200)}
+            {log.reason_analysis.length > 200 && '...'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
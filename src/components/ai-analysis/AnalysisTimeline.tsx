@@ -0,0 +1,256 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { EyeIcon } from '@heroicons/react/24/outline';
+
+import { AIAnalysisLog, aiAnalysisService } from '@/services/aiAnalysis';
+import { analysisSearchService } from '@/services/analysisSearch';
+import { TradingPosition, tradingBotService } from '@/services/tradingBot';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+
+interface AnalysisTimelineProps {
+  botId: string;
+  logs: AIAnalysisLog[];
+  onViewDetails: (log: AIAnalysisLog) => void;
+}
+
+const WIDTH = 1000;
+const LABEL_WIDTH = 90;
+const LANE_HEIGHT = 44;
+const AXIS_HEIGHT = 24;
+
+const ACTION_FILL: Record<string, string> = {
+  buy: 'fill-green-500',
+  sell: 'fill-red-500',
+  hold: 'fill-gray-400',
+};
+
+const formatPnl = (value: number) => `${value >= 0 ? '+' : ''}$${value.toFixed(2)}`;
+
+// Analyses and the bot's positions on one time axis, one lane per symbol
+export const AnalysisTimeline: React.FC<AnalysisTimelineProps> = ({
+  botId,
+  logs,
+  onViewDetails,
+}) => {
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const { data: history, isLoading } = useQuery({
+    queryKey: ['trading-bots', 'position-history', botId],
+    queryFn: () => tradingBotService.getBotPositionHistory(botId),
+  });
+
+  const timeline = useMemo(() => {
+    const now = Date.now();
+    const logTimes = logs.map(log => new Date(log.timestamp).getTime());
+    const allPositions = history?.positions ?? [];
+    const positionEnd = (position: TradingPosition) =>
+      position.closed_at ? new Date(position.closed_at).getTime() : now;
+
+    const start = logTimes.length
+      ? Math.min(...logTimes)
+      : Math.min(...allPositions.map(p => new Date(p.entry_time).getTime()));
+    const end = logTimes.length
+      ? Math.max(...logTimes)
+      : Math.max(...allPositions.map(positionEnd));
+    const positions = allPositions.filter(
+      position => new Date(position.entry_time).getTime() <= end && positionEnd(position) >= start,
+    );
+    const symbols = [
+      ...new Set([...logs.map(log => log.symbol), ...positions.map(p => p.symbol)]),
+    ].sort();
+    const span = Math.max(end - start, 60 * 60 * 1000);
+
+    return { start, span, positions, symbols, positionEnd };
+  }, [logs, history]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner size="md" />
+      </div>
+    );
+  }
+
+  const { start, span, positions, symbols, positionEnd } = timeline;
+  if (symbols.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm p-8 text-center text-gray-600">
+        No analyses or positions in this range.
+      </div>
+    );
+  }
+
+  const x = (time: number) =>
+    LABEL_WIDTH + ((Math.min(time, start + span) - start) / span) * (WIDTH - LABEL_WIDTH - 10);
+  const laneTop = (symbol: string) => AXIS_HEIGHT + symbols.indexOf(symbol) * LANE_HEIGHT;
+  const height = AXIS_HEIGHT + symbols.length * LANE_HEIGHT;
+  const losingTrades = positions
+    .filter(position => position.status === 'closed' && position.total_pnl < 0)
+    .sort((a, b) => a.total_pnl - b.total_pnl);
+
+  const openTriggeringAnalysis = async (position: TradingPosition) => {
+    setResolvingId(position.id);
+    try {
+      const log = await analysisSearchService.resolveTriggeringAnalysis(position, logs);
+      if (log) {
+        onViewDetails(log);
+      } else {
+        toast.error('No analysis found for this trade');
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load the analysis');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg shadow-sm p-4 overflow-x-auto">
+        <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full min-w-[640px]">
+          {[0, 0.25, 0.5, 0.75, 1].map(fraction => {
+            const time = start + span * fraction;
+            return (
+              <g key={fraction}>
+                <line
+                  x1={x(time)}
+                  y1={AXIS_HEIGHT - 4}
+                  x2={x(time)}
+                  y2={height}
+                  className="stroke-gray-100"
+                />
+                <text
+                  x={x(time)}
+                  y={12}
+                  textAnchor={fraction === 0 ? 'start' : fraction === 1 ? 'end' : 'middle'}
+                  className="fill-gray-500 text-[10px]"
+                >
+                  {new Date(time).toLocaleString(undefined, {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}
+                </text>
+              </g>
+            );
+          })}
+
+          {symbols.map(symbol => (
+            <g key={symbol}>
+              <line
+                x1={0}
+                y1={laneTop(symbol) + LANE_HEIGHT}
+                x2={WIDTH}
+                y2={laneTop(symbol) + LANE_HEIGHT}
+                className="stroke-gray-200"
+              />
+              <text
+                x={0}
+                y={laneTop(symbol) + LANE_HEIGHT / 2 + 4}
+                className="fill-gray-700 text-[11px] font-medium"
+              >
+                {symbol}
+              </text>
+            </g>
+          ))}
+
+          {/* Positions */}
+          {positions.map(position => {
+            const left = x(new Date(position.entry_time).getTime());
+            const right = x(positionEnd(position));
+            return (
+              <rect
+                key={position.id}
+                x={left}
+                y={laneTop(position.symbol) + LANE_HEIGHT - 14}
+                width={Math.max(right - left, 3)}
+                height={8}
+                rx={2}
+                className={`cursor-pointer ${
+                  position.total_pnl >= 0 ? 'fill-green-300' : 'fill-red-300'
+                } hover:opacity-70`}
+                onClick={() => openTriggeringAnalysis(position)}
+              >
+                <title>
+                  {`${position.side.toUpperCase()} ${position.symbol} ${formatPnl(position.total_pnl)}${
+                    position.status === 'open' ? ' (open)' : ''
+                  } — click to open the analysis that triggered it`}
+                </title>
+              </rect>
+            );
+          })}
+
+          {/* Analyses */}
+          {logs.map(log => {
+            const hasError = aiAnalysisService.hasError(log);
+            return (
+              <circle
+                key={log.id}
+                cx={x(new Date(log.timestamp).getTime())}
+                cy={laneTop(log.symbol) + 14}
+                r={log.trade_executed ? 6 : 4}
+                className={`cursor-pointer ${
+                  hasError
+                    ? 'fill-white stroke-red-500'
+                    : (ACTION_FILL[log.signal_action ?? ''] ?? 'fill-gray-300')
+                } ${log.trade_executed ? 'stroke-gray-900' : ''}`}
+                strokeWidth={hasError || log.trade_executed ? 1.5 : 0}
+                onClick={() => onViewDetails(log)}
+              >
+                <title>
+                  {`${aiAnalysisService.formatTimestamp(log.timestamp)} · ${log.symbol} ${
+                    log.signal_action?.toUpperCase() ?? 'NO SIGNAL'
+                  } ${aiAnalysisService.formatSignalStrength(log.signal_strength)}${
+                    log.trade_executed ? ' · executed' : ''
+                  }${hasError ? ' · error' : ''}`}
+                </title>
+              </circle>
+            );
+          })}
+        </svg>
+        <div className="mt-2 flex flex-wrap gap-4 text-xs text-gray-500">
+          <span>● Buy / Sell / Hold analyses (outlined = trade executed, hollow = error)</span>
+          <span>
+            ▬ Positions, green for profit and red for loss. Click a position to open the analysis
+            that triggered it.
+          </span>
+        </div>
+      </div>
+
+      {losingTrades.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm p-4">
+          <h4 className="font-medium mb-3">Losing Trades in This Range</h4>
+          <ul className="divide-y divide-gray-200">
+            {losingTrades.map(position => (
+              <li key={position.id} className="flex items-center justify-between py-2 text-sm">
+                <span className="text-gray-700">
+                  <span className="font-medium">{position.symbol}</span>{' '}
+                  {position.side.toUpperCase()} ·{' '}
+                  {aiAnalysisService.formatTimestamp(position.entry_time)}
+                  <span className="ml-2 font-medium text-red-600">
+                    {formatPnl(position.total_pnl)}
+                  </span>
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => openTriggeringAnalysis(position)}
+                  disabled={resolvingId === position.id}
+                  className="flex items-center gap-1"
+                >
+                  <EyeIcon className="h-3 w-3" />
+                  Analysis
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
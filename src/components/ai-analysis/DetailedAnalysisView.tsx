@@ -2,6 +2,7 @@
 
 import React, { useState } from 'react';
 import Image from 'next/image';
+import { useQuery } from '@tanstack/react-query';
 import {
   ChartBarIcon,
   CpuChipIcon,
@@ -14,6 +15,7 @@ import {
   CurrencyDollarIcon,
   PhotoIcon,
   CodeBracketIcon,
+  BeakerIcon,
 } from '@heroicons/react/24/outline';
 
 import { AIAnalysisLog, aiAnalysisService } from '@/services/aiAnalysis';
@@ -57,6 +59,13 @@ export const DetailedAnalysisView: React.FC<DetailedAnalysisViewProps> = ({ log
     }));
   };
 
+  // Shadow variant runs of this analysis, for side-by-side comparison
+  const { data: shadowLogs = [] } = useQuery({
+    queryKey: ['ai-analysis', 'shadows', log.id],
+    queryFn: () => aiAnalysisService.getShadowLogs(log.id),
+    enabled: !log.is_shadow,
+  });
+
   const signalDisplay = aiAnalysisService.getSignalActionDisplay(log.signal_action);
   const analysisTypeDisplay = aiAnalysisService.getAnalysisTypeDisplay(log.analysis_type);
   const hasError = aiAnalysisService.hasError(log);
@@ -84,6 +93,16 @@ export const DetailedAnalysisView: React.FC<DetailedAnalysisViewProps> = ({ log
         </Alert>
       )}
 
+      {log.is_shadow && (
+        <Alert>
+          <BeakerIcon className="h-4 w-4" />
+          <AlertDescription>
+            <strong>Shadow run{log.variant_name ? ` (${log.variant_name})` : ''}:</strong> this
+            analysis was produced by a shadow variant for comparison and never trades.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Overview Section */}
       <Card className="overflow-hidden">
         <div
@@ -177,6 +196,16 @@ export const DetailedAnalysisView: React.FC<DetailedAnalysisViewProps> = ({ log
                     <span className="text-gray-600">Model:</span>
                     <Badge variant="outline">{log.ai_model}</Badge>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Prompt:</span>
+                    {log.prompt_template_id ? (
+                      <Badge variant="outline">
+                        {log.prompt_template_name ?? 'Template'} v{log.prompt_template_version}
+                      </Badge>
+                    ) : (
+                      <span className="text-gray-900">Built-in</span>
+                    )}
+                  </div>
                 </div>
               </div>
             </div>
@@ -204,6 +233,100 @@ export const DetailedAnalysisView: React.FC<DetailedAnalysisViewProps> = ({ log
         )}
       </Card>
 
+      {/* Shadow Variants Section */}
+      {shadowLogs.length > 0 && (
+        <Card className="p-6">
+          <h3 className="font-semibold flex items-center gap-2 mb-4">
+            <BeakerIcon className="h-5 w-5" />
+            Shadow Variants
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Variant', 'Model', 'Signal', 'Confidence', 'Processing', ''].map(heading => (
+                    <th
+                      key={heading}
+                      className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                <tr className="bg-blue-50">
+                  <td className="px-3 py-2 font-medium">Live</td>
+                  <td className="px-3 py-2 text-gray-600">
+                    {log.ai_provider}/{log.ai_model}
+                  </td>
+                  <td className="px-3 py-2">
+                    <Badge className={signalDisplay.color}>
+                      {signalDisplay.icon} {signalDisplay.label}
+                    </Badge>
+                  </td>
+                  <td
+                    className={`px-3 py-2 ${aiAnalysisService.getSignalStrengthColor(log.signal_strength)}`}
+                  >
+                    {aiAnalysisService.formatSignalStrength(log.signal_strength)}
+                  </td>
+                  <td className="px-3 py-2 text-gray-600">
+                    {aiAnalysisService.formatProcessingTime(log.processing_time_ms)}
+                  </td>
+                  <td />
+                </tr>
+                {shadowLogs.map(shadow => {
+                  const shadowSignal = aiAnalysisService.getSignalActionDisplay(
+                    shadow.signal_action,
+                  );
+                  const agrees = shadow.signal_action === log.signal_action;
+                  return (
+                    <tr key={shadow.id}>
+                      <td className="px-3 py-2 font-medium">{shadow.variant_name ?? 'Variant'}</td>
+                      <td className="px-3 py-2 text-gray-600">
+                        {shadow.ai_provider}/{shadow.ai_model}
+                      </td>
+                      <td className="px-3 py-2">
+                        {aiAnalysisService.hasError(shadow) ? (
+                          <span className="text-red-600" title={shadow.error_message}>
+                            Error
+                          </span>
+                        ) : (
+                          <Badge className={shadowSignal.color}>
+                            {shadowSignal.icon} {shadowSignal.label}
+                          </Badge>
+                        )}
+                      </td>
+                      <td
+                        className={`px-3 py-2 ${aiAnalysisService.getSignalStrengthColor(shadow.signal_strength)}`}
+                      >
+                        {aiAnalysisService.formatSignalStrength(shadow.signal_strength)}
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">
+                        {aiAnalysisService.formatProcessingTime(shadow.processing_time_ms)}
+                      </td>
+                      <td className="px-3 py-2">
+                        {!aiAnalysisService.hasError(shadow) && (
+                          <Badge
+                            className={
+                              agrees
+                                ? 'bg-green-100 text-green-700'
+                                : 'bg-orange-100 text-orange-700'
+                            }
+                          >
+                            {agrees ? 'Agrees' : 'Disagrees'}
+                          </Badge>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
       {/* Technical Data Section */}
       {Object.keys(technicalIndicators).length > 0 && (
         <Card className="overflow-hidden">
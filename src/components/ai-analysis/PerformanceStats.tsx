@@ -10,14 +10,17 @@ import {
 } from '@heroicons/react/24/outline';
 
 import { BotAnalysisStats, aiAnalysisService } from '@/services/aiAnalysis';
+import { TradingMode } from '@/services/tradingBot';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import { SignalAccuracy } from './SignalAccuracy';
 
 interface PerformanceStatsProps {
   stats: BotAnalysisStats;
+  tradingMode?: TradingMode; // Market the bot trades, used to fetch prices for grading
 }
 
-export const PerformanceStats: React.FC<PerformanceStatsProps> = ({ stats }) => {
+export const PerformanceStats: React.FC<PerformanceStatsProps> = ({ stats, tradingMode }) => {
   const { signal_performance, processing_stats, ai_usage } = stats;
 
   // Calculate additional metrics
@@ -205,6 +208,9 @@ export const PerformanceStats: React.FC<PerformanceStatsProps> = ({ stats }) =>
         </div>
       </div>
 
+      {/* Signal Accuracy Section */}
+      <SignalAccuracy botId={stats.bot_id} tradingMode={tradingMode} />
+
       {/* Processing Performance Section */}
       <div className="bg-white rounded-lg shadow-sm p-6">
         <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
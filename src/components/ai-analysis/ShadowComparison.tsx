@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { BeakerIcon } from '@heroicons/react/24/outline';
+
+import { TradingMode } from '@/services/tradingBot';
+import { aiAnalysisService } from '@/services/aiAnalysis';
+import { ACCURACY_HORIZONS, signalAccuracyService } from '@/services/signalAccuracy';
+import { Badge } from '@/components/ui/badge';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+
+interface ShadowComparisonProps {
+  botId: string;
+  tradingMode?: TradingMode;
+}
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+// Live model vs. shadow variants over the same analyses
+export const ShadowComparison: React.FC<ShadowComparisonProps> = ({ botId, tradingMode }) => {
+  const [horizon, setHorizon] = useState<number>(4);
+
+  const {
+    data: variants = [],
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ['ai-analysis', 'shadow-comparison', botId, tradingMode, horizon],
+    queryFn: () => signalAccuracyService.getVariantComparison(botId, tradingMode, horizon),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const live = variants.find(variant => variant.is_live);
+  const shadows = variants.filter(variant => !variant.is_live);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <BeakerIcon className="h-5 w-5" />
+            Model A/B Comparison
+          </h3>
+          <p className="text-sm text-gray-600">
+            Shadow variants analyze the same markets as the live model but never trade.
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="text-sm text-gray-600 mr-1">Graded at</span>
+          {ACCURACY_HORIZONS.map(hours => (
+            <button
+              key={hours}
+              type="button"
+              onClick={() => setHorizon(hours)}
+              className={`px-3 py-1 text-sm rounded-md ${
+                horizon === hours
+                  ? 'bg-primary-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {hours}h
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner size="md" />
+        </div>
+      ) : error ? (
+        <ErrorMessage message={error.message || 'Failed to compare variants'} />
+      ) : shadows.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          No shadow runs yet. Add shadow variants in the bot&apos;s strategy configuration to
+          compare other models or prompts without trading them.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                {[
+                  'Variant',
+                  'Model',
+                  'Runs',
+                  'Agreement',
+                  'Hit Rate',
+                  'Avg Move',
+                  'Latency',
+                  'Errors',
+                ].map(heading => (
+                  <th
+                    key={heading}
+                    className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {variants.map(variant => {
+                const beatsLive =
+                  !variant.is_live &&
+                  live &&
+                  variant.graded > 0 &&
+                  variant.hit_rate > live.hit_rate;
+                return (
+                  <tr key={variant.variant_id} className={variant.is_live ? 'bg-blue-50' : ''}>
+                    <td className="px-3 py-2 font-medium text-gray-900">
+                      {variant.name}
+                      {variant.is_live && (
+                        <Badge className="ml-2 bg-blue-100 text-blue-700">Trading</Badge>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-gray-600">{variant.model}</td>
+                    <td className="px-3 py-2 text-gray-600">{variant.runs}</td>
+                    <td className="px-3 py-2 text-gray-900">
+                      {variant.is_live ? (
+                        '—'
+                      ) : (
+                        <span title={`${variant.paired} runs matched to a live analysis`}>
+                          {formatRate(variant.agreement_rate)}
+                        </span>
+                      )}
+                    </td>
+                    <td
+                      className={`px-3 py-2 font-medium ${beatsLive ? 'text-green-600' : 'text-gray-900'}`}
+                    >
+                      {variant.graded > 0 ? formatRate(variant.hit_rate) : '—'}
+                      <span className="ml-1 text-xs font-normal text-gray-500">
+                        ({variant.graded})
+                      </span>
+                    </td>
+                    <td
+                      className={`px-3 py-2 ${variant.avg_move_percent >= 0 ? 'text-green-600' : 'text-red-600'}`}
+                    >
+                      {variant.graded > 0
+                        ? `${variant.avg_move_percent >= 0 ? '+' : ''}${variant.avg_move_percent.toFixed(2)}%`
+                        : '—'}
+                    </td>
+                    <td className="px-3 py-2 text-gray-600">
+                      {aiAnalysisService.formatProcessingTime(
+                        Math.round(variant.avg_processing_time_ms),
+                      )}
+                    </td>
+                    <td
+                      className={`px-3 py-2 ${variant.error_rate > 0 ? 'text-red-600' : 'text-gray-600'}`}
+                    >
+                      {formatRate(variant.error_rate)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="mt-3 text-xs text-gray-500">
+            Agreement is the share of shadow runs that produced the same action as the live analysis
+            they mirror. Hit rate grades each run&apos;s own signal at the {horizon}h horizon; the
+            number of graded runs is in brackets.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
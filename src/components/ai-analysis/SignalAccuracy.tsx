@@ -0,0 +1,253 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CheckCircleIcon } from '@heroicons/react/24/outline';
+
+import { TradingMode } from '@/services/tradingBot';
+import {
+  ACCURACY_HORIZONS,
+  AccuracyGroupStats,
+  CalibrationBucket,
+  HOLD_BAND_PERCENT,
+  signalAccuracyService,
+} from '@/services/signalAccuracy';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+
+interface SignalAccuracyProps {
+  botId: string;
+  tradingMode?: TradingMode;
+}
+
+type GroupBy = 'model' | 'symbol';
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+const formatMove = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+export const SignalAccuracy: React.FC<SignalAccuracyProps> = ({ botId, tradingMode }) => {
+  const [horizon, setHorizon] = useState<number>(4);
+  const [groupBy, setGroupBy] = useState<GroupBy>('model');
+
+  const {
+    data: report,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ['ai-analysis', 'signal-accuracy', botId, tradingMode],
+    queryFn: () => signalAccuracyService.getSignalAccuracy(botId, tradingMode),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const current = report?.horizons.find(h => h.horizon_hours === horizon);
+  const leaderboard = groupBy === 'model' ? current?.by_model : current?.by_symbol;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <CheckCircleIcon className="h-5 w-5" />
+          Signal Accuracy
+        </h3>
+        <div className="flex items-center gap-1">
+          <span className="text-sm text-gray-600 mr-1">Horizon</span>
+          {ACCURACY_HORIZONS.map(hours => (
+            <button
+              key={hours}
+              type="button"
+              onClick={() => setHorizon(hours)}
+              className={`px-3 py-1 text-sm rounded-md ${
+                horizon === hours
+                  ? 'bg-primary-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {hours}h
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner size="md" />
+        </div>
+      ) : error ? (
+        <ErrorMessage message={error.message || 'Failed to grade signals'} />
+      ) : !current || current.overall.graded === 0 ? (
+        <p className="text-sm text-gray-600">
+          No signals can be graded at the {horizon}h horizon yet. Signals are graded once the
+          horizon has passed and market data covers it.
+        </p>
+      ) : (
+        <div className="space-y-6">
+          {/* Overview */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <Metric label="Hit Rate" value={formatRate(current.overall.hit_rate)} />
+            <Metric label="Graded" value={String(current.overall.graded)} />
+            <Metric label="Pending" value={String(current.overall.pending)} />
+            <Metric label="Avg MFE" value={formatMove(current.overall.avg_mfe_percent)} positive />
+            <Metric
+              label="Avg MAE"
+              value={formatMove(-current.overall.avg_mae_percent)}
+              positive={false}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Calibration */}
+            <div>
+              <h4 className="font-medium mb-1">Calibration</h4>
+              <p className="text-xs text-gray-500 mb-3">
+                Realized hit rate of buy/sell signals by stated signal strength. Points above the
+                dashed line are underconfident, points below it overconfident.
+              </p>
+              <CalibrationChart buckets={current.calibration} />
+            </div>
+
+            {/* Leaderboard */}
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="font-medium">Leaderboard</h4>
+                <select
+                  value={groupBy}
+                  onChange={e => setGroupBy(e.target.value as GroupBy)}
+                  aria-label="Group leaderboard by"
+                  className="rounded-md border-gray-300 text-sm shadow-sm focus:border-primary-500 focus:ring-primary-500"
+                >
+                  <option value="model">By model</option>
+                  <option value="symbol">By symbol</option>
+                </select>
+              </div>
+              <LeaderboardTable rows={leaderboard ?? []} />
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Buy and sell signals hit when price moved their way by the horizon; holds hit when price
+            stayed within ±{HOLD_BAND_PERCENT}%. Based on the last {report?.logs_considered ?? 0}{' '}
+            signals.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+function Metric({ label, value, positive }: { label: string; value: string; positive?: boolean }) {
+  const color =
+    positive === undefined ? 'text-gray-900' : positive ? 'text-green-600' : 'text-red-600';
+  return (
+    <div className="text-center p-3 bg-gray-50 rounded-lg">
+      <p className={`text-lg font-bold ${color}`}>{value}</p>
+      <p className="text-xs text-gray-600">{label}</p>
+    </div>
+  );
+}
+
+function CalibrationChart({ buckets }: { buckets: CalibrationBucket[] }) {
+  const size = 200;
+  const padding = 24;
+  const plot = size - padding * 2;
+  const x = (value: number) => padding + value * plot;
+  const y = (value: number) => size - padding - value * plot;
+  const points = buckets.filter(bucket => bucket.graded > 0);
+  const maxGraded = Math.max(...points.map(bucket => bucket.graded), 1);
+
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-500">No graded buy/sell signals with a strength.</p>;
+  }
+
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} className="w-full max-w-xs">
+      <rect
+        x={padding}
+        y={padding}
+        width={plot}
+        height={plot}
+        className="fill-gray-50 stroke-gray-200"
+      />
+      <line
+        x1={x(0)}
+        y1={y(0)}
+        x2={x(1)}
+        y2={y(1)}
+        className="stroke-gray-400"
+        strokeDasharray="4 4"
+      />
+      <polyline
+        points={points.map(bucket => `${x(bucket.avg_strength)},${y(bucket.hit_rate)}`).join(' ')}
+        className="fill-none stroke-primary-600"
+        strokeWidth={2}
+      />
+      {points.map(bucket => (
+        <circle
+          key={bucket.min_strength}
+          cx={x(bucket.avg_strength)}
+          cy={y(bucket.hit_rate)}
+          r={3 + (bucket.graded / maxGraded) * 4}
+          className="fill-primary-600"
+        >
+          <title>
+            {`Strength ${formatRate(bucket.min_strength)}–${formatRate(bucket.max_strength)}: ${formatRate(bucket.hit_rate)} hit rate over ${bucket.graded} signals`}
+          </title>
+        </circle>
+      ))}
+      {[0, 0.5, 1].map(tick => (
+        <React.Fragment key={tick}>
+          <text x={x(tick)} y={size - 6} textAnchor="middle" className="fill-gray-500 text-[8px]">
+            {tick * 100}%
+          </text>
+          <text x={4} y={y(tick) + 3} className="fill-gray-500 text-[8px]">
+            {tick * 100}%
+          </text>
+        </React.Fragment>
+      ))}
+    </svg>
+  );
+}
+
+function LeaderboardTable({ rows }: { rows: AccuracyGroupStats[] }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            {['', 'Graded', 'Hit Rate', 'Confidence', 'Avg Move', 'MFE / MAE'].map(heading => (
+              <th
+                key={heading}
+                className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+              >
+                {heading}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {rows.map(row => (
+            <tr key={row.key}>
+              <td className="px-3 py-2 font-medium text-gray-900">{row.key}</td>
+              <td className="px-3 py-2 text-gray-600">{row.graded}</td>
+              <td className="px-3 py-2 font-medium text-gray-900">{formatRate(row.hit_rate)}</td>
+              <td
+                className={`px-3 py-2 ${row.avg_strength > row.hit_rate ? 'text-orange-600' : 'text-gray-600'}`}
+                title={row.avg_strength > row.hit_rate ? 'Overconfident' : undefined}
+              >
+                {formatRate(row.avg_strength)}
+              </td>
+              <td
+                className={`px-3 py-2 ${row.avg_move_percent >= 0 ? 'text-green-600' : 'text-red-600'}`}
+              >
+                {formatMove(row.avg_move_percent)}
+              </td>
+              <td className="px-3 py-2 text-gray-600">
+                <span className="text-green-600">{row.avg_mfe_percent.toFixed(2)}%</span> /{' '}
+                <span className="text-red-600">{row.avg_mae_percent.toFixed(2)}%</span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
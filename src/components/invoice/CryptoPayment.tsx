@@ -10,6 +10,7 @@ import {
   ExclamationTriangleIcon,
 } from '@heroicons/react/24/outline';
 import toast from 'react-hot-toast';
+import { networkRegistry, NetworkType } from '@/services/networks';
 
 interface CryptoPaymentProps {
   invoiceId: string;
@@ -52,15 +53,10 @@ export default function CryptoPayment({
   const [pollingInterval, setPollingInterval] = useState<NodeJS.Timeout | null>(null);
   const [paymentReference, setPaymentReference] = useState<string | null>(null);
 
-  // Fixed to Polygon network
-  const selectedNetwork = 'polygon';
-  const networkInfo = {
-    id: 'polygon',
-    name: 'Polygon',
-    icon: '🟣',
-    confirmations: 20,
-    fee: 'Low (~$0.01)',
-  };
+  // Invoices are paid in USDT, on any network that carries it
+  const networks = networkRegistry.getNetworksForCurrency('USDT');
+  const [selectedNetwork, setSelectedNetwork] = useState<NetworkType>('polygon');
+  const networkInfo = networkRegistry.get(selectedNetwork) ?? networks[0]!;
 
   // Stop polling
   const stopPolling = useCallback(() => {
@@ -102,7 +98,8 @@ export default function CryptoPayment({
                 : 'pending') as 'pending' | 'confirming' | 'confirmed' | 'failed',
           transactionHash: data.data.provider_data?.transaction_hash,
           confirmations: data.data.provider_data?.confirmations || 0,
-          requiredConfirmations: 20, // Default for Polygon
+          requiredConfirmations:
+            data.data.provider_data?.required_confirmations || networkInfo.confirmations,
           amountReceived: data.data.amount ? (data.data.amount.amount / 100).toFixed(2) : undefined,
           verifiedAt: data.data.processed_at,
         };
@@ -127,7 +124,14 @@ export default function CryptoPayment({
     } finally {
       setChecking(false);
     }
-  }, [invoiceId, paymentDetails, paymentReference, onPaymentComplete, stopPolling]);
+  }, [
+    invoiceId,
+    paymentDetails,
+    paymentReference,
+    onPaymentComplete,
+    stopPolling,
+    networkInfo.confirmations,
+  ]);
 
   // Start polling for payment status
   const startPolling = () => {
@@ -210,29 +214,41 @@ export default function CryptoPayment({
     [stopPolling],
   );
 
-  // Auto-initiate payment on mount
-  useEffect(() => {
-    // Remove this effect since network is fixed
-  }, []);
-
   return (
     <div className="bg-white rounded-lg shadow-lg p-6">
       <div className="mb-6">
-        <h3 className="text-lg font-semibold text-gray-900 mb-2">Pay with USDT on Polygon</h3>
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">
+          Pay with USDT on {networkInfo.name}
+        </h3>
         <p className="text-sm text-gray-600">
-          Send USDT on Polygon network to complete the payment • Low fees (~$0.01)
+          Send USDT ({networkInfo.token_standard}) on {networkInfo.name} network to complete the
+          payment • Fees {networkInfo.fee_estimate}
         </p>
       </div>
 
-      {/* Network Info */}
-      <div className="mb-6 bg-purple-50 border border-purple-200 rounded-lg p-4">
-        <div className="flex items-center">
-          <span className="text-2xl mr-3">{networkInfo.icon}</span>
-          <div>
-            <div className="font-medium text-purple-900">{networkInfo.name} Network</div>
-            <div className="text-sm text-purple-700">Fast confirmations • {networkInfo.fee}</div>
-          </div>
-        </div>
+      {/* Network Selection. Locked once an address was generated for the chosen network. */}
+      <div className="mb-6 grid gap-2 sm:grid-cols-2">
+        {networks.map(network => (
+          <button
+            key={network.type}
+            type="button"
+            onClick={() => setSelectedNetwork(network.type)}
+            disabled={!!paymentDetails && network.type !== selectedNetwork}
+            className={`flex items-center rounded-lg border-2 p-3 text-left transition-all disabled:cursor-not-allowed disabled:opacity-50 ${
+              network.type === selectedNetwork
+                ? 'border-blue-500 bg-blue-50'
+                : 'border-gray-200 bg-white hover:border-gray-300'
+            }`}
+          >
+            <span className="text-2xl mr-3">{network.icon}</span>
+            <div>
+              <div className="font-medium text-gray-900">{network.name}</div>
+              <div className="text-xs text-gray-600">
+                {network.estimated_time} • Fees {network.fee_estimate}
+              </div>
+            </div>
+          </button>
+        ))}
       </div>
 
       {/* Payment Details */}
@@ -333,10 +349,19 @@ export default function CryptoPayment({
                   )}
 
                   {paymentStatus.transactionHash && (
-                    <div className="text-xs text-gray-500 mt-1 font-mono">
+                    <a
+                      href={networkRegistry.getExplorerUrl(
+                        selectedNetwork,
+                        paymentStatus.transactionHash,
+                        'tx',
+                      )}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="block text-xs text-blue-600 hover:text-blue-800 mt-1 font-mono"
+                    >
                       TX: {paymentStatus.transactionHash.slice(0, 10)}...
                       {paymentStatus.transactionHash.slice(-8)}
-                    </div>
+                    </a>
                   )}
                 </div>
               </div>
@@ -367,7 +392,7 @@ export default function CryptoPayment({
             <ol className="list-decimal list-inside space-y-1">
               <li>Copy the wallet address or scan the QR code</li>
               <li>
-                Send exactly <strong>{paymentDetails.amountUSDT} USDT</strong> on Polygon
+                Send exactly <strong>{paymentDetails.amountUSDT} USDT</strong> on {networkInfo.name}
               </li>
               <li>Wait for network confirmations ({networkInfo.confirmations} required)</li>
               <li>Payment will be automatically verified</li>
@@ -377,8 +402,9 @@ export default function CryptoPayment({
           {/* Warning */}
           <div className="mt-4 p-3 bg-yellow-50 rounded-lg">
             <p className="text-xs text-yellow-800">
-              <strong>Important:</strong> Only send USDT on POLYGON network to this address. Sending
-              other tokens or using wrong network will result in loss of funds.
+              <strong>Important:</strong> Only send USDT on {networkInfo.name.toUpperCase()} network
+              to this address. Sending other tokens or using wrong network will result in loss of
+              funds.
             </p>
           </div>
         </div>
@@ -13,6 +13,7 @@ import {
 } from '@heroicons/react/24/outline';
 import invoiceService, { Invoice } from '../../services/invoice';
 import WalletPaymentModal from './WalletPaymentModal';
+import { networkRegistry } from '../../services/networks';
 
 interface InvoicePaymentPageProps {
   invoiceId: string;
@@ -294,7 +295,13 @@ const InvoicePaymentPage: React.FC<InvoicePaymentPageProps> = ({ invoiceId }) =>
                       <CurrencyDollarIcon className="h-6 w-6 text-green-600 mr-3" />
                       <div>
                         <h4 className="font-medium text-gray-900">Cryptocurrency</h4>
-                        <p className="text-sm text-gray-600">USDT, POL on Polygon network</p>
+                        <p className="text-sm text-gray-600">
+                          USDT on{' '}
+                          {networkRegistry
+                            .getNetworksForCurrency('USDT')
+                            .map(network => network.name)
+                            .join(', ')}
+                        </p>
                       </div>
                     </div>
                   </button>
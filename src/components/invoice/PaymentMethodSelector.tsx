@@ -2,6 +2,7 @@
 
 import React from 'react';
 import { CurrencyDollarIcon, WalletIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import { networkRegistry } from '@/services/networks';
 
 export type PaymentMethod = 'wallet' | 'crypto' | 'bank_transfer' | 'card';
 
@@ -32,10 +33,13 @@ const paymentMethods: PaymentMethodOption[] = [
   {
     id: 'crypto',
     name: 'Cryptocurrency (USDT)',
-    description: 'Pay with USDT on Polygon network',
+    description: `Pay with USDT on ${networkRegistry
+      .getNetworksForCurrency('USDT')
+      .map(network => network.name)
+      .join(', ')}`,
     icon: CurrencyDollarIcon,
     processingTime: 'Instant confirmation',
-    fees: 'Low network fees (~$0.01)',
+    fees: 'Network fees from ~$0.01',
   },
   // {
   //   id: 'bank_transfer',
@@ -165,8 +169,8 @@ export default function PaymentMethodSelector({
       {selectedMethod === 'crypto' && (
         <div className="mt-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
           <p className="text-sm text-yellow-800">
-            <strong>Important:</strong> Only send USDT on Polygon network. Sending other tokens or
-            using wrong network will result in loss of funds.
+            <strong>Important:</strong> Only send USDT on the network you select on the next step.
+            Sending other tokens or using wrong network will result in loss of funds.
           </p>
         </div>
       )}
@@ -1,11 +1,13 @@
 'use client';
 
 import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
 import {
   XMarkIcon,
   CheckCircleIcon,
   ExclamationTriangleIcon,
   CreditCardIcon,
+  ArrowPathIcon,
 } from '@heroicons/react/24/outline';
 import invoiceService, { Invoice, AvailableBalance } from '../../services/invoice';
 
@@ -113,6 +115,13 @@ const WalletPaymentModal: React.FC<WalletPaymentModalProps> = ({
     }
   };
 
+  // Offer an in-app conversion instead of a round trip through an external exchange
+  const invoiceCurrencyBalance = availableBalances.find(
+    b => b.currency.toUpperCase() === invoice.currency.toUpperCase(),
+  );
+  const canPayInInvoiceCurrency =
+    !!invoiceCurrencyBalance && canPayWithCurrency(invoiceCurrencyBalance);
+
   const formatCurrency = (amount: string, currency: string) => {
     const numAmount = parseFloat(amount);
     if (currency === 'USD') {
@@ -268,6 +277,16 @@ const WalletPaymentModal: React.FC<WalletPaymentModalProps> = ({
                   );
                 })}
               </div>
+
+              {!canPayInInvoiceCurrency && (
+                <Link
+                  href={`/wallet?view=convert&to=${invoice.currency.toUpperCase()}`}
+                  className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+                >
+                  <ArrowPathIcon className="h-4 w-4 mr-1" />
+                  Convert another balance to {invoice.currency.toUpperCase()}
+                </Link>
+              )}
             </div>
           )}
 
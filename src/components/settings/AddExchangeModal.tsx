@@ -10,12 +10,13 @@ import {
   CreateExchangeCredentialsInput,
   SupportedExchange,
   ExchangeName,
+  MaskedExchangeCredentials,
 } from '@/services/exchange';
 
 interface AddExchangeModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSuccess: () => void;
+  onSuccess: (credential: MaskedExchangeCredentials) => void;
 }
 
 export default function AddExchangeModal({ isOpen, onClose, onSuccess }: AddExchangeModalProps) {
@@ -94,9 +95,9 @@ export default function AddExchangeModal({ isOpen, onClose, onSuccess }: AddExch
         permissions: selectedExchange?.permissions || [],
       };
 
-      await exchangeService.createExchangeCredentials(input);
+      const created = await exchangeService.createExchangeCredentials(input);
       toast.success('Exchange configuration added successfully');
-      onSuccess();
+      onSuccess(created);
       onClose();
 
       // Reset form
@@ -0,0 +1,129 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import {
+  ExclamationTriangleIcon,
+  InformationCircleIcon,
+  ShieldExclamationIcon,
+} from '@heroicons/react/24/outline';
+import { MaskedExchangeCredentials } from '@/services/exchange';
+import {
+  CredentialHealthSettings,
+  CredentialHealthStatus,
+  exchangeHealthService,
+  IP_WHITELIST_GUIDANCE,
+  KeyWarning,
+} from '@/services/exchangeHealth';
+
+interface ExchangeKeyHealthProps {
+  credential: MaskedExchangeCredentials;
+  settings?: CredentialHealthSettings;
+}
+
+const STATUS_STYLES: Record<CredentialHealthStatus, { label: string; className: string }> = {
+  healthy: { label: 'Healthy', className: 'bg-green-100 text-green-800' },
+  degraded: { label: 'Degraded', className: 'bg-yellow-100 text-yellow-800' },
+  failing: { label: 'Failing', className: 'bg-red-100 text-red-800' },
+  unknown: { label: 'Not checked', className: 'bg-gray-100 text-gray-600' },
+};
+
+const WARNING_STYLES: Record<KeyWarning['severity'], string> = {
+  critical: 'border-red-200 bg-red-50 text-red-800',
+  warning: 'border-yellow-200 bg-yellow-50 text-yellow-800',
+  info: 'border-blue-200 bg-blue-50 text-blue-800',
+};
+
+const WarningIcon = ({ severity }: { severity: KeyWarning['severity'] }) => {
+  switch (severity) {
+    case 'critical':
+      return <ShieldExclamationIcon className="h-4 w-4 flex-shrink-0" />;
+    case 'warning':
+      return <ExclamationTriangleIcon className="h-4 w-4 flex-shrink-0" />;
+    default:
+      return <InformationCircleIcon className="h-4 w-4 flex-shrink-0" />;
+  }
+};
+
+// Health history, audit warnings and IP whitelist guidance for one exchange key
+export default function ExchangeKeyHealth({ credential, settings }: ExchangeKeyHealthProps) {
+  const { data: history = [], isLoading } = useQuery({
+    queryKey: ['exchange-credentials', 'health', credential.id],
+    queryFn: () => exchangeHealthService.getHealthHistory(credential.id),
+  });
+
+  const status = exchangeHealthService.getHealthStatus(credential, history, settings);
+  const warnings = exchangeHealthService.auditCredential(credential, history, settings);
+  const guidance = IP_WHITELIST_GUIDANCE[credential.exchange];
+  const latest = history[0];
+  const successRate =
+    history.length > 0
+      ? Math.round((history.filter(check => check.success).length / history.length) * 100)
+      : null;
+
+  return (
+    <div className="mt-3 space-y-3 border-t border-gray-100 pt-3">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500">
+        <span
+          className={`inline-flex items-center px-2 py-0.5 rounded font-medium ${STATUS_STYLES[status].className}`}
+        >
+          {STATUS_STYLES[status].label}
+        </span>
+        {latest && (
+          <span>
+            Last check {new Date(latest.checked_at).toLocaleString()}
+            {latest.latency_ms !== undefined && ` · ${latest.latency_ms} ms`}
+          </span>
+        )}
+        {successRate !== null && (
+          <span>
+            {successRate}% of the last {history.length} checks passed
+          </span>
+        )}
+        <span>Key age {exchangeHealthService.keyAgeDays(credential)} days</span>
+      </div>
+
+      {!isLoading && history.length > 0 && (
+        <div className="flex h-4 items-end gap-0.5" aria-label="Health check history">
+          {[...history].reverse().map(check => (
+            <span
+              key={check.id}
+              className={`h-full w-1.5 rounded-sm ${check.success ? 'bg-green-400' : 'bg-red-400'}`}
+              title={`${new Date(check.checked_at).toLocaleString()} · ${
+                check.success ? 'OK' : check.message || 'Failed'
+              } (${check.trigger})`}
+            />
+          ))}
+        </div>
+      )}
+
+      {warnings.length > 0 && (
+        <ul className="space-y-2">
+          {warnings.map(warning => (
+            <li
+              key={warning.code}
+              className={`flex items-start gap-2 rounded-md border px-3 py-2 text-xs ${WARNING_STYLES[warning.severity]}`}
+            >
+              <WarningIcon severity={warning.severity} />
+              <span>{warning.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {guidance && (
+        <details className="text-xs text-gray-600">
+          <summary className="cursor-pointer font-medium text-gray-700">
+            IP whitelist{' '}
+            {guidance.required ? '(required)' : guidance.supported ? '(recommended)' : ''}
+            {credential.ip_restricted && <span className="ml-1 text-green-600">✓ set</span>}
+          </summary>
+          <ol className="mt-2 list-decimal space-y-1 pl-5">
+            {guidance.steps.map(step => (
+              <li key={step}>{step}</li>
+            ))}
+          </ol>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,42 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { TrashIcon, PlusIcon, BeakerIcon, LinkIcon } from '@heroicons/react/24/outline';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import {
+  TrashIcon,
+  PlusIcon,
+  BeakerIcon,
+  LinkIcon,
+  BanknotesIcon,
+  ArrowPathRoundedSquareIcon,
+} from '@heroicons/react/24/outline';
 import { CheckCircleIcon, XCircleIcon, ExclamationCircleIcon } from '@heroicons/react/24/solid';
 import toast from 'react-hot-toast';
 import SettingsCard from './SettingsCard';
 import AddExchangeModal from './AddExchangeModal';
+import ExchangeKeyHealth from './ExchangeKeyHealth';
+import KeyHealthSettings from './KeyHealthSettings';
+import RotateKeyModal from './RotateKeyModal';
 import { exchangeService, MaskedExchangeCredentials } from '@/services/exchange';
+import { exchangeHealthService } from '@/services/exchangeHealth';
 
 export default function ExchangeSettings() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
   const [exchanges, setExchanges] = useState<MaskedExchangeCredentials[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [testingId, setTestingId] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [rotatingCredential, setRotatingCredential] = useState<MaskedExchangeCredentials | null>(
+    null,
+  );
+
+  const { data: healthSettings } = useQuery({
+    queryKey: ['exchange-credentials', 'health-settings'],
+    queryFn: () => exchangeHealthService.getHealthSettings(),
+  });
 
   const loadExchanges = async () => {
     setIsLoading(true);
@@ -60,6 +83,7 @@ export default function ExchangeSettings() {
         toast.error(result.message || 'Connection failed');
       }
       await loadExchanges(); // Reload to update connection status
+      queryClient.invalidateQueries({ queryKey: ['exchange-credentials', 'health', id] });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to test connection';
       toast.error(errorMessage);
@@ -154,6 +178,11 @@ export default function ExchangeSettings() {
                           <span className="text-xs text-gray-500">
                             {getExchangeDisplayName(exchange.exchange)}
                           </span>
+                          {!exchange.is_active && (
+                            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-600">
+                              Inactive
+                            </span>
+                          )}
                           {exchange.is_testnet && (
                             <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800">
                               Testnet
@@ -171,6 +200,15 @@ export default function ExchangeSettings() {
                       </div>
                     </div>
                     <div className="flex items-center gap-2 sm:flex-shrink-0">
+                      <button
+                        onClick={() =>
+                          router.push(`/trading-bots/exchange-accounts/${exchange.id}`)
+                        }
+                        className="flex-1 sm:flex-none inline-flex items-center justify-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                      >
+                        <BanknotesIcon className="h-4 w-4 sm:mr-1" />
+                        <span className="hidden sm:inline">Account</span>
+                      </button>
                       <button
                         onClick={() => handleTestConnection(exchange.id)}
                         disabled={testingId === exchange.id}
@@ -188,6 +226,15 @@ export default function ExchangeSettings() {
                           </>
                         )}
                       </button>
+                      {exchange.is_active && (
+                        <button
+                          onClick={() => setRotatingCredential(exchange)}
+                          className="flex-1 sm:flex-none inline-flex items-center justify-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+                        >
+                          <ArrowPathRoundedSquareIcon className="h-4 w-4 sm:mr-1" />
+                          <span className="hidden sm:inline">Rotate</span>
+                        </button>
+                      )}
                       <button
                         onClick={() => handleDelete(exchange.id)}
                         disabled={deletingId === exchange.id}
@@ -219,12 +266,29 @@ export default function ExchangeSettings() {
                       ))}
                     </div>
                   )}
+                  <ExchangeKeyHealth credential={exchange} settings={healthSettings} />
                 </div>
               ))}
             </div>
           )}
         </SettingsCard>
 
+        {exchanges.length > 0 && (
+          <div className="mt-6">
+            <KeyHealthSettings />
+          </div>
+        )}
+
+        {rotatingCredential && (
+          <RotateKeyModal
+            isOpen={!!rotatingCredential}
+            onClose={() => setRotatingCredential(null)}
+            credential={rotatingCredential}
+            credentials={exchanges}
+            onRotated={loadExchanges}
+          />
+        )}
+
         {isModalOpen && (
           <AddExchangeModal
             isOpen={isModalOpen}
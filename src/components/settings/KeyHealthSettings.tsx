@@ -0,0 +1,141 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { HeartIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import SettingsCard from './SettingsCard';
+import ToggleSwitch from './ToggleSwitch';
+import LoadingButton from './LoadingButton';
+import {
+  CredentialHealthSettings,
+  DEFAULT_HEALTH_SETTINGS,
+  exchangeHealthService,
+} from '@/services/exchangeHealth';
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm';
+
+export default function KeyHealthSettings() {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<CredentialHealthSettings>(DEFAULT_HEALTH_SETTINGS);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: settings } = useQuery({
+    queryKey: ['exchange-credentials', 'health-settings'],
+    queryFn: () => exchangeHealthService.getHealthSettings(),
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setForm(settings);
+    }
+  }, [settings]);
+
+  const updateNumber = (key: keyof CredentialHealthSettings, value: string) => {
+    setForm(prev => ({ ...prev, [key]: value ? parseInt(value, 10) : 0 }));
+  };
+
+  const handleSave = async () => {
+    const validationError = exchangeHealthService.validateHealthSettings(form);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await exchangeHealthService.updateHealthSettings(form);
+      queryClient.setQueryData(['exchange-credentials', 'health-settings'], saved);
+      toast.success('Key health settings saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save key health settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <SettingsCard
+      title="Key Health Monitoring"
+      description="Our servers test your keys on this interval and keep every result in the key's history"
+      icon={<HeartIcon className="h-5 w-5" />}
+    >
+      <div className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div>
+            <label
+              htmlFor="health_check_interval"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Check Every (minutes)
+            </label>
+            <input
+              type="number"
+              id="health_check_interval"
+              min="5"
+              max="1440"
+              value={form.check_interval_minutes || ''}
+              onChange={e => updateNumber('check_interval_minutes', e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="health_failure_threshold"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Failing After (checks)
+            </label>
+            <input
+              type="number"
+              id="health_failure_threshold"
+              min="1"
+              max="20"
+              value={form.failure_threshold || ''}
+              onChange={e => updateNumber('failure_threshold', e.target.value)}
+              className={inputClassName}
+            />
+            <p className="mt-1 text-xs text-gray-500">Consecutive failed checks</p>
+          </div>
+          <div>
+            <label
+              htmlFor="health_key_rotation_days"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Rotation Reminder (days)
+            </label>
+            <input
+              type="number"
+              id="health_key_rotation_days"
+              min="7"
+              max="365"
+              value={form.key_rotation_days || ''}
+              onChange={e => updateNumber('key_rotation_days', e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <p className="text-sm font-medium text-gray-900">Pause bots on failing keys</p>
+            <p className="text-sm text-gray-500">
+              Running bots bound to a failing key are paused so they do not act on stale data
+            </p>
+          </div>
+          <ToggleSwitch
+            enabled={form.auto_pause_bots}
+            onToggle={() => setForm(prev => ({ ...prev, auto_pause_bots: !prev.auto_pause_bots }))}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <LoadingButton onClick={handleSave} loading={isSaving} size="sm">
+            Save
+          </LoadingButton>
+        </div>
+      </div>
+    </SettingsCard>
+  );
+}
@@ -0,0 +1,428 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  ArrowPathRoundedSquareIcon,
+  CheckCircleIcon,
+  PlusIcon,
+  XCircleIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import LoadingButton from './LoadingButton';
+import AddExchangeModal from './AddExchangeModal';
+import {
+  exchangeService,
+  MaskedExchangeCredentials,
+  TestConnectionResult,
+} from '@/services/exchange';
+import { exchangeHealthService } from '@/services/exchangeHealth';
+import {
+  KeyRotation,
+  KeyRotationStatus,
+  keyRotationService,
+  RotationStep,
+  RotationStepName,
+} from '@/services/keyRotation';
+
+interface RotateKeyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  credential: MaskedExchangeCredentials; // The key being replaced
+  credentials: MaskedExchangeCredentials[];
+  onRotated: () => void;
+}
+
+const STEP_LABELS: Record<RotationStepName, string> = {
+  test_new_key: 'Test new key',
+  pause_bot: 'Pause',
+  repoint_bot: 'Move to new key',
+  deactivate_old_key: 'Deactivate old key',
+  resume_bot: 'Resume',
+};
+
+const STATUS_STYLES: Record<KeyRotationStatus, { label: string; className: string }> = {
+  completed: { label: 'Completed', className: 'bg-green-100 text-green-800' },
+  completed_with_errors: {
+    label: 'Completed with errors',
+    className: 'bg-yellow-100 text-yellow-800',
+  },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+};
+
+function StepList({ steps }: { steps: RotationStep[] }) {
+  return (
+    <ul className="space-y-1 text-xs">
+      {steps.map((step, index) => (
+        <li key={`${step.step}_${step.bot_id ?? ''}_${index}`} className="flex items-start gap-2">
+          {step.status === 'succeeded' ? (
+            <CheckCircleIcon className="h-4 w-4 flex-shrink-0 text-green-500" />
+          ) : (
+            <XCircleIcon className="h-4 w-4 flex-shrink-0 text-red-500" />
+          )}
+          <span className="text-gray-700">
+            {STEP_LABELS[step.step]}
+            {step.bot_name && ` ${step.bot_name}`}
+            {step.message && <span className="text-gray-500"> · {step.message}</span>}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function RotateKeyModal({
+  isOpen,
+  onClose,
+  credential,
+  credentials,
+  onRotated,
+}: RotateKeyModalProps) {
+  const queryClient = useQueryClient();
+  const [newCredentialId, setNewCredentialId] = useState('');
+  const [addedCredential, setAddedCredential] = useState<MaskedExchangeCredentials | null>(null);
+  const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [testResult, setTestResult] = useState<TestConnectionResult | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
+  const [result, setResult] = useState<KeyRotation | null>(null);
+
+  const candidates = [
+    ...credentials,
+    ...(addedCredential && !credentials.some(c => c.id === addedCredential.id)
+      ? [addedCredential]
+      : []),
+  ].filter(
+    candidate =>
+      candidate.id !== credential.id &&
+      candidate.exchange === credential.exchange &&
+      candidate.is_testnet === credential.is_testnet &&
+      candidate.is_active,
+  );
+  const newCredential = candidates.find(candidate => candidate.id === newCredentialId);
+  const withdrawalWarning = newCredential
+    ? exchangeHealthService
+        .auditCredential(newCredential)
+        .find(warning => warning.code === 'withdrawal_permission')
+    : undefined;
+
+  const { data: affectedBots = [], isLoading: isBotsLoading } = useQuery({
+    queryKey: ['trading-bots', 'by-credential', credential.id],
+    queryFn: () => keyRotationService.getAffectedBots(credential.id),
+    enabled: isOpen,
+  });
+
+  const { data: history = [] } = useQuery({
+    queryKey: ['exchange-credentials', 'rotations', credential.id],
+    queryFn: () => keyRotationService.getRotations(credential.id),
+    enabled: isOpen,
+  });
+
+  const runningCount = affectedBots.filter(bot => bot.status === 'running').length;
+
+  const selectNewCredential = (id: string) => {
+    setNewCredentialId(id);
+    setTestResult(null);
+  };
+
+  const handleTest = async () => {
+    if (!newCredential) return;
+    setIsTesting(true);
+    try {
+      setTestResult(await exchangeService.testExchangeConnection(newCredential.id));
+    } catch (error) {
+      setTestResult({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to test connection',
+      });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleRotate = async () => {
+    const validationError = keyRotationService.validateRotation(credential, newCredential);
+    if (validationError || !newCredential) {
+      toast.error(validationError ?? 'Select the new API key');
+      return;
+    }
+    const pauseNote =
+      runningCount > 0 ? ` ${runningCount} running bots will be paused briefly.` : '';
+    if (
+      !window.confirm(
+        `Move ${affectedBots.length} bots from "${credential.account_name}" to "${newCredential.account_name}" and deactivate the old key?${pauseNote}`,
+      )
+    ) {
+      return;
+    }
+
+    setIsRotating(true);
+    setResult(null);
+    try {
+      const rotation = await keyRotationService.rotateKey(credential, newCredential);
+      setResult(rotation);
+      if (rotation.error) {
+        toast.error(rotation.error);
+      } else {
+        toast.success('API key rotated');
+      }
+      onRotated();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to rotate key');
+    } finally {
+      // Refresh either way; a request that timed out may still have rotated on the server
+      queryClient.invalidateQueries({ queryKey: ['trading-bots'] });
+      queryClient.invalidateQueries({ queryKey: ['exchange-credentials'] });
+      setIsRotating(false);
+    }
+  };
+
+  const isDone = result !== null && !result.error;
+
+  return (
+    <>
+      <Transition.Root show={isOpen} as={Fragment}>
+        <Dialog as="div" className="relative z-50" onClose={isRotating ? () => {} : onClose}>
+          <Transition.Child
+            as={Fragment}
+            enter="ease-out duration-300"
+            enterFrom="opacity-0"
+            enterTo="opacity-100"
+            leave="ease-in duration-200"
+            leaveFrom="opacity-100"
+            leaveTo="opacity-0"
+          >
+            <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+          </Transition.Child>
+
+          <div className="fixed inset-0 z-10 overflow-y-auto">
+            <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+              <Transition.Child
+                as={Fragment}
+                enter="ease-out duration-300"
+                enterFrom="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+                enterTo="opacity-100 translate-y-0 sm:scale-100"
+                leave="ease-in duration-200"
+                leaveFrom="opacity-100 translate-y-0 sm:scale-100"
+                leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+              >
+                <Dialog.Panel className="relative transform overflow-hidden rounded-lg bg-white px-4 pb-4 pt-5 text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-lg sm:p-6 w-[calc(100vw-2rem)] max-w-[calc(100vw-2rem)] sm:max-w-lg">
+                  <div className="absolute right-0 top-0 hidden pr-4 pt-4 sm:block">
+                    <button
+                      type="button"
+                      className="rounded-md bg-white text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2"
+                      onClick={onClose}
+                      disabled={isRotating}
+                    >
+                      <span className="sr-only">Close</span>
+                      <XMarkIcon className="h-6 w-6" aria-hidden="true" />
+                    </button>
+                  </div>
+
+                  <Dialog.Title
+                    as="h3"
+                    className="flex items-center gap-2 text-lg font-semibold leading-6 text-gray-900"
+                  >
+                    <ArrowPathRoundedSquareIcon className="h-5 w-5 text-primary-600" />
+                    Rotate API Key
+                  </Dialog.Title>
+                  <p className="mt-2 text-sm text-gray-600">
+                    Replace <span className="font-medium">{credential.account_name}</span> with a
+                    new key. Bots keep their configuration and positions; only the key they trade
+                    with changes.
+                  </p>
+
+                  <div className="mt-5 space-y-5">
+                    {/* 1. New key */}
+                    <div>
+                      <label
+                        htmlFor="rotation_new_key"
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        1. New key
+                      </label>
+                      <div className="mt-1 flex gap-2">
+                        <select
+                          id="rotation_new_key"
+                          value={newCredentialId}
+                          onChange={e => selectNewCredential(e.target.value)}
+                          disabled={isRotating}
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                        >
+                          <option value="">Select a key…</option>
+                          {candidates.map(candidate => (
+                            <option key={candidate.id} value={candidate.id}>
+                              {candidate.account_name} ({candidate.masked_api_key})
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => setIsAddModalOpen(true)}
+                          disabled={isRotating}
+                          className="inline-flex flex-shrink-0 items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          <PlusIcon className="h-4 w-4 mr-1" />
+                          Add
+                        </button>
+                      </div>
+                      <p className="mt-1 text-xs text-gray-500">
+                        Must be an active {credential.exchange}
+                        {credential.is_testnet ? ' testnet' : ''} key.
+                      </p>
+                    </div>
+
+                    {/* 2. Test */}
+                    <div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium text-gray-700">
+                          2. Test the new key
+                        </span>
+                        <LoadingButton
+                          size="sm"
+                          variant="secondary"
+                          onClick={handleTest}
+                          loading={isTesting}
+                          disabled={!newCredential || isRotating}
+                        >
+                          Test
+                        </LoadingButton>
+                      </div>
+                      {testResult && (
+                        <p
+                          className={`mt-1 text-xs ${testResult.success ? 'text-green-700' : 'text-red-700'}`}
+                        >
+                          {testResult.success ? 'Connection OK' : 'Connection failed'}
+                          {testResult.message && ` · ${testResult.message}`}
+                        </p>
+                      )}
+                      {withdrawalWarning && (
+                        <p className="mt-1 text-xs text-red-700">{withdrawalWarning.message}</p>
+                      )}
+                      <p className="mt-1 text-xs text-gray-500">
+                        The key is tested again when the rotation starts.
+                      </p>
+                    </div>
+
+                    {/* 3. Bots */}
+                    <div>
+                      <span className="text-sm font-medium text-gray-700">3. Bots to move</span>
+                      {isBotsLoading ? (
+                        <p className="mt-1 text-xs text-gray-500">Loading bots…</p>
+                      ) : affectedBots.length === 0 ? (
+                        <p className="mt-1 text-xs text-gray-500">
+                          No bots use this key. Rotating only deactivates it.
+                        </p>
+                      ) : (
+                        <ul className="mt-1 max-h-32 overflow-y-auto rounded-md border border-gray-200 divide-y divide-gray-100 text-xs">
+                          {affectedBots.map(bot => (
+                            <li key={bot.id} className="flex justify-between px-3 py-1.5">
+                              <span className="text-gray-900">{bot.name}</span>
+                              <span
+                                className={
+                                  bot.status === 'running' ? 'text-green-600' : 'text-gray-500'
+                                }
+                              >
+                                {bot.status === 'running' ? 'running · paused briefly' : bot.status}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+
+                    {isRotating && (
+                      <p className="text-xs text-gray-500">
+                        Rotating… This runs on our servers and finishes even if you close this page.
+                      </p>
+                    )}
+
+                    {result && (
+                      <div className="rounded-md bg-gray-50 p-3">
+                        <div className="mb-2 flex items-center justify-between">
+                          <span className="text-sm font-medium text-gray-700">Result</span>
+                          <span
+                            className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[result.status].className}`}
+                          >
+                            {STATUS_STYLES[result.status].label}
+                          </span>
+                        </div>
+                        <StepList steps={result.steps} />
+                        {result.error && (
+                          <p className="mt-2 text-xs text-red-700">{result.error}</p>
+                        )}
+                      </div>
+                    )}
+
+                    {history.length > 0 && (
+                      <details className="text-sm">
+                        <summary className="cursor-pointer font-medium text-gray-700">
+                          Rotation history ({history.length})
+                        </summary>
+                        <ul className="mt-2 space-y-3">
+                          {history.map(rotation => (
+                            <li key={rotation.id} className="rounded-md border border-gray-200 p-3">
+                              <div className="flex items-center justify-between text-xs">
+                                <span className="text-gray-700">
+                                  {new Date(rotation.started_at).toLocaleString()} ·{' '}
+                                  {rotation.old_account_name} → {rotation.new_account_name}
+                                </span>
+                                <span
+                                  className={`inline-flex items-center px-2 py-0.5 rounded font-medium ${STATUS_STYLES[rotation.status].className}`}
+                                >
+                                  {STATUS_STYLES[rotation.status].label}
+                                </span>
+                              </div>
+                              <div className="mt-2">
+                                <StepList steps={rotation.steps} />
+                              </div>
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
+                  </div>
+
+                  <div className="mt-6 flex flex-col-reverse sm:flex-row sm:justify-end gap-3">
+                    <button
+                      type="button"
+                      className="inline-flex w-full justify-center rounded-md bg-white px-4 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 sm:w-auto disabled:opacity-50"
+                      onClick={onClose}
+                      disabled={isRotating}
+                    >
+                      {isDone ? 'Close' : 'Cancel'}
+                    </button>
+                    {!isDone && (
+                      <LoadingButton
+                        onClick={handleRotate}
+                        loading={isRotating}
+                        disabled={!newCredential || isRotating}
+                        className="w-full sm:w-auto"
+                      >
+                        Rotate Key
+                      </LoadingButton>
+                    )}
+                  </div>
+                </Dialog.Panel>
+              </Transition.Child>
+            </div>
+          </div>
+        </Dialog>
+      </Transition.Root>
+
+      {isAddModalOpen && (
+        <AddExchangeModal
+          isOpen={isAddModalOpen}
+          onClose={() => setIsAddModalOpen(false)}
+          onSuccess={created => {
+            setAddedCredential(created);
+            selectNewCredential(created.id);
+            queryClient.invalidateQueries({ queryKey: ['exchange-credentials'] });
+          }}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,290 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ShieldCheckIcon, TrashIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import SettingsCard from './SettingsCard';
+import ToggleSwitch from './ToggleSwitch';
+import LoadingButton from './LoadingButton';
+import { useAuth } from '@/hooks/useAuth';
+import withdrawalService, {
+  AddressBookEntry,
+  ALLOWLIST_COOLING_PERIOD_OPTIONS,
+  DEFAULT_ALLOWLIST_SETTINGS,
+  WithdrawalAllowlistSettings as AllowlistSettings,
+} from '@/services/withdrawals';
+import { networkRegistry } from '@/services/networks';
+
+const ALLOWLIST_QUERY_KEY = ['wallet', 'allowlist'];
+const ADDRESS_BOOK_QUERY_KEY = ['wallet', 'address-book'];
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm';
+
+const formatHours = (hours: number) =>
+  hours % 24 === 0 ? `${hours / 24} day${hours === 24 ? '' : 's'}` : `${hours} hours`;
+
+export default function WithdrawalAllowlistSettings() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [coolingPeriod, setCoolingPeriod] = useState(
+    DEFAULT_ALLOWLIST_SETTINGS.cooling_period_hours,
+  );
+  const [showDisable, setShowDisable] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyEntryId, setBusyEntryId] = useState<string | null>(null);
+
+  const { data: settings = DEFAULT_ALLOWLIST_SETTINGS } = useQuery({
+    queryKey: ALLOWLIST_QUERY_KEY,
+    queryFn: () => withdrawalService.getAllowlistSettings(),
+  });
+
+  const { data: addressBook = [] } = useQuery({
+    queryKey: ADDRESS_BOOK_QUERY_KEY,
+    queryFn: () => withdrawalService.getAddressBook(),
+  });
+
+  const runUpdate = async (update: () => Promise<AllowlistSettings>, successMessage: string) => {
+    setIsSaving(true);
+    try {
+      const saved = await update();
+      queryClient.setQueryData(ALLOWLIST_QUERY_KEY, saved);
+      toast.success(successMessage);
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update allowlist');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEnable = () =>
+    runUpdate(
+      () => withdrawalService.enableAllowlist(coolingPeriod),
+      'Withdrawal allowlist turned on',
+    );
+
+  const handleRequestDisable = async () => {
+    if (!/^\d{6}$/.test(twoFactorCode)) {
+      toast.error('Enter the 6-digit code from your authenticator app');
+      return;
+    }
+    const done = await runUpdate(
+      () => withdrawalService.requestAllowlistDisable(twoFactorCode),
+      `Allowlist will turn off in ${formatHours(settings.disable_delay_hours)}`,
+    );
+    if (done) {
+      setShowDisable(false);
+      setTwoFactorCode('');
+    }
+  };
+
+  const handleCancelDisable = () =>
+    runUpdate(() => withdrawalService.cancelAllowlistDisable(), 'Allowlist stays on');
+
+  const handleResend = async (entry: AddressBookEntry) => {
+    setBusyEntryId(entry.id);
+    try {
+      await withdrawalService.resendAddressConfirmation(entry.id);
+      toast.success('Confirmation email sent');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to resend confirmation email');
+    } finally {
+      setBusyEntryId(null);
+    }
+  };
+
+  const handleRemove = async (entry: AddressBookEntry) => {
+    if (!confirm(`Remove ${entry.name} from your address book?`)) return;
+
+    setBusyEntryId(entry.id);
+    try {
+      await withdrawalService.removeFromAddressBook(entry.id);
+      queryClient.invalidateQueries({ queryKey: ADDRESS_BOOK_QUERY_KEY });
+      toast.success('Address removed');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove address');
+    } finally {
+      setBusyEntryId(null);
+    }
+  };
+
+  const renderEntryStatus = (entry: AddressBookEntry) => {
+    const status = withdrawalService.getAddressBookStatus(entry);
+    if (status === 'pending_email') {
+      return (
+        <span className="text-xs text-orange-600">
+          Awaiting email confirmation ·{' '}
+          <button
+            onClick={() => handleResend(entry)}
+            disabled={busyEntryId === entry.id}
+            className="underline hover:text-orange-800 disabled:opacity-50"
+          >
+            Resend
+          </button>
+        </span>
+      );
+    }
+    if (status === 'cooling_down') {
+      return (
+        <span className="text-xs text-orange-600">
+          Unlocks {new Date(entry.unlocks_at!).toLocaleString()}
+        </span>
+      );
+    }
+    return <span className="text-xs text-green-600">Ready</span>;
+  };
+
+  return (
+    <SettingsCard
+      title="Withdrawal Address Allowlist"
+      description="Only send withdrawals to addresses you have confirmed by email"
+      icon={<ShieldCheckIcon className="h-5 w-5" />}
+      action={
+        <ToggleSwitch
+          enabled={settings.enabled}
+          onToggle={() => (settings.enabled ? setShowDisable(true) : handleEnable())}
+          disabled={isSaving || !!settings.disable_scheduled_at}
+        />
+      }
+      className="mt-6"
+    >
+      <div className="space-y-4">
+        {!settings.enabled && (
+          <div>
+            <label htmlFor="cooling_period" className="block text-sm font-medium text-gray-700">
+              Lock new addresses for
+            </label>
+            <select
+              id="cooling_period"
+              value={coolingPeriod}
+              onChange={e => setCoolingPeriod(parseInt(e.target.value, 10))}
+              className={inputClassName}
+            >
+              {ALLOWLIST_COOLING_PERIOD_OPTIONS.map(hours => (
+                <option key={hours} value={hours}>
+                  {formatHours(hours)} after email confirmation
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              Turning the allowlist off later needs a two-factor code and takes{' '}
+              {formatHours(settings.disable_delay_hours)} to apply.
+            </p>
+          </div>
+        )}
+
+        {settings.enabled && (
+          <p className="text-sm text-gray-600">
+            New addresses unlock {formatHours(settings.cooling_period_hours)} after you confirm them
+            by email.
+          </p>
+        )}
+
+        {settings.disable_scheduled_at && (
+          <div className="flex items-center justify-between rounded-md border border-yellow-200 bg-yellow-50 p-3">
+            <p className="text-sm text-yellow-800">
+              The allowlist turns off on {new Date(settings.disable_scheduled_at).toLocaleString()}.
+              If you did not request this, cancel it and change your password.
+            </p>
+            <LoadingButton
+              onClick={handleCancelDisable}
+              loading={isSaving}
+              variant="secondary"
+              size="sm"
+              className="ml-3 flex-shrink-0"
+            >
+              Keep On
+            </LoadingButton>
+          </div>
+        )}
+
+        {showDisable && !settings.disable_scheduled_at && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-4">
+            <p className="text-sm text-red-800">
+              The allowlist will stay on for {formatHours(settings.disable_delay_hours)} after you
+              confirm, then any address can be withdrawn to.
+            </p>
+            {user?.two_factor_enabled === false && (
+              <p className="mt-2 text-sm text-red-800">
+                Two-factor authentication is not set up on your account, so the allowlist cannot be
+                turned off yet.
+              </p>
+            )}
+            <label htmlFor="allowlist_2fa" className="mt-3 block text-sm font-medium text-red-900">
+              Two-factor code
+            </label>
+            <input
+              id="allowlist_2fa"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              value={twoFactorCode}
+              onChange={e => setTwoFactorCode(e.target.value.replace(/\D/g, ''))}
+              className={`${inputClassName} font-mono`}
+            />
+            <div className="mt-3 flex space-x-2">
+              <LoadingButton
+                onClick={handleRequestDisable}
+                loading={isSaving}
+                variant="danger"
+                size="sm"
+              >
+                Turn Off
+              </LoadingButton>
+              <LoadingButton
+                onClick={() => {
+                  setShowDisable(false);
+                  setTwoFactorCode('');
+                }}
+                variant="secondary"
+                size="sm"
+              >
+                Cancel
+              </LoadingButton>
+            </div>
+          </div>
+        )}
+
+        <div className="border-t border-gray-200 pt-4">
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Address Book</h4>
+          {addressBook.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No saved addresses. Save one from the withdrawal form on your wallet page.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {addressBook.map(entry => (
+                <li key={entry.id} className="flex items-center justify-between py-2">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900">
+                      {entry.name}{' '}
+                      <span className="text-xs font-normal text-gray-500">
+                        {networkRegistry.get(entry.network)?.name ?? entry.network} ·{' '}
+                        {entry.currency}
+                      </span>
+                    </div>
+                    <div className="truncate font-mono text-xs text-gray-500">{entry.address}</div>
+                    {renderEntryStatus(entry)}
+                  </div>
+                  <button
+                    onClick={() => handleRemove(entry)}
+                    disabled={busyEntryId === entry.id}
+                    className="ml-3 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                    title="Remove address"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </SettingsCard>
+  );
+}
@@ -0,0 +1,259 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import {
+  BoltIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  SignalIcon,
+  XCircleIcon,
+} from '@heroicons/react/24/outline';
+import { AIProvider, LocalLLMConfig } from '@/services/tradingBot';
+import { AI_PROVIDERS, aiProviderService, LocalLLMTestResult } from '@/services/aiProviders';
+
+export interface AIProviderSelection {
+  ai_provider?: AIProvider;
+  ai_model?: string;
+  local_llm?: LocalLLMConfig;
+}
+
+interface AIProviderSettingsProps {
+  value: AIProviderSelection;
+  onChange: (selection: AIProviderSelection) => void;
+  executionInterval: number; // Minutes between analyses, for the fuel estimate
+  error?: string;
+}
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm';
+
+const DEFAULT_PROVIDER: AIProvider = 'openai';
+
+// Model provider for an ai_signal bot, including self-hosted OpenAI-compatible servers
+export default function AIProviderSettings({
+  value,
+  onChange,
+  executionInterval,
+  error,
+}: AIProviderSettingsProps) {
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<LocalLLMTestResult | null>(null);
+
+  const { data: pricing = [] } = useQuery({
+    queryKey: ['trading-bots', 'ai-provider-pricing'],
+    queryFn: () => aiProviderService.getPricing(),
+    staleTime: 60 * 60 * 1000,
+  });
+
+  const provider = value.ai_provider ?? DEFAULT_PROVIDER;
+  const model = value.ai_model ?? '';
+  const local = value.local_llm ?? { base_url: '' };
+  const providerInfo = AI_PROVIDERS.find(option => option.value === provider);
+  const capabilities = aiProviderService.getCapabilities(provider, model, value.local_llm);
+  const providerPricing = pricing.find(entry => entry.provider === provider);
+  const estimate = providerPricing
+    ? aiProviderService.estimateFuel(providerPricing, capabilities, executionInterval)
+    : null;
+
+  // Any change to the server or model invalidates the last connection test
+  const updateLocal = (changes: Partial<LocalLLMConfig>) => {
+    setTestResult(null);
+    onChange({ ...value, local_llm: { ...local, ...changes, supports_vision: undefined } });
+  };
+
+  const handleProviderChange = (next: AIProvider) => {
+    setTestResult(null);
+    onChange({
+      ai_provider: next,
+      ai_model: undefined,
+      local_llm: next === 'local' ? { base_url: '' } : undefined,
+    });
+  };
+
+  const handleTestConnection = async () => {
+    setTesting(true);
+    try {
+      const result = await aiProviderService.testLocalConnection({ ...local, model });
+      setTestResult(result);
+      if (result.success) {
+        onChange({
+          ...value,
+          local_llm: { ...local, supports_vision: result.supports_vision === true },
+        });
+        toast.success('Connection successful!');
+      } else {
+        toast.error(result.message || 'Connection failed');
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to test connection';
+      setTestResult({ success: false, message: errorMessage });
+      toast.error(errorMessage);
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
+      <h3 className="text-lg font-medium text-purple-900 mb-4">AI Model</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="ai_provider" className="block text-sm font-medium text-gray-700">
+            Provider
+          </label>
+          <select
+            id="ai_provider"
+            value={provider}
+            onChange={e => handleProviderChange(e.target.value as AIProvider)}
+            className={inputClassName}
+          >
+            {AI_PROVIDERS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500">{providerInfo?.description}</p>
+        </div>
+
+        <div>
+          <label htmlFor="ai_model" className="block text-sm font-medium text-gray-700">
+            Model{provider === 'local' ? ' *' : ''}
+          </label>
+          <input
+            type="text"
+            id="ai_model"
+            value={model}
+            onChange={e => {
+              if (provider === 'local') {
+                setTestResult(null);
+                onChange({
+                  ...value,
+                  ai_model: e.target.value,
+                  local_llm: { ...local, supports_vision: undefined },
+                });
+              } else {
+                onChange({ ...value, ai_model: e.target.value });
+              }
+            }}
+            placeholder={providerInfo?.model_placeholder}
+            list={testResult?.models?.length ? 'local_llm_models' : undefined}
+            className={inputClassName}
+          />
+          {testResult?.models && (
+            <datalist id="local_llm_models">
+              {testResult.models.map(name => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+          )}
+          {provider !== 'local' && (
+            <p className="mt-1 text-xs text-gray-500">Empty uses the platform default model</p>
+          )}
+        </div>
+      </div>
+
+      {provider === 'local' && (
+        <div className="mt-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="local_llm_url" className="block text-sm font-medium text-gray-700">
+                Server URL *
+              </label>
+              <input
+                type="url"
+                id="local_llm_url"
+                value={local.base_url}
+                onChange={e => updateLocal({ base_url: e.target.value })}
+                placeholder="http://10.0.0.5:11434/v1"
+                className={inputClassName}
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                OpenAI-compatible base URL. It must be reachable from our bot runners, not just your
+                browser.
+              </p>
+            </div>
+            <div>
+              <label htmlFor="local_llm_key" className="block text-sm font-medium text-gray-700">
+                API Key
+              </label>
+              <input
+                type="password"
+                id="local_llm_key"
+                value={local.api_key ?? ''}
+                onChange={e => updateLocal({ api_key: e.target.value || undefined })}
+                placeholder="Only if your server requires one"
+                autoComplete="off"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-3 md:flex-row md:items-center">
+            <button
+              type="button"
+              onClick={handleTestConnection}
+              disabled={testing}
+              className="inline-flex items-center justify-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <SignalIcon className="h-4 w-4 mr-2" />
+              {testing ? 'Testing...' : 'Test Connection'}
+            </button>
+            {testResult && (
+              <div
+                className={`flex items-center text-sm ${testResult.success ? 'text-green-700' : 'text-red-700'}`}
+              >
+                {testResult.success ? (
+                  <CheckCircleIcon className="h-5 w-5 mr-1" />
+                ) : (
+                  <XCircleIcon className="h-5 w-5 mr-1" />
+                )}
+                {testResult.message}
+                {testResult.success && testResult.latency_ms !== undefined && (
+                  <span className="ml-2 text-gray-500">({testResult.latency_ms} ms)</span>
+                )}
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-600">
+            Market data and charts are sent only to this server, never to a hosted AI vendor.
+          </p>
+        </div>
+      )}
+
+      {/* Capabilities */}
+      {provider === 'local' && local.supports_vision === undefined ? (
+        <p className="mt-4 text-xs text-gray-600">
+          Test the connection to check whether this model can read chart images.
+        </p>
+      ) : (
+        !capabilities.supports_vision &&
+        (provider === 'local' || model.trim()) && (
+          <div className="mt-4 flex items-start rounded-md border border-yellow-200 bg-yellow-50 p-3">
+            <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0 text-yellow-500" />
+            <p className="ml-2 text-sm text-yellow-800">
+              This model does not accept images, so chart images are skipped and the analysis relies
+              on indicator data only.
+            </p>
+          </div>
+        )
+      )}
+
+      {estimate && (
+        <div className="mt-4 flex items-center text-sm text-gray-700">
+          <BoltIcon className="h-4 w-4 mr-1 text-yellow-500" />
+          {estimate.per_analysis.toFixed(2)} fuel per analysis (≈{estimate.per_day.toFixed(1)} per
+          symbol per day)
+          {!capabilities.external_api_cost && (
+            <span className="ml-2 text-green-700">No external API cost, platform fee only</span>
+          )}
+        </div>
+      )}
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,368 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ArrowUpTrayIcon, ChartBarIcon, PlayIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { CreateBotInput } from '@/services/tradingBot';
+import {
+  backtestService,
+  BacktestResult,
+  Candle,
+  BACKTEST_SUPPORTED_STRATEGIES,
+  DEFAULT_BACKTEST_OPTIONS,
+} from '@/services/backtest';
+import EquityCurveChart from './EquityCurveChart';
+
+interface BacktestPanelProps {
+  input: CreateBotInput;
+}
+
+type CandleSource = 'api' | 'file';
+
+const INTERVALS = ['15m', '30m', '1h', '4h', '1d'];
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 2 });
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+export default function BacktestPanel({ input }: BacktestPanelProps) {
+  const [symbol, setSymbol] = useState(input.symbols[0] || '');
+  const [source, setSource] = useState<CandleSource>('api');
+  const [candleInterval, setCandleInterval] = useState('1h');
+  const [limit, setLimit] = useState(500);
+  const [feePercent, setFeePercent] = useState(DEFAULT_BACKTEST_OPTIONS.fee_percent);
+  const [slippagePercent, setSlippagePercent] = useState(DEFAULT_BACKTEST_OPTIONS.slippage_percent);
+  const [uploadedCandles, setUploadedCandles] = useState<Candle[] | null>(null);
+  const [uploadedFileName, setUploadedFileName] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+
+  useEffect(() => {
+    if (!input.symbols.includes(symbol)) {
+      setSymbol(input.symbols[0] || '');
+    }
+  }, [input.symbols, symbol]);
+
+  // Results describe a specific configuration, so drop them when it changes
+  useEffect(() => {
+    setResult(null);
+  }, [input.strategy, input.starting_balance, input.trading_mode]);
+
+  const isSupported = BACKTEST_SUPPORTED_STRATEGIES.includes(input.strategy.type);
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const candles = await backtestService.loadCandlesFromFile(file);
+      setUploadedCandles(candles);
+      setUploadedFileName(file.name);
+      toast.success(`Loaded ${candles.length} candles from ${file.name}`);
+    } catch (error) {
+      setUploadedCandles(null);
+      setUploadedFileName('');
+      toast.error(error instanceof Error ? error.message : 'Failed to read candle file');
+    }
+  };
+
+  const handleRun = async () => {
+    if (!symbol) {
+      toast.error('Select a symbol to backtest');
+      return;
+    }
+
+    setIsRunning(true);
+    try {
+      const candles =
+        source === 'file'
+          ? uploadedCandles
+          : await backtestService.fetchCandles(symbol, candleInterval, limit, input.trading_mode);
+      if (!candles) {
+        toast.error('Upload a CSV or JSON candle file first');
+        return;
+      }
+
+      setResult(
+        backtestService.runBacktest(input, candles, {
+          ...DEFAULT_BACKTEST_OPTIONS,
+          symbol,
+          initial_balance: input.starting_balance,
+          fee_percent: feePercent,
+          slippage_percent: slippagePercent,
+        }),
+      );
+    } catch (error) {
+      setResult(null);
+      toast.error(error instanceof Error ? error.message : 'Backtest failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  if (!isSupported) {
+    return (
+      <div className="border border-gray-200 rounded-lg p-4 text-sm text-gray-500">
+        Backtesting is not available for this strategy yet.
+      </div>
+    );
+  }
+
+  const stats = result?.statistics;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <ChartBarIcon className="h-5 w-5 text-primary-600" />
+        <h4 className="text-md font-medium text-gray-900">Backtest this configuration</h4>
+      </div>
+      <p className="text-xs text-gray-500">
+        Replays the strategy over historical candles before any real money is committed. Results are
+        simulated and do not guarantee future performance.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="backtest_symbol" className="block text-sm font-medium text-gray-700">
+            Symbol
+          </label>
+          <select
+            id="backtest_symbol"
+            value={symbol}
+            onChange={e => setSymbol(e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+          >
+            {input.symbols.map(s => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="backtest_fee" className="block text-sm font-medium text-gray-700">
+            Fee per Fill (%)
+          </label>
+          <input
+            type="number"
+            id="backtest_fee"
+            min="0"
+            max="1"
+            step="0.01"
+            value={feePercent}
+            onChange={e => setFeePercent(parseFloat(e.target.value) || 0)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="backtest_slippage" className="block text-sm font-medium text-gray-700">
+            Slippage (%)
+          </label>
+          <input
+            type="number"
+            id="backtest_slippage"
+            min="0"
+            max="5"
+            step="0.01"
+            value={slippagePercent}
+            onChange={e => setSlippagePercent(parseFloat(e.target.value) || 0)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            name="backtest_source"
+            checked={source === 'api'}
+            onChange={() => setSource('api')}
+            className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300"
+          />
+          Exchange history
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            name="backtest_source"
+            checked={source === 'file'}
+            onChange={() => setSource('file')}
+            className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300"
+          />
+          Upload CSV / JSON
+        </label>
+      </div>
+
+      {source === 'api' ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="backtest_interval" className="block text-sm font-medium text-gray-700">
+              Candle Interval
+            </label>
+            <select
+              id="backtest_interval"
+              value={candleInterval}
+              onChange={e => setCandleInterval(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            >
+              {INTERVALS.map(i => (
+                <option key={i} value={i}>
+                  {i}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="backtest_limit" className="block text-sm font-medium text-gray-700">
+              Number of Candles
+            </label>
+            <input
+              type="number"
+              id="backtest_limit"
+              min="50"
+              max="1500"
+              value={limit}
+              onChange={e => setLimit(parseInt(e.target.value) || 500)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            />
+          </div>
+        </div>
+      ) : (
+        <div>
+          <label className="flex items-center justify-center gap-2 border-2 border-dashed border-gray-300 rounded-md p-4 text-sm text-gray-600 cursor-pointer hover:border-gray-400">
+            <ArrowUpTrayIcon className="h-5 w-5" />
+            {uploadedFileName
+              ? `${uploadedFileName} (${uploadedCandles?.length || 0} candles)`
+              : 'Choose a file with timestamp, open, high, low, close, volume columns'}
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={e => handleFileChange(e.target.files?.[0])}
+            />
+          </label>
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleRun}
+        disabled={isRunning || input.symbols.length === 0}
+        className="inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isRunning ? (
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-900 mr-2"></div>
+        ) : (
+          <PlayIcon className="h-4 w-4 mr-2" />
+        )}
+        {isRunning ? 'Running...' : 'Run Backtest'}
+      </button>
+
+      {result && stats && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {[
+              {
+                label: 'Return',
+                value: formatPercent(result.total_return_percent),
+                positive: result.total_return_percent >= 0,
+              },
+              { label: 'Final Balance', value: formatCurrency(result.final_balance) },
+              { label: 'Win Rate', value: `${stats.win_rate.toFixed(1)}%` },
+              {
+                label: 'Max Drawdown',
+                value: `${stats.max_drawdown.toFixed(2)}%`,
+                positive: false,
+              },
+              { label: 'Trades', value: stats.total_trades.toString() },
+              { label: 'Sharpe Ratio', value: stats.sharpe_ratio.toFixed(2) },
+              {
+                label: 'Profit Factor',
+                value: isFinite(stats.profit_factor) ? stats.profit_factor.toFixed(2) : '∞',
+              },
+              { label: 'Fees Paid', value: formatCurrency(result.total_fees) },
+            ].map(item => (
+              <div key={item.label} className="bg-gray-50 rounded-md p-3">
+                <div className="text-xs text-gray-500">{item.label}</div>
+                <div
+                  className={`text-sm font-semibold ${
+                    item.positive === undefined
+                      ? 'text-gray-900'
+                      : item.positive
+                        ? 'text-green-600'
+                        : 'text-red-600'
+                  }`}
+                >
+                  {item.value}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <div className="flex justify-between text-xs text-gray-500 mb-1">
+              <span>Equity curve (drawdown shaded)</span>
+              <span>
+                {new Date(result.start_time).toLocaleDateString()} –{' '}
+                {new Date(result.end_time).toLocaleDateString()}
+              </span>
+            </div>
+            <EquityCurveChart points={result.equity_curve} />
+          </div>
+
+          {result.warnings.length > 0 && (
+            <ul className="text-xs text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-md p-3 space-y-1">
+              {result.warnings.map(warning => (
+                <li key={warning}>• {warning}</li>
+              ))}
+            </ul>
+          )}
+
+          {result.trades.length > 0 && (
+            <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-md">
+              <table className="min-w-full divide-y divide-gray-200 text-xs">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Side</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Entry</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Exit</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Reason</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-500">PnL</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {result.trades.map(trade => (
+                    <tr key={trade.id}>
+                      <td className="px-3 py-1.5 uppercase">{trade.side}</td>
+                      <td className="px-3 py-1.5">
+                        {trade.entry_price.toFixed(4)}
+                        {trade.dca_entries.length > 0 && (
+                          <span className="ml-1 text-gray-400">
+                            (DCA ×{trade.dca_entries.length})
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-1.5">{trade.exit_price.toFixed(4)}</td>
+                      <td className="px-3 py-1.5 text-gray-500">
+                        {trade.exit_reason.replace(/_/g, ' ')}
+                      </td>
+                      <td
+                        className={`px-3 py-1.5 text-right font-medium ${
+                          trade.pnl >= 0 ? 'text-green-600' : 'text-red-600'
+                        }`}
+                      >
+                        {formatCurrency(trade.pnl)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
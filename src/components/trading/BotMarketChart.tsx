@@ -0,0 +1,270 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { aiAnalysisService, AIAnalysisLog } from '@/services/aiAnalysis';
+import { backtestService } from '@/services/backtest';
+import { IndicatorSettings, TradingBot, tradingBotService } from '@/services/tradingBot';
+import { DEFAULT_INDICATOR_SETTINGS, macd, rsi, sma } from '@/utils/indicators';
+import {
+  ChartMarker,
+  openPositionLevels,
+  positionMarkers,
+  signalMarkers,
+} from '@/utils/chartOverlays';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { ErrorMessage } from '@/components/ui/ErrorMessage';
+import CandlestickChart, { PriceOverlay } from './CandlestickChart';
+
+interface BotMarketChartProps {
+  bot: TradingBot;
+  onViewAnalysis?: (log: AIAnalysisLog) => void;
+}
+
+const INTERVALS = ['5m', '15m', '30m', '1h', '4h', '1d'];
+const CANDLE_LIMIT = 500;
+const ANALYSIS_LIMIT = 200;
+
+type IndicatorToggle = 'sma' | 'rsi' | 'macd' | 'trades' | 'signals';
+
+const TOGGLE_LABELS: Record<IndicatorToggle, string> = {
+  sma: 'SMA',
+  rsi: 'RSI',
+  macd: 'MACD',
+  trades: 'Trades',
+  signals: 'AI signals',
+};
+
+const selectClassName =
+  'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm';
+
+// Market chart for one of a bot's symbols with its trades, open position levels and AI signals
+export default function BotMarketChart({ bot, onViewAnalysis }: BotMarketChartProps) {
+  const config = bot.strategy.config;
+  const mainTimeframe = typeof config.main_timeframe === 'string' ? config.main_timeframe : '1h';
+  const indicators: IndicatorSettings = {
+    ...DEFAULT_INDICATOR_SETTINGS,
+    ...(config.indicator_settings as Partial<IndicatorSettings> | undefined),
+  };
+  const isAISignalBot = bot.strategy.type === 'ai_signal';
+
+  const [symbol, setSymbol] = useState(bot.symbols[0] || '');
+  const [candleInterval, setCandleInterval] = useState(
+    INTERVALS.includes(mainTimeframe) ? mainTimeframe : '1h',
+  );
+  const [visible, setVisible] = useState<Record<IndicatorToggle, boolean>>({
+    sma: true,
+    rsi: true,
+    macd: true,
+    trades: true,
+    signals: isAISignalBot,
+  });
+
+  const {
+    data: candles = [],
+    isLoading: loadingCandles,
+    error: candlesError,
+  } = useQuery({
+    queryKey: ['market-candles', symbol, candleInterval, bot.trading_mode],
+    queryFn: () =>
+      backtestService.fetchCandles(symbol, candleInterval, CANDLE_LIMIT, bot.trading_mode),
+    enabled: !!symbol,
+  });
+
+  const { data: openPositions = [] } = useQuery({
+    queryKey: ['trading-bots', 'positions', bot.id],
+    queryFn: () => tradingBotService.getBotPositions(bot.id),
+  });
+
+  const { data: history } = useQuery({
+    queryKey: ['trading-bots', 'position-history', bot.id],
+    queryFn: () => tradingBotService.getBotPositionHistory(bot.id),
+  });
+
+  const { data: analysis } = useQuery({
+    queryKey: ['ai-analysis', 'logs', bot.id, symbol],
+    queryFn: () =>
+      aiAnalysisService.getAnalysisLogs({ bot_id: bot.id, symbol, limit: ANALYSIS_LIMIT }),
+    enabled: isAISignalBot && !!symbol,
+  });
+
+  const positions = useMemo(() => {
+    // Open positions may also appear in the history; keep the live copy
+    const byId = new Map((history?.positions ?? []).map(position => [position.id, position]));
+    openPositions.forEach(position => byId.set(position.id, position));
+    return [...byId.values()];
+  }, [openPositions, history]);
+
+  const series = useMemo(() => {
+    const closes = candles.map(candle => candle.close);
+    return {
+      shortSma: sma(closes, indicators.short_sma),
+      longSma: sma(closes, indicators.long_sma),
+      rsi: rsi(closes, indicators.rsi_period),
+      macd: macd(closes, indicators.macd_fast, indicators.macd_slow, indicators.macd_signal),
+    };
+  }, [
+    candles,
+    indicators.short_sma,
+    indicators.long_sma,
+    indicators.rsi_period,
+    indicators.macd_fast,
+    indicators.macd_slow,
+    indicators.macd_signal,
+  ]);
+
+  const logs = useMemo(() => analysis?.analysis_logs ?? [], [analysis]);
+  const markers = useMemo(
+    () => [
+      ...(visible.trades ? positionMarkers(positions, symbol) : []),
+      ...(visible.signals ? signalMarkers(logs, symbol) : []),
+    ],
+    [positions, logs, symbol, visible.trades, visible.signals],
+  );
+  const levels = useMemo(
+    () => (visible.trades ? openPositionLevels(positions, symbol) : []),
+    [positions, symbol, visible.trades],
+  );
+
+  const overlays: PriceOverlay[] = visible.sma
+    ? [
+        {
+          id: 'short_sma',
+          label: `SMA ${indicators.short_sma}`,
+          values: series.shortSma,
+          className: 'stroke-sky-500',
+        },
+        {
+          id: 'long_sma',
+          label: `SMA ${indicators.long_sma}`,
+          values: series.longSma,
+          className: 'stroke-indigo-600',
+        },
+      ]
+    : [];
+
+  const handleMarkerClick = (marker: ChartMarker) => {
+    const log = marker.log_id && logs.find(entry => entry.id === marker.log_id);
+    if (log && onViewAnalysis) onViewAnalysis(log);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4 space-y-4">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Market Chart</h3>
+          <p className="text-sm text-gray-500">
+            Scroll to zoom, drag to pan. Hover a marker for details
+            {isAISignalBot && onViewAnalysis ? ', click an AI signal to open its analysis' : ''}.
+          </p>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label
+              htmlFor="market_chart_symbol"
+              className="block text-xs font-medium text-gray-700"
+            >
+              Symbol
+            </label>
+            <select
+              id="market_chart_symbol"
+              value={symbol}
+              onChange={e => setSymbol(e.target.value)}
+              className={selectClassName}
+            >
+              {bot.symbols.map(s => (
+                <option key={s} value={s}>
+                  {s}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label
+              htmlFor="market_chart_interval"
+              className="block text-xs font-medium text-gray-700"
+            >
+              Interval
+            </label>
+            <select
+              id="market_chart_interval"
+              value={candleInterval}
+              onChange={e => setCandleInterval(e.target.value)}
+              className={selectClassName}
+            >
+              {INTERVALS.map(i => (
+                <option key={i} value={i}>
+                  {i}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        {(Object.keys(TOGGLE_LABELS) as IndicatorToggle[])
+          .filter(toggle => toggle !== 'signals' || isAISignalBot)
+          .map(toggle => (
+            <label key={toggle} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={visible[toggle]}
+                onChange={e => setVisible(prev => ({ ...prev, [toggle]: e.target.checked }))}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              {TOGGLE_LABELS[toggle]}
+            </label>
+          ))}
+      </div>
+
+      {loadingCandles ? (
+        <div className="flex justify-center py-16">
+          <LoadingSpinner size="md" />
+        </div>
+      ) : candlesError ? (
+        <ErrorMessage
+          message={candlesError instanceof Error ? candlesError.message : 'Failed to load candles'}
+        />
+      ) : (
+        <CandlestickChart
+          candles={candles}
+          markers={markers}
+          levels={levels}
+          overlays={overlays}
+          rsi={
+            visible.rsi
+              ? {
+                  values: series.rsi,
+                  overbought: indicators.rsi_overbought,
+                  oversold: indicators.rsi_oversold,
+                }
+              : undefined
+          }
+          macd={visible.macd ? series.macd : undefined}
+          onMarkerClick={handleMarkerClick}
+        />
+      )}
+
+      <div className="flex flex-wrap gap-4 text-xs text-gray-500">
+        <span>
+          <span className="text-green-600">▲</span>/<span className="text-red-600">▼</span> Long /
+          short entry
+        </span>
+        <span>✕ Exit</span>
+        <span className="text-amber-500">◆ DCA fill</span>
+        <span>
+          <span className="text-orange-500">- - -</span> Trailing trigger,{' '}
+          <span className="text-blue-500">- - -</span> avg entry,{' '}
+          <span className="text-amber-400">- - -</span> next DCA
+        </span>
+        {isAISignalBot && (
+          <span>
+            <span className="text-emerald-500">●</span>/<span className="text-rose-500">●</span> AI
+            buy / sell
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
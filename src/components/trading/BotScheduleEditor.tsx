@@ -0,0 +1,361 @@
+'use client';
+
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { BotSchedule, ScheduledMarketEvent, TradingWindow, Weekday } from '@/services/tradingBot';
+import { createEmptySchedule, SCHEDULE_PRESETS, WEEKDAY_LABELS } from '@/utils/botSchedule';
+
+interface BotScheduleEditorProps {
+  schedule?: BotSchedule;
+  onChange: (schedule: BotSchedule) => void;
+}
+
+const TIMEZONES = [
+  'UTC',
+  'Europe/London',
+  'Europe/Berlin',
+  'America/New_York',
+  'America/Chicago',
+  'America/Los_Angeles',
+  'Asia/Tokyo',
+  'Asia/Singapore',
+  'Asia/Dubai',
+  'Africa/Lagos',
+  'Australia/Sydney',
+];
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm';
+
+// datetime-local inputs work in the browser's timezone without an offset
+const toLocalInput = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return '';
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : '');
+
+export default function BotScheduleEditor({ schedule, onChange }: BotScheduleEditorProps) {
+  const current = schedule ?? { ...createEmptySchedule(), enabled: false };
+  const timezones = TIMEZONES.includes(current.timezone)
+    ? TIMEZONES
+    : [current.timezone, ...TIMEZONES];
+
+  const update = (changes: Partial<BotSchedule>) => onChange({ ...current, ...changes });
+
+  const updateWindow = (index: number, changes: Partial<TradingWindow>) => {
+    update({
+      trading_windows: current.trading_windows.map((window, i) =>
+        i === index ? { ...window, ...changes } : window,
+      ),
+    });
+  };
+
+  const toggleDay = (index: number, day: Weekday) => {
+    const window = current.trading_windows[index];
+    if (!window) return;
+    const days = window.days.includes(day)
+      ? window.days.filter(d => d !== day)
+      : [...window.days, day].sort((a, b) => a - b);
+    updateWindow(index, { days });
+  };
+
+  const updateEvent = (index: number, changes: Partial<ScheduledMarketEvent>) => {
+    update({
+      market_events: current.market_events.map((event, i) =>
+        i === index ? { ...event, ...changes } : event,
+      ),
+    });
+  };
+
+  const addEvent = () => {
+    update({
+      market_events: [
+        ...current.market_events,
+        {
+          id: `event_${Date.now()}`,
+          title: '',
+          starts_at: '',
+          pause_before_minutes: 30,
+          resume_after_minutes: 30,
+        },
+      ],
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={current.enabled}
+          onChange={e => update({ enabled: e.target.checked })}
+          className="mr-2 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+        />
+        Only trade on a schedule
+      </label>
+
+      {current.enabled && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="schedule_timezone"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Timezone
+              </label>
+              <select
+                id="schedule_timezone"
+                value={current.timezone}
+                onChange={e => update({ timezone: e.target.value })}
+                className={inputClassName}
+              >
+                {timezones.map(timezone => (
+                  <option key={timezone} value={timezone}>
+                    {timezone}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <span className="block text-sm font-medium text-gray-700">Presets</span>
+              <div className="mt-1 flex flex-wrap gap-2">
+                {SCHEDULE_PRESETS.map(preset => (
+                  <button
+                    key={preset.id}
+                    type="button"
+                    onClick={() =>
+                      update({
+                        timezone: preset.timezone,
+                        trading_windows: preset.trading_windows.map(window => ({ ...window })),
+                      })
+                    }
+                    title={preset.description}
+                    className="rounded-full border border-gray-300 bg-white px-3 py-1 text-xs text-gray-700 hover:border-primary-500 hover:text-primary-700"
+                  >
+                    {preset.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Trading windows */}
+          <div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-700">Trading Windows</span>
+              <button
+                type="button"
+                onClick={() =>
+                  update({
+                    trading_windows: [
+                      ...current.trading_windows,
+                      { days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' },
+                    ],
+                  })
+                }
+                className="flex items-center text-xs text-primary-600 hover:text-primary-800"
+              >
+                <PlusIcon className="h-4 w-4 mr-1" />
+                Add Window
+              </button>
+            </div>
+            {current.trading_windows.length === 0 ? (
+              <p className="mt-1 text-xs text-gray-500">
+                No windows: the bot trades around the clock, apart from event pauses.
+              </p>
+            ) : (
+              <div className="mt-2 space-y-2">
+                {current.trading_windows.map((window, index) => (
+                  <div
+                    key={index}
+                    className="flex flex-wrap items-center gap-3 rounded-md border border-gray-200 bg-white p-2"
+                  >
+                    <div className="flex gap-1">
+                      {WEEKDAY_LABELS.map((label, day) => (
+                        <button
+                          key={label}
+                          type="button"
+                          onClick={() => toggleDay(index, day as Weekday)}
+                          className={`rounded px-1.5 py-0.5 text-xs ${
+                            window.days.includes(day as Weekday)
+                              ? 'bg-primary-600 text-white'
+                              : 'bg-gray-100 text-gray-600'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-1 text-sm text-gray-600">
+                      <input
+                        type="time"
+                        aria-label="Window start"
+                        value={window.start}
+                        onChange={e => updateWindow(index, { start: e.target.value })}
+                        className="rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                      />
+                      to
+                      <input
+                        type="time"
+                        aria-label="Window end"
+                        value={window.end}
+                        onChange={e => updateWindow(index, { end: e.target.value })}
+                        className="rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        update({
+                          trading_windows: current.trading_windows.filter((_, i) => i !== index),
+                        })
+                      }
+                      className="ml-auto text-red-600 hover:text-red-900"
+                      title="Remove Window"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+                <p className="text-xs text-gray-500">
+                  A window ending before it starts runs past midnight.
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Market events */}
+          <div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-700">High-Impact Events</span>
+              <button
+                type="button"
+                onClick={addEvent}
+                className="flex items-center text-xs text-primary-600 hover:text-primary-800"
+              >
+                <PlusIcon className="h-4 w-4 mr-1" />
+                Add Event
+              </button>
+            </div>
+            {current.market_events.length === 0 ? (
+              <p className="mt-1 text-xs text-gray-500">
+                Add releases such as CPI or FOMC to pause the bot around them.
+              </p>
+            ) : (
+              <div className="mt-2 space-y-2">
+                {current.market_events.map((event, index) => (
+                  <div
+                    key={event.id}
+                    className="grid grid-cols-2 md:grid-cols-5 gap-2 rounded-md border border-gray-200 bg-white p-2"
+                  >
+                    <input
+                      type="text"
+                      aria-label="Event title"
+                      value={event.title}
+                      onChange={e => updateEvent(index, { title: e.target.value })}
+                      placeholder="e.g. US CPI"
+                      className={inputClassName}
+                    />
+                    <input
+                      type="datetime-local"
+                      aria-label="Event time"
+                      value={toLocalInput(event.starts_at)}
+                      onChange={e =>
+                        updateEvent(index, { starts_at: fromLocalInput(e.target.value) })
+                      }
+                      className={inputClassName}
+                    />
+                    <label className="text-xs text-gray-500">
+                      Pause before (min)
+                      <input
+                        type="number"
+                        min="0"
+                        value={event.pause_before_minutes}
+                        onChange={e =>
+                          updateEvent(index, {
+                            pause_before_minutes: parseInt(e.target.value, 10) || 0,
+                          })
+                        }
+                        className={inputClassName}
+                      />
+                    </label>
+                    <label className="text-xs text-gray-500">
+                      Resume after (min)
+                      <input
+                        type="number"
+                        min="0"
+                        value={event.resume_after_minutes}
+                        onChange={e =>
+                          updateEvent(index, {
+                            resume_after_minutes: parseInt(e.target.value, 10) || 0,
+                          })
+                        }
+                        className={inputClassName}
+                      />
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        update({
+                          market_events: current.market_events.filter((_, i) => i !== index),
+                        })
+                      }
+                      className="justify-self-end self-center text-red-600 hover:text-red-900"
+                      title="Remove Event"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+                <p className="text-xs text-gray-500">Event times are in your local time.</p>
+              </div>
+            )}
+          </div>
+
+          {/* Auto-stop and resume */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="schedule_auto_stop"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Auto-Stop At
+              </label>
+              <input
+                type="datetime-local"
+                id="schedule_auto_stop"
+                value={toLocalInput(current.auto_stop_at)}
+                onChange={e =>
+                  update({ auto_stop_at: fromLocalInput(e.target.value) || undefined })
+                }
+                className={inputClassName}
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Empty = run until stopped. Open positions are managed by the bot&apos;s exit rules.
+              </p>
+            </div>
+            <label className="flex items-start text-sm text-gray-700 md:mt-6">
+              <input
+                type="checkbox"
+                checked={current.auto_resume}
+                onChange={e => update({ auto_resume: e.target.checked })}
+                className="mr-2 mt-0.5 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span>
+                Auto-resume
+                <span className="block text-xs text-gray-500">
+                  Resume when a window opens or an event pause ends. When off, the bot stays paused
+                  until you resume it.
+                </span>
+              </span>
+            </label>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
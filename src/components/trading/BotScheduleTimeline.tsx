@@ -0,0 +1,175 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { CalendarDaysIcon } from '@heroicons/react/24/outline';
+import { TradingBot } from '@/services/tradingBot';
+import {
+  buildScheduleTimeline,
+  getScheduleState,
+  nextScheduleChange,
+  ScheduleReason,
+} from '@/utils/botSchedule';
+
+interface BotScheduleTimelineProps {
+  bot: TradingBot;
+  days?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const REASON_STYLES: Record<ScheduleReason, { bar: string; badge: string }> = {
+  unscheduled: { bar: 'bg-green-400', badge: 'bg-gray-100 text-gray-700' },
+  in_window: { bar: 'bg-green-400', badge: 'bg-green-100 text-green-800' },
+  outside_window: { bar: 'bg-gray-200', badge: 'bg-gray-100 text-gray-700' },
+  market_event: { bar: 'bg-yellow-400', badge: 'bg-yellow-100 text-yellow-800' },
+  stopped: { bar: 'bg-red-400', badge: 'bg-red-100 text-red-800' },
+};
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const startOfLocalDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Upcoming trading windows, event pauses and auto-stop of a scheduled bot, in local time
+export default function BotScheduleTimeline({ bot, days = 7 }: BotScheduleTimelineProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const schedule = bot.schedule;
+
+  // Keep the current state and "now" marker fresh
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const rows = useMemo(() => {
+    if (!schedule?.enabled) return [];
+    const firstDay = startOfLocalDay(now);
+    return Array.from({ length: days }, (_, index) => {
+      const start = firstDay + index * DAY_MS;
+      const end = start + DAY_MS;
+      return { start, end, segments: buildScheduleTimeline(schedule, start, end) };
+    });
+  }, [schedule, now, days]);
+
+  if (!schedule?.enabled) {
+    return null;
+  }
+
+  const state = getScheduleState(schedule, now);
+  const next = nextScheduleChange(schedule, now, days);
+  const upcomingEvents = schedule.market_events
+    .filter(event => Date.parse(event.starts_at) + event.resume_after_minutes * 60 * 1000 > now)
+    .sort((a, b) => Date.parse(a.starts_at) - Date.parse(b.starts_at));
+  const autoStopAt = schedule.auto_stop_at ? Date.parse(schedule.auto_stop_at) : undefined;
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between mb-4">
+        <h3 className="flex items-center text-lg font-medium text-gray-900">
+          <CalendarDaysIcon className="h-5 w-5 text-primary-600 mr-2" />
+          Schedule
+          <span className="ml-2 text-xs font-normal text-gray-500">{schedule.timezone}</span>
+        </h3>
+        <div className="flex items-center gap-3 text-sm">
+          <span
+            className={`rounded-full px-2.5 py-0.5 text-xs font-medium ${REASON_STYLES[state.reason].badge}`}
+          >
+            {state.label}
+          </span>
+          {next && (
+            <span className="text-gray-500">
+              {next.state.label} from {formatDateTime(next.start)}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {rows.map(row => (
+          <div key={row.start} className="flex items-center gap-3">
+            <span className="w-24 flex-shrink-0 text-xs text-gray-500">
+              {new Date(row.start).toLocaleDateString('en-US', {
+                weekday: 'short',
+                month: 'short',
+                day: 'numeric',
+              })}
+            </span>
+            <div className="relative flex h-4 flex-1 overflow-hidden rounded bg-gray-100">
+              {row.segments.map(segment => (
+                <div
+                  key={segment.start}
+                  className={REASON_STYLES[segment.state.reason].bar}
+                  style={{ width: `${((segment.end - segment.start) / DAY_MS) * 100}%` }}
+                  title={`${segment.state.label}: ${formatDateTime(segment.start)} – ${formatDateTime(segment.end)}`}
+                />
+              ))}
+              {now >= row.start && now < row.end && (
+                <div
+                  className="absolute inset-y-0 w-0.5 bg-gray-900"
+                  style={{ left: `${((now - row.start) / DAY_MS) * 100}%` }}
+                />
+              )}
+            </div>
+          </div>
+        ))}
+        <div className="flex justify-between pl-[6.75rem] text-xs text-gray-400">
+          <span>00:00</span>
+          <span>06:00</span>
+          <span>12:00</span>
+          <span>18:00</span>
+          <span>24:00</span>
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-4 text-xs text-gray-600">
+        <span className="flex items-center">
+          <span className="mr-1 h-3 w-3 rounded bg-green-400" /> Trading
+        </span>
+        <span className="flex items-center">
+          <span className="mr-1 h-3 w-3 rounded bg-gray-200" /> Outside hours
+        </span>
+        <span className="flex items-center">
+          <span className="mr-1 h-3 w-3 rounded bg-yellow-400" /> Event pause
+        </span>
+        <span className="flex items-center">
+          <span className="mr-1 h-3 w-3 rounded bg-red-400" /> Stopped
+        </span>
+        {!schedule.auto_resume && (
+          <span className="text-gray-500">
+            Auto-resume is off: once paused, the bot waits for you to resume it.
+          </span>
+        )}
+      </div>
+
+      {(upcomingEvents.length > 0 || autoStopAt) && (
+        <ul className="mt-4 divide-y divide-gray-100 border-t border-gray-200 text-sm">
+          {upcomingEvents.map(event => (
+            <li key={event.id} className="flex justify-between py-2">
+              <span className="text-gray-900">{event.title}</span>
+              <span className="text-gray-500">
+                {formatDateTime(Date.parse(event.starts_at))} • paused {event.pause_before_minutes}m
+                before, {event.resume_after_minutes}m after
+              </span>
+            </li>
+          ))}
+          {autoStopAt && (
+            <li className="flex justify-between py-2">
+              <span className="text-red-700">Auto-stop</span>
+              <span className="text-gray-500">{formatDateTime(autoStopAt)}</span>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { ChangeEvent, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import {
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  DocumentDuplicateIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import {
+  botTemplateService,
+  BotTemplateFieldError,
+  SavedBotTemplate,
+} from '@/services/botTemplates';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+
+interface BotTemplateLibraryProps {
+  // Receives raw template JSON; parsing and validation happen in the caller
+  onImport: (json: string) => void;
+  // Errors that prevented the last import from loading at all
+  importErrors?: BotTemplateFieldError[];
+}
+
+export default function BotTemplateLibrary({
+  onImport,
+  importErrors = [],
+}: BotTemplateLibraryProps) {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pastedJson, setPastedJson] = useState('');
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const { data: templates = [], isLoading } = useQuery({
+    queryKey: ['trading-bots', 'templates'],
+    queryFn: () => botTemplateService.getSavedTemplates(),
+  });
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    onImport(await file.text());
+  };
+
+  const handleDelete = async (template: SavedBotTemplate) => {
+    if (!window.confirm(`Delete the "${template.name}" template?`)) {
+      return;
+    }
+
+    setDeletingId(template.id);
+    try {
+      await botTemplateService.deleteTemplate(template.id);
+      queryClient.setQueryData<SavedBotTemplate[]>(['trading-bots', 'templates'], prev =>
+        (prev ?? []).filter(t => t.id !== template.id),
+      );
+      toast.success('Template deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete template');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-gray-200 bg-gray-50 p-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start">
+        <div className="flex-1">
+          <label htmlFor="template_json" className="block text-sm font-medium text-gray-700">
+            Paste Template JSON
+          </label>
+          <textarea
+            id="template_json"
+            rows={3}
+            value={pastedJson}
+            onChange={e => setPastedJson(e.target.value)}
+            placeholder='{ "kind": "uptown.bot-template", ... }'
+            className="mt-1 block w-full rounded-md border-gray-300 font-mono text-xs shadow-sm focus:border-primary-500 focus:ring-primary-500"
+          />
+        </div>
+        <div className="flex gap-2 sm:mt-6 sm:flex-col">
+          <Button size="sm" onClick={() => onImport(pastedJson)} disabled={!pastedJson.trim()}>
+            Import
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <ArrowUpTrayIcon className="mr-1 h-4 w-4" />
+            From File
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {importErrors.length > 0 && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+          <p className="font-medium">This template could not be imported:</p>
+          <ul className="mt-1 list-inside list-disc text-red-700">
+            {importErrors.map((error, index) => (
+              <li key={`${error.field}-${index}`}>
+                {error.field && <span className="font-mono text-xs">{error.field}: </span>}
+                {error.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div>
+        <h5 className="text-sm font-medium text-gray-900">My Templates</h5>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <LoadingSpinner size="sm" />
+          </div>
+        ) : templates.length === 0 ? (
+          <p className="mt-1 text-sm text-gray-500">
+            No saved templates yet. Use &quot;Save as Template&quot; on the configuration step to
+            add one.
+          </p>
+        ) : (
+          <ul className="mt-2 divide-y divide-gray-200 rounded-md border border-gray-200 bg-white">
+            {templates.map(template => (
+              <li key={template.id} className="flex items-center justify-between px-3 py-2">
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium text-gray-900">{template.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {template.strategy_type.replace(/_/g, ' ').toUpperCase()} •{' '}
+                    {template.template.config.symbols.join(', ')}
+                  </p>
+                </div>
+                <div className="ml-3 flex flex-shrink-0 items-center space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => onImport(JSON.stringify(template.template))}
+                    className="text-primary-600 hover:text-primary-900"
+                    title="Use Template"
+                  >
+                    <DocumentDuplicateIcon className="h-5 w-5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => botTemplateService.downloadTemplate(template.template)}
+                    className="text-gray-600 hover:text-gray-900"
+                    title="Download JSON"
+                  >
+                    <ArrowDownTrayIcon className="h-5 w-5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(template)}
+                    disabled={deletingId === template.id}
+                    className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                    title="Delete Template"
+                  >
+                    <TrashIcon className="h-5 w-5" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,593 @@
+'use client';
+
+import { PointerEvent, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ArrowsPointingOutIcon,
+  MagnifyingGlassMinusIcon,
+  MagnifyingGlassPlusIcon,
+} from '@heroicons/react/24/outline';
+import { Candle } from '@/services/backtest';
+import { IndicatorSeries, MACDSeries } from '@/utils/indicators';
+import { candleIndexAt, ChartLevel, ChartLevelKind, ChartMarker } from '@/utils/chartOverlays';
+
+export interface PriceOverlay {
+  id: string;
+  label: string;
+  values: IndicatorSeries; // Aligned with the candles
+  className: string; // Stroke color, e.g. "stroke-blue-500"
+}
+
+interface CandlestickChartProps {
+  candles: Candle[];
+  markers?: ChartMarker[];
+  levels?: ChartLevel[];
+  overlays?: PriceOverlay[];
+  rsi?: { values: IndicatorSeries; overbought: number; oversold: number };
+  macd?: MACDSeries;
+  onMarkerClick?: (marker: ChartMarker) => void;
+}
+
+const WIDTH = 1000;
+const PRICE_AXIS_WIDTH = 70;
+const PLOT_WIDTH = WIDTH - PRICE_AXIS_WIDTH;
+const PRICE_HEIGHT = 320;
+const PANE_HEIGHT = 90;
+const PANE_GAP = 12;
+const TIME_AXIS_HEIGHT = 22;
+const DEFAULT_VISIBLE = 120;
+const MIN_VISIBLE = 20;
+const ZOOM_STEP = 1.25;
+
+const LEVEL_STYLES: Record<ChartLevelKind, string> = {
+  entry: 'stroke-blue-500',
+  trailing_trigger: 'stroke-orange-500',
+  next_dca: 'stroke-amber-400',
+};
+
+const formatPrice = (price: number) => (price >= 1 ? price.toFixed(2) : price.toPrecision(4));
+
+// Path through a series, starting a new segment after every gap
+const seriesPath = (
+  values: IndicatorSeries,
+  from: number,
+  to: number,
+  x: (index: number) => number,
+  y: (value: number) => number,
+) => {
+  let path = '';
+  let drawing = false;
+  for (let i = from; i < to; i++) {
+    const value = values[i];
+    if (value == null) {
+      drawing = false;
+      continue;
+    }
+    path += `${drawing ? 'L' : 'M'}${x(i).toFixed(1)},${y(value).toFixed(1)} `;
+    drawing = true;
+  }
+  return path;
+};
+
+// Zoomable, pannable candlestick chart with trade markers, price levels and indicator panes
+export default function CandlestickChart({
+  candles,
+  markers = [],
+  levels = [],
+  overlays = [],
+  rsi,
+  macd,
+  onMarkerClick,
+}: CandlestickChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ clientX: number; start: number } | null>(null);
+  const [view, setView] = useState({ start: 0, count: DEFAULT_VISIBLE });
+  const [hover, setHover] = useState<{ index: number; y: number } | null>(null);
+
+  const total = candles.length;
+  const height =
+    PRICE_HEIGHT +
+    (rsi ? PANE_HEIGHT + PANE_GAP : 0) +
+    (macd ? PANE_HEIGHT + PANE_GAP : 0) +
+    TIME_AXIS_HEIGHT;
+
+  // Show the latest candles whenever a new series is loaded
+  useEffect(() => {
+    const count = Math.min(DEFAULT_VISIBLE, total);
+    setView({ start: Math.max(0, total - count), count });
+  }, [candles, total]);
+
+  const clampView = (start: number, count: number) => {
+    const nextCount = Math.round(Math.min(Math.max(count, Math.min(MIN_VISIBLE, total)), total));
+    const nextStart = Math.round(Math.min(Math.max(start, 0), total - nextCount));
+    return { start: nextStart, count: nextCount };
+  };
+
+  // Zoom around a point given as a fraction of the plot width
+  const zoom = (factor: number, anchor = 1) => {
+    setView(prev => {
+      const count = prev.count * factor;
+      return clampView(prev.start + (prev.count - count) * anchor, count);
+    });
+  };
+
+  // React registers wheel listeners as passive, so preventDefault needs a native listener
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const anchor = Math.min(
+        Math.max(((event.clientX - rect.left) / rect.width) * (WIDTH / PLOT_WIDTH), 0),
+        1,
+      );
+      zoom(event.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP, anchor);
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+    // zoom only reads state through the setView updater
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [total]);
+
+  const { start, count } = view;
+  const end = Math.min(start + count, total);
+  const slot = PLOT_WIDTH / Math.max(count, 1);
+  const x = (index: number) => (index - start + 0.5) * slot;
+
+  const priceScale = useMemo(() => {
+    const visible = candles.slice(start, end);
+    const prices = [
+      ...visible.flatMap(candle => [candle.low, candle.high]),
+      ...levels.map(level => level.price),
+    ];
+    const min = Math.min(...prices);
+    const max = Math.max(...prices);
+    const padding = (max - min || max || 1) * 0.05;
+    return { min: min - padding, max: max + padding };
+  }, [candles, levels, start, end]);
+
+  const priceY = (price: number) =>
+    PRICE_HEIGHT - ((price - priceScale.min) / (priceScale.max - priceScale.min)) * PRICE_HEIGHT;
+
+  const rsiTop = PRICE_HEIGHT + PANE_GAP;
+  const macdTop = rsiTop + (rsi ? PANE_HEIGHT + PANE_GAP : 0);
+  const rsiY = (value: number) => rsiTop + PANE_HEIGHT - (value / 100) * PANE_HEIGHT;
+
+  const macdRange = useMemo(() => {
+    if (!macd) return 1;
+    const values = [
+      ...macd.macd.slice(start, end),
+      ...macd.signal.slice(start, end),
+      ...macd.histogram.slice(start, end),
+    ].filter((value): value is number => value != null);
+    return Math.max(...values.map(Math.abs), 1e-9);
+  }, [macd, start, end]);
+  const macdY = (value: number) =>
+    macdTop + PANE_HEIGHT / 2 - (value / macdRange) * (PANE_HEIGHT / 2);
+
+  const visibleMarkers = useMemo(
+    () =>
+      markers
+        .map(marker => ({ marker, index: candleIndexAt(candles, marker.time) }))
+        .filter(({ index }) => index >= start && index < end),
+    [markers, candles, start, end],
+  );
+
+  const toSvgPoint = (event: PointerEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * WIDTH,
+      y: ((event.clientY - rect.top) / rect.height) * height,
+      width: rect.width,
+    };
+  };
+
+  const handlePointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    // Let marker clicks through
+    if ((event.target as Element).closest('[data-marker]')) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { clientX: event.clientX, start };
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const point = toSvgPoint(event);
+    const drag = dragRef.current;
+    if (drag) {
+      const pixelsPerCandle = (point.width * (PLOT_WIDTH / WIDTH)) / count;
+      const shift = (event.clientX - drag.clientX) / pixelsPerCandle;
+      setView(clampView(drag.start - shift, count));
+    }
+    const index = start + Math.floor(point.x / slot);
+    setHover(point.x <= PLOT_WIDTH && index < end ? { index, y: point.y } : null);
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  if (total === 0) {
+    return <p className="text-sm text-gray-500">No market data for this symbol.</p>;
+  }
+
+  const readoutIndex = hover?.index ?? end - 1;
+  const readout = candles[readoutIndex];
+  const bodyWidth = Math.max(slot * 0.7, 1);
+  const timeTicks = Array.from({ length: 6 }, (_, i) =>
+    Math.min(start + Math.round((i / 5) * (count - 1)), end - 1),
+  );
+  const spanMs = (candles[end - 1]?.timestamp ?? 0) - (candles[start]?.timestamp ?? 0);
+  const formatTick = (time: number) =>
+    new Date(time).toLocaleString(
+      undefined,
+      spanMs > 3 * 24 * 60 * 60 * 1000
+        ? { month: 'short', day: 'numeric' }
+        : { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' },
+    );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        {readout && (
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600 font-mono">
+            <span>{new Date(readout.timestamp).toLocaleString()}</span>
+            <span>O {formatPrice(readout.open)}</span>
+            <span>H {formatPrice(readout.high)}</span>
+            <span>L {formatPrice(readout.low)}</span>
+            <span className={readout.close >= readout.open ? 'text-green-600' : 'text-red-600'}>
+              C {formatPrice(readout.close)}
+            </span>
+            {overlays.map(overlay => {
+              const value = overlay.values[readoutIndex];
+              return value != null ? (
+                <span key={overlay.id}>
+                  {overlay.label} {formatPrice(value)}
+                </span>
+              ) : null;
+            })}
+            {rsi && rsi.values[readoutIndex] != null && (
+              <span>RSI {rsi.values[readoutIndex]?.toFixed(1)}</span>
+            )}
+          </div>
+        )}
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => zoom(1 / ZOOM_STEP)}
+            className="p-1 rounded text-gray-600 hover:bg-gray-100"
+            title="Zoom in"
+          >
+            <MagnifyingGlassPlusIcon className="h-5 w-5" />
+          </button>
+          <button
+            type="button"
+            onClick={() => zoom(ZOOM_STEP)}
+            className="p-1 rounded text-gray-600 hover:bg-gray-100"
+            title="Zoom out"
+          >
+            <MagnifyingGlassMinusIcon className="h-5 w-5" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setView(clampView(0, total))}
+            className="p-1 rounded text-gray-600 hover:bg-gray-100"
+            title="Show all candles"
+          >
+            <ArrowsPointingOutIcon className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full select-none touch-none cursor-crosshair"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+        onPointerLeave={() => {
+          endDrag();
+          setHover(null);
+        }}
+      >
+        <defs>
+          <clipPath id="price-pane">
+            <rect x={0} y={0} width={PLOT_WIDTH} height={PRICE_HEIGHT} />
+          </clipPath>
+        </defs>
+
+        {/* Price grid and axis */}
+        <rect
+          x={0}
+          y={0}
+          width={PLOT_WIDTH}
+          height={PRICE_HEIGHT}
+          className="fill-white stroke-gray-200"
+        />
+        {[0, 0.25, 0.5, 0.75, 1].map(fraction => {
+          const price = priceScale.min + (priceScale.max - priceScale.min) * fraction;
+          return (
+            <g key={fraction}>
+              <line
+                x1={0}
+                y1={priceY(price)}
+                x2={PLOT_WIDTH}
+                y2={priceY(price)}
+                className="stroke-gray-100"
+              />
+              <text x={PLOT_WIDTH + 4} y={priceY(price) + 3} className="fill-gray-500 text-[10px]">
+                {formatPrice(price)}
+              </text>
+            </g>
+          );
+        })}
+
+        <g clipPath="url(#price-pane)">
+          {/* Candles */}
+          {candles.slice(start, end).map((candle, offset) => {
+            const index = start + offset;
+            const rising = candle.close >= candle.open;
+            const top = priceY(Math.max(candle.open, candle.close));
+            const bottom = priceY(Math.min(candle.open, candle.close));
+            return (
+              <g key={candle.timestamp} className={rising ? 'text-green-500' : 'text-red-500'}>
+                <line
+                  x1={x(index)}
+                  y1={priceY(candle.high)}
+                  x2={x(index)}
+                  y2={priceY(candle.low)}
+                  stroke="currentColor"
+                />
+                <rect
+                  x={x(index) - bodyWidth / 2}
+                  y={top}
+                  width={bodyWidth}
+                  height={Math.max(bottom - top, 1)}
+                  fill="currentColor"
+                />
+              </g>
+            );
+          })}
+
+          {/* Indicator overlays */}
+          {overlays.map(overlay => (
+            <path
+              key={overlay.id}
+              d={seriesPath(overlay.values, start, end, x, priceY)}
+              className={`fill-none ${overlay.className}`}
+              strokeWidth={1.5}
+            />
+          ))}
+
+          {/* Position levels */}
+          {levels.map(level => (
+            <line
+              key={level.id}
+              x1={0}
+              y1={priceY(level.price)}
+              x2={PLOT_WIDTH}
+              y2={priceY(level.price)}
+              className={LEVEL_STYLES[level.kind]}
+              strokeDasharray="6 4"
+            >
+              <title>{level.label}</title>
+            </line>
+          ))}
+        </g>
+        {levels.map(level => (
+          <text
+            key={level.id}
+            x={PLOT_WIDTH + 4}
+            y={priceY(level.price) + 3}
+            className="fill-orange-600 text-[9px] font-medium"
+          >
+            {formatPrice(level.price)}
+            <title>{level.label}</title>
+          </text>
+        ))}
+
+        {/* Trade and signal markers */}
+        {visibleMarkers.map(({ marker, index }) => {
+          const candle = candles[index];
+          if (!candle) return null;
+          const cx = x(index);
+          const size = Math.min(Math.max(slot * 0.5, 4), 8);
+          const isLong = marker.side !== 'short';
+          let shape;
+          switch (marker.kind) {
+            case 'entry': {
+              const y = priceY(marker.price);
+              shape = isLong ? (
+                <path
+                  d={`M${cx},${y} l${-size},${size * 1.6} h${size * 2} Z`}
+                  className="fill-green-600 stroke-white"
+                />
+              ) : (
+                <path
+                  d={`M${cx},${y} l${-size},${-size * 1.6} h${size * 2} Z`}
+                  className="fill-red-600 stroke-white"
+                />
+              );
+              break;
+            }
+            case 'exit': {
+              const y = priceY(marker.price);
+              shape = (
+                <path
+                  d={`M${cx - size},${y - size} L${cx + size},${y + size} M${cx + size},${y - size} L${cx - size},${y + size}`}
+                  className="stroke-gray-900"
+                  strokeWidth={2}
+                />
+              );
+              break;
+            }
+            case 'dca': {
+              const y = priceY(marker.price);
+              shape = (
+                <path
+                  d={`M${cx},${y - size} L${cx + size},${y} L${cx},${y + size} L${cx - size},${y} Z`}
+                  className="fill-amber-400 stroke-white"
+                />
+              );
+              break;
+            }
+            default: {
+              const isBuy = marker.kind === 'ai_buy';
+              shape = (
+                <circle
+                  cx={cx}
+                  cy={isBuy ? priceY(candle.low) + size + 4 : priceY(candle.high) - size - 4}
+                  r={size * 0.75}
+                  className={`${isBuy ? 'fill-emerald-500' : 'fill-rose-500'} stroke-white`}
+                />
+              );
+            }
+          }
+          return (
+            <g
+              key={marker.id}
+              data-marker
+              className={onMarkerClick && marker.log_id ? 'cursor-pointer' : undefined}
+              onClick={() => onMarkerClick?.(marker)}
+            >
+              {shape}
+              <title>{marker.label}</title>
+            </g>
+          );
+        })}
+
+        {/* RSI pane */}
+        {rsi && (
+          <g>
+            <rect
+              x={0}
+              y={rsiTop}
+              width={PLOT_WIDTH}
+              height={PANE_HEIGHT}
+              className="fill-white stroke-gray-200"
+            />
+            {[rsi.overbought, rsi.oversold].map(level => (
+              <g key={level}>
+                <line
+                  x1={0}
+                  y1={rsiY(level)}
+                  x2={PLOT_WIDTH}
+                  y2={rsiY(level)}
+                  className="stroke-gray-300"
+                  strokeDasharray="3 3"
+                />
+                <text x={PLOT_WIDTH + 4} y={rsiY(level) + 3} className="fill-gray-500 text-[10px]">
+                  {level}
+                </text>
+              </g>
+            ))}
+            <path
+              d={seriesPath(rsi.values, start, end, x, rsiY)}
+              className="fill-none stroke-purple-500"
+              strokeWidth={1.5}
+            />
+            <text x={4} y={rsiTop + 12} className="fill-gray-500 text-[10px]">
+              RSI
+            </text>
+          </g>
+        )}
+
+        {/* MACD pane */}
+        {macd && (
+          <g>
+            <rect
+              x={0}
+              y={macdTop}
+              width={PLOT_WIDTH}
+              height={PANE_HEIGHT}
+              className="fill-white stroke-gray-200"
+            />
+            {macd.histogram.slice(start, end).map((value, offset) => {
+              if (value == null) return null;
+              const index = start + offset;
+              const zero = macdY(0);
+              const y = macdY(value);
+              return (
+                <rect
+                  key={index}
+                  x={x(index) - bodyWidth / 2}
+                  y={Math.min(y, zero)}
+                  width={bodyWidth}
+                  height={Math.max(Math.abs(zero - y), 0.5)}
+                  className={value >= 0 ? 'fill-green-200' : 'fill-red-200'}
+                />
+              );
+            })}
+            <path
+              d={seriesPath(macd.macd, start, end, x, macdY)}
+              className="fill-none stroke-blue-500"
+              strokeWidth={1.5}
+            />
+            <path
+              d={seriesPath(macd.signal, start, end, x, macdY)}
+              className="fill-none stroke-orange-500"
+              strokeWidth={1.5}
+            />
+            <text x={4} y={macdTop + 12} className="fill-gray-500 text-[10px]">
+              MACD
+            </text>
+          </g>
+        )}
+
+        {/* Time axis */}
+        {timeTicks.map((index, i) => {
+          const candle = candles[index];
+          return candle ? (
+            <text
+              key={i}
+              x={x(index)}
+              y={height - 6}
+              textAnchor={i === 0 ? 'start' : i === timeTicks.length - 1 ? 'end' : 'middle'}
+              className="fill-gray-500 text-[10px]"
+            >
+              {formatTick(candle.timestamp)}
+            </text>
+          ) : null;
+        })}
+
+        {/* Crosshair */}
+        {hover && (
+          <g className="pointer-events-none">
+            <line
+              x1={x(hover.index)}
+              y1={0}
+              x2={x(hover.index)}
+              y2={height - TIME_AXIS_HEIGHT}
+              className="stroke-gray-400"
+              strokeDasharray="2 2"
+            />
+            {hover.y <= PRICE_HEIGHT && (
+              <>
+                <line
+                  x1={0}
+                  y1={hover.y}
+                  x2={PLOT_WIDTH}
+                  y2={hover.y}
+                  className="stroke-gray-400"
+                  strokeDasharray="2 2"
+                />
+                <rect
+                  x={PLOT_WIDTH}
+                  y={hover.y - 8}
+                  width={PRICE_AXIS_WIDTH}
+                  height={16}
+                  className="fill-gray-800"
+                />
+                <text x={PLOT_WIDTH + 4} y={hover.y + 4} className="fill-white text-[10px]">
+                  {formatPrice(
+                    priceScale.max - (hover.y / PRICE_HEIGHT) * (priceScale.max - priceScale.min),
+                  )}
+                </text>
+              </>
+            )}
+          </g>
+        )}
+      </svg>
+    </div>
+  );
+}
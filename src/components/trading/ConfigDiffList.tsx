@@ -0,0 +1,42 @@
+'use client';
+
+import { ConfigFieldChange, formatConfigValue } from '@/utils/configDiff';
+
+interface ConfigDiffListProps {
+  changes: ConfigFieldChange[];
+  emptyMessage?: string;
+}
+
+export default function ConfigDiffList({
+  changes,
+  emptyMessage = 'No configuration changes',
+}: ConfigDiffListProps) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-gray-500">{emptyMessage}</p>;
+  }
+
+  return (
+    <table className="min-w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+          <th className="py-1 pr-4">Field</th>
+          <th className="py-1 pr-4">Before</th>
+          <th className="py-1">After</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {changes.map(change => (
+          <tr key={change.path}>
+            <td className="py-1 pr-4 text-gray-900">{change.label}</td>
+            <td className="py-1 pr-4 font-mono text-xs text-red-700 line-through decoration-red-300">
+              {formatConfigValue(change.before)}
+            </td>
+            <td className="py-1 font-mono text-xs text-green-700">
+              {formatConfigValue(change.after)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,146 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowUturnLeftIcon, ChevronDownIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { tradingBotService, BotConfigVersion, TradingBot } from '@/services/tradingBot';
+import { diffBotConfig, snapshotBotConfig } from '@/utils/configDiff';
+import ConfigDiffList from './ConfigDiffList';
+
+interface ConfigVersionHistoryProps {
+  bot: TradingBot;
+  onRollback?: (bot: TradingBot) => void;
+}
+
+export default function ConfigVersionHistory({ bot, onRollback }: ConfigVersionHistoryProps) {
+  const [versions, setVersions] = useState<BotConfigVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setVersions(await tradingBotService.getBotConfigVersions(bot.id));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load config versions');
+    } finally {
+      setLoading(false);
+    }
+  }, [bot.id]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  const handleRollback = async (version: BotConfigVersion) => {
+    const changes = diffBotConfig(snapshotBotConfig(bot), version.after);
+    if (changes.length === 0) {
+      toast('The bot already uses this configuration');
+      return;
+    }
+    if (
+      !window.confirm(
+        `Roll back to version ${version.version}? ${changes.length} field(s) will change.`,
+      )
+    ) {
+      return;
+    }
+
+    setRollingBackId(version.id);
+    try {
+      const updatedBot = await tradingBotService.rollbackBotConfig(bot.id, version.id);
+      toast.success(`Rolled back to version ${version.version}`);
+      onRollback?.(updatedBot);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to roll back configuration');
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-gray-500">
+        No configuration changes have been recorded for this bot yet.
+      </p>
+    );
+  }
+
+  const latestVersion = versions[0]?.version;
+
+  return (
+    <ul className="divide-y divide-gray-200 rounded-md border border-gray-200">
+      {versions.map(version => {
+        const changes = diffBotConfig(version.before, version.after);
+        const isExpanded = expandedId === version.id;
+
+        return (
+          <li key={version.id} className="p-3">
+            <div className="flex items-center justify-between">
+              <button
+                type="button"
+                onClick={() => setExpandedId(isExpanded ? null : version.id)}
+                className="flex flex-1 items-start text-left"
+              >
+                {isExpanded ? (
+                  <ChevronDownIcon className="mr-2 mt-0.5 h-4 w-4 text-gray-400" />
+                ) : (
+                  <ChevronRightIcon className="mr-2 mt-0.5 h-4 w-4 text-gray-400" />
+                )}
+                <div>
+                  <div className="text-sm font-medium text-gray-900">
+                    Version {version.version}
+                    {version.version === latestVersion && (
+                      <span className="ml-2 rounded bg-green-100 px-2 py-0.5 text-xs text-green-800">
+                        Current
+                      </span>
+                    )}
+                    {version.rollback_of_version !== undefined && (
+                      <span className="ml-2 rounded bg-yellow-100 px-2 py-0.5 text-xs text-yellow-800">
+                        Rollback to v{version.rollback_of_version}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(version.created_at).toLocaleString()} by{' '}
+                    {version.changed_by_name || version.changed_by} • {changes.length} field(s)
+                    changed
+                  </div>
+                  {version.change_note && (
+                    <div className="mt-1 text-xs italic text-gray-600">{version.change_note}</div>
+                  )}
+                </div>
+              </button>
+              {version.version !== latestVersion && (
+                <button
+                  type="button"
+                  onClick={() => handleRollback(version)}
+                  disabled={rollingBackId !== null}
+                  className="ml-3 inline-flex items-center rounded-md bg-white px-2.5 py-1.5 text-xs font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <ArrowUturnLeftIcon className="mr-1 h-4 w-4" />
+                  {rollingBackId === version.id ? 'Rolling back...' : 'Roll back'}
+                </button>
+              )}
+            </div>
+
+            {isExpanded && (
+              <div className="mt-3 ml-6 overflow-x-auto">
+                <ConfigDiffList changes={changes} />
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
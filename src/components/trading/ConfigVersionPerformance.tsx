@@ -0,0 +1,198 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { AdjustmentsHorizontalIcon } from '@heroicons/react/24/outline';
+import {
+  tradingBotService,
+  BotConfigVersion,
+  TradingBot,
+  TradingPosition,
+} from '@/services/tradingBot';
+import { diffBotConfig } from '@/utils/configDiff';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+
+interface ConfigVersionPerformanceProps {
+  bot: TradingBot;
+}
+
+interface VersionPeriod {
+  key: string;
+  label: string;
+  version?: BotConfigVersion;
+  start: number;
+  end: number;
+  trades: number;
+  wins: number;
+  pnl: number;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+};
+
+// Realized performance of positions closed while each config version was active
+export default function ConfigVersionPerformance({ bot }: ConfigVersionPerformanceProps) {
+  const [versions, setVersions] = useState<BotConfigVersion[]>([]);
+  const [positions, setPositions] = useState<TradingPosition[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        const [versionData, historyData] = await Promise.all([
+          tradingBotService.getBotConfigVersions(bot.id),
+          tradingBotService.getBotPositionHistory(bot.id),
+        ]);
+        setVersions(versionData);
+        setPositions(historyData.positions);
+      } catch (error) {
+        console.warn('Failed to load config version performance:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [bot.id]);
+
+  const periods = useMemo(() => {
+    const ascending = [...versions].sort((a, b) => a.version - b.version);
+    const boundaries = ascending.map(version => Date.parse(version.created_at));
+
+    const result: VersionPeriod[] = [
+      {
+        key: 'initial',
+        label: 'Initial',
+        start: Date.parse(bot.created_at),
+        end: boundaries[0] ?? Infinity,
+        trades: 0,
+        wins: 0,
+        pnl: 0,
+      },
+      ...ascending.map((version, index) => ({
+        key: version.id,
+        label: `v${version.version}`,
+        version,
+        start: boundaries[index]!,
+        end: boundaries[index + 1] ?? Infinity,
+        trades: 0,
+        wins: 0,
+        pnl: 0,
+      })),
+    ];
+
+    positions
+      .filter(position => position.status === 'closed' && position.closed_at)
+      .forEach(position => {
+        // Attribute a trade to the config that was active when it was opened
+        const openedAt = Date.parse(position.entry_time);
+        const period = result.find(p => openedAt >= p.start && openedAt < p.end) ?? result[0]!;
+        period.trades += 1;
+        period.wins += position.realized_pnl > 0 ? 1 : 0;
+        period.pnl += position.realized_pnl;
+      });
+
+    return result.reverse();
+  }, [versions, positions, bot.created_at]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <LoadingSpinner size="md" />
+      </div>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm p-8 text-center">
+        <AdjustmentsHorizontalIcon className="h-16 w-16 mx-auto text-gray-400 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">No Config Changes Yet</h3>
+        <p className="text-gray-600">
+          Performance is broken down by configuration version once the bot has been reconfigured.
+        </p>
+      </div>
+    );
+  }
+
+  const worstPnl = Math.min(...periods.map(period => period.pnl));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            {['Version', 'Active Since', 'Changes', 'Trades', 'Win Rate', 'Realized P&L'].map(
+              heading => (
+                <th
+                  key={heading}
+                  className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                >
+                  {heading}
+                </th>
+              ),
+            )}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {periods.map(period => {
+            const changes = period.version
+              ? diffBotConfig(period.version.before, period.version.after)
+              : [];
+            const isWorst = period.trades > 0 && period.pnl < 0 && period.pnl === worstPnl;
+
+            return (
+              <tr key={period.key} className={isWorst ? 'bg-red-50' : undefined}>
+                <td className="px-4 py-3 font-medium text-gray-900">
+                  {period.label}
+                  {isWorst && (
+                    <span className="ml-2 rounded bg-red-100 px-2 py-0.5 text-xs text-red-700">
+                      Worst
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-gray-600">
+                  {new Date(period.start).toLocaleString()}
+                </td>
+                <td className="px-4 py-3 text-gray-600">
+                  {period.version ? (
+                    <span title={changes.map(change => change.label).join('\n')}>
+                      {changes
+                        .slice(0, 3)
+                        .map(change => change.label)
+                        .join(', ')}
+                      {changes.length > 3 && ` +${changes.length - 3} more`}
+                    </span>
+                  ) : (
+                    'Configuration at creation'
+                  )}
+                  {period.version?.change_note && (
+                    <div className="text-xs italic text-gray-500">{period.version.change_note}</div>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-gray-900">{period.trades}</td>
+                <td className="px-4 py-3 text-gray-900">
+                  {period.trades > 0 ? `${((period.wins / period.trades) * 100).toFixed(1)}%` : '—'}
+                </td>
+                <td
+                  className={`px-4 py-3 font-medium ${period.pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}
+                >
+                  {formatCurrency(period.pnl)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="px-4 py-3 text-xs text-gray-500">
+        Trades are attributed to the configuration that was active when the position was opened.
+      </p>
+    </div>
+  );
+}
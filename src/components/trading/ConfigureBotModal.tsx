@@ -1,17 +1,33 @@
 'use client';
 
-import { useState, useEffect, Fragment } from 'react';
+import { useState, useEffect, useMemo, Fragment } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
-import { XMarkIcon, InformationCircleIcon } from '@heroicons/react/24/outline';
+import {
+  XMarkIcon,
+  InformationCircleIcon,
+  ShieldExclamationIcon,
+  ClockIcon,
+  CalendarDaysIcon,
+} from '@heroicons/react/24/outline';
 import toast from 'react-hot-toast';
 import {
   tradingBotService,
   UpdateBotConfigInput,
   TradingBot,
+  BotRiskGuardrails,
   SupportedStrategy,
   StrategyType,
+  AIShadowVariant,
+  AIProvider,
+  LocalLLMConfig,
 } from '@/services/tradingBot';
+import { aiAnalysisService } from '@/services/aiAnalysis';
+import { aiProviderService } from '@/services/aiProviders';
+import { diffBotConfig, snapshotBotConfig } from '@/utils/configDiff';
 import StrategyConfigForm from './StrategyConfigForm';
+import ConfigDiffList from './ConfigDiffList';
+import ConfigVersionHistoryModal from './ConfigVersionHistoryModal';
+import BotScheduleEditor from './BotScheduleEditor';
 
 interface ConfigureBotModalProps {
   isOpen: boolean;
@@ -120,6 +136,7 @@ export default function ConfigureBotModal({
   bot,
 }: ConfigureBotModalProps) {
   const [currentStep, setCurrentStep] = useState(1);
+  const [view, setView] = useState<'edit' | 'history'>('edit');
   const [isLoading, setIsLoading] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -136,6 +153,8 @@ export default function ConfigureBotModal({
     max_position_size: bot.max_position_size,
     use_auto_leverage: bot.use_auto_leverage,
     risk_per_trade: bot.risk_per_trade,
+    risk_guardrails: bot.risk_guardrails,
+    schedule: bot.schedule,
   });
 
   const [selectedStrategy, setSelectedStrategy] = useState<SupportedStrategy | null>(null);
@@ -179,8 +198,11 @@ export default function ConfigureBotModal({
         max_position_size: bot.max_position_size,
         use_auto_leverage: bot.use_auto_leverage,
         risk_per_trade: bot.risk_per_trade,
+        risk_guardrails: bot.risk_guardrails,
+        schedule: bot.schedule,
       });
       setCurrentStep(1);
+      setView('edit');
       loadInitialData();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -231,11 +253,41 @@ export default function ConfigureBotModal({
         toast.error('Maximum position size cannot be negative');
         return;
       }
+      if (formData.risk_guardrails) {
+        const guardrailError = tradingBotService.validateRiskGuardrails(formData.risk_guardrails);
+        if (guardrailError) {
+          toast.error(guardrailError);
+          return;
+        }
+      }
+      if (formData.schedule) {
+        const scheduleError = tradingBotService.validateBotSchedule(formData.schedule);
+        if (scheduleError) {
+          toast.error(scheduleError);
+          return;
+        }
+      }
     }
 
     setCurrentStep(prev => prev + 1);
   };
 
+  const updateGuardrail = (key: keyof BotRiskGuardrails, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      risk_guardrails: {
+        ...prev.risk_guardrails,
+        [key]: value ? parseFloat(value) : undefined,
+      },
+    }));
+  };
+
+  // Pending changes against the bot's saved config, shown before submitting
+  const pendingChanges = useMemo(() => {
+    const { change_note: _changeNote, ...snapshot } = formData;
+    return diffBotConfig(snapshotBotConfig(bot), snapshot);
+  }, [bot, formData]);
+
   const handleBack = () => {
     setCurrentStep(prev => prev - 1);
   };
@@ -246,6 +298,11 @@ export default function ConfigureBotModal({
       return;
     }
 
+    if (pendingChanges.length === 0) {
+      toast.error('No configuration changes to save');
+      return;
+    }
+
     // Validate strategy configuration
     if (selectedStrategy?.type === 'alpha_compounder') {
       const config = formData.strategy.config;
@@ -304,6 +361,26 @@ export default function ConfigureBotModal({
       }
     }
 
+    if (selectedStrategy?.type === 'ai_signal') {
+      const shadowError = aiAnalysisService.validateShadowVariants(
+        formData.strategy.config.shadow_variants as AIShadowVariant[] | undefined,
+      );
+      if (shadowError) {
+        toast.error(shadowError);
+        return;
+      }
+
+      const providerError = aiProviderService.validateProviderConfig({
+        ai_provider: formData.strategy.config.ai_provider as AIProvider | undefined,
+        ai_model: formData.strategy.config.ai_model as string | undefined,
+        local_llm: formData.strategy.config.local_llm as LocalLLMConfig | undefined,
+      });
+      if (providerError) {
+        toast.error(providerError);
+        return;
+      }
+    }
+
     setIsSubmitting(true);
     try {
       await tradingBotService.updateBotConfig(bot.id, formData);
@@ -319,6 +396,21 @@ export default function ConfigureBotModal({
     }
   };
 
+  if (view === 'history') {
+    return (
+      <ConfigVersionHistoryModal
+        isOpen={isOpen}
+        onClose={onClose}
+        onBack={() => setView('edit')}
+        onRollback={() => {
+          onSuccess();
+          onClose();
+        }}
+        bot={bot}
+      />
+    );
+  }
+
   return (
     <Transition.Root show={isOpen} as={Fragment}>
       <Dialog as="div" className="relative z-50" onClose={onClose}>
@@ -359,9 +451,22 @@ export default function ConfigureBotModal({
 
                 <div className="sm:flex sm:items-start">
                   <div className="mt-3 text-center sm:mt-0 sm:text-left w-full">
-                    <Dialog.Title as="h3" className="text-lg font-semibold leading-6 text-gray-900">
-                      Configure Trading Bot: {bot.name}
-                    </Dialog.Title>
+                    <div className="flex items-center justify-between pr-8">
+                      <Dialog.Title
+                        as="h3"
+                        className="text-lg font-semibold leading-6 text-gray-900"
+                      >
+                        Configure Trading Bot: {bot.name}
+                      </Dialog.Title>
+                      <button
+                        type="button"
+                        onClick={() => setView('history')}
+                        className="inline-flex items-center rounded-md bg-white px-2.5 py-1.5 text-xs font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                      >
+                        <ClockIcon className="mr-1 h-4 w-4" />
+                        Version History
+                      </button>
+                    </div>
 
                     {/* Progress Steps */}
                     <div className="mt-6 mb-8">
@@ -730,6 +835,115 @@ export default function ConfigureBotModal({
                               </div>
                             </div>
 
+                            {/* Risk Guardrails */}
+                            <div className="p-4 bg-gray-50 rounded-lg">
+                              <h4 className="flex items-center text-sm font-semibold text-gray-900 mb-3">
+                                <ShieldExclamationIcon className="h-4 w-4 text-red-500 mr-1" />
+                                Risk Guardrails
+                                <span className="ml-2 text-xs text-gray-500 font-normal">
+                                  (Bot is paused automatically when a limit is hit)
+                                </span>
+                              </h4>
+                              {bot.paused_reason && (
+                                <div className="mb-3 rounded-md bg-red-50 border border-red-200 p-2 text-xs text-red-700">
+                                  Last auto-pause: {bot.paused_reason}
+                                </div>
+                              )}
+                              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                <div>
+                                  <label
+                                    htmlFor="max_daily_loss"
+                                    className="block text-sm font-medium text-gray-700"
+                                  >
+                                    Max Daily Loss (USDT)
+                                  </label>
+                                  <input
+                                    type="number"
+                                    id="max_daily_loss"
+                                    min="0"
+                                    step="0.01"
+                                    value={formData.risk_guardrails?.max_daily_loss ?? ''}
+                                    onChange={e =>
+                                      updateGuardrail('max_daily_loss', e.target.value)
+                                    }
+                                    placeholder="Empty = no limit"
+                                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                                  />
+                                  <p className="mt-1 text-xs text-gray-500">
+                                    Realized loss since 00:00 UTC
+                                  </p>
+                                </div>
+                                <div>
+                                  <label
+                                    htmlFor="max_open_exposure"
+                                    className="block text-sm font-medium text-gray-700"
+                                  >
+                                    Max Open Exposure (USDT)
+                                  </label>
+                                  <input
+                                    type="number"
+                                    id="max_open_exposure"
+                                    min="0"
+                                    step="0.01"
+                                    value={formData.risk_guardrails?.max_open_exposure ?? ''}
+                                    onChange={e =>
+                                      updateGuardrail('max_open_exposure', e.target.value)
+                                    }
+                                    placeholder="Empty = no limit"
+                                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                                  />
+                                  <p className="mt-1 text-xs text-gray-500">
+                                    Notional value of open positions
+                                  </p>
+                                </div>
+                                <div>
+                                  <label
+                                    htmlFor="max_consecutive_losses"
+                                    className="block text-sm font-medium text-gray-700"
+                                  >
+                                    Max Consecutive Losses
+                                  </label>
+                                  <input
+                                    type="number"
+                                    id="max_consecutive_losses"
+                                    min="1"
+                                    step="1"
+                                    value={formData.risk_guardrails?.max_consecutive_losses ?? ''}
+                                    onChange={e =>
+                                      updateGuardrail('max_consecutive_losses', e.target.value)
+                                    }
+                                    placeholder="Empty = account default"
+                                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                                  />
+                                  <p className="mt-1 text-xs text-gray-500">
+                                    Losing trades in a row
+                                  </p>
+                                </div>
+                              </div>
+                              <div className="mt-3 flex items-start gap-2">
+                                <InformationCircleIcon className="h-4 w-4 text-blue-500 mt-0.5 flex-shrink-0" />
+                                <p className="text-xs text-gray-600">
+                                  Account-wide limits from the dashboard apply as well. Whichever
+                                  limit is hit first pauses the bot.
+                                </p>
+                              </div>
+                            </div>
+
+                            {/* Schedule */}
+                            <div className="p-4 bg-gray-50 rounded-lg">
+                              <h4 className="flex items-center text-sm font-semibold text-gray-900 mb-3">
+                                <CalendarDaysIcon className="h-4 w-4 text-primary-600 mr-1" />
+                                Schedule
+                                <span className="ml-2 text-xs text-gray-500 font-normal">
+                                  (Pause outside trading hours and around market events)
+                                </span>
+                              </h4>
+                              <BotScheduleEditor
+                                schedule={formData.schedule}
+                                onChange={schedule => setFormData(prev => ({ ...prev, schedule }))}
+                              />
+                            </div>
+
                             {/* Read-only Bot Information */}
                             <div className="bg-gray-50 rounded-lg p-4">
                               <h4 className="text-sm font-medium text-gray-900 mb-3">
@@ -807,6 +1021,37 @@ export default function ConfigureBotModal({
                           </div>
                         )}
 
+                        {/* Review Changes */}
+                        {currentStep === 2 && (
+                          <div className="rounded-lg bg-gray-50 p-4">
+                            <h4 className="text-sm font-semibold text-gray-900 mb-3">
+                              Review Changes ({pendingChanges.length})
+                            </h4>
+                            <div className="overflow-x-auto">
+                              <ConfigDiffList
+                                changes={pendingChanges}
+                                emptyMessage="Nothing has changed yet"
+                              />
+                            </div>
+                            <label
+                              htmlFor="change_note"
+                              className="mt-4 block text-sm font-medium text-gray-700"
+                            >
+                              Change Note
+                            </label>
+                            <input
+                              type="text"
+                              id="change_note"
+                              value={formData.change_note || ''}
+                              onChange={e =>
+                                setFormData(prev => ({ ...prev, change_note: e.target.value }))
+                              }
+                              placeholder="Why are you making this change? (optional)"
+                              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                            />
+                          </div>
+                        )}
+
                         {/* Navigation Buttons */}
                         <div className="flex justify-between pt-6">
                           <button
@@ -4,16 +4,31 @@ import { useState, useEffect, Fragment } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
 import { XMarkIcon, MagnifyingGlassIcon, StarIcon } from '@heroicons/react/24/outline';
 import toast from 'react-hot-toast';
-import { tradingBotService, TradingBot, CopyBotInput } from '@/services/tradingBot';
+import {
+  tradingBotService,
+  TradingBot,
+  CopyBotInput,
+  CopyAllocationMode,
+} from '@/services/tradingBot';
+import { copyTradingService } from '@/services/copyTrading';
 import { exchangeService, MaskedExchangeCredentials } from '@/services/exchange';
 
 interface CopyBotModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
+  initialBot?: TradingBot; // Skip template selection, e.g. when opened from the leaderboard
 }
 
-export default function CopyBotModal({ isOpen, onClose, onSuccess }: CopyBotModalProps) {
+// Example leader trade used to preview the follower's position size
+const PREVIEW_LEADER_TRADE = 1000;
+
+export default function CopyBotModal({
+  isOpen,
+  onClose,
+  onSuccess,
+  initialBot,
+}: CopyBotModalProps) {
   const [step, setStep] = useState(1); // 1: Select Template, 2: Configure Copy
   const [isLoading, setIsLoading] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -24,6 +39,7 @@ export default function CopyBotModal({ isOpen, onClose, onSuccess }: CopyBotModa
   const [searchTerm, setSearchTerm] = useState('');
 
   // Step 2: Copy configuration
+  const [feeAccepted, setFeeAccepted] = useState(false);
   const [exchanges, setExchanges] = useState<MaskedExchangeCredentials[]>([]);
   const [copyConfig, setCopyConfig] = useState<{
     name: string;
@@ -35,6 +51,10 @@ export default function CopyBotModal({ isOpen, onClose, onSuccess }: CopyBotModa
     max_position_size?: number;
     use_auto_leverage?: boolean;
     risk_per_trade?: number;
+    // Copy-trading allocation
+    allocation_mode: CopyAllocationMode;
+    allocation_amount?: number;
+    size_multiplier?: number;
   }>({
     name: '',
     exchange_credentials_id: '',
@@ -44,6 +64,9 @@ export default function CopyBotModal({ isOpen, onClose, onSuccess }: CopyBotModa
     max_position_size: undefined,
     use_auto_leverage: undefined,
     risk_per_trade: undefined,
+    allocation_mode: 'fixed',
+    allocation_amount: undefined,
+    size_multiplier: undefined,
   });
 
   // Load copyable bots
@@ -75,8 +98,11 @@ export default function CopyBotModal({ isOpen, onClose, onSuccess }: CopyBotModa
     if (isOpen) {
       loadCopyableBots();
       loadExchanges();
+      if (initialBot) {
+        handleBotSelect(initialBot);
+      }
     }
-  }, [isOpen]);
+  }, [isOpen, initialBot]);
 
   // Filter bots based on search
   const filteredBots = copyableBots.filter(bot => {
@@ -105,8 +131,9 @@ export default function CopyBotModal({ isOpen, onClose, onSuccess }: CopyBotModa
     return value >= 0 ? 'text-green-600' : 'text-red-600';
   };
 
-  const handleBotSelect = (bot: TradingBot) => {
+  function handleBotSelect(bot: TradingBot) {
     setSelectedBot(bot);
+    setFeeAccepted(false);
     setCopyConfig(prev => ({
       ...prev,
       name: `${bot.name} (Copy)`,
@@ -117,9 +144,10 @@ export default function CopyBotModal({ isOpen, onClose, onSuccess }: CopyBotModa
       max_position_size: bot.max_position_size,
       use_auto_leverage: bot.use_auto_leverage,
       risk_per_trade: bot.risk_per_trade,
+      allocation_amount: bot.starting_balance,
     }));
     setStep(2);
-  };
+  }
 
   const handleBackToStep1 = () => {
     setStep(1);
@@ -133,6 +161,9 @@ export default function CopyBotModal({ isOpen, onClose, onSuccess }: CopyBotModa
       max_position_size: undefined,
       use_auto_leverage: undefined,
       risk_per_trade: undefined,
+      allocation_mode: 'fixed',
+      allocation_amount: undefined,
+      size_multiplier: undefined,
     });
   };
 
@@ -173,6 +204,12 @@ export default function CopyBotModal({ isOpen, onClose, onSuccess }: CopyBotModa
       return;
     }
 
+    const performanceFee = selectedBot.performance_fee_percent ?? 0;
+    if (performanceFee > 0 && !feeAccepted) {
+      toast.error('Please accept the performance fee to copy this bot');
+      return;
+    }
+
     const copyInput: CopyBotInput = {
       parent_bot_id: selectedBot.id,
       exchange_credentials_id: copyConfig.exchange_credentials_id,
@@ -184,8 +221,20 @@ export default function CopyBotModal({ isOpen, onClose, onSuccess }: CopyBotModa
       max_position_size: copyConfig.max_position_size,
       use_auto_leverage: copyConfig.use_auto_leverage,
       risk_per_trade: copyConfig.risk_per_trade,
+      allocation_mode: copyConfig.allocation_mode,
+      allocation_amount: copyConfig.allocation_amount,
+      size_multiplier:
+        copyConfig.allocation_mode === 'proportional' ? copyConfig.size_multiplier : undefined,
+      // The backend rejects the copy if the leader's fee no longer matches what was shown
+      accepted_performance_fee_percent: performanceFee,
     };
 
+    const allocationError = copyTradingService.validateAllocation(copyInput);
+    if (allocationError) {
+      toast.error(allocationError);
+      return;
+    }
+
     setIsSubmitting(true);
     try {
       await tradingBotService.copyBot(copyInput);
@@ -205,6 +254,9 @@ export default function CopyBotModal({ isOpen, onClose, onSuccess }: CopyBotModa
         max_position_size: undefined,
         use_auto_leverage: undefined,
         risk_per_trade: undefined,
+        allocation_mode: 'fixed',
+        allocation_amount: undefined,
+        size_multiplier: undefined,
       });
     } catch (error) {
       console.error('Failed to copy bot:', error);
@@ -391,6 +443,18 @@ export default function CopyBotModal({ isOpen, onClose, onSuccess }: CopyBotModa
                                           {bot.total_trades}
                                         </span>
                                       </div>
+                                      <div className="flex justify-between text-sm">
+                                        <span className="text-gray-500">Followers:</span>
+                                        <span className="font-medium text-gray-500">
+                                          {bot.follower_count ?? 0}
+                                        </span>
+                                      </div>
+                                      <div className="flex justify-between text-sm">
+                                        <span className="text-gray-500">Performance Fee:</span>
+                                        <span className="font-medium text-gray-500">
+                                          {bot.performance_fee_percent ?? 0}%
+                                        </span>
+                                      </div>
                                     </div>
 
                                     {bot.description && (
@@ -539,6 +603,126 @@ export default function CopyBotModal({ isOpen, onClose, onSuccess }: CopyBotModa
                           </div>
                         </div>
 
+                        {/* Allocation */}
+                        <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+                          <h4 className="text-sm font-medium text-gray-900">Allocation</h4>
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div>
+                              <label
+                                htmlFor="allocation_mode"
+                                className="block text-sm font-medium text-gray-700"
+                              >
+                                Position Sizing
+                              </label>
+                              <select
+                                id="allocation_mode"
+                                value={copyConfig.allocation_mode}
+                                onChange={e =>
+                                  setCopyConfig(prev => ({
+                                    ...prev,
+                                    allocation_mode: e.target.value as CopyAllocationMode,
+                                  }))
+                                }
+                                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                              >
+                                <option value="fixed">Fixed % of allocation</option>
+                                <option value="proportional">Proportional to leader</option>
+                              </select>
+                            </div>
+                            <div>
+                              <label
+                                htmlFor="allocation_amount"
+                                className="block text-sm font-medium text-gray-700"
+                              >
+                                Allocated Capital (USDT)
+                              </label>
+                              <input
+                                type="number"
+                                id="allocation_amount"
+                                min="1"
+                                step="0.01"
+                                value={copyConfig.allocation_amount ?? ''}
+                                onChange={e =>
+                                  setCopyConfig(prev => ({
+                                    ...prev,
+                                    allocation_amount: e.target.value
+                                      ? parseFloat(e.target.value)
+                                      : undefined,
+                                  }))
+                                }
+                                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                              />
+                            </div>
+                            {copyConfig.allocation_mode === 'proportional' && (
+                              <div>
+                                <label
+                                  htmlFor="size_multiplier"
+                                  className="block text-sm font-medium text-gray-700"
+                                >
+                                  Size Multiplier
+                                </label>
+                                <input
+                                  type="number"
+                                  id="size_multiplier"
+                                  min="0.1"
+                                  max="5"
+                                  step="0.1"
+                                  value={copyConfig.size_multiplier ?? ''}
+                                  onChange={e =>
+                                    setCopyConfig(prev => ({
+                                      ...prev,
+                                      size_multiplier: e.target.value
+                                        ? parseFloat(e.target.value)
+                                        : undefined,
+                                    }))
+                                  }
+                                  placeholder="1.0"
+                                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                                />
+                              </div>
+                            )}
+                          </div>
+                          {selectedBot && (copyConfig.allocation_amount ?? 0) > 0 && (
+                            <p className="text-xs text-gray-500">
+                              When the leader opens a {formatCurrency(PREVIEW_LEADER_TRADE)}{' '}
+                              position, your copy opens{' '}
+                              <span className="font-medium text-gray-700">
+                                {formatCurrency(
+                                  copyTradingService.previewCopySize(
+                                    selectedBot,
+                                    PREVIEW_LEADER_TRADE,
+                                    copyConfig,
+                                  ),
+                                )}
+                              </span>
+                              .
+                            </p>
+                          )}
+                        </div>
+
+                        {/* Performance fee disclosure */}
+                        {selectedBot && (selectedBot.performance_fee_percent ?? 0) > 0 && (
+                          <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+                            <h4 className="text-sm font-medium text-yellow-800">
+                              {selectedBot.performance_fee_percent}% Performance Fee
+                            </h4>
+                            <p className="mt-1 text-sm text-yellow-700">
+                              The owner of this bot receives {selectedBot.performance_fee_percent}%
+                              of the profit your copy makes above its previous high. No fee is
+                              charged while you are below your high-water mark.
+                            </p>
+                            <label className="mt-2 flex items-center text-sm text-yellow-800">
+                              <input
+                                type="checkbox"
+                                checked={feeAccepted}
+                                onChange={e => setFeeAccepted(e.target.checked)}
+                                className="mr-2 h-4 w-4 rounded border-yellow-300 text-yellow-600 focus:ring-yellow-500"
+                              />
+                              I agree to pay this performance fee
+                            </label>
+                          </div>
+                        )}
+
                         <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
                           <h4 className="text-sm font-medium text-blue-800 mb-2">About Copying</h4>
                           <ul className="text-sm text-blue-700 space-y-1">
@@ -576,7 +760,8 @@ export default function CopyBotModal({ isOpen, onClose, onSuccess }: CopyBotModa
                           disabled={
                             isSubmitting ||
                             !copyConfig.name.trim() ||
-                            !copyConfig.exchange_credentials_id
+                            !copyConfig.exchange_credentials_id ||
+                            ((selectedBot?.performance_fee_percent ?? 0) > 0 && !feeAccepted)
                           }
                           className="inline-flex justify-center rounded-md bg-primary-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-primary-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary-600 disabled:opacity-50 disabled:cursor-not-allowed"
                         >
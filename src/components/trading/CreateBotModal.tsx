@@ -1,8 +1,16 @@
 'use client';
 
-import { useState, useEffect, Fragment } from 'react';
+import { useState, useEffect, useMemo, Fragment } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
-import { XMarkIcon, InformationCircleIcon } from '@heroicons/react/24/outline';
+import {
+  XMarkIcon,
+  InformationCircleIcon,
+  DocumentDuplicateIcon,
+  ArrowDownTrayIcon,
+  ClipboardDocumentIcon,
+  BookmarkIcon,
+} from '@heroicons/react/24/outline';
+import { useQueryClient } from '@tanstack/react-query';
 import toast from 'react-hot-toast';
 import {
   tradingBotService,
@@ -10,9 +18,18 @@ import {
   SupportedStrategy,
   StrategyType,
   TradingMode,
+  DEFAULT_PAPER_TRADING_SETTINGS,
+  AIShadowVariant,
+  AIProvider,
+  LocalLLMConfig,
 } from '@/services/tradingBot';
+import { aiAnalysisService } from '@/services/aiAnalysis';
+import { aiProviderService } from '@/services/aiProviders';
 import { exchangeService, MaskedExchangeCredentials } from '@/services/exchange';
+import { botTemplateService, BotTemplateFieldError } from '@/services/botTemplates';
 import StrategyConfigForm from './StrategyConfigForm';
+import BacktestPanel from './BacktestPanel';
+import BotTemplateLibrary from './BotTemplateLibrary';
 
 interface CreateBotModalProps {
   isOpen: boolean;
@@ -155,10 +172,85 @@ export default function CreateBotModal({ isOpen, onClose, onSuccess }: CreateBot
     max_position_size: undefined,
     use_auto_leverage: undefined,
     risk_per_trade: undefined,
+    execution_mode: 'live',
+    paper_settings: undefined,
   });
 
+  const isPaperTrading = formData.execution_mode === 'paper';
+
   const [selectedStrategy, setSelectedStrategy] = useState<SupportedStrategy | null>(null);
 
+  const queryClient = useQueryClient();
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [importErrors, setImportErrors] = useState<BotTemplateFieldError[]>([]);
+  // Set once a template is imported so its remaining problems are re-checked as the user edits
+  const [validateAsTemplate, setValidateAsTemplate] = useState(false);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+
+  const templateErrors = useMemo(
+    () =>
+      validateAsTemplate ? botTemplateService.validateConfig(formData, supportedStrategies) : [],
+    [validateAsTemplate, formData, supportedStrategies],
+  );
+  const strategyConfigErrors = useMemo(
+    () => botTemplateService.getStrategyConfigErrors(templateErrors),
+    [templateErrors],
+  );
+
+  const handleImportTemplate = (json: string) => {
+    const { template, errors } = botTemplateService.parseTemplate(json, supportedStrategies);
+    if (!template) {
+      setImportErrors(errors);
+      return;
+    }
+
+    setImportErrors([]);
+    setFormData(prev => botTemplateService.toCreateInput(template, prev.exchange_credentials_id));
+    setValidateAsTemplate(true);
+    setShowTemplates(false);
+
+    if (errors.length === 0) {
+      toast.success(`Loaded template "${template.name}"`);
+      setCurrentStep(3);
+      return;
+    }
+
+    // Land on the step that holds the first problem
+    const hasBotErrors = errors.some(error => !error.field.startsWith('strategy.'));
+    setCurrentStep(hasBotErrors ? 1 : 3);
+    toast.error(
+      errors.length === 1
+        ? errors[0]!.message
+        : `Template loaded with ${errors.length} problems to fix`,
+    );
+  };
+
+  const handleSaveTemplate = async () => {
+    setIsSavingTemplate(true);
+    try {
+      const saved = await botTemplateService.saveTemplate(
+        botTemplateService.fromCreateInput(formData),
+      );
+      queryClient.invalidateQueries({ queryKey: ['trading-bots', 'templates'] });
+      toast.success(`Saved "${saved.name}" to your templates`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save template');
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
+  const handleCopyTemplate = async () => {
+    try {
+      await botTemplateService.copyTemplateToClipboard(
+        botTemplateService.fromCreateInput(formData),
+      );
+      toast.success('Template JSON copied to clipboard');
+    } catch (_error) {
+      toast.error('Failed to copy template');
+    }
+  };
+
   const loadInitialData = async () => {
     setIsLoading(true);
     try {
@@ -223,10 +315,22 @@ export default function CreateBotModal({ isOpen, onClose, onSuccess }: CreateBot
         toast.error('Bot name is required');
         return;
       }
-      if (!formData.exchange_credentials_id) {
+      // Paper bots fill against a simulated account and don't need exchange keys
+      if (!formData.exchange_credentials_id && !isPaperTrading) {
         toast.error('Please select an exchange');
         return;
       }
+      if (isPaperTrading && formData.paper_settings) {
+        const { fee_percent, slippage_percent } = formData.paper_settings;
+        if (fee_percent < 0 || fee_percent > 1) {
+          toast.error('Simulated fee must be between 0% and 1%');
+          return;
+        }
+        if (slippage_percent < 0 || slippage_percent > 5) {
+          toast.error('Simulated slippage must be between 0% and 5%');
+          return;
+        }
+      }
       if (!formData.symbols || formData.symbols.length === 0) {
         toast.error('At least one trading symbol is required');
         return;
@@ -289,6 +393,11 @@ export default function CreateBotModal({ isOpen, onClose, onSuccess }: CreateBot
       return;
     }
 
+    if (templateErrors.length > 0) {
+      toast.error(templateErrors[0]!.message);
+      return;
+    }
+
     // Validate strategy configuration
     if (selectedStrategy.type === 'alpha_compounder') {
       const config = formData.strategy.config;
@@ -362,6 +471,24 @@ export default function CreateBotModal({ isOpen, onClose, onSuccess }: CreateBot
           return;
         }
       }
+
+      const shadowError = aiAnalysisService.validateShadowVariants(
+        config.shadow_variants as AIShadowVariant[] | undefined,
+      );
+      if (shadowError) {
+        toast.error(shadowError);
+        return;
+      }
+
+      const providerError = aiProviderService.validateProviderConfig({
+        ai_provider: config.ai_provider as AIProvider | undefined,
+        ai_model: config.ai_model as string | undefined,
+        local_llm: config.local_llm as LocalLLMConfig | undefined,
+      });
+      if (providerError) {
+        toast.error(providerError);
+        return;
+      }
     } else {
       // Generic validation for other strategies
       const schema = selectedStrategy.configuration_schema;
@@ -404,8 +531,11 @@ export default function CreateBotModal({ isOpen, onClose, onSuccess }: CreateBot
         max_position_size: undefined,
         use_auto_leverage: undefined,
         risk_per_trade: undefined,
+        execution_mode: 'live',
+        paper_settings: undefined,
       });
       setCurrentStep(1);
+      setValidateAsTemplate(false);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to create trading bot';
       toast.error(errorMessage);
@@ -478,9 +608,34 @@ export default function CreateBotModal({ isOpen, onClose, onSuccess }: CreateBot
 
                 <div className="sm:flex sm:items-start">
                   <div className="mt-3 text-center sm:mt-0 sm:text-left w-full">
-                    <Dialog.Title as="h3" className="text-lg font-semibold leading-6 text-gray-900">
-                      Create Trading Bot
-                    </Dialog.Title>
+                    <div className="flex items-center justify-between sm:pr-8">
+                      <Dialog.Title
+                        as="h3"
+                        className="text-lg font-semibold leading-6 text-gray-900"
+                      >
+                        Create Trading Bot
+                      </Dialog.Title>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setShowTemplates(prev => !prev);
+                          setImportErrors([]);
+                        }}
+                        className="inline-flex items-center text-sm font-medium text-primary-600 hover:text-primary-800"
+                      >
+                        <DocumentDuplicateIcon className="mr-1 h-4 w-4" />
+                        {showTemplates ? 'Hide Templates' : 'Use a Template'}
+                      </button>
+                    </div>
+
+                    {showTemplates && !isLoading && (
+                      <div className="mt-4">
+                        <BotTemplateLibrary
+                          onImport={handleImportTemplate}
+                          importErrors={importErrors}
+                        />
+                      </div>
+                    )}
 
                     {/* Progress Steps */}
                     <div className="mt-6 mb-8">
@@ -519,9 +674,124 @@ export default function CreateBotModal({ isOpen, onClose, onSuccess }: CreateBot
                       </div>
                     ) : (
                       <div className="space-y-6">
+                        {/* Problems left over from an imported template, outside the strategy form */}
+                        {templateErrors.some(
+                          error => !error.field.startsWith('strategy.config.'),
+                        ) && (
+                          <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-800">
+                            <p className="font-medium">Fix these template settings:</p>
+                            <ul className="mt-1 list-inside list-disc text-red-700">
+                              {templateErrors
+                                .filter(error => !error.field.startsWith('strategy.config.'))
+                                .map(error => (
+                                  <li key={error.field}>{error.message}</li>
+                                ))}
+                            </ul>
+                          </div>
+                        )}
+
                         {/* Step 1: Basic Information */}
                         {currentStep === 1 && (
                           <div className="space-y-4">
+                            {/* Paper Trading */}
+                            <div className="p-4 rounded-lg border border-purple-200 bg-purple-50">
+                              <div className="flex items-start justify-between">
+                                <div>
+                                  <label
+                                    htmlFor="paper_trading"
+                                    className="block text-sm font-semibold text-purple-900"
+                                  >
+                                    Paper Trading
+                                  </label>
+                                  <p className="mt-1 text-xs text-purple-700">
+                                    Run this bot against a simulated account with a virtual balance.
+                                    No exchange API keys are required and no real orders are placed.
+                                  </p>
+                                </div>
+                                <input
+                                  type="checkbox"
+                                  id="paper_trading"
+                                  checked={isPaperTrading}
+                                  onChange={e =>
+                                    setFormData(prev => ({
+                                      ...prev,
+                                      execution_mode: e.target.checked ? 'paper' : 'live',
+                                      paper_settings: e.target.checked
+                                        ? {
+                                            ...DEFAULT_PAPER_TRADING_SETTINGS,
+                                            virtual_balance: prev.starting_balance,
+                                          }
+                                        : undefined,
+                                    }))
+                                  }
+                                  className="mt-1 h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+                                />
+                              </div>
+
+                              {isPaperTrading && formData.paper_settings && (
+                                <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-4">
+                                  <div>
+                                    <label
+                                      htmlFor="paper_fee_percent"
+                                      className="block text-sm font-medium text-gray-700"
+                                    >
+                                      Simulated Fee (%)
+                                    </label>
+                                    <input
+                                      type="number"
+                                      id="paper_fee_percent"
+                                      min="0"
+                                      max="1"
+                                      step="0.01"
+                                      value={formData.paper_settings.fee_percent}
+                                      onChange={e =>
+                                        setFormData(prev => ({
+                                          ...prev,
+                                          paper_settings: prev.paper_settings && {
+                                            ...prev.paper_settings,
+                                            fee_percent: parseFloat(e.target.value) || 0,
+                                          },
+                                        }))
+                                      }
+                                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                                    />
+                                    <p className="mt-1 text-xs text-gray-500">
+                                      Charged on every simulated fill
+                                    </p>
+                                  </div>
+                                  <div>
+                                    <label
+                                      htmlFor="paper_slippage_percent"
+                                      className="block text-sm font-medium text-gray-700"
+                                    >
+                                      Simulated Slippage (%)
+                                    </label>
+                                    <input
+                                      type="number"
+                                      id="paper_slippage_percent"
+                                      min="0"
+                                      max="5"
+                                      step="0.01"
+                                      value={formData.paper_settings.slippage_percent}
+                                      onChange={e =>
+                                        setFormData(prev => ({
+                                          ...prev,
+                                          paper_settings: prev.paper_settings && {
+                                            ...prev.paper_settings,
+                                            slippage_percent: parseFloat(e.target.value) || 0,
+                                          },
+                                        }))
+                                      }
+                                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                                    />
+                                    <p className="mt-1 text-xs text-gray-500">
+                                      Adverse price movement applied to each fill
+                                    </p>
+                                  </div>
+                                </div>
+                              )}
+                            </div>
+
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                               <div>
                                 <label
@@ -548,7 +818,7 @@ export default function CreateBotModal({ isOpen, onClose, onSuccess }: CreateBot
                                   htmlFor="exchange"
                                   className="block text-sm font-medium text-gray-700"
                                 >
-                                  Exchange *
+                                  Exchange {isPaperTrading ? '(optional)' : '*'}
                                 </label>
                                 <select
                                   id="exchange"
@@ -562,7 +832,9 @@ export default function CreateBotModal({ isOpen, onClose, onSuccess }: CreateBot
                                   className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
                                   required
                                 >
-                                  <option value="">Select an exchange</option>
+                                  <option value="">
+                                    {isPaperTrading ? 'No exchange' : 'Select an exchange'}
+                                  </option>
                                   {exchanges.map(exchange => (
                                     <option key={exchange.id} value={exchange.id}>
                                       {exchange.account_name} (
@@ -570,7 +842,7 @@ export default function CreateBotModal({ isOpen, onClose, onSuccess }: CreateBot
                                     </option>
                                   ))}
                                 </select>
-                                {exchanges.length === 0 && (
+                                {exchanges.length === 0 && !isPaperTrading && (
                                   <p className="mt-1 text-xs text-red-600">
                                     No active exchanges found. Please add an exchange in settings
                                     first.
@@ -750,7 +1022,7 @@ export default function CreateBotModal({ isOpen, onClose, onSuccess }: CreateBot
                                   htmlFor="starting_balance"
                                   className="block text-sm font-medium text-gray-700"
                                 >
-                                  Starting Balance (USDT) *
+                                  {isPaperTrading ? 'Virtual Balance' : 'Starting Balance'} (USDT) *
                                 </label>
                                 <input
                                   type="number"
@@ -758,12 +1030,17 @@ export default function CreateBotModal({ isOpen, onClose, onSuccess }: CreateBot
                                   min="1"
                                   step="0.01"
                                   value={formData.starting_balance}
-                                  onChange={e =>
+                                  onChange={e => {
+                                    const startingBalance = parseFloat(e.target.value) || 0;
                                     setFormData(prev => ({
                                       ...prev,
-                                      starting_balance: parseFloat(e.target.value) || 0,
-                                    }))
-                                  }
+                                      starting_balance: startingBalance,
+                                      paper_settings: prev.paper_settings && {
+                                        ...prev.paper_settings,
+                                        virtual_balance: startingBalance,
+                                      },
+                                    }));
+                                  }}
                                   className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
                                   required
                                 />
@@ -1097,6 +1374,7 @@ export default function CreateBotModal({ isOpen, onClose, onSuccess }: CreateBot
                               strategy={selectedStrategy}
                               config={formData.strategy.config}
                               symbols={formData.symbols}
+                              errors={strategyConfigErrors}
                               onChange={config =>
                                 setFormData(prev => ({
                                   ...prev,
@@ -1104,6 +1382,40 @@ export default function CreateBotModal({ isOpen, onClose, onSuccess }: CreateBot
                                 }))
                               }
                             />
+
+                            <div className="flex flex-wrap items-center justify-end gap-2">
+                              <button
+                                type="button"
+                                onClick={handleCopyTemplate}
+                                className="inline-flex items-center rounded-md bg-white px-3 py-1.5 text-xs font-medium text-gray-700 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                              >
+                                <ClipboardDocumentIcon className="mr-1 h-4 w-4" />
+                                Copy JSON
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  botTemplateService.downloadTemplate(
+                                    botTemplateService.fromCreateInput(formData),
+                                  )
+                                }
+                                className="inline-flex items-center rounded-md bg-white px-3 py-1.5 text-xs font-medium text-gray-700 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                              >
+                                <ArrowDownTrayIcon className="mr-1 h-4 w-4" />
+                                Export JSON
+                              </button>
+                              <button
+                                type="button"
+                                onClick={handleSaveTemplate}
+                                disabled={isSavingTemplate}
+                                className="inline-flex items-center rounded-md bg-white px-3 py-1.5 text-xs font-medium text-gray-700 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                              >
+                                <BookmarkIcon className="mr-1 h-4 w-4" />
+                                {isSavingTemplate ? 'Saving...' : 'Save as Template'}
+                              </button>
+                            </div>
+
+                            <BacktestPanel input={formData} />
                           </div>
                         )}
 
@@ -1121,7 +1433,7 @@ export default function CreateBotModal({ isOpen, onClose, onSuccess }: CreateBot
                             <button
                               type="button"
                               onClick={handleNext}
-                              disabled={exchanges.length === 0}
+                              disabled={exchanges.length === 0 && !isPaperTrading}
                               className="inline-flex justify-center rounded-md bg-primary-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-primary-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary-600 disabled:opacity-50 disabled:cursor-not-allowed"
                             >
                               Next
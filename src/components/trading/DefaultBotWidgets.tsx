@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import {
   ArrowTrendingUpIcon,
@@ -16,6 +16,8 @@ import {
 
 import { ALPHA_COMPOUNDER, XPAT_TRADER, DefaultBot } from '@/services/defaultBots';
 import { tradingBotService, TradingBot, PositionHistorySummary } from '@/services/tradingBot';
+import { useBotRealtimeUpdates } from '@/hooks/useBotRealtimeUpdates';
+import { BotRealtimeEvent } from '@/services/websocket';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -375,6 +377,37 @@ const DefaultBotWidgets: React.FC = () => {
     loadUserBots();
   }, []);
 
+  // Keep the widgets in sync with live bot events instead of waiting for a reload
+  const handleBotEvent = useCallback(
+    async (event: BotRealtimeEvent) => {
+      const isAlpha = event.bot_id === alphaBot?.id;
+      const setBotState = isAlpha ? setAlphaBot : setXpatBot;
+      const setSummary = isAlpha ? setAlphaSummary : setXpatSummary;
+
+      if (event.type === 'bot_status') {
+        setBotState(prev =>
+          prev && prev.id === event.bot_id ? { ...prev, ...event.bot, status: event.status } : prev,
+        );
+        return;
+      }
+
+      if (event.type === 'position_opened' || event.type === 'position_closed') {
+        try {
+          const historyData = await tradingBotService.getBotPositionHistory(event.bot_id);
+          setSummary(historyData.summary);
+        } catch (error) {
+          console.error('Failed to refresh position history:', error);
+        }
+      }
+    },
+    [alphaBot?.id],
+  );
+
+  useBotRealtimeUpdates([alphaBot?.id, xpatBot?.id], {
+    notifyFills: true,
+    onEvent: handleBotEvent,
+  });
+
   const handleViewDetails = (botId: string) => {
     if (botId === 'alpha-compounder') {
       router.push('/trading-bots/alpha-compounder');
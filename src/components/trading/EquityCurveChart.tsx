@@ -0,0 +1,49 @@
+'use client';
+
+import { useMemo } from 'react';
+import { EquityPoint } from '@/services/backtest';
+
+interface EquityCurveChartProps {
+  points: EquityPoint[];
+  className?: string;
+}
+
+// Equity line with the drawdown shaded from the top edge
+export default function EquityCurveChart({
+  points,
+  className = 'w-full h-40',
+}: EquityCurveChartProps) {
+  const width = 600;
+  const height = 160;
+
+  const { equityPath, drawdownPath } = useMemo(() => {
+    if (points.length < 2) return { equityPath: '', drawdownPath: '' };
+
+    const equities = points.map(p => p.equity);
+    const min = Math.min(...equities);
+    const max = Math.max(...equities);
+    const range = max - min || 1;
+    const maxDrawdown = Math.max(...points.map(p => p.drawdown_percent), 1);
+    const x = (i: number) => (i / (points.length - 1)) * width;
+
+    return {
+      equityPath: points
+        .map(
+          (p, i) => `${i === 0 ? 'M' : 'L'}${x(i)},${height - ((p.equity - min) / range) * height}`,
+        )
+        .join(' '),
+      drawdownPath: `M0,0 ${points
+        .map((p, i) => `L${x(i)},${(p.drawdown_percent / maxDrawdown) * (height / 3)}`)
+        .join(' ')} L${width},0 Z`,
+    };
+  }, [points]);
+
+  if (!equityPath) return null;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className={className} preserveAspectRatio="none">
+      <path d={drawdownPath} className="fill-red-100" />
+      <path d={equityPath} className="fill-none stroke-primary-600" strokeWidth={2} />
+    </svg>
+  );
+}
@@ -7,7 +7,11 @@ import { z } from 'zod';
 import { useQueryClient } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
 import { toast } from 'react-hot-toast';
-import { tradingBotService, ExchangeName } from '@/services/tradingBot';
+import {
+  tradingBotService,
+  ExchangeName,
+  DEFAULT_PAPER_TRADING_SETTINGS,
+} from '@/services/tradingBot';
 import { exchangeService, MaskedExchangeCredentials } from '@/services/exchange';
 import { Button } from '@/components/ui/button';
 import { Modal } from '@/components/ui/Modal';
@@ -86,6 +90,7 @@ export default function ExchangeConnectionModal({
   const [, setIsConnecting] = useState(false);
   const [isInitializing, setIsInitializing] = useState(false);
   const [useExistingExchange, setUseExistingExchange] = useState(false);
+  const [isPaperTrading, setIsPaperTrading] = useState(false);
   const queryClient = useQueryClient();
 
   const {
@@ -117,6 +122,15 @@ export default function ExchangeConnectionModal({
     }
   };
 
+  const handlePaperTradingSelect = () => {
+    setIsPaperTrading(true);
+    setUseExistingExchange(false);
+    setSelectedExchange(null);
+    setSelectedExchangeCredentials(null);
+    setValue('startingBalance', 1000);
+    setStep('setup');
+  };
+
   const handleExistingExchangeSelect = (credentials: MaskedExchangeCredentials) => {
     console.info('Selecting existing exchange:', credentials);
     setSelectedExchangeCredentials(credentials);
@@ -151,9 +165,12 @@ export default function ExchangeConnectionModal({
 
     setIsInitializing(true);
     try {
-      let credentialsId: string;
+      let credentialsId: string | undefined;
 
-      if (useExistingExchange && selectedExchangeCredentials) {
+      if (isPaperTrading) {
+        // Paper bots run against a simulated account, no credentials needed
+        credentialsId = undefined;
+      } else if (useExistingExchange && selectedExchangeCredentials) {
         // Use existing exchange credentials
         console.info('Using existing exchange credentials:', selectedExchangeCredentials.id);
         credentialsId = selectedExchangeCredentials.id;
@@ -179,8 +196,17 @@ export default function ExchangeConnectionModal({
       const bot = await tradingBotService.initializeDefaultBot({
         exchange_credentials_id: credentialsId,
         bot_type: botType,
-        name: `My ${botType === 'alpha-compounder' ? 'Alpha Compounder' : 'XPat Trader'}`,
+        name: `My ${botType === 'alpha-compounder' ? 'Alpha Compounder' : 'XPat Trader'}${
+          isPaperTrading ? ' (Paper)' : ''
+        }`,
         starting_balance: data.startingBalance,
+        ...(isPaperTrading && {
+          execution_mode: 'paper' as const,
+          paper_settings: {
+            ...DEFAULT_PAPER_TRADING_SETTINGS,
+            virtual_balance: data.startingBalance,
+          },
+        }),
       });
 
       toast.success(
@@ -198,6 +224,7 @@ export default function ExchangeConnectionModal({
       setSelectedExchange(null);
       setSelectedExchangeCredentials(null);
       setUseExistingExchange(false);
+      setIsPaperTrading(false);
 
       // Optionally redirect to the bot page
       if (bot?.id) {
@@ -253,7 +280,10 @@ export default function ExchangeConnectionModal({
       setStep('exchange');
       setSelectedExchange(null);
     } else if (step === 'setup') {
-      if (useExistingExchange) {
+      if (isPaperTrading) {
+        setIsPaperTrading(false);
+        setStep('select-mode');
+      } else if (useExistingExchange) {
         setStep('select-existing');
       } else {
         setStep('credentials');
@@ -268,6 +298,7 @@ export default function ExchangeConnectionModal({
     setSelectedExchange(null);
     setSelectedExchangeCredentials(null);
     setUseExistingExchange(false);
+    setIsPaperTrading(false);
   };
 
   const selectedExchangeInfo = exchanges.find(ex => ex.id === selectedExchange);
@@ -293,7 +324,8 @@ export default function ExchangeConnectionModal({
               `Setup ${botType === 'alpha-compounder' ? 'Alpha Compounder' : 'XPat Trader'}`}
           </h2>
           <p className="mt-2 text-gray-600 dark:text-gray-400">
-            {step === 'select-mode' && 'Choose to use existing exchange or add a new one'}
+            {step === 'select-mode' &&
+              'Choose to use existing exchange, add a new one, or start with paper trading'}
             {step === 'select-existing' && 'Select from your existing exchange accounts'}
             {step === 'exchange' && 'Select your preferred cryptocurrency exchange'}
             {step === 'credentials' &&
@@ -393,6 +425,39 @@ export default function ExchangeConnectionModal({
                 </div>
               </div>
             </motion.div>
+
+            <motion.div
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={handlePaperTradingSelect}
+              className="cursor-pointer rounded-lg border-2 border-gray-200 p-6 transition-all hover:border-purple-300 dark:border-gray-700 dark:hover:border-purple-600"
+            >
+              <div className="flex items-center space-x-4">
+                <div className="rounded-full bg-purple-100 p-3 dark:bg-purple-900/20">
+                  <svg
+                    className="h-6 w-6 text-purple-600 dark:text-purple-400"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M9.75 3.104v5.714a2.25 2.25 0 01-.659 1.591L5 14.5M9.75 3.104c-.251.023-.501.05-.75.082m.75-.082a24.301 24.301 0 014.5 0m0 0v5.714c0 .597.237 1.17.659 1.591L19.8 15.3M14.25 3.104c.251.023.501.05.75.082M19.8 15.3l-1.57.393A9.065 9.065 0 0112 15a9.065 9.065 0 00-6.23-.693L5 14.5m14.8.8l1.402 1.402c1.232 1.232.65 3.318-1.067 3.611A48.309 48.309 0 0112 21c-2.773 0-5.491-.235-8.135-.687-1.718-.293-2.3-2.379-1.067-3.61L5 14.5"
+                    />
+                  </svg>
+                </div>
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                    Try with Paper Trading
+                  </h3>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Run the bot on a virtual balance with simulated fills, no API keys needed
+                  </p>
+                </div>
+              </div>
+            </motion.div>
           </div>
         )}
 
@@ -602,10 +667,23 @@ export default function ExchangeConnectionModal({
               </div>
             )}
 
+            {/* Paper Trading Information */}
+            {isPaperTrading && (
+              <div className="rounded-lg bg-purple-50 p-4 dark:bg-purple-900/20">
+                <h4 className="font-medium text-purple-900 dark:text-purple-300">Paper Trading</h4>
+                <p className="mt-1 text-sm text-purple-700 dark:text-purple-400">
+                  The bot trades a simulated account with a{' '}
+                  {DEFAULT_PAPER_TRADING_SETTINGS.fee_percent}% fee and{' '}
+                  {DEFAULT_PAPER_TRADING_SETTINGS.slippage_percent}% slippage on every fill. You can
+                  connect an exchange later to trade for real.
+                </p>
+              </div>
+            )}
+
             {/* Starting Balance */}
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-                Starting Balance (USD)
+                {isPaperTrading ? 'Virtual Balance (USD)' : 'Starting Balance (USD)'}
               </label>
               <input
                 {...register('startingBalance', { valueAsNumber: true })}
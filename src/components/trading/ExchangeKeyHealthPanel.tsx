@@ -0,0 +1,160 @@
+'use client';
+
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { formatDistanceToNow } from 'date-fns';
+import { KeyIcon, PauseCircleIcon } from '@heroicons/react/24/outline';
+import { MaskedExchangeCredentials } from '@/services/exchange';
+import {
+  CredentialHealthSettings,
+  CredentialHealthStatus,
+  exchangeHealthService,
+} from '@/services/exchangeHealth';
+
+interface ExchangeKeyHealthPanelProps {
+  credentials?: MaskedExchangeCredentials[];
+  className?: string;
+}
+
+// Checks and auto-pauses run on the backend; this only refreshes what is shown
+const REFRESH_INTERVAL_MS = 5 * 60_000;
+// Auto-pauses older than this are no longer shown on the dashboard
+const RECENT_PAUSE_MS = 24 * 60 * 60_000;
+
+const STATUS_DOT: Record<CredentialHealthStatus, string> = {
+  healthy: 'bg-green-500',
+  degraded: 'bg-yellow-500',
+  failing: 'bg-red-500',
+  unknown: 'bg-gray-300',
+};
+
+function KeyHealthRow({
+  credential,
+  settings,
+}: {
+  credential: MaskedExchangeCredentials;
+  settings?: CredentialHealthSettings;
+}) {
+  const { data: history = [] } = useQuery({
+    queryKey: ['exchange-credentials', 'health', credential.id],
+    queryFn: () => exchangeHealthService.getHealthHistory(credential.id),
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+
+  const status = exchangeHealthService.getHealthStatus(credential, history, settings);
+  const warnings = exchangeHealthService.auditCredential(credential, history, settings);
+  const topWarning = warnings[0];
+
+  return (
+    <li className="flex items-start gap-3 py-3">
+      <span className={`mt-1.5 h-2.5 w-2.5 flex-shrink-0 rounded-full ${STATUS_DOT[status]}`} />
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-medium text-gray-900 dark:text-white">
+          {credential.account_name}
+          <span className="ml-2 text-xs font-normal capitalize text-gray-500">
+            {credential.exchange}
+          </span>
+        </p>
+        {topWarning ? (
+          <p
+            className={`text-xs ${
+              topWarning.severity === 'critical'
+                ? 'text-red-600'
+                : topWarning.severity === 'warning'
+                  ? 'text-yellow-700'
+                  : 'text-gray-500'
+            }`}
+          >
+            {topWarning.message}
+            {warnings.length > 1 && ` (+${warnings.length - 1} more)`}
+          </p>
+        ) : (
+          <p className="text-xs text-gray-500">No issues found</p>
+        )}
+      </div>
+    </li>
+  );
+}
+
+export default function ExchangeKeyHealthPanel({
+  credentials,
+  className = '',
+}: ExchangeKeyHealthPanelProps) {
+  const activeCredentials = credentials?.filter(credential => credential.is_active) ?? [];
+
+  const { data: settings } = useQuery({
+    queryKey: ['exchange-credentials', 'health-settings'],
+    queryFn: () => exchangeHealthService.getHealthSettings(),
+    enabled: activeCredentials.length > 0,
+  });
+
+  const { data: pauses = [] } = useQuery({
+    queryKey: ['exchange-credentials', 'health-pauses'],
+    queryFn: () => exchangeHealthService.getFailurePauses(),
+    enabled: activeCredentials.length > 0,
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+  const recentPauses = pauses.filter(
+    pause => Date.now() - new Date(pause.paused_at).getTime() < RECENT_PAUSE_MS,
+  );
+
+  if (activeCredentials.length === 0) {
+    return null;
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      transition={{ duration: 0.3 }}
+      className={`rounded-xl bg-white p-6 shadow-lg dark:bg-gray-800 ${className}`}
+    >
+      <div className="mb-2 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="rounded-lg bg-gradient-to-br from-sky-500 to-blue-600 p-2">
+            <KeyIcon className="h-6 w-6 text-white" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Exchange Key Health
+            </h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Connection checks and permission audit of your API keys
+            </p>
+          </div>
+        </div>
+        <Link
+          href="/settings?tab=exchanges"
+          className="text-sm font-medium text-primary-600 hover:text-primary-700"
+        >
+          Manage
+        </Link>
+      </div>
+
+      <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+        {activeCredentials.map(credential => (
+          <KeyHealthRow key={credential.id} credential={credential} settings={settings} />
+        ))}
+      </ul>
+
+      {recentPauses.length > 0 && (
+        <div className="mt-3 rounded-lg border border-red-200 bg-red-50 p-3 dark:border-red-900/40 dark:bg-red-900/20">
+          <p className="flex items-center text-sm font-medium text-red-800 dark:text-red-300">
+            <PauseCircleIcon className="mr-1 h-4 w-4" />
+            Bots paused because of failing keys
+          </p>
+          <ul className="mt-1 space-y-0.5 text-xs text-red-700 dark:text-red-400">
+            {recentPauses.map(pause => (
+              <li key={`${pause.bot_id}-${pause.paused_at}`}>
+                {pause.bot_name}: &quot;{pause.account_name}&quot; failed{' '}
+                {pause.consecutive_failures} checks in a row,{' '}
+                {formatDistanceToNow(new Date(pause.paused_at), { addSuffix: true })}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -1,11 +1,17 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
-import { FuelBalance } from '@/services/fuel';
+import { toast } from 'react-hot-toast';
+import { Cog6ToothIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import fuelService, { DEFAULT_TOP_UP_SETTINGS, FuelBalance } from '@/services/fuel';
+import { tradingBotService } from '@/services/tradingBot';
+import { FuelForecast, FuelLevel, forecastFuel } from '@/utils/fuelForecast';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { Button } from '@/components/ui/button';
 import FuelPackagesModal from './FuelPackagesModal';
+import FuelTopUpSettingsModal from './FuelTopUpSettingsModal';
 
 interface FuelPanelProps {
   balance?: FuelBalance;
@@ -13,8 +19,73 @@ interface FuelPanelProps {
   className?: string;
 }
 
+// Auto top-ups run on the backend; this only refreshes the latest attempt shown
+const TOP_UP_REFRESH_INTERVAL_MS = 5 * 60_000;
+
+const LEVEL_STYLES: Record<FuelLevel, string> = {
+  ok: 'text-green-600 dark:text-green-400',
+  low: 'text-yellow-600 dark:text-yellow-400',
+  critical: 'text-red-600 dark:text-red-400',
+  empty: 'text-red-600 dark:text-red-400',
+};
+
+const formatDays = (days: number) =>
+  days >= 1 ? `${days.toFixed(days < 10 ? 1 : 0)} days` : `${Math.round(days * 24)} hours`;
+
 export default function FuelPanel({ balance, isLoading, className = '' }: FuelPanelProps) {
   const [isFuelModalOpen, setIsFuelModalOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  const { data: bots = [] } = useQuery({
+    queryKey: ['trading-bots', 'user'],
+    queryFn: () => tradingBotService.getUserBots(),
+  });
+
+  const { data: history } = useQuery({
+    queryKey: ['fuel', 'transactions', 'recent'],
+    queryFn: () => fuelService.getTransactionHistory(1, 200),
+  });
+
+  const { data: settings = DEFAULT_TOP_UP_SETTINGS } = useQuery({
+    queryKey: ['fuel', 'top-up-settings'],
+    queryFn: () => fuelService.getTopUpSettings(),
+  });
+
+  const forecast: FuelForecast | null =
+    balance && history
+      ? forecastFuel(
+          balance.balance,
+          bots,
+          history.transactions,
+          history.pagination.total_pages > history.pagination.page,
+          settings.alert_below_days,
+        )
+      : null;
+
+  const { data: topUpRuns = [] } = useQuery({
+    queryKey: ['fuel', 'top-ups'],
+    queryFn: () => fuelService.getTopUpRuns(1),
+    enabled: settings.auto_top_up,
+    refetchInterval: TOP_UP_REFRESH_INTERVAL_MS,
+  });
+  const lastTopUp = topUpRuns[0];
+
+  // Alert once per level change rather than on every render
+  const alertedLevel = useRef<FuelLevel>('ok');
+  useEffect(() => {
+    if (!forecast || forecast.level === alertedLevel.current) return;
+    alertedLevel.current = forecast.level;
+    if (forecast.level === 'empty') {
+      toast.error('Fuel balance is empty. Your bots stop analyzing until you top up.', {
+        duration: 10000,
+      });
+    } else if (forecast.level !== 'ok' && forecast.days_remaining !== null) {
+      toast(`Fuel runs out in about ${formatDays(forecast.days_remaining)}`, {
+        icon: '⛽',
+        duration: 8000,
+      });
+    }
+  }, [forecast]);
 
   const handleBuyFuel = () => {
     setIsFuelModalOpen(true);
@@ -60,6 +131,13 @@ export default function FuelPanel({ balance, isLoading, className = '' }: FuelPa
               </p>
             </div>
           </div>
+          <button
+            onClick={() => setIsSettingsOpen(true)}
+            className="rounded-md p-1.5 text-gray-400 hover:bg-gray-100 hover:text-gray-600 dark:hover:bg-gray-700"
+            title="Low fuel alerts and auto top-up"
+          >
+            <Cog6ToothIcon className="h-5 w-5" />
+          </button>
         </div>
 
         {/* Balance Display */}
@@ -86,6 +164,72 @@ export default function FuelPanel({ balance, isLoading, className = '' }: FuelPa
           )}
         </div>
 
+        {/* Forecast */}
+        {forecast && !isLoading && (
+          <div className="mb-6 space-y-3">
+            {forecast.level !== 'ok' && (
+              <div className="flex items-start gap-2 rounded-lg bg-red-50 px-3 py-2 text-sm text-red-700 dark:bg-red-900/20 dark:text-red-400">
+                <ExclamationTriangleIcon className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                <span>
+                  {forecast.level === 'empty'
+                    ? 'Out of fuel. Running bots cannot analyze the market.'
+                    : `Low fuel: running bots stop in about ${formatDays(forecast.days_remaining ?? 0)}.`}
+                  {settings.auto_top_up && ' Auto top-up is on.'}
+                </span>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3 text-center">
+              <div className="rounded-lg bg-gray-50 p-3 dark:bg-gray-700/50">
+                <p className={`text-lg font-semibold ${LEVEL_STYLES[forecast.level]}`}>
+                  {forecast.days_remaining !== null ? formatDays(forecast.days_remaining) : '—'}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {forecast.runs_out_at
+                    ? `Until ${new Date(forecast.runs_out_at).toLocaleDateString()}`
+                    : 'No fuel being used'}
+                </p>
+              </div>
+              <div className="rounded-lg bg-gray-50 p-3 dark:bg-gray-700/50">
+                <p className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {formatBalance(forecast.fuel_per_day)}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Fuel per day</p>
+              </div>
+            </div>
+
+            {forecast.bots.length > 0 && (
+              <ul className="space-y-1 text-xs text-gray-600 dark:text-gray-400">
+                {forecast.bots.slice(0, 4).map(rate => (
+                  <li key={rate.bot_id} className="flex justify-between gap-2">
+                    <span className="truncate">{rate.bot_name}</span>
+                    <span className="flex-shrink-0">
+                      {rate.source === 'none'
+                        ? 'no spend yet'
+                        : `${formatBalance(rate.fuel_per_day)}/day${rate.source === 'interval' ? ' (est.)' : ''}`}
+                    </span>
+                  </li>
+                ))}
+                {forecast.bots.length > 4 && (
+                  <li className="text-gray-400">+{forecast.bots.length - 4} more running bots</li>
+                )}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {settings.auto_top_up && lastTopUp && !isLoading && (
+          <p
+            className={`mb-6 text-xs ${
+              lastTopUp.status === 'unpaid'
+                ? 'text-red-600 dark:text-red-400'
+                : 'text-gray-500 dark:text-gray-400'
+            }`}
+          >
+            Last auto top-up {new Date(lastTopUp.created_at).toLocaleString()}: {lastTopUp.message}
+          </p>
+        )}
+
         {/* Buy Fuel Button */}
         <div className="mb-6">
           <Button
@@ -109,6 +253,12 @@ export default function FuelPanel({ balance, isLoading, className = '' }: FuelPa
 
       {/* Fuel Packages Modal */}
       <FuelPackagesModal isOpen={isFuelModalOpen} onClose={() => setIsFuelModalOpen(false)} />
+
+      <FuelTopUpSettingsModal
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        settings={settings}
+      />
     </>
   );
 }
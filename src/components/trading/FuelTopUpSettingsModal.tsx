@@ -0,0 +1,223 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import fuelService, { FuelTopUpSettings } from '@/services/fuel';
+import invoiceService from '@/services/invoice';
+import { Button } from '@/components/ui/button';
+import { Modal } from '@/components/ui/Modal';
+
+interface FuelTopUpSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: FuelTopUpSettings;
+}
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-primary-500 focus:outline-none focus:ring-primary-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white';
+
+export default function FuelTopUpSettingsModal({
+  isOpen,
+  onClose,
+  settings,
+}: FuelTopUpSettingsModalProps) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<FuelTopUpSettings>(settings);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setForm(settings);
+  }, [isOpen, settings]);
+
+  const { data: packages = [] } = useQuery({
+    queryKey: ['fuel', 'packages'],
+    queryFn: () => fuelService.getFuelPackages(),
+    enabled: isOpen,
+  });
+
+  const { data: balances = [] } = useQuery({
+    queryKey: ['wallet', 'available-balances'],
+    queryFn: () => invoiceService.getAvailableBalances(),
+    enabled: isOpen && form.auto_top_up,
+  });
+
+  const activePackages = packages
+    .filter(pkg => pkg.status === 'active')
+    .sort((a, b) => a.display_order - b.display_order);
+
+  const update = <K extends keyof FuelTopUpSettings>(key: K, value: FuelTopUpSettings[K]) =>
+    setForm(prev => ({ ...prev, [key]: value }));
+
+  const handleSave = async () => {
+    const validationError = fuelService.validateTopUpSettings(form);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await fuelService.updateTopUpSettings(form);
+      queryClient.invalidateQueries({ queryKey: ['fuel', 'top-up-settings'] });
+      toast.success('Fuel alert settings saved');
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="md">
+      <div className="p-6">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">Low Fuel Alerts</h2>
+        <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+          Bots stop when fuel runs out. Get warned early, or top up automatically from your wallet.
+        </p>
+
+        <div className="mt-6 space-y-5">
+          <div>
+            <label
+              htmlFor="alert_below_days"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+            >
+              Alert when less than (days of fuel)
+            </label>
+            <input
+              id="alert_below_days"
+              type="number"
+              min={0.5}
+              max={90}
+              step={0.5}
+              value={form.alert_below_days}
+              onChange={e => update('alert_below_days', parseFloat(e.target.value) || 0)}
+              className={inputClassName}
+            />
+          </div>
+
+          <label className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={form.auto_top_up}
+              onChange={e => update('auto_top_up', e.target.checked)}
+              className="mt-1 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            <span>
+              <span className="block text-sm font-medium text-gray-900 dark:text-white">
+                Auto top-up
+              </span>
+              <span className="block text-xs text-gray-500 dark:text-gray-400">
+                Buys the package below and pays the invoice from your wallet balance. Runs on our
+                servers, also while you are signed out. Every invoice created counts towards the
+                daily limit, even if the payment fails.
+              </span>
+            </span>
+          </label>
+
+          {form.auto_top_up && (
+            <div className="space-y-4 rounded-lg border border-gray-200 p-4 dark:border-gray-700">
+              <div>
+                <label
+                  htmlFor="package_id"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+                >
+                  Package
+                </label>
+                <select
+                  id="package_id"
+                  value={form.package_id ?? ''}
+                  onChange={e => update('package_id', e.target.value || undefined)}
+                  className={inputClassName}
+                >
+                  <option value="">Select a package</option>
+                  {activePackages.map(pkg => (
+                    <option key={pkg.id} value={pkg.id}>
+                      {pkg.name} · {(pkg.fuel_amount + pkg.bonus_fuel).toLocaleString()} fuel · $
+                      {(pkg.price.amount / 1e4).toFixed(2)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label
+                    htmlFor="top_up_below_days"
+                    className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+                  >
+                    Top up below (days)
+                  </label>
+                  <input
+                    id="top_up_below_days"
+                    type="number"
+                    min={0.5}
+                    max={30}
+                    step={0.5}
+                    value={form.top_up_below_days}
+                    onChange={e => update('top_up_below_days', parseFloat(e.target.value) || 0)}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label
+                    htmlFor="max_top_ups_per_day"
+                    className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+                  >
+                    Max top-ups per day
+                  </label>
+                  <input
+                    id="max_top_ups_per_day"
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={form.max_top_ups_per_day}
+                    onChange={e => update('max_top_ups_per_day', parseInt(e.target.value) || 0)}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="payment_currency"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+                >
+                  Pay with
+                </label>
+                <select
+                  id="payment_currency"
+                  value={form.payment_currency ?? ''}
+                  onChange={e => update('payment_currency', e.target.value || undefined)}
+                  className={inputClassName}
+                >
+                  <option value="">Any wallet with enough balance</option>
+                  {balances.map(balance => (
+                    <option key={balance.currency} value={balance.currency}>
+                      {balance.currency} · {balance.balance} (${balance.usd_value.toFixed(2)})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="mt-8 flex flex-col gap-3 sm:flex-row sm:justify-end">
+          <Button
+            variant="outline"
+            onClick={onClose}
+            disabled={isSaving}
+            className="w-full sm:w-auto"
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={isSaving} className="w-full sm:w-auto">
+            Save
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
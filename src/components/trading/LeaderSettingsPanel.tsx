@@ -0,0 +1,134 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { BanknotesIcon } from '@heroicons/react/24/outline';
+import { tradingBotService, TradingBot } from '@/services/tradingBot';
+import { copyTradingService, MAX_PERFORMANCE_FEE_PERCENT } from '@/services/copyTrading';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+
+// Owner-side copy-trading settings: which bots can be copied and their performance fee
+export default function LeaderSettingsPanel() {
+  const { data: bots, isLoading } = useQuery({
+    queryKey: ['trading-bots', 'user'],
+    queryFn: () => tradingBotService.getUserBots(),
+  });
+
+  // Copies follow their parent, and paper bots have no real track record to sell
+  const leaderBots = (bots ?? []).filter(bot => !bot.parent_id && bot.execution_mode !== 'paper');
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex items-center space-x-3 mb-4">
+        <div className="rounded-lg bg-gradient-to-br from-green-500 to-emerald-600 p-2">
+          <BanknotesIcon className="h-6 w-6 text-white" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Share Your Bots</h2>
+          <p className="text-sm text-gray-500">
+            Let others copy your bots and earn a performance fee on their profits, up to{' '}
+            {MAX_PERFORMANCE_FEE_PERCENT}%. Fees are only charged on new profits above each
+            follower&apos;s previous high and are paid into your wallet as commission.
+          </p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner size="md" />
+        </div>
+      ) : leaderBots.length === 0 ? (
+        <p className="text-sm text-gray-500">You have no live bots that can be shared yet.</p>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {leaderBots.map(bot => (
+            <LeaderSettingsRow key={bot.id} bot={bot} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function LeaderSettingsRow({ bot }: { bot: TradingBot }) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [isCopyable, setIsCopyable] = useState(bot.is_copyable);
+  const [feePercent, setFeePercent] = useState(String(bot.performance_fee_percent ?? 0));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isDirty =
+    isCopyable !== bot.is_copyable ||
+    parseFloat(feePercent || '0') !== (bot.performance_fee_percent ?? 0);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await copyTradingService.updateLeaderSettings(bot.id, {
+        is_copyable: isCopyable,
+        performance_fee_percent: parseFloat(feePercent || '0'),
+      });
+      queryClient.setQueryData<TradingBot[]>(['trading-bots', 'user'], prev =>
+        prev?.map(b => (b.id === bot.id ? { ...b, ...saved } : b)),
+      );
+      queryClient.invalidateQueries({ queryKey: ['trading-bots', 'leaders'] });
+      toast.success(`Copy-trading settings saved for ${bot.name}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save copy-trading settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 py-3 sm:flex-row sm:items-center sm:justify-between">
+      <div>
+        <p className="text-sm font-medium text-gray-900">{bot.name}</p>
+        <p className="text-xs text-gray-500">
+          {bot.follower_count ?? 0} followers • {bot.strategy.type.replace(/_/g, ' ')}
+        </p>
+      </div>
+      <div className="flex items-center gap-4">
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={isCopyable}
+            onChange={e => setIsCopyable(e.target.checked)}
+            className="mr-2 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          Copyable
+        </label>
+        <div className="flex items-center gap-1">
+          <label htmlFor={`fee_${bot.id}`} className="text-sm text-gray-700">
+            Fee
+          </label>
+          <input
+            type="number"
+            id={`fee_${bot.id}`}
+            min="0"
+            max={MAX_PERFORMANCE_FEE_PERCENT}
+            step="0.5"
+            value={feePercent}
+            disabled={!isCopyable}
+            onChange={e => setFeePercent(e.target.value)}
+            className="block w-20 rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm disabled:bg-gray-100"
+          />
+          <span className="text-sm text-gray-500">%</span>
+        </div>
+        <Button size="sm" onClick={handleSave} loading={isSaving} disabled={!isDirty}>
+          Save
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => router.push(`/trading-bots/${bot.id}/history`)}
+        >
+          Fees
+        </Button>
+      </div>
+    </div>
+  );
+}
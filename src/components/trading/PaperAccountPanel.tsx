@@ -0,0 +1,129 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowPathIcon, BeakerIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { tradingBotService, PaperAccount, TradingBot } from '@/services/tradingBot';
+
+interface PaperAccountPanelProps {
+  bot: TradingBot;
+  onReset?: () => void;
+}
+
+export default function PaperAccountPanel({ bot, onReset }: PaperAccountPanelProps) {
+  const [account, setAccount] = useState<PaperAccount | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isResetting, setIsResetting] = useState(false);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const loadAccount = useCallback(async () => {
+    try {
+      setLoading(true);
+      setAccount(await tradingBotService.getPaperAccount(bot.id));
+    } catch (error) {
+      console.error('Failed to load paper account:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [bot.id]);
+
+  useEffect(() => {
+    loadAccount();
+  }, [loadAccount]);
+
+  const handleReset = async () => {
+    if (bot.status === 'running') {
+      toast.error('Stop the bot before resetting its paper account');
+      return;
+    }
+    if (!window.confirm('Reset the virtual balance and clear all simulated positions?')) {
+      return;
+    }
+
+    setIsResetting(true);
+    try {
+      setAccount(
+        await tradingBotService.resetPaperAccount(bot.id, bot.paper_settings?.virtual_balance),
+      );
+      toast.success('Paper account reset');
+      onReset?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to reset paper account');
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  const settings = bot.paper_settings;
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-2">
+            <BeakerIcon className="h-5 w-5 text-purple-600" />
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Paper Trading Account</h3>
+          </div>
+          <button
+            type="button"
+            onClick={handleReset}
+            disabled={isResetting}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <ArrowPathIcon className={`mr-1 h-4 w-4 ${isResetting ? 'animate-spin' : ''}`} />
+            Reset
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-600"></div>
+          </div>
+        ) : account ? (
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+            <div>
+              <div className="text-sm text-gray-500">Virtual Balance</div>
+              <div className="text-lg font-medium text-gray-900">
+                {formatCurrency(account.virtual_balance)}
+              </div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500">Equity</div>
+              <div className="text-lg font-medium text-gray-900">
+                {formatCurrency(account.equity)}
+              </div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500">Available</div>
+              <div className="text-lg font-medium text-gray-900">
+                {formatCurrency(account.available_balance)}
+              </div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500">Simulated Fees</div>
+              <div className="text-lg font-medium text-gray-900">
+                {formatCurrency(account.total_fees)}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Paper account details are not available yet.</p>
+        )}
+
+        <p className="mt-4 text-xs text-gray-500">
+          Fills are simulated with a {account?.fee_percent ?? settings?.fee_percent ?? 0}% fee and{' '}
+          {account?.slippage_percent ?? settings?.slippage_percent ?? 0}% slippage. No real orders
+          are sent to an exchange.
+        </p>
+      </div>
+    </div>
+  );
+}
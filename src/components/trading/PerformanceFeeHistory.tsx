@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { TradingBot } from '@/services/tradingBot';
+import {
+  copyTradingService,
+  FeeSettlementStatus,
+  PerformanceFeeSettlement,
+} from '@/services/copyTrading';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+
+interface PerformanceFeeHistoryProps {
+  bot: TradingBot;
+}
+
+const STATUS_STYLES: Record<FeeSettlementStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  settled: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+};
+
+// Performance fees paid by a copy bot, or earned by a copyable leader bot
+export default function PerformanceFeeHistory({ bot }: PerformanceFeeHistoryProps) {
+  const queryClient = useQueryClient();
+  const [isSettling, setIsSettling] = useState(false);
+  const isFollower = !!bot.parent_id;
+
+  const { data: settlements = [], isLoading } = useQuery({
+    queryKey: ['trading-bots', 'fee-settlements', bot.id],
+    queryFn: () => copyTradingService.getFeeSettlements(bot.id),
+  });
+
+  const feePercent = bot.performance_fee_percent ?? 0;
+  const lastSettlement = settlements.find(settlement => settlement.status === 'settled');
+  const highWaterMark = lastSettlement
+    ? Math.max(lastSettlement.high_water_mark, lastSettlement.closing_equity)
+    : bot.starting_balance;
+  const outstanding = copyTradingService.previewPerformanceFee(
+    bot.current_balance,
+    highWaterMark,
+    feePercent,
+  );
+  const totalSettled = settlements
+    .filter(settlement => settlement.status === 'settled')
+    .reduce((sum, settlement) => sum + settlement.fee_amount, 0);
+
+  const handleSettle = async () => {
+    setIsSettling(true);
+    try {
+      const settlement = await copyTradingService.settlePerformanceFee(bot.id);
+      queryClient.setQueryData<PerformanceFeeSettlement[]>(
+        ['trading-bots', 'fee-settlements', bot.id],
+        prev => [settlement, ...(prev ?? [])],
+      );
+      toast.success(`Settled ${formatCurrency(settlement.fee_amount)} performance fee`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to settle performance fee');
+    } finally {
+      setIsSettling(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="md:flex md:items-start md:justify-between">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Performance Fees</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {isFollower
+                ? `${feePercent}% of profits above the high-water mark of ${formatCurrency(highWaterMark)} go to the leader.`
+                : `${formatCurrency(totalSettled)} earned from followers, paid to your wallet as commission.`}
+            </p>
+          </div>
+          {isFollower && (
+            <div className="mt-4 flex items-center gap-3 md:mt-0">
+              <div className="text-right">
+                <p className="text-xs text-gray-500">Outstanding</p>
+                <p className="text-sm font-medium text-gray-900">
+                  {formatCurrency(outstanding.fee_amount)}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                onClick={handleSettle}
+                loading={isSettling}
+                disabled={outstanding.fee_amount <= 0}
+              >
+                Settle Now
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner size="md" />
+          </div>
+        ) : settlements.length === 0 ? (
+          <p className="mt-4 text-sm text-gray-500">No fees have been settled yet.</p>
+        ) : (
+          <div className="mt-4 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {[
+                    'Period',
+                    isFollower ? 'Leader' : 'Follower',
+                    'High-Water Mark',
+                    'Closing Equity',
+                    'Fee',
+                    'Status',
+                  ].map(heading => (
+                    <th
+                      key={heading}
+                      className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {settlements.map(settlement => (
+                  <tr key={settlement.id}>
+                    <td className="px-3 py-2 text-gray-600">
+                      {new Date(settlement.period_start).toLocaleDateString()} –{' '}
+                      {new Date(settlement.period_end).toLocaleDateString()}
+                    </td>
+                    <td className="px-3 py-2 text-gray-900">
+                      {isFollower ? settlement.leader_bot_name : settlement.follower_bot_name}
+                    </td>
+                    <td className="px-3 py-2 text-gray-900">
+                      {formatCurrency(settlement.high_water_mark)}
+                    </td>
+                    <td className="px-3 py-2 text-gray-900">
+                      {formatCurrency(settlement.closing_equity)}
+                    </td>
+                    <td className="px-3 py-2 font-medium text-gray-900">
+                      {formatCurrency(settlement.fee_amount)}{' '}
+                      <span className="text-xs font-normal text-gray-500">
+                        ({settlement.fee_percent}%)
+                      </span>
+                    </td>
+                    <td className="px-3 py-2">
+                      <span
+                        className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[settlement.status]}`}
+                      >
+                        {settlement.status}
+                      </span>
+                      {!isFollower && settlement.commission_transaction_id && (
+                        <Link
+                          href="/wallet"
+                          className="ml-2 text-xs text-primary-600 hover:text-primary-800"
+                        >
+                          View commission
+                        </Link>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
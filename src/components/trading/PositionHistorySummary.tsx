@@ -12,9 +12,13 @@ import { PositionHistorySummary as SummaryType } from '@/services/tradingBot';
 
 interface PositionHistorySummaryProps {
   summary: SummaryType;
+  isSimulated?: boolean; // Summary belongs to a paper trading bot
 }
 
-export default function PositionHistorySummary({ summary }: PositionHistorySummaryProps) {
+export default function PositionHistorySummary({
+  summary,
+  isSimulated = false,
+}: PositionHistorySummaryProps) {
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -120,6 +124,13 @@ export default function PositionHistorySummary({ summary }: PositionHistorySumma
 
   return (
     <div className="space-y-6">
+      {isSimulated && (
+        <div className="rounded-lg border border-purple-200 bg-purple-50 p-4 text-sm text-purple-800">
+          <strong>Paper trading:</strong> these results come from simulated fills against a virtual
+          balance. No real orders were placed on an exchange.
+        </div>
+      )}
+
       {/* Main Stats Grid */}
       <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3">
         {stats.map(stat => {
@@ -224,6 +224,11 @@ export default function PositionHistoryTable({ positions }: PositionHistoryTable
                   <div className="flex flex-col space-y-1">
                     <div className="text-sm font-medium text-gray-900">{position.symbol}</div>
                     {getSideBadge(position.side)}
+                    {position.is_simulated && (
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                        Simulated
+                      </span>
+                    )}
                   </div>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
@@ -0,0 +1,122 @@
+'use client';
+
+import Link from 'next/link';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowTopRightOnSquareIcon } from '@heroicons/react/24/outline';
+import { promptTemplateService } from '@/services/promptTemplates';
+
+export interface PromptTemplateSelection {
+  prompt_template_id?: string;
+  prompt_template_version?: number;
+}
+
+interface PromptTemplatePickerProps {
+  value: PromptTemplateSelection;
+  onChange: (selection: PromptTemplateSelection) => void;
+  error?: string;
+}
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm';
+
+// Attach a saved analysis prompt template (optionally pinned to a version) to an ai_signal bot
+export default function PromptTemplatePicker({
+  value,
+  onChange,
+  error,
+}: PromptTemplatePickerProps) {
+  const { data: templates = [], isLoading } = useQuery({
+    queryKey: ['trading-bots', 'prompt-templates'],
+    queryFn: () => promptTemplateService.getTemplates(),
+  });
+
+  const { data: versions = [] } = useQuery({
+    queryKey: ['trading-bots', 'prompt-templates', value.prompt_template_id, 'versions'],
+    queryFn: () => promptTemplateService.getTemplateVersions(value.prompt_template_id ?? ''),
+    enabled: !!value.prompt_template_id,
+  });
+
+  const selected = templates.find(template => template.id === value.prompt_template_id);
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-medium text-amber-900">Analysis Prompt</h3>
+        <Link
+          href="/trading-bots/prompt-templates"
+          target="_blank"
+          className="flex items-center text-sm text-primary-600 hover:text-primary-800"
+        >
+          Manage Templates
+          <ArrowTopRightOnSquareIcon className="h-4 w-4 ml-1" />
+        </Link>
+      </div>
+      <p className="text-xs text-gray-600 mb-4">
+        Use your own prompt instead of the built-in one. Pin a version to keep the bot on it while
+        you keep editing the template; analysis logs record the exact version used.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="prompt_template_id" className="block text-sm font-medium text-gray-700">
+            Template
+          </label>
+          <select
+            id="prompt_template_id"
+            value={value.prompt_template_id ?? ''}
+            onChange={e =>
+              onChange({
+                prompt_template_id: e.target.value || undefined,
+                prompt_template_version: undefined,
+              })
+            }
+            disabled={isLoading}
+            className={inputClassName}
+          >
+            <option value="">Built-in prompt</option>
+            {templates.map(template => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+            {value.prompt_template_id && !isLoading && !selected && (
+              <option value={value.prompt_template_id}>Deleted template</option>
+            )}
+          </select>
+        </div>
+
+        <div>
+          <label
+            htmlFor="prompt_template_version"
+            className="block text-sm font-medium text-gray-700"
+          >
+            Version
+          </label>
+          <select
+            id="prompt_template_version"
+            value={value.prompt_template_version ?? ''}
+            onChange={e =>
+              onChange({
+                ...value,
+                prompt_template_version: e.target.value ? parseInt(e.target.value) : undefined,
+              })
+            }
+            disabled={!value.prompt_template_id}
+            className={inputClassName}
+          >
+            <option value="">
+              {selected ? `Always latest (currently v${selected.latest_version})` : 'Always latest'}
+            </option>
+            {versions.map(version => (
+              <option key={version.id} value={version.version}>
+                v{version.version}
+                {version.change_note ? ` — ${version.change_note}` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
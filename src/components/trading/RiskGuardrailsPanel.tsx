@@ -0,0 +1,266 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import { toast } from 'react-hot-toast';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  PauseCircleIcon,
+  ShieldExclamationIcon,
+  StopCircleIcon,
+} from '@heroicons/react/24/outline';
+import {
+  tradingBotService,
+  GuardrailBreach,
+  GuardrailRule,
+  TradingBot,
+  UserRiskGuardrails,
+} from '@/services/tradingBot';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+
+interface RiskGuardrailsPanelProps {
+  bots?: TradingBot[];
+  className?: string;
+}
+
+// Guardrails are enforced on the backend; this only refreshes the pauses shown
+const REFRESH_INTERVAL_MS = 60_000;
+// Auto-pauses older than this are no longer shown on the dashboard
+const RECENT_PAUSE_MS = 24 * 60 * 60_000;
+
+const RULE_LABELS: Record<GuardrailRule, string> = {
+  max_daily_loss: 'daily loss limit',
+  max_open_exposure: 'open exposure limit',
+  max_consecutive_losses: 'consecutive loss limit',
+};
+
+const describeBreach = (breach: GuardrailBreach) => {
+  const scope = breach.scope === 'user' ? 'account' : 'bot';
+  const value =
+    breach.rule === 'max_consecutive_losses'
+      ? `${breach.value} losses`
+      : `${breach.value.toFixed(2)} USDT`;
+  return `${scope} ${RULE_LABELS[breach.rule]} hit (${value}, limit ${breach.limit})`;
+};
+
+export default function RiskGuardrailsPanel({ bots, className = '' }: RiskGuardrailsPanelProps) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<UserRiskGuardrails>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [isKilling, setIsKilling] = useState(false);
+  const [closePositions, setClosePositions] = useState(false);
+
+  const { data: guardrails, isLoading } = useQuery({
+    queryKey: ['trading-bots', 'risk-guardrails'],
+    queryFn: () => tradingBotService.getUserRiskGuardrails(),
+  });
+
+  useEffect(() => {
+    if (guardrails) {
+      setForm(guardrails);
+    }
+  }, [guardrails]);
+
+  const runningCount = bots?.filter(bot => bot.status === 'running').length ?? 0;
+
+  const { data: pauses = [] } = useQuery({
+    queryKey: ['trading-bots', 'risk-guardrails', 'pauses'],
+    queryFn: () => tradingBotService.getGuardrailPauses(),
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+  const recentPauses = pauses.filter(
+    pause => Date.now() - new Date(pause.paused_at).getTime() < RECENT_PAUSE_MS,
+  );
+
+  const updateField = (key: keyof UserRiskGuardrails, value: string) => {
+    setForm(prev => ({ ...prev, [key]: value ? parseFloat(value) : undefined }));
+  };
+
+  const handleSave = async () => {
+    const validationError = tradingBotService.validateRiskGuardrails(form);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await tradingBotService.updateUserRiskGuardrails(form);
+      queryClient.setQueryData(['trading-bots', 'risk-guardrails'], saved);
+      toast.success('Risk guardrails saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save risk guardrails');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleKillAll = async () => {
+    const message = closePositions
+      ? 'Stop every bot and close all open positions at market price?'
+      : 'Stop every bot? Open positions will be left on the exchange.';
+    if (!window.confirm(message)) {
+      return;
+    }
+
+    setIsKilling(true);
+    try {
+      const result = await tradingBotService.killAllBots(closePositions);
+      const closed = closePositions ? ` and closed ${result.closed_position_count} positions` : '';
+      toast.success(`Stopped ${result.stopped_bot_ids.length} bots${closed}`);
+      if (result.failed_bot_ids && result.failed_bot_ids.length > 0) {
+        toast.error(`${result.failed_bot_ids.length} bots could not be stopped`);
+      }
+      queryClient.invalidateQueries({ queryKey: ['trading-bots'] });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to stop all trading bots');
+    } finally {
+      setIsKilling(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      transition={{ duration: 0.3 }}
+      className={`rounded-xl bg-white p-6 shadow-lg dark:bg-gray-800 ${className}`}
+    >
+      <div className="mb-6 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="rounded-lg bg-gradient-to-br from-red-500 to-rose-600 p-2">
+            <ShieldExclamationIcon className="h-6 w-6 text-white" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Risk Guardrails</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Account-wide limits that pause your bots automatically
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner size="md" />
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-3">
+          <div>
+            <label
+              htmlFor="user_max_daily_loss"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+            >
+              Max Daily Loss (USDT)
+            </label>
+            <input
+              type="number"
+              id="user_max_daily_loss"
+              min="0"
+              step="0.01"
+              value={form.max_daily_loss ?? ''}
+              onChange={e => updateField('max_daily_loss', e.target.value)}
+              placeholder="No limit"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            />
+            <p className="mt-1 text-xs text-gray-500">Realized loss across all live bots today</p>
+          </div>
+          <div>
+            <label
+              htmlFor="user_max_open_exposure"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+            >
+              Max Exposure per Exchange (USDT)
+            </label>
+            <input
+              type="number"
+              id="user_max_open_exposure"
+              min="0"
+              step="0.01"
+              value={form.max_open_exposure_per_exchange ?? ''}
+              onChange={e => updateField('max_open_exposure_per_exchange', e.target.value)}
+              placeholder="No limit"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            />
+            <p className="mt-1 text-xs text-gray-500">Open positions of all bots on one key</p>
+          </div>
+          <div>
+            <label
+              htmlFor="user_max_consecutive_losses"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+            >
+              Max Consecutive Losses
+            </label>
+            <input
+              type="number"
+              id="user_max_consecutive_losses"
+              min="1"
+              step="1"
+              value={form.max_consecutive_losses ?? ''}
+              onChange={e => updateField('max_consecutive_losses', e.target.value)}
+              placeholder="No limit"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+            />
+            <p className="mt-1 text-xs text-gray-500">Default for bots without their own limit</p>
+          </div>
+        </div>
+      )}
+
+      {recentPauses.length > 0 && (
+        <div className="mt-4 rounded-lg border border-red-200 bg-red-50 p-3 dark:border-red-900/40 dark:bg-red-900/20">
+          <p className="flex items-center text-sm font-medium text-red-800 dark:text-red-300">
+            <PauseCircleIcon className="mr-1 h-4 w-4" />
+            Bots paused by guardrails
+          </p>
+          <ul className="mt-1 space-y-0.5 text-xs text-red-700 dark:text-red-400">
+            {recentPauses.map(pause => (
+              <li key={`${pause.bot_id}-${pause.rule}-${pause.paused_at}`}>
+                {pause.bot_name}: {describeBreach(pause)},{' '}
+                {formatDistanceToNow(new Date(pause.paused_at), { addSuffix: true })}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="mt-4 flex items-center justify-between">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Limits are checked on our servers, whether or not this dashboard is open.
+        </p>
+        <Button size="sm" onClick={handleSave} loading={isSaving} disabled={isLoading}>
+          Save Limits
+        </Button>
+      </div>
+
+      {/* Kill switch */}
+      <div className="mt-6 flex flex-col gap-3 rounded-lg border border-red-200 bg-red-50 p-4 dark:border-red-900/40 dark:bg-red-900/20 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <p className="text-sm font-semibold text-red-800 dark:text-red-300">Kill Switch</p>
+          <p className="text-xs text-red-700 dark:text-red-400">
+            Stop every bot immediately ({runningCount} running)
+          </p>
+          <label className="mt-2 flex items-center text-xs text-red-700 dark:text-red-400">
+            <input
+              type="checkbox"
+              checked={closePositions}
+              onChange={e => setClosePositions(e.target.checked)}
+              className="mr-2 h-4 w-4 rounded border-red-300 text-red-600 focus:ring-red-500"
+            />
+            Also close all open positions at market
+          </label>
+        </div>
+        <Button
+          variant="destructive"
+          onClick={handleKillAll}
+          loading={isKilling}
+          disabled={!bots || bots.length === 0}
+        >
+          <StopCircleIcon className="mr-2 h-5 w-5" />
+          Kill All Bots
+        </Button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { AIProvider, AIShadowVariant } from '@/services/tradingBot';
+import { MAX_SHADOW_VARIANTS } from '@/services/aiAnalysis';
+import { AI_PROVIDERS } from '@/services/aiProviders';
+
+interface ShadowVariantsEditorProps {
+  variants: AIShadowVariant[];
+  onChange: (variants: AIShadowVariant[]) => void;
+  error?: string;
+}
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm';
+
+// Alternate models/prompts that analyze alongside an ai_signal bot without trading
+export default function ShadowVariantsEditor({
+  variants,
+  onChange,
+  error,
+}: ShadowVariantsEditorProps) {
+  const updateVariant = (index: number, changes: Partial<AIShadowVariant>) => {
+    onChange(variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  const addVariant = () => {
+    onChange([
+      ...variants,
+      {
+        id: `variant_${Date.now()}`,
+        name: `Variant ${String.fromCharCode(65 + variants.length)}`,
+        ai_provider: 'anthropic',
+        ai_model: '',
+        enabled: true,
+      },
+    ]);
+  };
+
+  return (
+    <div className="bg-cyan-50 border border-cyan-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-medium text-cyan-900">Shadow Variants (A/B)</h3>
+        <button
+          type="button"
+          onClick={addVariant}
+          disabled={variants.length >= MAX_SHADOW_VARIANTS}
+          className="flex items-center text-sm text-primary-600 hover:text-primary-800 disabled:opacity-50"
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          Add Variant
+        </button>
+      </div>
+      <p className="text-xs text-gray-600 mb-4">
+        Each analysis is also run through these models or prompts. Their signals are logged and
+        compared on the analysis page but never trade. Every variant uses fuel like a normal
+        analysis. Up to {MAX_SHADOW_VARIANTS} variants.
+      </p>
+
+      {variants.length > 0 && (
+        <div className="space-y-3">
+          {variants.map((variant, index) => {
+            const provider = AI_PROVIDERS.find(p => p.value === variant.ai_provider);
+            return (
+              <div key={variant.id} className="rounded-md border border-cyan-200 bg-white p-3">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div>
+                    <label
+                      htmlFor={`${variant.id}_name`}
+                      className="block text-sm font-medium text-gray-700"
+                    >
+                      Name
+                    </label>
+                    <input
+                      type="text"
+                      id={`${variant.id}_name`}
+                      value={variant.name}
+                      onChange={e => updateVariant(index, { name: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label
+                      htmlFor={`${variant.id}_provider`}
+                      className="block text-sm font-medium text-gray-700"
+                    >
+                      Provider
+                    </label>
+                    <select
+                      id={`${variant.id}_provider`}
+                      value={variant.ai_provider}
+                      onChange={e =>
+                        updateVariant(index, { ai_provider: e.target.value as AIProvider })
+                      }
+                      className={inputClassName}
+                    >
+                      {AI_PROVIDERS.map(option => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label
+                      htmlFor={`${variant.id}_model`}
+                      className="block text-sm font-medium text-gray-700"
+                    >
+                      Model
+                    </label>
+                    <input
+                      type="text"
+                      id={`${variant.id}_model`}
+                      value={variant.ai_model}
+                      onChange={e => updateVariant(index, { ai_model: e.target.value })}
+                      placeholder={provider?.model_placeholder}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+                <div className="mt-3">
+                  <label
+                    htmlFor={`${variant.id}_prompt`}
+                    className="block text-sm font-medium text-gray-700"
+                  >
+                    Prompt Override
+                  </label>
+                  <textarea
+                    id={`${variant.id}_prompt`}
+                    rows={2}
+                    value={variant.prompt_override ?? ''}
+                    onChange={e =>
+                      updateVariant(index, { prompt_override: e.target.value || undefined })
+                    }
+                    placeholder="Empty = same prompt as the bot"
+                    className={`${inputClassName} font-mono text-xs`}
+                  />
+                </div>
+                <div className="mt-3 flex items-center justify-between">
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={variant.enabled}
+                      onChange={e => updateVariant(index, { enabled: e.target.checked })}
+                      className="mr-2 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    Running
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => onChange(variants.filter((_, i) => i !== index))}
+                    className="text-red-600 hover:text-red-900"
+                    title="Remove Variant"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -1,20 +1,68 @@
 'use client';
 
-import { SupportedStrategy } from '@/services/tradingBot';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import {
+  AIProvider,
+  AIShadowVariant,
+  LocalLLMConfig,
+  SupportedStrategy,
+} from '@/services/tradingBot';
+import ShadowVariantsEditor from './ShadowVariantsEditor';
+import PromptTemplatePicker from './PromptTemplatePicker';
+import AIProviderSettings from './AIProviderSettings';
+
+const INPUT_CLASS_NAME =
+  'mt-1 block w-full rounded-md shadow-sm sm:text-sm border-gray-300 focus:border-primary-500 focus:ring-primary-500';
+const INVALID_INPUT_CLASS_NAME =
+  'mt-1 block w-full rounded-md shadow-sm sm:text-sm border-red-300 text-red-900 focus:border-red-500 focus:ring-red-500';
 
 interface StrategyConfigFormProps {
   strategy: SupportedStrategy;
   config: Record<string, unknown>;
   onChange: (config: Record<string, unknown>) => void;
   symbols?: string[]; // New prop for symbols array
+  // Validation errors keyed by config path, e.g. "grid_size" or "symbols[BTCUSDT].take_profit_percentage"
+  errors?: Record<string, string>;
 }
 
-export default function StrategyConfigForm({
+export default function StrategyConfigForm(props: StrategyConfigFormProps) {
+  const errorCount = Object.keys(props.errors ?? {}).length;
+
+  return (
+    <div className="space-y-4">
+      {errorCount > 0 && (
+        <div className="flex items-start rounded-md border border-red-200 bg-red-50 p-4">
+          <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0 text-red-400" />
+          <div className="ml-3 text-sm text-red-800">
+            {errorCount === 1
+              ? 'One setting needs attention before this bot can be created.'
+              : `${errorCount} settings need attention before this bot can be created.`}
+            <ul className="mt-1 list-inside list-disc text-red-700">
+              {Object.entries(props.errors ?? {}).map(([field, message]) => (
+                <li key={field}>{message}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+      <StrategyConfigFields {...props} />
+    </div>
+  );
+}
+
+function StrategyConfigFields({
   strategy,
   config,
   onChange,
   symbols = [],
+  errors = {},
 }: StrategyConfigFormProps) {
+  const fieldClassName = (key: string) =>
+    errors[key] ? INVALID_INPUT_CLASS_NAME : INPUT_CLASS_NAME;
+
+  const renderFieldError = (key: string) =>
+    errors[key] ? <p className="mt-1 text-xs text-red-600">{errors[key]}</p> : null;
+
   const updateConfig = (key: string, value: unknown) => {
     onChange({
       ...config,
@@ -102,9 +150,10 @@ export default function StrategyConfigForm({
                             parseFloat(e.target.value) || 0,
                           )
                         }
-                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                        className={fieldClassName(`symbols[${symbol}].take_profit_percentage`)}
                         placeholder="5.0"
                       />
+                      {renderFieldError(`symbols[${symbol}].take_profit_percentage`)}
                       <p className="mt-1 text-xs text-gray-500">
                         Target profit percentage for {symbol}
                       </p>
@@ -131,9 +180,10 @@ export default function StrategyConfigForm({
                             parseFloat(e.target.value) || 0,
                           )
                         }
-                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                        className={fieldClassName(`symbols[${symbol}].pull_back_percentage`)}
                         placeholder="3.0"
                       />
+                      {renderFieldError(`symbols[${symbol}].pull_back_percentage`)}
                       <p className="mt-1 text-xs text-gray-500">
                         Maximum allowed pullback for {symbol}
                       </p>
@@ -214,9 +264,10 @@ export default function StrategyConfigForm({
               max="50"
               value={getIntValue('grid_size', 10)}
               onChange={e => updateConfig('grid_size', parseInt(e.target.value) || 0)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+              className={fieldClassName('grid_size')}
               placeholder="10"
             />
+            {renderFieldError('grid_size')}
             <p className="mt-1 text-xs text-gray-500">Number of buy/sell orders to place</p>
           </div>
 
@@ -232,9 +283,10 @@ export default function StrategyConfigForm({
               step="0.1"
               value={getNumberValue('grid_spacing', 1.0)}
               onChange={e => updateConfig('grid_spacing', parseFloat(e.target.value) || 0)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+              className={fieldClassName('grid_spacing')}
               placeholder="1.0"
             />
+            {renderFieldError('grid_spacing')}
             <p className="mt-1 text-xs text-gray-500">Percentage spacing between grid levels</p>
           </div>
         </div>
@@ -254,9 +306,10 @@ export default function StrategyConfigForm({
               step="0.01"
               value={getNumberValue('investment_per_order', 10)}
               onChange={e => updateConfig('investment_per_order', parseFloat(e.target.value) || 0)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+              className={fieldClassName('investment_per_order')}
               placeholder="10"
             />
+            {renderFieldError('investment_per_order')}
             <p className="mt-1 text-xs text-gray-500">Amount to invest per grid order</p>
           </div>
 
@@ -272,9 +325,10 @@ export default function StrategyConfigForm({
               step="0.1"
               value={getNumberValue('profit_per_grid', 0.5)}
               onChange={e => updateConfig('profit_per_grid', parseFloat(e.target.value) || 0)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+              className={fieldClassName('profit_per_grid')}
               placeholder="0.5"
             />
+            {renderFieldError('profit_per_grid')}
             <p className="mt-1 text-xs text-gray-500">Target profit percentage per grid level</p>
           </div>
         </div>
@@ -306,9 +360,10 @@ export default function StrategyConfigForm({
               max="168"
               value={getIntValue('buy_interval_hours', 24)}
               onChange={e => updateConfig('buy_interval_hours', parseInt(e.target.value) || 0)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+              className={fieldClassName('buy_interval_hours')}
               placeholder="24"
             />
+            {renderFieldError('buy_interval_hours')}
             <p className="mt-1 text-xs text-gray-500">Hours between each buy order</p>
           </div>
 
@@ -323,9 +378,10 @@ export default function StrategyConfigForm({
               step="0.01"
               value={getNumberValue('buy_amount', 10)}
               onChange={e => updateConfig('buy_amount', parseFloat(e.target.value) || 0)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+              className={fieldClassName('buy_amount')}
               placeholder="10"
             />
+            {renderFieldError('buy_amount')}
             <p className="mt-1 text-xs text-gray-500">Amount to buy each interval</p>
           </div>
         </div>
@@ -342,9 +398,10 @@ export default function StrategyConfigForm({
               max="100"
               value={getIntValue('max_orders', 10)}
               onChange={e => updateConfig('max_orders', parseInt(e.target.value) || 0)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+              className={fieldClassName('max_orders')}
               placeholder="10"
             />
+            {renderFieldError('max_orders')}
             <p className="mt-1 text-xs text-gray-500">Maximum number of buy orders</p>
           </div>
 
@@ -359,9 +416,10 @@ export default function StrategyConfigForm({
               max="20"
               value={getIntValue('safety_orders', 3)}
               onChange={e => updateConfig('safety_orders', parseInt(e.target.value) || 0)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+              className={fieldClassName('safety_orders')}
               placeholder="3"
             />
+            {renderFieldError('safety_orders')}
             <p className="mt-1 text-xs text-gray-500">Number of safety orders for averaging down</p>
           </div>
         </div>
@@ -384,9 +442,10 @@ export default function StrategyConfigForm({
               onChange={e =>
                 updateConfig('safety_order_volume_scale', parseFloat(e.target.value) || 0)
               }
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+              className={fieldClassName('safety_order_volume_scale')}
               placeholder="2.0"
             />
+            {renderFieldError('safety_order_volume_scale')}
             <p className="mt-1 text-xs text-gray-500">Multiplier for safety order volume</p>
           </div>
 
@@ -407,9 +466,10 @@ export default function StrategyConfigForm({
               onChange={e =>
                 updateConfig('safety_order_step_scale', parseFloat(e.target.value) || 0)
               }
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+              className={fieldClassName('safety_order_step_scale')}
               placeholder="1.5"
             />
+            {renderFieldError('safety_order_step_scale')}
             <p className="mt-1 text-xs text-gray-500">Multiplier for safety order price steps</p>
           </div>
         </div>
@@ -441,9 +501,10 @@ export default function StrategyConfigForm({
               max="100"
               value={getIntValue('lookback_period', 20)}
               onChange={e => updateConfig('lookback_period', parseInt(e.target.value) || 0)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+              className={fieldClassName('lookback_period')}
               placeholder="20"
             />
+            {renderFieldError('lookback_period')}
             <p className="mt-1 text-xs text-gray-500">Period for calculating moving average</p>
           </div>
 
@@ -462,9 +523,10 @@ export default function StrategyConfigForm({
               step="0.1"
               value={getNumberValue('deviation_threshold', 2.0)}
               onChange={e => updateConfig('deviation_threshold', parseFloat(e.target.value) || 0)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+              className={fieldClassName('deviation_threshold')}
               placeholder="2.0"
             />
+            {renderFieldError('deviation_threshold')}
             <p className="mt-1 text-xs text-gray-500">
               Percentage deviation from mean to trigger trades
             </p>
@@ -498,9 +560,10 @@ export default function StrategyConfigForm({
               max="50"
               value={getIntValue('fast_ma_period', 10)}
               onChange={e => updateConfig('fast_ma_period', parseInt(e.target.value) || 0)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+              className={fieldClassName('fast_ma_period')}
               placeholder="10"
             />
+            {renderFieldError('fast_ma_period')}
             <p className="mt-1 text-xs text-gray-500">Period for fast moving average</p>
           </div>
 
@@ -515,9 +578,10 @@ export default function StrategyConfigForm({
               max="200"
               value={getIntValue('slow_ma_period', 30)}
               onChange={e => updateConfig('slow_ma_period', parseInt(e.target.value) || 0)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+              className={fieldClassName('slow_ma_period')}
               placeholder="30"
             />
+            {renderFieldError('slow_ma_period')}
             <p className="mt-1 text-xs text-gray-500">Period for slow moving average</p>
           </div>
         </div>
@@ -560,7 +624,7 @@ export default function StrategyConfigForm({
                 id="main_timeframe"
                 value={getStringValue('main_timeframe', '1h')}
                 onChange={e => updateConfig('main_timeframe', e.target.value)}
-                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                className={fieldClassName('main_timeframe')}
               >
                 <option value="1m">1 Minute</option>
                 <option value="5m">5 Minutes</option>
@@ -570,6 +634,7 @@ export default function StrategyConfigForm({
                 <option value="4h">4 Hours</option>
                 <option value="1d">1 Day</option>
               </select>
+              {renderFieldError('main_timeframe')}
               <p className="mt-1 text-xs text-gray-500">Primary timeframe for analysis</p>
             </div>
 
@@ -581,7 +646,7 @@ export default function StrategyConfigForm({
                 id="higher_timeframe"
                 value={getStringValue('higher_timeframe', '4h')}
                 onChange={e => updateConfig('higher_timeframe', e.target.value)}
-                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                className={fieldClassName('higher_timeframe')}
               >
                 <option value="15m">15 Minutes</option>
                 <option value="30m">30 Minutes</option>
@@ -590,6 +655,7 @@ export default function StrategyConfigForm({
                 <option value="1d">1 Day</option>
                 <option value="1w">1 Week</option>
               </select>
+              {renderFieldError('higher_timeframe')}
               <p className="mt-1 text-xs text-gray-500">Higher timeframe for trend context</p>
             </div>
           </div>
@@ -605,15 +671,28 @@ export default function StrategyConfigForm({
               max="1440"
               value={getIntValue('execution_interval', 60)}
               onChange={e => updateConfig('execution_interval', parseInt(e.target.value) || 60)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+              className={fieldClassName('execution_interval')}
               placeholder="60"
             />
+            {renderFieldError('execution_interval')}
             <p className="mt-1 text-xs text-gray-500">
               How often to perform AI analysis (15-1440 minutes)
             </p>
           </div>
         </div>
 
+        {/* AI Model */}
+        <AIProviderSettings
+          value={{
+            ai_provider: config.ai_provider as AIProvider | undefined,
+            ai_model: config.ai_model as string | undefined,
+            local_llm: config.local_llm as LocalLLMConfig | undefined,
+          }}
+          onChange={selection => onChange({ ...config, ...selection })}
+          executionInterval={getIntValue('execution_interval', 60)}
+          error={errors.local_llm ?? errors['local_llm.base_url']}
+        />
+
         {/* Signal Configuration */}
         <div className="bg-green-50 border border-green-200 rounded-lg p-4">
           <h3 className="text-lg font-medium text-green-900 mb-4">Signal Generation</h3>
@@ -651,6 +730,7 @@ export default function StrategyConfigForm({
             <p className="mt-2 text-xs text-gray-500">
               Control which signal types the AI can generate. At least one must be enabled.
             </p>
+            {renderFieldError('enable_long_signals')}
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -671,9 +751,10 @@ export default function StrategyConfigForm({
                 onChange={e =>
                   updateConfig('min_signal_strength', parseFloat(e.target.value) || 0.7)
                 }
-                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                className={fieldClassName('min_signal_strength')}
                 placeholder="0.7"
               />
+              {renderFieldError('min_signal_strength')}
               <p className="mt-1 text-xs text-gray-500">
                 Only execute trades above this confidence level (0.1-1.0)
               </p>
@@ -693,9 +774,10 @@ export default function StrategyConfigForm({
                 max="10"
                 value={getIntValue('max_positions_count', 3)}
                 onChange={e => updateConfig('max_positions_count', parseInt(e.target.value) || 3)}
-                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                className={fieldClassName('max_positions_count')}
                 placeholder="3"
               />
+              {renderFieldError('max_positions_count')}
               <p className="mt-1 text-xs text-gray-500">Maximum concurrent positions (1-10)</p>
             </div>
           </div>
@@ -711,9 +793,10 @@ export default function StrategyConfigForm({
               max="50"
               value={getIntValue('max_daily_trades', 10)}
               onChange={e => updateConfig('max_daily_trades', parseInt(e.target.value) || 10)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+              className={fieldClassName('max_daily_trades')}
               placeholder="10"
             />
+            {renderFieldError('max_daily_trades')}
             <p className="mt-1 text-xs text-gray-500">Maximum trades per day (1-50)</p>
           </div>
         </div>
@@ -782,9 +865,10 @@ export default function StrategyConfigForm({
                   step="0.1"
                   value={getNumberValue('risk_per_trade', 2.0)}
                   onChange={e => updateConfig('risk_per_trade', parseFloat(e.target.value) || 0)}
-                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                  className={fieldClassName('risk_per_trade')}
                   placeholder="2.0"
                 />
+                {renderFieldError('risk_per_trade')}
                 <p className="mt-1 text-xs text-gray-500">
                   Risk as % of balance per trade. Position size calculated based on stop loss
                   distance.
@@ -811,9 +895,10 @@ export default function StrategyConfigForm({
                   onChange={e =>
                     updateConfig('position_size_percent', parseFloat(e.target.value) || 0)
                   }
-                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                  className={fieldClassName('position_size_percent')}
                   placeholder="10.0"
                 />
+                {renderFieldError('position_size_percent')}
                 <p className="mt-1 text-xs text-gray-500">
                   Fixed % of balance per trade, regardless of stop loss distance.
                 </p>
@@ -880,9 +965,10 @@ export default function StrategyConfigForm({
                   onChange={e =>
                     updateConfig('stop_loss_percent', parseFloat(e.target.value) || 3.0)
                   }
-                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                  className={fieldClassName('stop_loss_percent')}
                   placeholder="3.0"
                 />
+                {renderFieldError('stop_loss_percent')}
                 <p className="mt-1 text-xs text-gray-500">Stop loss percentage from entry price</p>
               </div>
 
@@ -903,9 +989,10 @@ export default function StrategyConfigForm({
                   onChange={e =>
                     updateConfig('take_profit_percent', parseFloat(e.target.value) || 5.0)
                   }
-                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                  className={fieldClassName('take_profit_percent')}
                   placeholder="5.0"
                 />
+                {renderFieldError('take_profit_percent')}
                 <p className="mt-1 text-xs text-gray-500">
                   Take profit percentage from entry price
                 </p>
@@ -972,9 +1059,10 @@ export default function StrategyConfigForm({
                   onChange={e =>
                     updateConfig('trailing_trigger_percent', parseFloat(e.target.value) || 3.0)
                   }
-                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                  className={fieldClassName('trailing_trigger_percent')}
                   placeholder="3.0"
                 />
+                {renderFieldError('trailing_trigger_percent')}
                 <p className="mt-1 text-xs text-gray-500">
                   Percentage gain required to activate trailing stop
                 </p>
@@ -997,9 +1085,10 @@ export default function StrategyConfigForm({
                   onChange={e =>
                     updateConfig('trailing_stop_percent', parseFloat(e.target.value) || 1.5)
                   }
-                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                  className={fieldClassName('trailing_stop_percent')}
                   placeholder="1.5"
                 />
+                {renderFieldError('trailing_stop_percent')}
                 <p className="mt-1 text-xs text-gray-500">Percentage pullback to close position</p>
               </div>
             </div>
@@ -1098,9 +1187,10 @@ export default function StrategyConfigForm({
                     step="0.1"
                     value={getNumberValue('dca_level', 2.0)}
                     onChange={e => updateConfig('dca_level', parseFloat(e.target.value) || 2.0)}
-                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                    className={fieldClassName('dca_level')}
                     placeholder="2.0"
                   />
+                  {renderFieldError('dca_level')}
                   <p className="mt-1 text-xs text-gray-500">
                     Percentage drop to trigger next DCA entry (e.g., 2.0 = 2%)
                   </p>
@@ -1123,9 +1213,10 @@ export default function StrategyConfigForm({
                     onChange={e =>
                       updateConfig('dca_entry_multiplier', parseFloat(e.target.value) || 2.0)
                     }
-                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                    className={fieldClassName('dca_entry_multiplier')}
                     placeholder="2.0"
                   />
+                  {renderFieldError('dca_entry_multiplier')}
                   <p className="mt-1 text-xs text-gray-500">
                     Position size multiplier at each level (e.g., 2.0 = 2x)
                   </p>
@@ -1147,9 +1238,10 @@ export default function StrategyConfigForm({
                     max="10"
                     value={getIntValue('max_dca_levels', 5)}
                     onChange={e => updateConfig('max_dca_levels', parseInt(e.target.value) || 5)}
-                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                    className={fieldClassName('max_dca_levels')}
                     placeholder="5"
                   />
+                  {renderFieldError('max_dca_levels')}
                   <p className="mt-1 text-xs text-gray-500">Maximum number of DCA entries (1-10)</p>
                 </div>
 
@@ -1170,9 +1262,10 @@ export default function StrategyConfigForm({
                     onChange={e =>
                       updateConfig('dca_stop_loss_percent', parseFloat(e.target.value) || 5.0)
                     }
-                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+                    className={fieldClassName('dca_stop_loss_percent')}
                     placeholder="5.0"
                   />
+                  {renderFieldError('dca_stop_loss_percent')}
                   <p className="mt-1 text-xs text-gray-500">
                     Stop loss applied after max DCA levels reached
                   </p>
@@ -1234,6 +1327,23 @@ export default function StrategyConfigForm({
           </div>
         </div>
 
+        {/* Prompt Template */}
+        <PromptTemplatePicker
+          value={{
+            prompt_template_id: config.prompt_template_id as string | undefined,
+            prompt_template_version: config.prompt_template_version as number | undefined,
+          }}
+          onChange={selection => onChange({ ...config, ...selection })}
+          error={errors.prompt_template_id}
+        />
+
+        {/* Shadow Variants */}
+        <ShadowVariantsEditor
+          variants={(config.shadow_variants as AIShadowVariant[] | undefined) ?? []}
+          onChange={variants => updateConfig('shadow_variants', variants)}
+          error={errors.shadow_variants}
+        />
+
         <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
           <div className="text-sm text-blue-800">
             <strong>Strategy Overview:</strong> AI Signal Strategy uses advanced artificial
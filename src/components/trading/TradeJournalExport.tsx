@@ -0,0 +1,164 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { TradingBot, TradingPosition } from '@/services/tradingBot';
+import { tradeJournalService, JournalExportFormat, TaxLotMethod } from '@/services/tradeJournal';
+
+interface TradeJournalExportProps {
+  bot: TradingBot;
+  positions: TradingPosition[];
+}
+
+const FORMAT_OPTIONS: { value: JournalExportFormat; label: string }[] = [
+  { value: 'csv', label: 'Trade journal (CSV)' },
+  { value: 'json', label: 'Trade journal (JSON)' },
+  { value: 'tax_lots', label: 'Tax-lot report (CSV)' },
+];
+
+export default function TradeJournalExport({ bot, positions }: TradeJournalExportProps) {
+  const [format, setFormat] = useState<JournalExportFormat>('csv');
+  const [method, setMethod] = useState<TaxLotMethod>('fifo');
+
+  const closedCount = positions.filter(
+    position => tradeJournalService.getDisposal(position) !== null,
+  ).length;
+
+  const report = useMemo(
+    () => tradeJournalService.buildTaxLots(positions, method),
+    [positions, method],
+  );
+  const unmatchedSymbols = Object.keys(report.unmatched_quantity);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const handleExport = () => {
+    if (closedCount === 0) {
+      toast.error('There are no closed positions to export');
+      return;
+    }
+    tradeJournalService.exportPositions(bot, positions, format, method);
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="md:flex md:items-end md:justify-between">
+          <div>
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Trade Journal</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Export {closedCount} closed or partially closed positions with every DCA fill, fees
+              and hold time
+            </p>
+          </div>
+          <div className="mt-4 flex flex-wrap items-end gap-3 md:mt-0">
+            <div>
+              <label htmlFor="journal_format" className="block text-xs font-medium text-gray-700">
+                Format
+              </label>
+              <select
+                id="journal_format"
+                value={format}
+                onChange={e => setFormat(e.target.value as JournalExportFormat)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+              >
+                {FORMAT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="lot_method" className="block text-xs font-medium text-gray-700">
+                Lot Matching
+              </label>
+              <select
+                id="lot_method"
+                value={method}
+                onChange={e => setMethod(e.target.value as TaxLotMethod)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-primary-500 focus:ring-primary-500 sm:text-sm"
+              >
+                <option value="fifo">FIFO</option>
+                <option value="lifo">LIFO</option>
+              </select>
+            </div>
+            <button
+              type="button"
+              onClick={handleExport}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              <ArrowDownTrayIcon className="mr-2 h-4 w-4" />
+              Export
+            </button>
+          </div>
+        </div>
+
+        {/* Yearly realized gain/loss */}
+        {report.yearly.length > 0 && (
+          <div className="mt-6 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Year', 'Proceeds', 'Cost Basis', 'Short-Term', 'Long-Term', 'Total'].map(
+                    heading => (
+                      <th
+                        key={heading}
+                        className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                      >
+                        {heading}
+                      </th>
+                    ),
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {report.yearly.map(summary => (
+                  <tr key={summary.year}>
+                    <td className="px-4 py-2 font-medium text-gray-900">{summary.year}</td>
+                    <td className="px-4 py-2 text-gray-700">{formatCurrency(summary.proceeds)}</td>
+                    <td className="px-4 py-2 text-gray-700">
+                      {formatCurrency(summary.cost_basis)}
+                    </td>
+                    <td className="px-4 py-2 text-gray-700">
+                      {formatCurrency(summary.short_term_gain)}
+                    </td>
+                    <td className="px-4 py-2 text-gray-700">
+                      {formatCurrency(summary.long_term_gain)}
+                    </td>
+                    <td
+                      className={`px-4 py-2 font-medium ${summary.gain >= 0 ? 'text-green-600' : 'text-red-600'}`}
+                    >
+                      {formatCurrency(summary.gain)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {unmatchedSymbols.length > 0 && (
+          <p className="mt-3 text-xs text-yellow-700">
+            Some exits could not be matched to an entry lot ({unmatchedSymbols.join(', ')}). The
+            position history may be incomplete.
+          </p>
+        )}
+        {(bot.execution_mode === 'paper' || positions.some(position => position.is_simulated)) && (
+          <p className="mt-3 text-xs text-purple-700">
+            Simulated (paper) trades have no tax consequences. They stay in the journal, tagged as
+            simulated, but are left out of the tax lots and yearly totals.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
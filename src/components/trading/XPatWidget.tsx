@@ -5,6 +5,7 @@ import { useQuery } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
 import { toast } from 'react-hot-toast';
 import { tradingBotService, TradingBot } from '@/services/tradingBot';
+import { useBotRealtimeUpdates } from '@/hooks/useBotRealtimeUpdates';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { Button } from '@/components/ui/button';
 
@@ -33,6 +34,9 @@ export default function XPatWidget({
     enabled: !!bot?.id,
   });
 
+  // Push fills and status changes into the positions and bot queries
+  useBotRealtimeUpdates([bot?.id], { notifyFills: true });
+
   const handleStartBot = async () => {
     if (!bot) return;
 
@@ -0,0 +1,291 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  CheckIcon,
+  ExclamationTriangleIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import payoutService, {
+  PAYOUT_CSV_TEMPLATE,
+  PayoutBatchPreview,
+  PayoutCsvError,
+  PayoutRow,
+} from '../../services/payouts';
+import withdrawalService from '../../services/withdrawals';
+import { networkRegistry } from '../../services/networks';
+
+const shortAddress = (address: string) => `${address.slice(0, 10)}…${address.slice(-6)}`;
+
+const BatchPayoutUpload: React.FC = () => {
+  const router = useRouter();
+  const [fileName, setFileName] = useState('');
+  const [batchName, setBatchName] = useState('');
+  const [parseErrors, setParseErrors] = useState<PayoutCsvError[]>([]);
+  const [preview, setPreview] = useState<PayoutBatchPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const runPreview = async (rows: PayoutRow[]) => {
+    // Never leave an earlier file's rows submittable while these are checked
+    setPreview(null);
+    if (rows.length === 0) {
+      return;
+    }
+
+    try {
+      setPreviewing(true);
+      const [allowlist, addressBook] = await Promise.all([
+        withdrawalService.getAllowlistSettings().catch(() => null),
+        withdrawalService.getAddressBook().catch(() => null),
+      ]);
+      setPreview(await payoutService.previewBatch(rows, allowlist, addressBook));
+    } catch (err) {
+      console.error('Batch preview failed:', err);
+      setPreview(null);
+      toast.error(err instanceof Error ? err.message : 'Failed to check batch');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    setPreview(null);
+    setFileName(file.name);
+    setBatchName(prev => prev || file.name.replace(/\.csv$/i, ''));
+    const { rows, errors } = payoutService.parseCsv(await file.text());
+    setParseErrors(errors);
+    await runPreview(rows);
+  };
+
+  const handleRemoveInvalid = () => {
+    if (!preview) return;
+    setParseErrors([]);
+    runPreview(preview.rows.filter(row => row.errors.length === 0));
+  };
+
+  const handleDownloadTemplate = () => {
+    const blob = new Blob([PAYOUT_CSV_TEMPLATE], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'payouts_template.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const invalidRows = preview?.rows.filter(row => row.errors.length > 0).length ?? 0;
+  const canSubmit =
+    !!preview &&
+    preview.rows.length > 0 &&
+    invalidRows === 0 &&
+    parseErrors.length === 0 &&
+    preview.errors.length === 0 &&
+    !!batchName.trim();
+
+  const handleSubmit = async () => {
+    if (!preview || !canSubmit) return;
+    if (
+      !confirm(`Send ${preview.rows.length} withdrawals? Completed withdrawals cannot be reversed.`)
+    ) {
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const batch = await payoutService.createBatch(batchName.trim(), preview.rows);
+      toast.success('Batch submitted');
+      router.push(`/wallet/payouts/${batch.id}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to create batch');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <label className="flex-1 flex items-center justify-center px-4 py-6 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-blue-400 hover:bg-blue-50 transition-colors">
+          <ArrowUpTrayIcon className="h-6 w-6 text-gray-400 mr-2" />
+          <span className="text-sm text-gray-700">
+            {fileName || 'Choose a CSV file with address, amount, currency and network columns'}
+          </span>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={handleDownloadTemplate}
+          className="inline-flex items-center justify-center px-4 py-2 text-sm text-blue-600 hover:text-blue-800"
+        >
+          <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+          Template
+        </button>
+      </div>
+
+      {parseErrors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <h4 className="text-sm font-medium text-red-800 mb-2">Rows that could not be read</h4>
+          <ul className="space-y-1 text-sm text-red-700">
+            {parseErrors.map(error => (
+              <li key={`${error.line}-${error.message}`}>
+                Line {error.line}: {error.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {previewing && (
+        <div className="text-center py-4">
+          <div className="inline-flex items-center space-x-2 text-sm text-gray-600">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+            <span>Checking addresses and fees...</span>
+          </div>
+        </div>
+      )}
+
+      {preview && !previewing && (
+        <>
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Line</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Address</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Network</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Amount</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Fee</th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Check</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 bg-white">
+                {preview.rows.map(row => (
+                  <tr key={row.line} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                    <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                    <td className="px-3 py-2 font-mono text-xs" title={row.recipient_address}>
+                      {shortAddress(row.recipient_address)}
+                    </td>
+                    <td className="px-3 py-2">
+                      {networkRegistry.get(row.network)?.name ?? row.network}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {row.amount} {row.currency}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {row.fee ? `${row.fee.fee_amount} ${row.fee.fee_currency}` : '—'}
+                    </td>
+                    <td className="px-3 py-2">
+                      {row.errors.length > 0 ? (
+                        <div className="flex items-start text-red-600">
+                          <XMarkIcon className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+                          <span>{row.errors.join('; ')}</span>
+                        </div>
+                      ) : (
+                        <div className="flex items-start text-green-600">
+                          <CheckIcon className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+                          <span>OK</span>
+                        </div>
+                      )}
+                      {row.warnings.length > 0 && (
+                        <div className="text-xs text-yellow-600">{row.warnings.join('; ')}</div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {preview.totals.map(total => (
+              <div
+                key={total.currency}
+                className="bg-gray-50 border border-gray-200 rounded-lg p-4"
+              >
+                <h4 className="text-sm font-medium text-gray-900 mb-2">{total.currency}</h4>
+                <div className="space-y-1 text-sm text-gray-600">
+                  <div className="flex justify-between">
+                    <span>Payouts</span>
+                    <span>{total.amount.toFixed(6)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Fees</span>
+                    <span>{total.fees.toFixed(6)}</span>
+                  </div>
+                  <div className="flex justify-between font-medium text-gray-900 border-t border-gray-200 pt-1">
+                    <span>Total Deducted</span>
+                    <span>{(total.amount + total.fees).toFixed(6)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Available</span>
+                    <span>{total.available.toFixed(6)}</span>
+                  </div>
+                  {total.limits && (
+                    <div className="flex justify-between">
+                      <span>Daily limit remaining</span>
+                      <span>{total.limits.remaining_today.toFixed(6)}</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {preview.errors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+              <ExclamationTriangleIcon className="h-5 w-5 text-red-400 mt-0.5 flex-shrink-0" />
+              <ul className="space-y-1 text-sm text-red-700">
+                {preview.errors.map(error => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-3">
+            <input
+              type="text"
+              value={batchName}
+              onChange={e => setBatchName(e.target.value)}
+              placeholder="Batch name"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+            />
+            {invalidRows > 0 && (
+              <button
+                type="button"
+                onClick={handleRemoveInvalid}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-sm"
+              >
+                Remove {invalidRows} invalid row{invalidRows === 1 ? '' : 's'}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleSubmit}
+              disabled={!canSubmit || submitting}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
+            >
+              {submitting ? 'Submitting...' : `Send ${preview.rows.length} Withdrawals`}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchPayoutUpload;
@@ -0,0 +1,356 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  ArrowPathIcon,
+  ArrowsUpDownIcon,
+  ClockIcon,
+  ExclamationTriangleIcon,
+} from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import walletService, {
+  ConversionQuote,
+  ConversionResult,
+  Currency,
+  ExchangeRates,
+  WalletBalance,
+} from '../../services/wallet';
+
+const CURRENCIES: Currency[] = ['USDT', 'POL', 'USD'];
+
+interface ConvertFormProps {
+  onSuccess?: (result: ConversionResult) => void;
+  onCancel?: () => void;
+  initialFrom?: Currency;
+  initialTo?: Currency;
+  className?: string;
+}
+
+// Fill in whichever side is missing. The target wins, since deep links such as
+// /wallet?view=convert&to=POL come from an invoice that must be paid in that currency.
+const initialPair = (from?: Currency, to?: Currency): { from: Currency; to: Currency } => {
+  if (to) {
+    return { from: from && from !== to ? from : to === 'POL' ? 'USDT' : 'POL', to };
+  }
+  if (from) {
+    return { from, to: from === 'USDT' ? 'POL' : 'USDT' };
+  }
+  return { from: 'POL', to: 'USDT' };
+};
+
+const ConvertForm: React.FC<ConvertFormProps> = ({
+  onSuccess,
+  onCancel,
+  initialFrom,
+  initialTo,
+  className = '',
+}) => {
+  const [fromCurrency, setFromCurrency] = useState<Currency>(
+    () => initialPair(initialFrom, initialTo).from,
+  );
+  const [toCurrency, setToCurrency] = useState<Currency>(
+    () => initialPair(initialFrom, initialTo).to,
+  );
+  const [amount, setAmount] = useState(0);
+  const [wallets, setWallets] = useState<WalletBalance[]>([]);
+  const [rates, setRates] = useState<ExchangeRates | null>(null);
+  const [quote, setQuote] = useState<ConversionQuote | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [quoting, setQuoting] = useState(false);
+  const [converting, setConverting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadData = async () => {
+      const [summary, exchangeRates] = await Promise.allSettled([
+        walletService.getWalletSummary(),
+        walletService.getExchangeRates(),
+      ]);
+
+      if (summary.status === 'fulfilled') {
+        setWallets(summary.value.wallets);
+      } else {
+        console.error('Failed to load wallet summary:', summary.reason);
+      }
+
+      // Rates only drive the estimate; the quote is what the user accepts
+      if (exchangeRates.status === 'fulfilled') {
+        setRates(exchangeRates.value);
+      } else {
+        console.warn('Failed to load exchange rates:', exchangeRates.reason);
+      }
+    };
+
+    loadData();
+  }, []);
+
+  // Tick the expiry countdown while a quote is shown
+  useEffect(() => {
+    if (!quote) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [quote]);
+
+  const availableBalance = wallets.find(w => w.currency === fromCurrency)?.available.display ?? 0;
+  const estimate = rates
+    ? walletService.estimateConversion(rates, fromCurrency, toCurrency, amount)
+    : null;
+  const secondsLeft = quote
+    ? Math.max(0, Math.floor((new Date(quote.expires_at).getTime() - now) / 1000))
+    : 0;
+  const quoteExpired = !!quote && secondsLeft === 0;
+
+  const validate = (): string | null => {
+    if (fromCurrency === toCurrency) return 'Choose two different currencies';
+    if (!amount || amount <= 0) return 'Enter an amount to convert';
+    if (amount > availableBalance) return `Insufficient ${fromCurrency} balance`;
+    return null;
+  };
+
+  const clearQuote = () => {
+    setQuote(null);
+    setError(null);
+  };
+
+  const handleFromChange = (currency: Currency) => {
+    if (currency === toCurrency) setToCurrency(fromCurrency);
+    setFromCurrency(currency);
+    clearQuote();
+  };
+
+  const handleToChange = (currency: Currency) => {
+    if (currency === fromCurrency) setFromCurrency(toCurrency);
+    setToCurrency(currency);
+    clearQuote();
+  };
+
+  const handleSwapDirection = () => {
+    setFromCurrency(toCurrency);
+    setToCurrency(fromCurrency);
+    clearQuote();
+  };
+
+  const handleGetQuote = async () => {
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setQuoting(true);
+      setError(null);
+      setQuote(await walletService.getConversionQuote(fromCurrency, toCurrency, amount));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to get conversion quote');
+    } finally {
+      setQuoting(false);
+    }
+  };
+
+  const handleConvert = async () => {
+    if (!quote || quoteExpired) return;
+
+    try {
+      setConverting(true);
+      setError(null);
+      const result = await walletService.executeConversion(quote.id);
+      toast.success(
+        `Converted ${walletService.formatCurrency(quote.from_amount, quote.from_currency)} to ${walletService.formatCurrency(quote.to_amount, quote.to_currency)}`,
+      );
+      onSuccess?.(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to convert');
+      // The quote may have been used or expired server-side; ask for a fresh one
+      setQuote(null);
+    } finally {
+      setConverting(false);
+    }
+  };
+
+  const inputClassName =
+    'block w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 p-6 ${className}`}>
+      <div className="flex items-center space-x-3 mb-6">
+        <div className="w-10 h-10 bg-indigo-100 rounded-full flex items-center justify-center">
+          <ArrowPathIcon className="h-5 w-5 text-indigo-600" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Convert Funds</h2>
+          <p className="text-sm text-gray-600">Swap between your USDT, POL and USD balances</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+          <ExclamationTriangleIcon className="h-5 w-5 text-red-400 mt-0.5 flex-shrink-0" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+          <div className="flex space-x-3">
+            <select
+              value={fromCurrency}
+              onChange={e => handleFromChange(e.target.value as Currency)}
+              className={`${inputClassName} w-28`}
+            >
+              {CURRENCIES.map(currency => (
+                <option key={currency} value={currency}>
+                  {currency}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="0.000001"
+              value={amount || ''}
+              onChange={e => {
+                setAmount(parseFloat(e.target.value) || 0);
+                clearQuote();
+              }}
+              placeholder="0.00"
+              className={`${inputClassName} flex-1`}
+            />
+          </div>
+          <div className="mt-1 flex items-center justify-between text-sm text-gray-500">
+            <span>
+              Available: {availableBalance.toFixed(6)} {fromCurrency}
+            </span>
+            <button
+              type="button"
+              onClick={() => {
+                setAmount(availableBalance);
+                clearQuote();
+              }}
+              className="text-blue-600 hover:text-blue-800"
+            >
+              Max
+            </button>
+          </div>
+        </div>
+
+        <div className="flex justify-center">
+          <button
+            type="button"
+            onClick={handleSwapDirection}
+            className="p-2 rounded-full border border-gray-300 text-gray-500 hover:bg-gray-50"
+            title="Swap direction"
+          >
+            <ArrowsUpDownIcon className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+          <div className="flex space-x-3">
+            <select
+              value={toCurrency}
+              onChange={e => handleToChange(e.target.value as Currency)}
+              className={`${inputClassName} w-28`}
+            >
+              {CURRENCIES.map(currency => (
+                <option key={currency} value={currency}>
+                  {currency}
+                </option>
+              ))}
+            </select>
+            <div className="flex-1 px-3 py-2 border border-gray-200 rounded-lg bg-gray-50 text-gray-700">
+              {quote
+                ? quote.to_amount.toFixed(6)
+                : estimate !== null && amount > 0
+                  ? `≈ ${estimate.toFixed(6)}`
+                  : '0.00'}
+            </div>
+          </div>
+          {!quote && estimate !== null && amount > 0 && (
+            <p className="mt-1 text-xs text-gray-500">
+              Estimate at the market rate. Get a quote for the exact amount.
+            </p>
+          )}
+        </div>
+
+        {quote && (
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Rate</span>
+              <span className="text-gray-900">
+                1 {quote.from_currency} = {quote.rate.toFixed(6)} {quote.to_currency}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Market rate</span>
+              <span className="text-gray-900">
+                1 {quote.from_currency} = {quote.mid_rate.toFixed(6)} {quote.to_currency}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Spread</span>
+              <span className="text-gray-900">{quote.spread_percent.toFixed(2)}%</span>
+            </div>
+            <div className="flex justify-between font-medium border-t border-gray-200 pt-2">
+              <span className="text-gray-900">You receive</span>
+              <span className="text-gray-900">
+                {walletService.formatCurrency(quote.to_amount, quote.to_currency)}
+              </span>
+            </div>
+            <div
+              className={`flex items-center text-xs ${
+                quoteExpired
+                  ? 'text-red-600'
+                  : secondsLeft <= 10
+                    ? 'text-yellow-600'
+                    : 'text-gray-500'
+              }`}
+            >
+              <ClockIcon className="h-4 w-4 mr-1" />
+              {quoteExpired
+                ? 'Quote expired. Refresh to get the current rate.'
+                : `Quote expires in ${secondsLeft}s`}
+            </div>
+          </div>
+        )}
+
+        <div className="flex space-x-3 pt-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+          {quote && !quoteExpired ? (
+            <button
+              type="button"
+              onClick={handleConvert}
+              disabled={converting}
+              className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {converting ? 'Converting...' : 'Confirm Conversion'}
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={handleGetQuote}
+              disabled={quoting}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {quoting ? 'Getting quote...' : quoteExpired ? 'Refresh Quote' : 'Get Quote'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConvertForm;
@@ -12,6 +12,8 @@ import {
   LinkIcon,
 } from '@heroicons/react/24/outline';
 import depositService, { DepositCurrency, NetworkType } from '../../services/deposits';
+import { NetworkConfig } from '../../services/networks';
+import DepositTracker from './DepositTracker';
 
 interface DepositModalProps {
   isOpen: boolean;
@@ -20,13 +22,6 @@ interface DepositModalProps {
   initialNetwork?: NetworkType;
 }
 
-interface NetworkOption {
-  id: number;
-  name: string;
-  type: NetworkType;
-  currencies: DepositCurrency[];
-}
-
 const DepositModal: React.FC<DepositModalProps> = ({
   isOpen,
   onClose,
@@ -40,7 +35,8 @@ const DepositModal: React.FC<DepositModalProps> = ({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
-  const [networks] = useState<NetworkOption[]>(depositService.getSupportedNetworks());
+  const [networks] = useState<NetworkConfig[]>(depositService.getSupportedNetworks());
+  const currencies = [...new Set(networks.flatMap(network => network.currencies))];
 
   const generateDepositAddress = useCallback(async () => {
     try {
@@ -57,7 +53,10 @@ const DepositModal: React.FC<DepositModalProps> = ({
       }
 
       console.info('Using network:', network);
-      const address = await depositService.getOrCreateDepositAddress(selectedCurrency, network.id);
+      const address = await depositService.getOrCreateDepositAddress(
+        selectedCurrency,
+        network.chain_id,
+      );
       console.info('Received deposit address:', address);
 
       if (!address || !address.address) {
@@ -113,8 +112,9 @@ const DepositModal: React.FC<DepositModalProps> = ({
     setSelectedCurrency(currency);
 
     // Find a compatible network for this currency
+    const currentNetwork = networks.find(n => n.type === selectedNetwork);
     const compatibleNetwork = networks.find(n => n.currencies.includes(currency));
-    if (compatibleNetwork && compatibleNetwork.type !== selectedNetwork) {
+    if (compatibleNetwork && !currentNetwork?.currencies.includes(currency)) {
       setSelectedNetwork(compatibleNetwork.type);
     }
   };
@@ -132,7 +132,8 @@ const DepositModal: React.FC<DepositModalProps> = ({
   const getDepositInstructions = () =>
     depositService.getDepositInstructions(selectedCurrency, selectedNetwork);
 
-  const getMinimumDeposit = () => depositService.getMinimumDepositAmount(selectedCurrency);
+  const getMinimumDeposit = () =>
+    depositService.getMinimumDepositAmount(selectedCurrency, selectedNetwork);
 
   const getCurrencyIcon = (currency: DepositCurrency) => {
     const icons = {
@@ -142,12 +143,9 @@ const DepositModal: React.FC<DepositModalProps> = ({
     return icons[currency] || '💰';
   };
 
-  const getNetworkColor = (network: NetworkType) => {
-    const colors = {
-      polygon: 'text-purple-600 bg-purple-50 border-purple-200',
-    };
-    return colors[network] || 'text-gray-600 bg-gray-50 border-gray-200';
-  };
+  const getNetworkColor = (network: NetworkType) =>
+    networks.find(n => n.type === network)?.badge_class ||
+    'text-gray-600 bg-gray-50 border-gray-200';
 
   const handleBackdropClick = (e: React.MouseEvent) => {
     if (e.target === e.currentTarget) {
@@ -180,10 +178,10 @@ const DepositModal: React.FC<DepositModalProps> = ({
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-3">Select Currency</label>
             <div className="grid grid-cols-3 sm:grid-cols-2 gap-3">
-              {['USDT', 'POL'].map(currency => (
+              {currencies.map(currency => (
                 <button
                   key={currency}
-                  onClick={() => handleCurrencyChange(currency as DepositCurrency)}
+                  onClick={() => handleCurrencyChange(currency)}
                   className={`p-3 rounded-lg border-2 transition-all ${
                     selectedCurrency === currency
                       ? 'border-blue-500 bg-blue-50 text-blue-700'
@@ -191,7 +189,7 @@ const DepositModal: React.FC<DepositModalProps> = ({
                   }`}
                 >
                   <div className="flex items-center space-x-2">
-                    <span className="text-lg">{getCurrencyIcon(currency as DepositCurrency)}</span>
+                    <span className="text-lg">{getCurrencyIcon(currency)}</span>
                     <span className="font-medium">{currency}</span>
                   </div>
                 </button>
@@ -215,13 +213,20 @@ const DepositModal: React.FC<DepositModalProps> = ({
                 >
                   <div className="flex items-center justify-between">
                     <div>
-                      <div className="font-medium text-gray-900">{network.name}</div>
-                      <div className="text-sm text-gray-500">Chain ID: {network.id}</div>
+                      <div className="font-medium text-gray-900">
+                        {network.icon} {network.name}
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        Min {network.min_deposit[selectedCurrency]} {selectedCurrency} ·{' '}
+                        {network.confirmations} confirmations · {network.estimated_time}
+                      </div>
                     </div>
                     <span
                       className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getNetworkColor(network.type)}`}
                     >
-                      {network.name}
+                      {network.token_contracts[selectedCurrency]
+                        ? network.token_standard
+                        : 'Native'}
                     </span>
                   </div>
                 </button>
@@ -322,13 +327,16 @@ const DepositModal: React.FC<DepositModalProps> = ({
                       rel="noopener noreferrer"
                       className="inline-flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
                     >
-                      <span>View on {getCurrentNetwork()?.name} Explorer</span>
+                      <span>View on {getCurrentNetwork()?.explorer_name}</span>
                       <LinkIcon className="h-4 w-4" />
                     </a>
                   )}
                 </div>
               </div>
 
+              {/* Deposits sent to this address that are not credited yet */}
+              <DepositTracker network={selectedNetwork} />
+
               {/* Deposit Information */}
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                 <div className="flex items-start space-x-3">
@@ -346,7 +354,10 @@ const DepositModal: React.FC<DepositModalProps> = ({
                         <strong>Minimum Deposit:</strong> {getMinimumDeposit()} {selectedCurrency}
                       </p>
                       <p>
-                        <strong>Processing Time:</strong> 5-30 minutes
+                        <strong>Confirmations:</strong> {getCurrentNetwork()?.confirmations}
+                      </p>
+                      <p>
+                        <strong>Processing Time:</strong> {getCurrentNetwork()?.estimated_time}
                       </p>
                     </div>
                   </div>
@@ -0,0 +1,194 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  CheckCircleIcon,
+  ClockIcon,
+  DocumentDuplicateIcon,
+  ExclamationTriangleIcon,
+  LinkIcon,
+} from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import depositService, {
+  NetworkType,
+  PendingDeposit,
+  PendingDepositStatus,
+} from '../../services/deposits';
+import { networkRegistry } from '../../services/networks';
+import { useDepositTracker } from '../../hooks/useDepositTracker';
+
+interface DepositTrackerProps {
+  network?: NetworkType; // Only show deposits on this network
+  notify?: boolean;
+  onCredited?: (deposit: PendingDeposit) => void;
+  className?: string;
+}
+
+// Credited deposits stay listed briefly so the user sees the final state
+const CREDITED_VISIBLE_MS = 60 * 60 * 1000;
+
+const STATUS_CONFIG: Record<PendingDepositStatus, { label: string; color: string }> = {
+  detected: { label: 'Detected', color: 'text-blue-600 bg-blue-100' },
+  confirming: { label: 'Confirming', color: 'text-orange-600 bg-orange-100' },
+  credited: { label: 'Credited', color: 'text-green-600 bg-green-100' },
+  underpaid: { label: 'Underpaid', color: 'text-red-600 bg-red-100' },
+  wrong_token: { label: 'Wrong token', color: 'text-red-600 bg-red-100' },
+  failed: { label: 'Failed', color: 'text-red-600 bg-red-100' },
+};
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}…${hash.slice(-6)}`;
+
+const isVisible = (deposit: PendingDeposit, now: number) =>
+  deposit.status !== 'credited' ||
+  now - new Date(deposit.credited_at ?? deposit.updated_at).getTime() < CREDITED_VISIBLE_MS;
+
+const DepositTracker: React.FC<DepositTrackerProps> = ({
+  network,
+  notify = false,
+  onCredited,
+  className = '',
+}) => {
+  const { deposits, isConnected } = useDepositTracker({ notify, onCredited });
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keep expected credit times current between updates
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const visible = deposits.filter(
+    deposit => (!network || deposit.network === network) && isVisible(deposit, now),
+  );
+
+  if (visible.length === 0) return null;
+
+  const handleCopySupportDetails = async (deposit: PendingDeposit) => {
+    try {
+      await navigator.clipboard.writeText(depositService.getSupportTicketText(deposit));
+      toast.success('Deposit details copied. Paste them into your support request.');
+    } catch (err) {
+      console.error('Failed to copy deposit details:', err);
+      toast.error('Failed to copy deposit details');
+    }
+  };
+
+  const renderProgress = (deposit: PendingDeposit) => {
+    const expected = depositService.getExpectedCreditTime(deposit, now);
+    const percent =
+      deposit.required_confirmations > 0
+        ? Math.min((deposit.confirmations / deposit.required_confirmations) * 100, 100)
+        : 100;
+
+    return (
+      <div className="mt-3">
+        <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+          <span>
+            {deposit.confirmations}/{deposit.required_confirmations} confirmations
+          </span>
+          {expected && (
+            <span className="flex items-center">
+              <ClockIcon className="h-3.5 w-3.5 mr-1" />
+              Credit expected {formatDistanceToNow(expected, { addSuffix: true })}
+            </span>
+          )}
+        </div>
+        <div className="h-2 w-full rounded-full bg-gray-200">
+          <div
+            className="h-2 rounded-full bg-blue-600 transition-all"
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  const renderIssue = (deposit: PendingDeposit) => (
+    <div className="mt-3 bg-red-50 border border-red-200 rounded-lg p-3">
+      <div className="flex items-start space-x-2">
+        <ExclamationTriangleIcon className="h-5 w-5 text-red-400 flex-shrink-0" />
+        <div className="text-sm text-red-700">
+          <p>
+            {deposit.issue ||
+              'This deposit could not be credited automatically. Contact support to recover it.'}
+          </p>
+          {deposit.support_reference && (
+            <p className="mt-1">
+              Reference: <span className="font-mono">{deposit.support_reference}</span>
+            </p>
+          )}
+          <div className="mt-2 flex flex-wrap gap-3">
+            <button
+              onClick={() => handleCopySupportDetails(deposit)}
+              className="inline-flex items-center text-red-700 hover:text-red-900 font-medium"
+            >
+              <DocumentDuplicateIcon className="h-4 w-4 mr-1" />
+              Copy details for support
+            </button>
+            <Link href="/contact" className="text-red-700 hover:text-red-900 font-medium underline">
+              Contact support
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 p-4 ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-medium text-gray-900">Incoming Deposits</h4>
+        <span className="text-xs text-gray-500">{isConnected ? 'Live' : 'Updating every 15s'}</span>
+      </div>
+
+      <div className="space-y-3">
+        {visible.map(deposit => {
+          const status = STATUS_CONFIG[deposit.status];
+          const networkConfig = networkRegistry.get(deposit.network);
+
+          return (
+            <div key={deposit.id} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="font-medium text-gray-900">
+                    {deposit.amount} {deposit.currency}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {networkConfig?.name ?? deposit.network} · detected{' '}
+                    {formatDistanceToNow(new Date(deposit.detected_at), { addSuffix: true })}
+                  </div>
+                </div>
+                <span
+                  className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${status.color}`}
+                >
+                  {deposit.status === 'credited' && (
+                    <CheckCircleIcon className="h-3.5 w-3.5 mr-1" />
+                  )}
+                  {status.label}
+                </span>
+              </div>
+
+              <a
+                href={depositService.getExplorerUrl(deposit.network, deposit.tx_hash, 'tx')}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-2 inline-flex items-center space-x-1 text-xs font-mono text-blue-600 hover:text-blue-800"
+              >
+                <span>{shortHash(deposit.tx_hash)}</span>
+                <LinkIcon className="h-3.5 w-3.5" />
+              </a>
+
+              {depositService.isDepositIssue(deposit)
+                ? renderIssue(deposit)
+                : deposit.status !== 'credited' && renderProgress(deposit)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DepositTracker;
@@ -0,0 +1,355 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { CalendarIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import payoutService, {
+  PayoutFrequency,
+  PayoutMode,
+  ScheduledPayout,
+  ScheduledPayoutInput,
+} from '../../services/payouts';
+import withdrawalService, { DEFAULT_ALLOWLIST_SETTINGS } from '../../services/withdrawals';
+import { networkRegistry } from '../../services/networks';
+import { Weekday } from '../../services/tradingBot';
+import { WEEKDAY_LABELS } from '../../utils/botSchedule';
+
+const SCHEDULES_QUERY_KEY = ['wallet', 'scheduled-payouts'];
+
+const inputClassName =
+  'block w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+const createEmptyInput = (): ScheduledPayoutInput => ({
+  name: '',
+  currency: 'USDT',
+  network: 'polygon',
+  recipient_address: '',
+  mode: 'sweep_above',
+  amount: 0,
+  frequency: 'weekly',
+  day_of_week: 5,
+  day_of_month: 1,
+  time: '17:00',
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  is_active: true,
+});
+
+const ScheduledPayouts: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<ScheduledPayoutInput>(createEmptyInput);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const { data: schedules = [], isLoading } = useQuery({
+    queryKey: SCHEDULES_QUERY_KEY,
+    queryFn: () => payoutService.getScheduledPayouts(),
+  });
+
+  const update = <K extends keyof ScheduledPayoutInput>(key: K, value: ScheduledPayoutInput[K]) =>
+    setForm(prev => ({ ...prev, [key]: value }));
+
+  const networks = networkRegistry.getNetworksForCurrency(form.currency);
+
+  const handleCreate = async () => {
+    const [allowlist, addressBook] = await Promise.all([
+      withdrawalService.getAllowlistSettings().catch(() => DEFAULT_ALLOWLIST_SETTINGS),
+      withdrawalService.getAddressBook().catch(() => []),
+    ]);
+    const validationError = payoutService.validateScheduledPayout(form, allowlist, addressBook);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await payoutService.createScheduledPayout(form);
+      queryClient.invalidateQueries({ queryKey: SCHEDULES_QUERY_KEY });
+      toast.success('Scheduled payout created');
+      setForm(createEmptyInput());
+      setShowForm(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to create scheduled payout');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (schedule: ScheduledPayout) => {
+    setBusyId(schedule.id);
+    try {
+      await payoutService.updateScheduledPayout(schedule.id, { is_active: !schedule.is_active });
+      queryClient.invalidateQueries({ queryKey: SCHEDULES_QUERY_KEY });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update scheduled payout');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (schedule: ScheduledPayout) => {
+    if (!confirm(`Delete the scheduled payout "${schedule.name}"?`)) return;
+
+    setBusyId(schedule.id);
+    try {
+      await payoutService.deleteScheduledPayout(schedule.id);
+      queryClient.invalidateQueries({ queryKey: SCHEDULES_QUERY_KEY });
+      toast.success('Scheduled payout deleted');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete scheduled payout');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {isLoading ? (
+        <div className="text-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : schedules.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No scheduled payouts. Create one to sweep your balance to an external wallet on a
+          schedule.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {schedules.map(schedule => (
+            <li key={schedule.id} className="p-4 flex items-start justify-between">
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium text-gray-900">{schedule.name}</span>
+                  <span
+                    className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                      schedule.is_active
+                        ? 'text-green-600 bg-green-100'
+                        : 'text-gray-600 bg-gray-100'
+                    }`}
+                  >
+                    {schedule.is_active ? 'Active' : 'Paused'}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600">{payoutService.describeSchedule(schedule)}</p>
+                <p className="text-xs text-gray-500 font-mono truncate">
+                  {networkRegistry.get(schedule.network)?.name} · {schedule.recipient_address}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {schedule.is_active && schedule.next_run_at && (
+                    <>Next run {new Date(schedule.next_run_at).toLocaleString()}. </>
+                  )}
+                  {schedule.last_batch_id && schedule.last_run_at && (
+                    <Link
+                      href={`/wallet/payouts/${schedule.last_batch_id}`}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Last run {new Date(schedule.last_run_at).toLocaleString()}
+                    </Link>
+                  )}
+                </p>
+              </div>
+              <div className="flex items-center space-x-3 ml-4 flex-shrink-0">
+                <button
+                  onClick={() => handleToggle(schedule)}
+                  disabled={busyId === schedule.id}
+                  className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                >
+                  {schedule.is_active ? 'Pause' : 'Resume'}
+                </button>
+                <button
+                  onClick={() => handleDelete(schedule)}
+                  disabled={busyId === schedule.id}
+                  className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                  title="Delete scheduled payout"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showForm ? (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={e => update('name', e.target.value)}
+                placeholder="Weekly sweep to cold wallet"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Payout</label>
+              <select
+                value={form.mode}
+                onChange={e => update('mode', e.target.value as PayoutMode)}
+                className={inputClassName}
+              >
+                <option value="sweep_above">Everything above an amount</option>
+                <option value="fixed">A fixed amount</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+              <select
+                value={form.currency}
+                onChange={e => {
+                  const currency = e.target.value as ScheduledPayoutInput['currency'];
+                  const available = networkRegistry.getNetworksForCurrency(currency);
+                  setForm(prev => ({
+                    ...prev,
+                    currency,
+                    network: available.some(n => n.type === prev.network)
+                      ? prev.network
+                      : (available[0]?.type ?? prev.network),
+                  }));
+                }}
+                className={inputClassName}
+              >
+                {networkRegistry.getCurrencies().map(currency => (
+                  <option key={currency} value={currency}>
+                    {currency}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {form.mode === 'sweep_above' ? 'Keep in wallet' : 'Amount'} ({form.currency})
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.000001"
+                value={form.amount || ''}
+                onChange={e => update('amount', parseFloat(e.target.value) || 0)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Network</label>
+              <select
+                value={form.network}
+                onChange={e => update('network', e.target.value as ScheduledPayoutInput['network'])}
+                className={inputClassName}
+              >
+                {networks.map(network => (
+                  <option key={network.type} value={network.type}>
+                    {network.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Recipient Address
+              </label>
+              <input
+                type="text"
+                value={form.recipient_address}
+                onChange={e => update('recipient_address', e.target.value.trim())}
+                placeholder={networkRegistry.get(form.network)?.address_placeholder}
+                className={`${inputClassName} font-mono`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Repeat</label>
+              <select
+                value={form.frequency}
+                onChange={e => update('frequency', e.target.value as PayoutFrequency)}
+                className={inputClassName}
+              >
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+                <option value="monthly">Monthly</option>
+              </select>
+            </div>
+            {form.frequency === 'weekly' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Day</label>
+                <select
+                  value={form.day_of_week}
+                  onChange={e => update('day_of_week', parseInt(e.target.value, 10) as Weekday)}
+                  className={inputClassName}
+                >
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <option key={label} value={day}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {form.frequency === 'monthly' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Day of month</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="28"
+                  value={form.day_of_month ?? ''}
+                  onChange={e => update('day_of_month', parseInt(e.target.value, 10) || undefined)}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Time ({form.timezone})
+              </label>
+              <input
+                type="time"
+                value={form.time}
+                onChange={e => update('time', e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <p className="text-sm text-gray-600 flex items-center">
+            <CalendarIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+            {payoutService.describeSchedule(form)}. Runs on our servers, each run is listed as a
+            batch.
+          </p>
+
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors text-sm"
+            >
+              {saving ? 'Saving...' : 'Create Schedule'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setShowForm(true)}
+          className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          New Scheduled Payout
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ScheduledPayouts;
@@ -11,6 +11,7 @@ import {
   XCircleIcon,
   ExclamationTriangleIcon,
   ArrowsRightLeftIcon,
+  ArrowPathIcon,
   ShoppingCartIcon,
   BanknotesIcon,
   LinkIcon,
@@ -21,6 +22,7 @@ import walletService, {
   TransactionType,
   TransactionStatus,
 } from '../../services/wallet';
+import { networkRegistry } from '../../services/networks';
 
 interface TransactionListProps {
   userId?: string;
@@ -122,6 +124,22 @@ const getTransactionTypeConfig = (type: TransactionType) => {
       label: 'Commission',
       direction: 'incoming',
     },
+    conversion_out: {
+      icon: ArrowPathIcon,
+      color: 'text-indigo-600',
+      bgColor: 'bg-indigo-50',
+      borderColor: 'border-indigo-200',
+      label: 'Conversion Out',
+      direction: 'outgoing',
+    },
+    conversion_in: {
+      icon: ArrowPathIcon,
+      color: 'text-indigo-600',
+      bgColor: 'bg-indigo-50',
+      borderColor: 'border-indigo-200',
+      label: 'Conversion In',
+      direction: 'incoming',
+    },
   };
 
   return (
@@ -224,6 +242,19 @@ const formatRelativeDate = (dateString: string): string => {
   });
 };
 
+// Source and target of a conversion leg; metadata.exchange_rate is target per source
+const getConversionPair = (transaction: Transaction) => {
+  const counter = transaction.metadata?.counter_amount;
+  if (!counter) return null;
+  if (transaction.type === 'conversion_out') {
+    return { from: transaction.currency, to: counter.currency, counter };
+  }
+  if (transaction.type === 'conversion_in') {
+    return { from: counter.currency, to: transaction.currency, counter };
+  }
+  return null;
+};
+
 const TransactionList: React.FC<TransactionListProps> = ({
   userId,
   limit = 20,
@@ -334,6 +365,7 @@ const TransactionList: React.FC<TransactionListProps> = ({
         const typeConfig = getTransactionTypeConfig(transaction.type as TransactionType);
         const statusConfig = getTransactionStatusConfig(transaction.status as TransactionStatus);
         const amountInfo = formatTransactionAmount(transaction, userId);
+        const conversion = getConversionPair(transaction);
         const isExpanded = expandedTx === transaction.id;
         const IconComponent = typeConfig.icon;
         const StatusIconComponent = statusConfig.icon;
@@ -391,6 +423,16 @@ const TransactionList: React.FC<TransactionListProps> = ({
                     {amountInfo.display}
                   </div>
 
+                  {conversion && (
+                    <div className="text-xs text-gray-500 mt-1">
+                      {transaction.type === 'conversion_out' ? 'to' : 'from'}{' '}
+                      {walletService.formatCurrency(
+                        conversion.counter.amount,
+                        conversion.counter.currency,
+                      )}
+                    </div>
+                  )}
+
                   {transaction.metadata?.fee_amount && (
                     <div className="text-xs text-gray-500 mt-1">
                       Fee:{' '}
@@ -527,7 +569,11 @@ const TransactionList: React.FC<TransactionListProps> = ({
                               <span className="text-gray-500">Tx Hash:</span>
                               <div className="col-span-2 text-right">
                                 <a
-                                  href={`https://polygonscan.com/tx/${transaction.metadata.blockchain_tx_hash}`}
+                                  href={networkRegistry.getExplorerUrl(
+                                    transaction.metadata.network ?? 'polygon',
+                                    transaction.metadata.blockchain_tx_hash,
+                                    'tx',
+                                  )}
                                   target="_blank"
                                   rel="noopener noreferrer"
                                   className="text-blue-600 hover:text-blue-800 inline-flex items-center"
@@ -560,7 +606,9 @@ const TransactionList: React.FC<TransactionListProps> = ({
                             <div className="grid grid-cols-3 gap-2">
                               <span className="text-gray-500">Exchange Rate:</span>
                               <span className="text-right col-span-2">
-                                ${transaction.metadata.exchange_rate.toFixed(4)}
+                                {conversion
+                                  ? `1 ${conversion.from} = ${transaction.metadata.exchange_rate.toFixed(6)} ${conversion.to}`
+                                  : `$${transaction.metadata.exchange_rate.toFixed(4)}`}
                               </span>
                             </div>
                           )}
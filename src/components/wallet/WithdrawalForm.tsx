@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import {
   CurrencyDollarIcon,
   ExclamationTriangleIcon,
@@ -9,6 +10,7 @@ import {
   XMarkIcon,
   ClockIcon,
   BookOpenIcon,
+  ShieldCheckIcon,
 } from '@heroicons/react/24/outline';
 import { DepositCurrency as Currency, NetworkType } from '../../services/deposits';
 import withdrawalService, {
@@ -16,8 +18,11 @@ import withdrawalService, {
   NetworkFee,
   WithdrawalLimits,
   AddressBookEntry,
+  WithdrawalAllowlistSettings,
+  DEFAULT_ALLOWLIST_SETTINGS,
 } from '../../services/withdrawals';
 import walletService from '../../services/wallet';
+import { networkRegistry } from '../../services/networks';
 
 interface WithdrawalFormProps {
   onSuccess?: (transactionId: string) => void;
@@ -44,6 +49,9 @@ const WithdrawalForm: React.FC<WithdrawalFormProps> = ({
   const [networkFee, setNetworkFee] = useState<NetworkFee | null>(null);
   const [limits, setLimits] = useState<WithdrawalLimits | null>(null);
   const [addressBook, setAddressBook] = useState<AddressBookEntry[]>([]);
+  const [allowlist, setAllowlist] = useState<WithdrawalAllowlistSettings>(
+    DEFAULT_ALLOWLIST_SETTINGS,
+  );
 
   const [loading, setLoading] = useState(false);
   const [loadingFee, setLoadingFee] = useState(false);
@@ -57,15 +65,20 @@ const WithdrawalForm: React.FC<WithdrawalFormProps> = ({
   const [showAddressBook, setShowAddressBook] = useState(false);
   const [saveToAddressBook, setSaveToAddressBook] = useState(false);
   const [addressBookName, setAddressBookName] = useState('');
+  const [savingAddress, setSavingAddress] = useState(false);
+  const [addressSavedMessage, setAddressSavedMessage] = useState<string | null>(null);
 
-  const supportedCurrencies: Currency[] = ['USDT', 'POL'];
+  const supportedCurrencies: Currency[] = networkRegistry.getCurrencies();
+  const selectedNetwork = formData.network ? networkRegistry.get(formData.network) : undefined;
   const supportedNetworks = withdrawalService.getSupportedWithdrawalMethods();
 
   const loadInitialData = async () => {
     try {
-      const [balanceData, addressBookData] = await Promise.all([
+      const [balanceData, addressBookData, allowlistData] = await Promise.all([
         walletService.getWalletSummary(),
         withdrawalService.getAddressBook(),
+        // The backend enforces the allowlist either way; this only drives the form hints
+        withdrawalService.getAllowlistSettings().catch(() => DEFAULT_ALLOWLIST_SETTINGS),
       ]);
 
       // Find the wallet for the selected currency
@@ -73,6 +86,7 @@ const WithdrawalForm: React.FC<WithdrawalFormProps> = ({
       setAvailableBalance(wallet ? wallet.available.display : 0);
 
       setAddressBook(addressBookData);
+      setAllowlist(allowlistData);
     } catch (err) {
       console.error('Failed to load initial data:', err);
     }
@@ -131,6 +145,13 @@ const WithdrawalForm: React.FC<WithdrawalFormProps> = ({
   useEffect(() => {
     if (formData.currency) {
       loadWithdrawalLimits();
+
+      // Keep the network valid for the new currency, e.g. POL only exists on Polygon
+      const networks = networkRegistry.getNetworksForCurrency(formData.currency);
+      if (!networks.some(network => network.type === formData.network) && networks[0]) {
+        const fallback = networks[0].type;
+        setFormData(prev => ({ ...prev, network: fallback }));
+      }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [formData.currency]);
@@ -156,8 +177,15 @@ const WithdrawalForm: React.FC<WithdrawalFormProps> = ({
   const validateForm = (): boolean => {
     const errors: Record<string, string> = {};
 
+    const networkMinimum =
+      formData.currency && formData.network
+        ? networkRegistry.getMinimumWithdrawal(formData.currency, formData.network)
+        : 0;
+
     if (!formData.amount || formData.amount <= 0) {
       errors.amount = 'Amount is required and must be positive';
+    } else if (formData.amount < networkMinimum) {
+      errors.amount = `Minimum withdrawal on ${selectedNetwork?.name} is ${networkMinimum} ${formData.currency}`;
     } else if (limits && formData.amount < limits.minimum_amount) {
       errors.amount = `Minimum withdrawal is ${limits.minimum_amount} ${formData.currency}`;
     } else if (limits && formData.amount > limits.maximum_amount) {
@@ -170,8 +198,23 @@ const WithdrawalForm: React.FC<WithdrawalFormProps> = ({
 
     if (!formData.recipient_address) {
       errors.recipient_address = 'Recipient address is required';
+    } else if (
+      formData.network &&
+      !networkRegistry.validateAddress(formData.recipient_address, formData.network)
+    ) {
+      errors.recipient_address = `Not a valid ${selectedNetwork?.name} address`;
     } else if (addressValidation && !addressValidation.is_valid) {
       errors.recipient_address = 'Invalid address format';
+    } else if (formData.network) {
+      const allowlistError = withdrawalService.validateAllowlistedAddress(
+        allowlist,
+        addressBook,
+        formData.recipient_address,
+        formData.network,
+      );
+      if (allowlistError) {
+        errors.recipient_address = allowlistError;
+      }
     }
 
     if (!formData.network) {
@@ -232,6 +275,48 @@ const WithdrawalForm: React.FC<WithdrawalFormProps> = ({
     }
   };
 
+  // Under the allowlist a new address has to be saved and confirmed before it can be used,
+  // so it is saved on its own rather than alongside a withdrawal
+  const handleSaveAddress = async () => {
+    if (!formData.recipient_address || !formData.currency || !formData.network) return;
+    if (!addressBookName.trim()) {
+      setValidationErrors(prev => ({
+        ...prev,
+        addressBookName: 'Please provide a name for the address book entry',
+      }));
+      return;
+    }
+
+    try {
+      setSavingAddress(true);
+      setError(null);
+      const entry = await withdrawalService.addToAddressBook(
+        addressBookName.trim(),
+        formData.recipient_address,
+        formData.currency,
+        formData.network,
+      );
+      setAddressBook(prev => [...prev, entry]);
+      setAddressBookName('');
+      setAddressSavedMessage(
+        `Address saved. Confirm it from the email we sent you; it can be used ${allowlist.cooling_period_hours} hours after that.`,
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add address to book');
+    } finally {
+      setSavingAddress(false);
+    }
+  };
+
+  const getAddressStatusLabel = (entry: AddressBookEntry) => {
+    const status = withdrawalService.getAddressBookStatus(entry);
+    if (status === 'pending_email') return 'Awaiting email confirmation';
+    if (status === 'cooling_down') {
+      return `Unlocks ${new Date(entry.unlocks_at!).toLocaleString()}`;
+    }
+    return null;
+  };
+
   const handleInputChange = (
     field: keyof WithdrawalRequest,
     value: string | number | undefined,
@@ -263,6 +348,15 @@ const WithdrawalForm: React.FC<WithdrawalFormProps> = ({
     return currencyMethods?.networks || [];
   };
 
+  const recipientInAddressBook =
+    !!formData.recipient_address &&
+    !!formData.network &&
+    !!withdrawalService.findAddressBookEntry(
+      addressBook,
+      formData.recipient_address,
+      formData.network,
+    );
+
   const getTotalAmount = () => {
     if (!formData.amount || !networkFee) return 0;
     return formData.amount + networkFee.fee_amount;
@@ -278,13 +372,12 @@ const WithdrawalForm: React.FC<WithdrawalFormProps> = ({
   };
 
   const getNetworkColor = (network: NetworkType) => {
-    const colors = {
+    const colors: Record<NetworkType, string> = {
       polygon: 'text-purple-600',
-      ethereum: 'text-blue-600',
+      ethereum: 'text-indigo-600',
       bsc: 'text-yellow-600',
       arbitrum: 'text-blue-600',
-      optimism: 'text-red-600',
-      avalanche: 'text-red-600',
+      tron: 'text-red-600',
     };
     return colors[network] || 'text-gray-600';
   };
@@ -311,6 +404,27 @@ const WithdrawalForm: React.FC<WithdrawalFormProps> = ({
         </div>
       )}
 
+      {allowlist.enabled && (
+        <div className="mb-6 bg-green-50 border border-green-200 rounded-lg p-4 flex items-start space-x-3">
+          <ShieldCheckIcon className="h-5 w-5 text-green-500 mt-0.5 flex-shrink-0" />
+          <div className="text-sm text-green-700">
+            <h4 className="font-medium text-green-800">Address allowlist is on</h4>
+            <p>
+              Withdrawals only go to confirmed address-book entries. New addresses unlock{' '}
+              {allowlist.cooling_period_hours} hours after email confirmation.{' '}
+              <Link href="/settings?tab=security" className="underline hover:text-green-900">
+                Manage allowlist
+              </Link>
+            </p>
+            {allowlist.disable_scheduled_at && (
+              <p className="mt-1">
+                Turning off on {new Date(allowlist.disable_scheduled_at).toLocaleString()}.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-6">
         {/* Currency Selection */}
         <div>
@@ -433,6 +547,11 @@ const WithdrawalForm: React.FC<WithdrawalFormProps> = ({
                           <div className="text-xs text-gray-500 font-mono">
                             {entry.address.substring(0, 20)}...
                           </div>
+                          {allowlist.enabled && getAddressStatusLabel(entry) && (
+                            <div className="text-xs text-orange-600">
+                              {getAddressStatusLabel(entry)}
+                            </div>
+                          )}
                         </div>
                         <div className="text-xs text-gray-500">{entry.network}</div>
                       </div>
@@ -446,7 +565,11 @@ const WithdrawalForm: React.FC<WithdrawalFormProps> = ({
             type="text"
             value={formData.recipient_address || ''}
             onChange={e => handleInputChange('recipient_address', e.target.value)}
-            placeholder="Enter recipient wallet address"
+            placeholder={
+              selectedNetwork
+                ? `Enter recipient ${selectedNetwork.name} address (${selectedNetwork.address_placeholder})`
+                : 'Enter recipient wallet address'
+            }
             className="block w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
           />
 
@@ -479,7 +602,45 @@ const WithdrawalForm: React.FC<WithdrawalFormProps> = ({
         </div>
 
         {/* Save to Address Book */}
-        {formData.recipient_address && addressValidation?.is_valid && (
+        {formData.recipient_address &&
+          addressValidation?.is_valid &&
+          allowlist.enabled &&
+          !recipientInAddressBook && (
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+              <p className="text-sm text-gray-700">
+                This address is not on your allowlist yet. Save it, confirm it from the email we
+                send, and it can be used {allowlist.cooling_period_hours} hours later.
+              </p>
+              <div className="mt-3 flex space-x-2">
+                <input
+                  type="text"
+                  value={addressBookName}
+                  onChange={e => setAddressBookName(e.target.value)}
+                  placeholder="Enter a name for this address"
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+                />
+                <button
+                  type="button"
+                  onClick={handleSaveAddress}
+                  disabled={savingAddress}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm whitespace-nowrap"
+                >
+                  {savingAddress ? 'Saving...' : 'Save Address'}
+                </button>
+              </div>
+              {validationErrors.addressBookName && (
+                <p className="text-sm text-red-600 mt-1">{validationErrors.addressBookName}</p>
+              )}
+            </div>
+          )}
+
+        {addressSavedMessage && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">
+            {addressSavedMessage}
+          </div>
+        )}
+
+        {formData.recipient_address && addressValidation?.is_valid && !allowlist.enabled && (
           <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
             <label className="flex items-center">
               <input
@@ -0,0 +1,193 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { QueryClient, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { useAuth } from './useAuth';
+import { webSocketService, BotRealtimeEvent, BotStatusEvent } from '@/services/websocket';
+import { TradingBot, TradingPosition } from '@/services/tradingBot';
+
+interface UseBotRealtimeUpdatesOptions {
+  enabled?: boolean;
+  // Show a toast for fills and trailing-stop activations
+  notifyFills?: boolean;
+  // Called for every event of a watched bot, after the react-query cache has been updated
+  onEvent?: (event: BotRealtimeEvent) => void;
+}
+
+interface UseBotRealtimeUpdatesReturn {
+  isConnected: boolean;
+}
+
+const DEFAULT_BOT_QUERY_KEYS = [
+  ['trading-bots', 'default', 'alpha-compounder'],
+  ['trading-bots', 'default', 'xpat-trader'],
+];
+
+const applyBotStatus = (bot: TradingBot, event: BotStatusEvent): TradingBot => ({
+  ...bot,
+  ...event.bot,
+  status: event.status,
+});
+
+const updateBotCaches = (queryClient: QueryClient, event: BotStatusEvent) => {
+  queryClient.setQueryData<TradingBot[]>(['trading-bots', 'user'], bots =>
+    bots?.map(bot => (bot.id === event.bot_id ? applyBotStatus(bot, event) : bot)),
+  );
+
+  DEFAULT_BOT_QUERY_KEYS.forEach(queryKey => {
+    queryClient.setQueryData<TradingBot | null>(queryKey, bot =>
+      bot && bot.id === event.bot_id ? applyBotStatus(bot, event) : bot,
+    );
+  });
+};
+
+const upsertPosition = (
+  positions: TradingPosition[] | undefined,
+  position: TradingPosition,
+): TradingPosition[] | undefined => {
+  if (!positions) return positions;
+
+  // The positions query only holds active positions
+  if (position.status === 'closed') {
+    return positions.filter(existing => existing.id !== position.id);
+  }
+
+  const exists = positions.some(existing => existing.id === position.id);
+  return exists
+    ? positions.map(existing => (existing.id === position.id ? position : existing))
+    : [position, ...positions];
+};
+
+const updatePositionCaches = (queryClient: QueryClient, event: BotRealtimeEvent) => {
+  const queryKey = ['trading-bots', 'positions', event.bot_id];
+
+  switch (event.type) {
+    case 'position_opened':
+    case 'position_dca':
+      queryClient.setQueryData<TradingPosition[]>(queryKey, positions =>
+        upsertPosition(positions, event.position),
+      );
+      break;
+
+    case 'position_closed':
+      queryClient.setQueryData<TradingPosition[]>(queryKey, positions =>
+        upsertPosition(positions, { ...event.position, status: 'closed' }),
+      );
+      // Realized PnL on the bot changes when a position closes
+      queryClient.invalidateQueries({ queryKey: ['trading-bots', 'user'] });
+      DEFAULT_BOT_QUERY_KEYS.forEach(key => queryClient.invalidateQueries({ queryKey: key }));
+      break;
+
+    case 'trailing_stop_activated':
+      queryClient.setQueryData<TradingPosition[]>(queryKey, positions =>
+        positions?.map(position =>
+          position.id === event.position_id
+            ? {
+                ...position,
+                ...event.position,
+                trailing_stop_active: true,
+                trailing_high_price: event.trailing_high_price,
+                trailing_trigger_price: event.trailing_trigger_price,
+              }
+            : position,
+        ),
+      );
+      break;
+
+    default:
+      break;
+  }
+};
+
+const notifyFill = (event: BotRealtimeEvent) => {
+  switch (event.type) {
+    case 'position_opened':
+      toast.success(
+        `Opened ${event.position.side} ${event.position.symbol} at ${event.position.entry_price}`,
+      );
+      break;
+
+    case 'position_closed':
+      toast.success(
+        `Closed ${event.position.symbol} (PnL ${event.position.realized_pnl.toFixed(2)} USDT)`,
+      );
+      break;
+
+    case 'position_dca':
+      toast.success(
+        `DCA level ${event.entry.level} filled on ${event.position.symbol} at ${event.entry.price}`,
+      );
+      break;
+
+    case 'trailing_stop_activated':
+      toast.success(
+        `Trailing stop activated on ${event.symbol} at ${event.trailing_trigger_price}`,
+      );
+      break;
+
+    default:
+      break;
+  }
+};
+
+/**
+ * Subscribes to live events for the given bots over the shared WebSocket connection
+ * and keeps the trading dashboard's react-query caches in sync with them.
+ */
+export function useBotRealtimeUpdates(
+  botIds: Array<string | null | undefined>,
+  options: UseBotRealtimeUpdatesOptions = {},
+): UseBotRealtimeUpdatesReturn {
+  const { enabled = true, notifyFills = false, onEvent } = options;
+  const { user, isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+  const [isConnected, setIsConnected] = useState(webSocketService.getConnectionStatus());
+
+  // Keep the latest callback without resubscribing on every render
+  const onEventRef = useRef(onEvent);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  const watchedIds = botIds.filter((id): id is string => !!id);
+  const watchedKey = [...new Set(watchedIds)].sort().join(',');
+
+  useEffect(() => {
+    if (!enabled || !isAuthenticated || !user) return;
+
+    webSocketService.connect(user.id);
+
+    return webSocketService.onConnectionChange(setIsConnected);
+  }, [enabled, isAuthenticated, user]);
+
+  useEffect(() => {
+    if (!enabled || !watchedKey) return;
+
+    const ids = watchedKey.split(',');
+    ids.forEach(id => webSocketService.subscribeToBot(id));
+
+    const unsubscribeEvents = webSocketService.onBotEvent(event => {
+      if (!ids.includes(event.bot_id)) return;
+
+      if (event.type === 'bot_status') {
+        updateBotCaches(queryClient, event);
+      } else {
+        updatePositionCaches(queryClient, event);
+      }
+
+      if (notifyFills) {
+        notifyFill(event);
+      }
+
+      onEventRef.current?.(event);
+    });
+
+    return () => {
+      unsubscribeEvents();
+      ids.forEach(id => webSocketService.unsubscribeFromBot(id));
+    };
+  }, [enabled, notifyFills, watchedKey, queryClient]);
+
+  return { isConnected };
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import toast from 'react-hot-toast';
+import { useAuth } from './useAuth';
+import { webSocketService } from '@/services/websocket';
+import depositService, { PendingDeposit, PendingDepositStatus } from '@/services/deposits';
+
+interface UseDepositTrackerOptions {
+  enabled?: boolean;
+  // Toast when a deposit is detected, credited or held. Enable in one place per page.
+  notify?: boolean;
+  // Called once per deposit when it is credited, e.g. to reload balances
+  onCredited?: (deposit: PendingDeposit) => void;
+}
+
+interface UseDepositTrackerReturn {
+  deposits: PendingDeposit[];
+  isLoading: boolean;
+  isConnected: boolean;
+}
+
+export const PENDING_DEPOSITS_QUERY_KEY = ['deposits', 'pending'];
+
+// Polling is the fallback when the WebSocket is down, and a slow safety net when it is up
+const POLL_INTERVAL_MS = 15_000;
+const CONNECTED_POLL_INTERVAL_MS = 2 * 60_000;
+
+const upsertDeposit = (
+  deposits: PendingDeposit[] | undefined,
+  deposit: PendingDeposit,
+): PendingDeposit[] => {
+  const existing = deposits ?? [];
+  return existing.some(item => item.id === deposit.id)
+    ? existing.map(item => (item.id === deposit.id ? deposit : item))
+    : [deposit, ...existing];
+};
+
+const notifyTransition = (deposit: PendingDeposit, previous: PendingDepositStatus | undefined) => {
+  const label = `${deposit.amount} ${deposit.currency}`;
+
+  if (deposit.status === 'credited') {
+    toast.success(`Deposit of ${label} credited to your wallet`);
+  } else if (depositService.isDepositIssue(deposit)) {
+    toast.error(`Deposit of ${label} needs attention: ${deposit.issue || deposit.status}`, {
+      duration: 10000,
+    });
+  } else if (previous === undefined) {
+    toast(`Deposit of ${label} detected, waiting for confirmations`, { icon: '⏳' });
+  }
+};
+
+/**
+ * Tracks on-chain deposits from detection to credit. Updates arrive over the shared WebSocket
+ * connection, with polling while it is disconnected.
+ */
+export function useDepositTracker(options: UseDepositTrackerOptions = {}): UseDepositTrackerReturn {
+  const { enabled = true, notify = false, onCredited } = options;
+  const { user, isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+  const [isConnected, setIsConnected] = useState(webSocketService.getConnectionStatus());
+
+  // Keep the latest callback without resubscribing on every render
+  const onCreditedRef = useRef(onCredited);
+  useEffect(() => {
+    onCreditedRef.current = onCredited;
+  }, [onCredited]);
+
+  const { data: deposits = [], isLoading } = useQuery({
+    queryKey: PENDING_DEPOSITS_QUERY_KEY,
+    queryFn: () => depositService.getPendingDeposits(),
+    enabled: enabled && isAuthenticated,
+    refetchInterval: isConnected ? CONNECTED_POLL_INTERVAL_MS : POLL_INTERVAL_MS,
+  });
+
+  useEffect(() => {
+    if (!enabled || !isAuthenticated || !user) return;
+
+    webSocketService.connect(user.id);
+
+    return webSocketService.onConnectionChange(setIsConnected);
+  }, [enabled, isAuthenticated, user]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    return webSocketService.onDepositUpdate(event => {
+      queryClient.setQueryData<PendingDeposit[]>(PENDING_DEPOSITS_QUERY_KEY, deposits =>
+        upsertDeposit(deposits, event.deposit),
+      );
+    });
+  }, [enabled, queryClient]);
+
+  // React to status changes, whichever channel delivered them. The first load only records
+  // statuses so deposits credited before the page opened are not announced again.
+  const seenStatuses = useRef<Map<string, PendingDepositStatus> | null>(null);
+  useEffect(() => {
+    if (isLoading) return;
+
+    const previous = seenStatuses.current;
+    seenStatuses.current = new Map(deposits.map(deposit => [deposit.id, deposit.status]));
+    if (!previous) return;
+
+    deposits.forEach(deposit => {
+      const before = previous.get(deposit.id);
+      if (before === deposit.status) return;
+
+      if (notify) {
+        notifyTransition(deposit, before);
+      }
+      if (deposit.status === 'credited') {
+        queryClient.invalidateQueries({ queryKey: ['wallet'] });
+        onCreditedRef.current?.(deposit);
+      }
+    });
+  }, [deposits, isLoading, notify, queryClient]);
+
+  return { deposits, isLoading, isConnected };
+}
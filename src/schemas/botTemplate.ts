@@ -0,0 +1,214 @@
+import { z } from 'zod';
+import { MAX_SHADOW_VARIANTS } from '@/services/aiAnalysis';
+
+// Shareable bot templates: a bot's CreateBotInput without exchange credentials
+
+export const BOT_TEMPLATE_KIND = 'uptown.bot-template';
+export const BOT_TEMPLATE_SCHEMA_VERSION = 1;
+
+export const strategyTypes = [
+  'alpha_compounder',
+  'grid_trading',
+  'dca',
+  'mean_reversion',
+  'trend_following',
+  'arbitrage',
+  'scalping',
+  'ai_signal',
+  'custom',
+] as const;
+
+const positiveNumber = (label: string) =>
+  z
+    .number({ invalid_type_error: `${label} must be a number` })
+    .positive(`${label} must be greater than 0`);
+
+const percent = (label: string, max: number) =>
+  z
+    .number({ invalid_type_error: `${label} must be a number` })
+    .min(0, `${label} cannot be negative`)
+    .max(max, `${label} cannot exceed ${max}%`);
+
+// Strategy config rules that mirror the checks in CreateBotModal
+const refineStrategyConfig = (
+  strategy: { type: (typeof strategyTypes)[number]; config: Record<string, unknown> },
+  ctx: z.RefinementCtx,
+) => {
+  const { type, config } = strategy;
+  const path = (...segments: string[]) => ['strategy', 'config', ...segments];
+
+  if (type === 'alpha_compounder') {
+    const symbols = config.symbols;
+    if (!Array.isArray(symbols) || symbols.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: path('symbols'),
+        message: 'At least one symbol must be configured',
+      });
+      return;
+    }
+
+    symbols.forEach((item: unknown, index) => {
+      const symbolConfig = (item ?? {}) as Record<string, unknown>;
+      const key =
+        typeof symbolConfig.symbol === 'string'
+          ? `symbols[${symbolConfig.symbol}]`
+          : `symbols[${index}]`;
+      const takeProfit = Number(symbolConfig.take_profit_percentage);
+      const pullBack = Number(symbolConfig.pull_back_percentage);
+
+      if (!(takeProfit > 0) || takeProfit > 100) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: path(key, 'take_profit_percentage'),
+          message: 'Take profit percentage must be between 0 and 100',
+        });
+      }
+      if (!(pullBack > 0) || pullBack > 50) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: path(key, 'pull_back_percentage'),
+          message: 'Pull back percentage must be between 0 and 50',
+        });
+      } else if (takeProfit > 0 && takeProfit <= pullBack) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: path(key, 'pull_back_percentage'),
+          message: 'Pull back percentage must be less than take profit percentage',
+        });
+      }
+    });
+  }
+
+  if (type === 'ai_signal') {
+    if (config.enable_long_signals === false && config.enable_short_signals === false) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: path('enable_long_signals'),
+        message: 'At least one signal type (long or short) must be enabled',
+      });
+    }
+
+    if (config.enable_trailing_stop) {
+      const trailingTrigger = Number(config.trailing_trigger_percent) || 0;
+      const trailingStop = Number(config.trailing_stop_percent) || 0;
+
+      if (trailingTrigger <= 0 || trailingTrigger > 50) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: path('trailing_trigger_percent'),
+          message: 'Trailing trigger percentage must be between 0 and 50',
+        });
+      }
+      if (trailingStop <= 0 || trailingStop > 20) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: path('trailing_stop_percent'),
+          message: 'Trailing stop percentage must be between 0 and 20',
+        });
+      } else if (trailingStop >= trailingTrigger) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: path('trailing_stop_percent'),
+          message: 'Trailing stop percentage must be less than trailing trigger percentage',
+        });
+      }
+    }
+
+    const shadowVariants = config.shadow_variants;
+    if (shadowVariants !== undefined) {
+      const variants = Array.isArray(shadowVariants) ? shadowVariants : [];
+      const isValid =
+        Array.isArray(shadowVariants) &&
+        variants.length <= MAX_SHADOW_VARIANTS &&
+        variants.every((item: unknown) => {
+          const variant = (item ?? {}) as Record<string, unknown>;
+          return (
+            typeof variant.name === 'string' &&
+            variant.name.trim() !== '' &&
+            typeof variant.ai_model === 'string' &&
+            variant.ai_model.trim() !== ''
+          );
+        });
+      if (!isValid) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: path('shadow_variants'),
+          message: `Up to ${MAX_SHADOW_VARIANTS} shadow variants, each with a name and model`,
+        });
+      }
+    }
+  }
+};
+
+export const botStrategySchema = z.object({
+  type: z.enum(strategyTypes, {
+    errorMap: () => ({ message: 'Unknown strategy type' }),
+  }),
+  config: z.record(z.unknown()).default({}),
+});
+
+export const paperTradingSettingsSchema = z.object({
+  virtual_balance: positiveNumber('Virtual balance'),
+  fee_percent: percent('Simulated fee', 1),
+  slippage_percent: percent('Simulated slippage', 5),
+});
+
+// Bot-level fields. Strategy config rules are added by botTemplateConfigSchema so that a template
+// with a bad strategy setting can still be loaded into the form and fixed there.
+export const botTemplateConfigShape = z.object({
+  name: z.string().trim().min(1, 'Bot name is required').max(100, 'Bot name is too long'),
+  description: z.string().max(500, 'Description is too long').optional(),
+  symbols: z
+    .array(z.string().min(1), { invalid_type_error: 'Symbols must be a list' })
+    .min(1, 'At least one trading symbol is required'),
+  strategy: botStrategySchema,
+  trading_mode: z.enum(['spot', 'futures'], {
+    errorMap: () => ({ message: 'Trading mode must be spot or futures' }),
+  }),
+  starting_balance: positiveNumber('Starting balance'),
+  max_active_positions: z
+    .number({ invalid_type_error: 'Max active positions must be a number' })
+    .int('Max active positions must be a whole number')
+    .positive('Max active positions must be greater than 0'),
+  leverage: z
+    .number()
+    .min(1, 'Leverage must be between 1 and 100')
+    .max(100, 'Leverage must be between 1 and 100')
+    .optional(),
+  position_size_percent: percent('Position size percentage', 100).optional(),
+  max_position_size: z.number().min(0, 'Maximum position size cannot be negative').optional(),
+  use_auto_leverage: z.boolean().optional(),
+  risk_per_trade: percent('Risk per trade', 100).optional(),
+  take_profit_percentage: z.number().optional(),
+  pull_back_percentage: z.number().optional(),
+  max_drawdown_percentage: z.number().optional(),
+  execution_mode: z.enum(['live', 'paper']).optional(),
+  paper_settings: paperTradingSettingsSchema.optional(),
+});
+
+export const botTemplateConfigSchema = botTemplateConfigShape.superRefine((config, ctx) =>
+  refineStrategyConfig(config.strategy, ctx),
+);
+
+export const botTemplateSchema = z.object({
+  kind: z.literal(BOT_TEMPLATE_KIND, {
+    errorMap: () => ({ message: 'This file is not a bot template' }),
+  }),
+  schema_version: z
+    .number({ invalid_type_error: 'Template schema version is missing' })
+    .int()
+    .min(1, 'Unsupported template schema version')
+    .max(
+      BOT_TEMPLATE_SCHEMA_VERSION,
+      'This template was exported by a newer version of the app and cannot be imported',
+    ),
+  name: z.string().trim().min(1, 'Template name is required'),
+  description: z.string().optional(),
+  exported_at: z.string().optional(),
+  config: botTemplateConfigShape,
+});
+
+// Type exports
+export type BotTemplateConfig = z.infer<typeof botTemplateConfigSchema>;
+export type BotTemplate = z.infer<typeof botTemplateSchema>;
@@ -1,5 +1,6 @@
 import api from './api';
 import { isAxiosError } from 'axios';
+import { AIShadowVariant } from './tradingBot';
 
 // AI Analysis Log types based on backend entities
 export interface AIAnalysisLog {
@@ -19,6 +20,9 @@ export interface AIAnalysisLog {
   ai_model: string;
   ai_prompt: string;
   ai_response: string;
+  prompt_template_id?: string; // Template the prompt was rendered from, if any
+  prompt_template_version?: number;
+  prompt_template_name?: string;
 
   // Trading Decision
   signal_action?: 'buy' | 'sell' | 'hold';
@@ -45,6 +49,12 @@ export interface AIAnalysisLog {
   processing_time_ms: number;
   error_message?: string;
 
+  // Shadow evaluation: a variant run of a live analysis that never trades
+  is_shadow?: boolean;
+  primary_log_id?: string; // The live analysis this run mirrors
+  variant_id?: string;
+  variant_name?: string;
+
   // Metadata
   created_at: string;
   updated_at: string;
@@ -80,6 +90,7 @@ export interface AIAnalysisFilter {
   sort_by?: string;
   sort_order?: 'asc' | 'desc';
   summary?: boolean;
+  include_shadow?: boolean; // Also return shadow variant runs
 }
 
 export interface AnalysisLogsResponse {
@@ -159,6 +170,9 @@ export interface AnalysisBySymbolResponse {
   data: AIAnalysisLog[];
 }
 
+// Every shadow variant costs an extra AI call per analysis
+export const MAX_SHADOW_VARIANTS = 3;
+
 class AIAnalysisService {
   /**
    * Get AI analysis logs with filtering and pagination
@@ -175,6 +189,7 @@ class AIAnalysisService {
       if (filter.symbol) params.append('symbol', filter.symbol);
       if (filter.limit) params.append('limit', filter.limit.toString());
       if (filter.offset) params.append('offset', filter.offset.toString());
+      if (filter.include_shadow) params.append('include_shadow', 'true');
 
       // Use the correct backend endpoint
       const response = await api.get<AnalysisLogsResponse>(
@@ -221,6 +236,51 @@ class AIAnalysisService {
     }
   }
 
+  /**
+   * Get the shadow variant runs linked to a live analysis log
+   */
+  async getShadowLogs(primaryLogId: string): Promise<AIAnalysisLog[]> {
+    try {
+      const response = await api.get<{ shadow_logs: AIAnalysisLog[] }>(
+        `/analysis/${primaryLogId}/shadows`,
+      );
+      return response.data?.shadow_logs || [];
+    } catch (error) {
+      if (isAxiosError(error)) {
+        // Bot has no shadow variants
+        if (error.response?.status === 404) {
+          return [];
+        }
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Validate shadow variants before they are saved with an ai_signal config.
+   * Returns an error message, or null when the variants are valid.
+   */
+  validateShadowVariants(variants: AIShadowVariant[] = []): string | null {
+    if (variants.length > MAX_SHADOW_VARIANTS) {
+      return `At most ${MAX_SHADOW_VARIANTS} shadow variants can be compared`;
+    }
+    for (const [index, variant] of variants.entries()) {
+      const label = variant.name.trim() || `Shadow variant ${index + 1}`;
+      if (!variant.name.trim()) {
+        return `${label} needs a name`;
+      }
+      if (!variant.ai_model.trim()) {
+        return `${label} needs a model`;
+      }
+    }
+    const names = variants.map(variant => variant.name.trim().toLowerCase());
+    if (new Set(names).size !== names.length) {
+      return 'Shadow variant names must be unique';
+    }
+    return null;
+  }
+
   /**
    * Get bot analysis statistics
    */
@@ -0,0 +1,215 @@
+import api from './api';
+import { isAxiosError } from 'axios';
+import { AIProvider, LocalLLMConfig } from './tradingBot';
+
+// API response wrapper
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: {
+    code: string;
+    message: string;
+    details?: string;
+  };
+  message?: string;
+}
+
+export interface AIProviderInfo {
+  value: AIProvider;
+  label: string;
+  description: string;
+  model_placeholder: string;
+  external_api_cost: boolean; // False when inference runs on the user's own hardware
+}
+
+export interface AIProviderCapabilities {
+  supports_vision: boolean; // Whether chart images from ChartConfig can be sent
+  external_api_cost: boolean;
+}
+
+// Fuel charged per analysis. The API share passes through the vendor's cost.
+export interface AIProviderPricing {
+  provider: AIProvider;
+  platform_fuel_per_analysis: number;
+  api_fuel_per_analysis: number;
+  api_fuel_per_chart_image: number;
+}
+
+export interface FuelEstimate {
+  per_analysis: number;
+  per_day: number; // Per symbol, at the configured analysis interval
+  api_share: number; // Part of per_analysis that covers external API cost
+}
+
+export interface LocalLLMTestInput extends LocalLLMConfig {
+  model: string;
+}
+
+export interface LocalLLMTestResult {
+  success: boolean;
+  message: string;
+  latency_ms?: number;
+  models?: string[]; // Models listed by the server's /models endpoint
+  supports_vision?: boolean;
+}
+
+export const AI_PROVIDERS: AIProviderInfo[] = [
+  {
+    value: 'openai',
+    label: 'OpenAI',
+    description: 'Hosted GPT models',
+    model_placeholder: 'gpt-4o',
+    external_api_cost: true,
+  },
+  {
+    value: 'anthropic',
+    label: 'Anthropic',
+    description: 'Hosted Claude models',
+    model_placeholder: 'claude-3-5-sonnet',
+    external_api_cost: true,
+  },
+  {
+    value: 'local',
+    label: 'Local / Self-hosted',
+    description: 'Your own OpenAI-compatible server (llama.cpp, Ollama, vLLM)',
+    model_placeholder: 'llama3.1:8b',
+    external_api_cost: false,
+  },
+];
+
+// Main and higher timeframe charts
+export const CHART_IMAGES_PER_ANALYSIS = 2;
+
+// Hosted models that accept image input
+const HOSTED_VISION_MODELS: Record<Exclude<AIProvider, 'local'>, RegExp> = {
+  openai: /^(gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5|o1|o3|o4)/i,
+  anthropic: /^claude-(3|sonnet|opus|haiku)/i,
+};
+
+class AIProviderService {
+  /**
+   * Check an OpenAI-compatible server from the bot runners, which is where analyses will call it
+   */
+  async testLocalConnection(input: LocalLLMTestInput): Promise<LocalLLMTestResult> {
+    const validationError = this.validateLocalConfig(input, input.model);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    try {
+      const response = await api.post<ApiResponse<LocalLLMTestResult>>(
+        '/ai/providers/local/test',
+        input,
+      );
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      const errorObj = response.data.error;
+      const errorMessage =
+        errorObj?.details || errorObj?.message || 'Failed to test local model connection';
+      throw new Error(errorMessage);
+    } catch (error) {
+      if (isAxiosError(error)) {
+        const errorObj = error.response?.data?.error;
+        const errorMessage = errorObj?.details || errorObj?.message || error.message;
+        throw new Error(errorMessage);
+      }
+      throw error;
+    }
+  }
+
+  async getPricing(): Promise<AIProviderPricing[]> {
+    try {
+      const response = await api.get<ApiResponse<AIProviderPricing[]>>('/ai/providers/pricing');
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      return [];
+    } catch (error) {
+      if (isAxiosError(error)) {
+        // Pricing not published yet
+        if (error.response?.status === 404) {
+          return [];
+        }
+        const errorObj = error.response?.data?.error;
+        const errorMessage = errorObj?.details || errorObj?.message || error.message;
+        throw new Error(errorMessage);
+      }
+      throw error;
+    }
+  }
+
+  getCapabilities(
+    provider: AIProvider,
+    model: string,
+    localConfig?: LocalLLMConfig,
+  ): AIProviderCapabilities {
+    if (provider === 'local') {
+      return { supports_vision: localConfig?.supports_vision === true, external_api_cost: false };
+    }
+    return {
+      supports_vision: HOSTED_VISION_MODELS[provider].test(model.trim()),
+      external_api_cost: true,
+    };
+  }
+
+  /**
+   * Fuel for one analysis. Local models carry no external API cost, only the platform fee.
+   */
+  estimateFuel(
+    pricing: AIProviderPricing,
+    capabilities: AIProviderCapabilities,
+    executionIntervalMinutes: number,
+  ): FuelEstimate {
+    const apiShare = capabilities.external_api_cost
+      ? pricing.api_fuel_per_analysis +
+        (capabilities.supports_vision
+          ? pricing.api_fuel_per_chart_image * CHART_IMAGES_PER_ANALYSIS
+          : 0)
+      : 0;
+    const perAnalysis = pricing.platform_fuel_per_analysis + apiShare;
+    const analysesPerDay = executionIntervalMinutes > 0 ? 1440 / executionIntervalMinutes : 0;
+
+    return {
+      per_analysis: perAnalysis,
+      per_day: perAnalysis * analysesPerDay,
+      api_share: apiShare,
+    };
+  }
+
+  validateLocalConfig(config: LocalLLMConfig | undefined, model: string): string | null {
+    if (!config?.base_url.trim()) {
+      return 'Local model server URL is required';
+    }
+    let url: URL;
+    try {
+      url = new URL(config.base_url.trim());
+    } catch {
+      return 'Local model server URL is not a valid URL';
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return 'Local model server URL must start with http:// or https://';
+    }
+    if (!model.trim()) {
+      return 'Model name is required for a local model server';
+    }
+    return null;
+  }
+
+  /**
+   * Validate the AI provider part of an ai_signal config before it is saved.
+   * Returns an error message, or null when the config is valid.
+   */
+  validateProviderConfig(config: {
+    ai_provider?: AIProvider;
+    ai_model?: string;
+    local_llm?: LocalLLMConfig;
+  }): string | null {
+    if (config.ai_provider === 'local') {
+      return this.validateLocalConfig(config.local_llm, config.ai_model ?? '');
+    }
+    return null;
+  }
+}
+
+export const aiProviderService = new AIProviderService();
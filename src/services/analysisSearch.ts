@@ -0,0 +1,311 @@
+import api from './api';
+import { isAxiosError } from 'axios';
+import { AIAnalysisLog, aiAnalysisService } from './aiAnalysis';
+import { TradingPosition } from './tradingBot';
+
+// Full-text search over a bot's AI analysis logs, with facet counts and saved searches
+
+export type SignalAction = 'buy' | 'sell' | 'hold';
+export type StrengthBand = 'weak' | 'moderate' | 'strong';
+export type SearchableField = 'reason_analysis' | 'risk_assessment' | 'ai_response';
+
+export interface AnalysisSearchCriteria {
+  text?: string; // Matched against reason, risk assessment and raw AI response
+  symbols?: string[];
+  actions?: SignalAction[];
+  strength_bands?: StrengthBand[];
+  models?: string[]; // "provider/model"
+  executed?: boolean;
+  errored?: boolean;
+  start_date?: string; // YYYY-MM-DD format
+  end_date?: string; // YYYY-MM-DD format
+}
+
+export interface AnalysisSearchQuery extends AnalysisSearchCriteria {
+  bot_id: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Counts are computed over all matches of the text query, before facet selections narrow them
+export interface AnalysisSearchFacets {
+  symbol: FacetCount[];
+  action: FacetCount[];
+  strength_band: FacetCount[];
+  model: FacetCount[];
+  executed: FacetCount[]; // "true" / "false"
+  errored: FacetCount[]; // "true" / "false"
+}
+
+export interface AnalysisSearchResponse {
+  results: AIAnalysisLog[];
+  facets: AnalysisSearchFacets;
+  total: number;
+  limit: number;
+  offset: number;
+  has_more: boolean;
+}
+
+export interface SavedAnalysisSearch {
+  id: string;
+  bot_id: string;
+  name: string;
+  criteria: AnalysisSearchCriteria;
+  created_at: string;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchSnippet {
+  field: SearchableField;
+  segments: HighlightSegment[];
+}
+
+export const SEARCHABLE_FIELDS: { field: SearchableField; label: string }[] = [
+  { field: 'reason_analysis', label: 'Reason' },
+  { field: 'risk_assessment', label: 'Risk' },
+  { field: 'ai_response', label: 'AI Response' },
+];
+
+// Same thresholds as the weak/strong signal counts in SignalPerformanceStats
+export const STRENGTH_BANDS: { value: StrengthBand; label: string; min: number; max: number }[] = [
+  { value: 'weak', label: 'Weak (< 50%)', min: 0, max: 0.5 },
+  { value: 'moderate', label: 'Moderate (50–80%)', min: 0.5, max: 0.8 },
+  { value: 'strong', label: 'Strong (≥ 80%)', min: 0.8, max: Infinity },
+];
+
+export const EMPTY_FACETS: AnalysisSearchFacets = {
+  symbol: [],
+  action: [],
+  strength_band: [],
+  model: [],
+  executed: [],
+  errored: [],
+};
+
+const SNIPPET_CONTEXT = 80;
+// How far from a position's entry an executed analysis may be and still count as its trigger
+const TRIGGER_WINDOW_MS = 15 * 60 * 1000;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+class AnalysisSearchService {
+  async search(query: AnalysisSearchQuery): Promise<AnalysisSearchResponse> {
+    try {
+      const params = new URLSearchParams();
+      if (query.text?.trim()) params.append('q', query.text.trim());
+      query.symbols?.forEach(symbol => params.append('symbol', symbol));
+      query.actions?.forEach(action => params.append('action', action));
+      query.strength_bands?.forEach(band => params.append('strength_band', band));
+      query.models?.forEach(model => params.append('model', model));
+      if (query.executed !== undefined) params.append('executed', String(query.executed));
+      if (query.errored !== undefined) params.append('errored', String(query.errored));
+      if (query.start_date) params.append('start_date', query.start_date);
+      if (query.end_date) params.append('end_date', query.end_date);
+      if (query.limit) params.append('limit', query.limit.toString());
+      if (query.offset) params.append('offset', query.offset.toString());
+
+      const response = await api.get<AnalysisSearchResponse>(
+        `/bots/${query.bot_id}/analysis/search?${params.toString()}`,
+      );
+
+      if (response.data) {
+        return {
+          ...response.data,
+          results: response.data.results || [],
+          facets: { ...EMPTY_FACETS, ...response.data.facets },
+        };
+      }
+
+      throw new Error('Failed to search analysis logs');
+    } catch (error) {
+      if (isAxiosError(error)) {
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  async getSavedSearches(botId: string): Promise<SavedAnalysisSearch[]> {
+    try {
+      const response = await api.get<{ saved_searches: SavedAnalysisSearch[] }>(
+        `/bots/${botId}/analysis/saved-searches`,
+      );
+      return response.data?.saved_searches || [];
+    } catch (error) {
+      if (isAxiosError(error)) {
+        // No saved searches yet
+        if (error.response?.status === 404) {
+          return [];
+        }
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  async saveSearch(
+    botId: string,
+    name: string,
+    criteria: AnalysisSearchCriteria,
+  ): Promise<SavedAnalysisSearch> {
+    if (!name.trim()) {
+      throw new Error('Saved search name is required');
+    }
+
+    try {
+      const response = await api.post<{ saved_search: SavedAnalysisSearch }>(
+        `/bots/${botId}/analysis/saved-searches`,
+        { name: name.trim(), criteria },
+      );
+      if (response.data?.saved_search) {
+        return response.data.saved_search;
+      }
+      throw new Error('Failed to save search');
+    } catch (error) {
+      if (isAxiosError(error)) {
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  async deleteSavedSearch(botId: string, searchId: string): Promise<void> {
+    try {
+      await api.delete(`/bots/${botId}/analysis/saved-searches/${searchId}`);
+    } catch (error) {
+      if (isAxiosError(error)) {
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Split a search query into lowercase terms. Quoted text is kept as one phrase.
+   */
+  parseSearchTerms(text: string = ''): string[] {
+    const terms = [...text.matchAll(/"([^"]+)"|(\S+)/g)]
+      .map(match => (match[1] ?? match[2] ?? '').trim().toLowerCase())
+      .filter(term => term.length >= 2);
+    return [...new Set(terms)];
+  }
+
+  highlight(text: string, terms: string[]): HighlightSegment[] {
+    if (terms.length === 0 || !text) {
+      return [{ text, match: false }];
+    }
+
+    // Longest terms first so a phrase wins over the words inside it
+    const pattern = new RegExp(
+      `(${[...terms]
+        .sort((a, b) => b.length - a.length)
+        .map(escapeRegExp)
+        .join('|')})`,
+      'gi',
+    );
+    return text
+      .split(pattern)
+      .filter(part => part !== '')
+      .map(part => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+  }
+
+  /**
+   * Highlighted excerpts around the first match in each searchable field of a log
+   */
+  getSnippets(log: AIAnalysisLog, terms: string[]): SearchSnippet[] {
+    return SEARCHABLE_FIELDS.flatMap(({ field }) => {
+      const text = log[field] || '';
+      const lower = text.toLowerCase();
+      const index = Math.min(
+        ...terms.map(term => lower.indexOf(term)).filter(position => position >= 0),
+      );
+      if (!Number.isFinite(index)) {
+        return [];
+      }
+
+      const start = Math.max(0, index - SNIPPET_CONTEXT);
+      const end = Math.min(text.length, index + SNIPPET_CONTEXT * 2);
+      const excerpt = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+      return [{ field, segments: this.highlight(excerpt, terms) }];
+    });
+  }
+
+  /**
+   * The analysis that opened a position: the log recorded in the position's metadata, otherwise
+   * the closest executed analysis on the same symbol around the entry time.
+   */
+  findTriggeringAnalysis(
+    position: TradingPosition,
+    logs: AIAnalysisLog[],
+  ): AIAnalysisLog | undefined {
+    const linkedId = position.metadata?.analysis_log_id;
+    if (typeof linkedId === 'string') {
+      const linked = logs.find(log => log.id === linkedId);
+      if (linked) return linked;
+    }
+
+    const entryTime = new Date(position.entry_time).getTime();
+    return logs
+      .filter(
+        log =>
+          log.symbol === position.symbol &&
+          log.trade_executed &&
+          !aiAnalysisService.hasError(log) &&
+          Math.abs(new Date(log.timestamp).getTime() - entryTime) <= TRIGGER_WINDOW_MS,
+      )
+      .sort(
+        (a, b) =>
+          Math.abs(new Date(a.timestamp).getTime() - entryTime) -
+          Math.abs(new Date(b.timestamp).getTime() - entryTime),
+      )[0];
+  }
+
+  /**
+   * Load the triggering analysis even when it is outside the current search results
+   */
+  async resolveTriggeringAnalysis(
+    position: TradingPosition,
+    logs: AIAnalysisLog[],
+  ): Promise<AIAnalysisLog | undefined> {
+    const found = this.findTriggeringAnalysis(position, logs);
+    if (found) return found;
+
+    const linkedId = position.metadata?.analysis_log_id;
+    if (typeof linkedId === 'string') {
+      return aiAnalysisService.getAnalysisLogById(linkedId);
+    }
+
+    // Cover the whole match window, which crosses into the previous or next UTC day near midnight
+    const entryTime = new Date(position.entry_time).getTime();
+    const toDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+    const response = await this.search({
+      bot_id: position.bot_id,
+      symbols: [position.symbol],
+      executed: true,
+      start_date: toDate(entryTime - TRIGGER_WINDOW_MS),
+      end_date: toDate(entryTime + TRIGGER_WINDOW_MS),
+      limit: 100,
+    });
+    return this.findTriggeringAnalysis(position, response.results);
+  }
+
+  /**
+   * Whether the search narrows the logs at all
+   */
+  hasCriteria(criteria: AnalysisSearchCriteria): boolean {
+    return Object.values(criteria).some(value =>
+      Array.isArray(value) ? value.length > 0 : value !== undefined && value !== '',
+    );
+  }
+}
+
+export const analysisSearchService = new AnalysisSearchService();
@@ -0,0 +1,911 @@
+import api from './api';
+import { isAxiosError } from 'axios';
+import {
+  AISignalConfig,
+  AlphaCompounderConfig,
+  BotStatistics,
+  CreateBotInput,
+  DCAConfig,
+  DCAEntry,
+  GridTradingConfig,
+  PositionSide,
+  StrategyType,
+  TradingMode,
+} from './tradingBot';
+import { DEFAULT_INDICATOR_SETTINGS, macd, rsi, sma } from '@/utils/indicators';
+
+// API response wrapper
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  message?: string;
+}
+
+// OHLCV candle, timestamp is the candle open time in milliseconds
+export interface Candle {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type BacktestExitReason =
+  | 'take_profit'
+  | 'stop_loss'
+  | 'trailing_stop'
+  | 'signal'
+  | 'grid'
+  | 'end_of_data';
+
+export interface BacktestOptions {
+  symbol: string;
+  initial_balance: number;
+  fee_percent: number; // Fee charged on every fill as % of notional
+  slippage_percent: number; // Adverse price slippage applied to every fill
+  close_open_positions: boolean; // Mark open positions closed at the last candle
+}
+
+export interface BacktestTrade {
+  id: string;
+  symbol: string;
+  side: PositionSide;
+  entry_time: string;
+  exit_time: string;
+  entry_price: number; // Average entry price including DCA fills
+  exit_price: number;
+  quantity: number;
+  pnl: number; // Realized PnL net of fees
+  pnl_percent: number; // PnL relative to margin committed
+  fees: number;
+  exit_reason: BacktestExitReason;
+  dca_entries: DCAEntry[];
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  equity: number;
+  drawdown_percent: number;
+}
+
+export interface BacktestResult {
+  strategy_type: StrategyType;
+  symbol: string;
+  statistics: BotStatistics;
+  trades: BacktestTrade[];
+  equity_curve: EquityPoint[];
+  initial_balance: number;
+  final_balance: number;
+  total_return_percent: number;
+  total_fees: number;
+  candles_processed: number;
+  start_time: string;
+  end_time: string;
+  warnings: string[];
+}
+
+export const BACKTEST_SUPPORTED_STRATEGIES: StrategyType[] = [
+  'alpha_compounder',
+  'grid_trading',
+  'dca',
+  'ai_signal',
+];
+
+export const DEFAULT_BACKTEST_OPTIONS: Omit<BacktestOptions, 'symbol' | 'initial_balance'> = {
+  fee_percent: 0.1,
+  slippage_percent: 0.05,
+  close_open_positions: true,
+};
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Defaults shown by StrategyConfigForm for fields the user never touched
+const STRATEGY_CONFIG_DEFAULTS: Partial<Record<StrategyType, Record<string, unknown>>> = {
+  grid_trading: {
+    grid_size: 10,
+    grid_spacing: 1.0,
+    investment_per_order: 10,
+    profit_per_grid: 0.5,
+  },
+  dca: {
+    buy_interval_hours: 24,
+    buy_amount: 10,
+    max_orders: 10,
+    safety_orders: 3,
+    safety_order_volume_scale: 2.0,
+    safety_order_step_scale: 1.5,
+  },
+  ai_signal: {
+    min_signal_strength: 0.7,
+    max_positions_count: 3,
+    position_size_percent: 10.0,
+    stop_loss_percent: 3.0,
+    take_profit_percent: 5.0,
+    enable_trailing_stop: false,
+    trailing_trigger_percent: 3.0,
+    trailing_stop_percent: 1.5,
+    enable_active_management: false,
+    enable_dca: false,
+    dca_level: 2.0,
+    dca_entry_multiplier: 2.0,
+    max_dca_levels: 5,
+    dca_stop_loss_percent: 5.0,
+    max_daily_trades: 10,
+    indicator_settings: DEFAULT_INDICATOR_SETTINGS,
+  },
+};
+
+interface OpenLot {
+  id: string;
+  side: PositionSide;
+  entryPrice: number;
+  quantity: number;
+  margin: number;
+  fees: number;
+  entryTime: number;
+  dcaEntries: DCAEntry[];
+  extremePrice: number; // Best price seen since entry, used by trailing stops
+  trailingActive: boolean;
+  gridLevel?: number;
+}
+
+interface StrategyStep {
+  (sim: Simulator, index: number): void;
+}
+
+/**
+ * Simulated account that owns cash, open lots and the closed trade log.
+ * Prices passed in are raw candle prices; slippage and fees are applied here.
+ */
+class Simulator {
+  cash: number;
+  lots: OpenLot[] = [];
+  trades: BacktestTrade[] = [];
+  totalFees = 0;
+  totalVolume = 0;
+  private nextId = 1;
+
+  constructor(
+    readonly candles: Candle[],
+    readonly symbol: string,
+    readonly leverage: number,
+    private readonly feeRate: number,
+    private readonly slippageRate: number,
+    initialBalance: number,
+  ) {
+    this.cash = initialBalance;
+  }
+
+  candle(index: number): Candle {
+    const candle = this.candles[index];
+    if (!candle) {
+      throw new Error(`Candle ${index} is out of range`);
+    }
+    return candle;
+  }
+
+  equity(price: number): number {
+    return this.lots.reduce(
+      (total, lot) => total + lot.margin + this.unrealized(lot, price),
+      this.cash,
+    );
+  }
+
+  unrealized(lot: OpenLot, price: number): number {
+    const direction = lot.side === 'long' ? 1 : -1;
+    return (price - lot.entryPrice) * lot.quantity * direction;
+  }
+
+  private fillPrice(side: PositionSide, price: number, opening: boolean): number {
+    // Buying (long entry / short exit) fills higher, selling fills lower
+    const buying = (side === 'long') === opening;
+    return buying ? price * (1 + this.slippageRate) : price * (1 - this.slippageRate);
+  }
+
+  open(side: PositionSide, price: number, margin: number, time: number, gridLevel?: number) {
+    const fee = margin * this.leverage * this.feeRate;
+    if (margin <= 0 || margin + fee > this.cash) {
+      return null;
+    }
+
+    const fill = this.fillPrice(side, price, true);
+    const quantity = (margin * this.leverage) / fill;
+    const lot: OpenLot = {
+      id: `bt-${this.nextId++}`,
+      side,
+      entryPrice: fill,
+      quantity,
+      margin,
+      fees: fee,
+      entryTime: time,
+      dcaEntries: [],
+      extremePrice: fill,
+      trailingActive: false,
+      gridLevel,
+    };
+
+    this.cash -= margin + fee;
+    this.totalFees += fee;
+    this.totalVolume += margin * this.leverage;
+    this.lots.push(lot);
+    return lot;
+  }
+
+  addToLot(lot: OpenLot, price: number, margin: number, time: number) {
+    const fee = margin * this.leverage * this.feeRate;
+    if (margin <= 0 || margin + fee > this.cash) {
+      return false;
+    }
+
+    const fill = this.fillPrice(lot.side, price, true);
+    const quantity = (margin * this.leverage) / fill;
+    lot.dcaEntries.push({
+      level: lot.dcaEntries.length + 1,
+      price: fill,
+      quantity,
+      timestamp: new Date(time).toISOString(),
+      ai_confidence: 0,
+      order_id: `${lot.id}-dca-${lot.dcaEntries.length + 1}`,
+    });
+    lot.entryPrice = (lot.entryPrice * lot.quantity + fill * quantity) / (lot.quantity + quantity);
+    lot.quantity += quantity;
+    lot.margin += margin;
+    lot.fees += fee;
+
+    this.cash -= margin + fee;
+    this.totalFees += fee;
+    this.totalVolume += margin * this.leverage;
+    return true;
+  }
+
+  close(lot: OpenLot, price: number, time: number, reason: BacktestExitReason) {
+    const fill = this.fillPrice(lot.side, price, false);
+    const notional = fill * lot.quantity;
+    const fee = notional * this.feeRate;
+    const gross = this.unrealized(lot, fill);
+    // A leveraged loss can never take more than the margin committed
+    const settled = Math.max(gross, -lot.margin);
+
+    this.cash += lot.margin + settled - fee;
+    this.totalFees += fee;
+    this.totalVolume += notional;
+    this.lots = this.lots.filter(l => l.id !== lot.id);
+
+    const pnl = settled - lot.fees - fee;
+    this.trades.push({
+      id: lot.id,
+      symbol: this.symbol,
+      side: lot.side,
+      entry_time: new Date(lot.entryTime).toISOString(),
+      exit_time: new Date(time).toISOString(),
+      entry_price: lot.entryPrice,
+      exit_price: fill,
+      quantity: lot.quantity,
+      pnl,
+      pnl_percent: lot.margin > 0 ? (pnl / lot.margin) * 100 : 0,
+      fees: lot.fees + fee,
+      exit_reason: reason,
+      dca_entries: lot.dcaEntries,
+    });
+  }
+
+  /**
+   * Check stop loss / take profit against the candle range. When both are hit
+   * inside the same candle the stop is assumed to fill first (worst case).
+   */
+  checkExits(
+    lot: OpenLot,
+    candle: Candle,
+    stopLossPercent: number | undefined,
+    takeProfitPercent: number | undefined,
+  ): boolean {
+    const isLong = lot.side === 'long';
+    if (stopLossPercent && stopLossPercent > 0) {
+      const stop =
+        lot.entryPrice * (isLong ? 1 - stopLossPercent / 100 : 1 + stopLossPercent / 100);
+      if (isLong ? candle.low <= stop : candle.high >= stop) {
+        this.close(lot, stop, candle.timestamp, 'stop_loss');
+        return true;
+      }
+    }
+    if (takeProfitPercent && takeProfitPercent > 0) {
+      const target =
+        lot.entryPrice * (isLong ? 1 + takeProfitPercent / 100 : 1 - takeProfitPercent / 100);
+      if (isLong ? candle.high >= target : candle.low <= target) {
+        this.close(lot, target, candle.timestamp, 'take_profit');
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+const positiveOr = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && value > 0 ? value : fallback;
+
+const resolveLeverage = (input: CreateBotInput, configLeverage?: number): number => {
+  if (input.trading_mode !== 'futures') return 1;
+  return Math.min(Math.max(input.leverage || configLeverage || 1, 1), 100);
+};
+
+// Margin to commit for a new position when the strategy has no sizing of its own
+const positionMargin = (sim: Simulator, input: CreateBotInput, price: number): number => {
+  const equity = sim.equity(price);
+  let margin =
+    input.position_size_percent && input.position_size_percent > 0
+      ? (equity * input.position_size_percent) / 100
+      : equity / Math.max(input.max_active_positions, 1);
+  if (input.max_position_size && input.max_position_size > 0) {
+    margin = Math.min(margin, input.max_position_size / sim.leverage);
+  }
+  return Math.min(margin, sim.cash * 0.999);
+};
+
+function gridStep(config: GridTradingConfig): StrategyStep {
+  const levels = Math.max(Math.floor(config.grid_size), 1);
+  const spacing = config.grid_spacing / 100;
+  let center = 0;
+
+  return (sim, index) => {
+    const candle = sim.candle(index);
+    if (index === 0) {
+      center = candle.open;
+    }
+
+    // Sell filled levels that reached their profit target
+    for (const lot of [...sim.lots]) {
+      const target = lot.entryPrice * (1 + config.profit_per_grid / 100);
+      if (candle.high >= target) {
+        sim.close(lot, target, candle.timestamp, 'grid');
+      }
+    }
+
+    // Buy each empty level below the center that the candle traded through
+    for (let level = 1; level <= levels; level++) {
+      const price = center * (1 - spacing * level);
+      if (candle.low <= price && !sim.lots.some(lot => lot.gridLevel === level)) {
+        sim.open('long', price, config.investment_per_order, candle.timestamp, level);
+      }
+    }
+  };
+}
+
+function dcaStep(config: DCAConfig): StrategyStep {
+  const intervalMs = positiveOr(config.buy_interval_hours, 24) * 60 * 60 * 1000;
+  const stepScale = positiveOr(config.safety_order_step_scale, 1);
+  const volumeScale = positiveOr(config.safety_order_volume_scale, 1);
+  // Base price deviation for the first safety order, scaled per order after that
+  const baseDeviation = 0.01;
+  let lastBuyTime = Number.NEGATIVE_INFINITY;
+  let ordersPlaced = 0;
+  let safetyOrdersPlaced = 0;
+
+  return (sim, index) => {
+    const candle = sim.candle(index);
+    const lot = sim.lots[0];
+
+    if (ordersPlaced < config.max_orders && candle.timestamp - lastBuyTime >= intervalMs) {
+      const placed = lot
+        ? sim.addToLot(lot, candle.close, config.buy_amount, candle.timestamp)
+        : sim.open('long', candle.close, config.buy_amount, candle.timestamp) !== null;
+      if (placed) {
+        ordersPlaced++;
+        lastBuyTime = candle.timestamp;
+      }
+      return;
+    }
+
+    if (lot && safetyOrdersPlaced < config.safety_orders) {
+      const deviation = baseDeviation * Math.pow(stepScale, safetyOrdersPlaced);
+      const trigger = lot.entryPrice * (1 - deviation);
+      if (candle.low <= trigger) {
+        const amount = config.buy_amount * Math.pow(volumeScale, safetyOrdersPlaced + 1);
+        if (sim.addToLot(lot, trigger, amount, candle.timestamp)) {
+          safetyOrdersPlaced++;
+        }
+      }
+    }
+  };
+}
+
+function alphaCompounderStep(
+  input: CreateBotInput,
+  config: AlphaCompounderConfig,
+  symbol: string,
+): StrategyStep {
+  const symbolConfig = (config.symbols || []).find(s => s.symbol === symbol);
+  const takeProfit = positiveOr(
+    symbolConfig?.take_profit_percentage ?? input.take_profit_percentage,
+    5,
+  );
+  const pullBack = positiveOr(symbolConfig?.pull_back_percentage ?? input.pull_back_percentage, 3);
+  const stopLoss = config.enable_stop_loss ? config.stop_loss_percent : undefined;
+  const maxPositions = Math.max(config.max_concurrent_trades || input.max_active_positions, 1);
+  let swingHigh = 0;
+
+  return (sim, index) => {
+    const candle = sim.candle(index);
+
+    for (const lot of [...sim.lots]) {
+      sim.checkExits(lot, candle, stopLoss, takeProfit);
+    }
+
+    // Enter long once price has pulled back from the most recent swing high
+    swingHigh = Math.max(swingHigh, candle.high);
+    const entry = swingHigh * (1 - pullBack / 100);
+    if (sim.lots.length < maxPositions && candle.low <= entry) {
+      const margin = symbolConfig?.position_size_percent
+        ? (sim.equity(entry) * symbolConfig.position_size_percent) / 100
+        : positionMargin(sim, input, entry);
+      if (sim.open('long', entry, margin, candle.timestamp)) {
+        swingHigh = entry;
+      }
+    }
+  };
+}
+
+/**
+ * Replays the indicator rules the AI is fed. The model itself cannot be replayed,
+ * so the signal is the agreement of SMA trend, RSI band and MACD histogram.
+ */
+function aiSignalStep(
+  input: CreateBotInput,
+  config: AISignalConfig,
+  candles: Candle[],
+): StrategyStep {
+  const settings = config.indicator_settings;
+  const defaults = DEFAULT_INDICATOR_SETTINGS;
+  const closes = candles.map(c => c.close);
+  const shortSma = sma(closes, positiveOr(settings?.short_sma, defaults.short_sma));
+  const longSma = sma(closes, positiveOr(settings?.long_sma, defaults.long_sma));
+  const rsiSeries = rsi(closes, positiveOr(settings?.rsi_period, defaults.rsi_period));
+  const { histogram } = macd(
+    closes,
+    positiveOr(settings?.macd_fast, defaults.macd_fast),
+    positiveOr(settings?.macd_slow, defaults.macd_slow),
+    positiveOr(settings?.macd_signal, defaults.macd_signal),
+  );
+  const overbought = positiveOr(settings?.rsi_overbought, defaults.rsi_overbought);
+  const oversold = positiveOr(settings?.rsi_oversold, defaults.rsi_oversold);
+  const minStrength = positiveOr(config.min_signal_strength, 0.7);
+  const maxPositions = Math.max(config.max_positions_count || input.max_active_positions, 1);
+  const allowShort = config.enable_short_signals !== false && input.trading_mode === 'futures';
+  const allowLong = config.enable_long_signals !== false;
+  const maxDailyTrades = config.max_daily_trades || Number.POSITIVE_INFINITY;
+  const tradesPerDay = new Map<string, number>();
+
+  const signalAt = (i: number): { side: PositionSide; strength: number } | null => {
+    const s = shortSma[i];
+    const l = longSma[i];
+    const r = rsiSeries[i];
+    const h = histogram[i];
+    if (s == null || l == null || r == null || h == null) return null;
+
+    const bullish = [s > l, r < overbought, h > 0].filter(Boolean).length / 3;
+    const bearish = [s < l, r > oversold, h < 0].filter(Boolean).length / 3;
+    if (bullish >= bearish && bullish >= minStrength) return { side: 'long', strength: bullish };
+    if (bearish > bullish && bearish >= minStrength) return { side: 'short', strength: bearish };
+    return null;
+  };
+
+  return (sim, index) => {
+    const candle = sim.candle(index);
+    const signal = signalAt(index);
+
+    for (const lot of [...sim.lots]) {
+      const isLong = lot.side === 'long';
+
+      if (config.enable_trailing_stop && config.trailing_trigger_percent > 0) {
+        lot.extremePrice = isLong
+          ? Math.max(lot.extremePrice, candle.high)
+          : Math.min(lot.extremePrice, candle.low);
+        const gain = ((lot.extremePrice - lot.entryPrice) / lot.entryPrice) * (isLong ? 100 : -100);
+        if (gain >= config.trailing_trigger_percent) {
+          lot.trailingActive = true;
+        }
+        if (lot.trailingActive) {
+          const trail = config.trailing_stop_percent / 100;
+          const stop = lot.extremePrice * (isLong ? 1 - trail : 1 + trail);
+          if (isLong ? candle.low <= stop : candle.high >= stop) {
+            sim.close(lot, stop, candle.timestamp, 'trailing_stop');
+            continue;
+          }
+        }
+      }
+
+      if (config.enable_dca && lot.dcaEntries.length < config.max_dca_levels) {
+        const reference = lot.dcaEntries.at(-1)?.price ?? lot.entryPrice;
+        const trigger =
+          reference * (isLong ? 1 - config.dca_level / 100 : 1 + config.dca_level / 100);
+        if (isLong ? candle.low <= trigger : candle.high >= trigger) {
+          const lastMargin = lot.margin / (lot.dcaEntries.length + 1);
+          sim.addToLot(
+            lot,
+            trigger,
+            lastMargin * positiveOr(config.dca_entry_multiplier, 1),
+            candle.timestamp,
+          );
+          continue;
+        }
+      }
+
+      const maxedOutDca = config.enable_dca && lot.dcaEntries.length >= config.max_dca_levels;
+      const stopLoss = config.enable_dca
+        ? maxedOutDca
+          ? config.dca_stop_loss_percent
+          : undefined
+        : config.stop_loss_percent;
+      if (sim.checkExits(lot, candle, stopLoss, config.take_profit_percent)) {
+        continue;
+      }
+
+      if (config.enable_active_management && signal && signal.side !== lot.side) {
+        sim.close(lot, candle.close, candle.timestamp, 'signal');
+      }
+    }
+
+    if (!signal || sim.lots.length >= maxPositions) return;
+    if (signal.side === 'long' ? !allowLong : !allowShort) return;
+    if (sim.lots.some(lot => lot.side === signal.side)) return;
+
+    const day = new Date(candle.timestamp).toISOString().slice(0, 10);
+    const today = tradesPerDay.get(day) || 0;
+    if (today >= maxDailyTrades) return;
+
+    const sizing = input.position_size_percent
+      ? input
+      : {
+          ...input,
+          // StrategyConfigForm stores position sizing inside the ai_signal config
+          position_size_percent: (config as unknown as Record<string, unknown>)
+            .position_size_percent as number | undefined,
+        };
+    const opened = sim.open(
+      signal.side,
+      candle.close,
+      positionMargin(sim, sizing, candle.close),
+      candle.timestamp,
+    );
+    if (opened) {
+      tradesPerDay.set(day, today + 1);
+    }
+  };
+}
+
+function buildStrategyStep(input: CreateBotInput, candles: Candle[], symbol: string): StrategyStep {
+  const config = { ...STRATEGY_CONFIG_DEFAULTS[input.strategy.type], ...input.strategy.config };
+
+  switch (input.strategy.type) {
+    case 'grid_trading':
+      return gridStep(config as unknown as GridTradingConfig);
+    case 'dca':
+      return dcaStep(config as unknown as DCAConfig);
+    case 'alpha_compounder':
+      return alphaCompounderStep(input, config as unknown as AlphaCompounderConfig, symbol);
+    case 'ai_signal':
+      return aiSignalStep(input, config as unknown as AISignalConfig, candles);
+    default:
+      throw new Error(`Backtesting is not supported for the ${input.strategy.type} strategy`);
+  }
+}
+
+function buildStatistics(
+  trades: BacktestTrade[],
+  equityCurve: EquityPoint[],
+  totalVolume: number,
+  periodsPerYear: number,
+): BotStatistics {
+  const wins = trades.filter(t => t.pnl > 0);
+  const losses = trades.filter(t => t.pnl <= 0);
+  const grossProfit = wins.reduce((sum, t) => sum + t.pnl, 0);
+  const grossLoss = Math.abs(losses.reduce((sum, t) => sum + t.pnl, 0));
+
+  const returns: number[] = [];
+  for (let i = 1; i < equityCurve.length; i++) {
+    const previous = equityCurve[i - 1]?.equity ?? 0;
+    const current = equityCurve[i]?.equity ?? 0;
+    if (previous > 0) returns.push(current / previous - 1);
+  }
+  const mean = returns.reduce((sum, r) => sum + r, 0) / (returns.length || 1);
+  const variance =
+    returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length || 1);
+  const stdDev = Math.sqrt(variance);
+
+  return {
+    total_pnl: trades.reduce((sum, t) => sum + t.pnl, 0),
+    total_trades: trades.length,
+    winning_trades: wins.length,
+    losing_trades: losses.length,
+    win_rate: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+    max_drawdown: equityCurve.reduce((max, p) => Math.max(max, p.drawdown_percent), 0),
+    sharpe_ratio: stdDev > 0 ? (mean / stdDev) * Math.sqrt(periodsPerYear) : 0,
+    total_volume: totalVolume,
+    average_profit: wins.length > 0 ? grossProfit / wins.length : 0,
+    average_loss: losses.length > 0 ? grossLoss / losses.length : 0,
+    profit_factor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0,
+    last_updated: new Date().toISOString(),
+  };
+}
+
+// Column aliases accepted in CSV headers and JSON objects
+const FIELD_ALIASES: Record<keyof Candle, string[]> = {
+  timestamp: ['timestamp', 'time', 'date', 'datetime', 'open_time', 'opentime', 't'],
+  open: ['open', 'o'],
+  high: ['high', 'h'],
+  low: ['low', 'l'],
+  close: ['close', 'c'],
+  volume: ['volume', 'vol', 'v'],
+};
+
+const toTimestamp = (value: unknown): number => {
+  if (typeof value === 'number') {
+    // Treat 10-digit values as unix seconds
+    return value < 1e11 ? value * 1000 : value;
+  }
+  if (typeof value === 'string') {
+    const numeric = Number(value);
+    if (value.trim() !== '' && !isNaN(numeric)) return toTimestamp(numeric);
+    return Date.parse(value);
+  }
+  return NaN;
+};
+
+class BacktestService {
+  /**
+   * Fetch historical candles for a symbol from the market data API
+   */
+  async fetchCandles(
+    symbol: string,
+    interval: string,
+    limit: number = 500,
+    mode: TradingMode = 'spot',
+  ): Promise<Candle[]> {
+    try {
+      const params = new URLSearchParams({
+        symbol,
+        interval,
+        limit: limit.toString(),
+        mode,
+      });
+      const response = await api.get<ApiResponse<Candle[]>>(`/market-data/candles?${params}`);
+      if (response.data.success && response.data.data) {
+        return this.normalizeCandles(response.data.data);
+      }
+      throw new Error(response.data.error || 'Failed to load historical candles');
+    } catch (error) {
+      if (isAxiosError(error)) {
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Load candles from a user supplied CSV or JSON file
+   */
+  async loadCandlesFromFile(file: File): Promise<Candle[]> {
+    const text = await file.text();
+    const isJson = file.name.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+    return isJson ? this.parseJsonCandles(text) : this.parseCsvCandles(text);
+  }
+
+  /**
+   * Parse CSV with a header row naming the OHLCV columns. Files without a header
+   * are read positionally as timestamp,open,high,low,close,volume.
+   */
+  parseCsvCandles(text: string): Candle[] {
+    const rows = text
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .map(line => line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, '')));
+
+    const header = rows[0];
+    if (!header) {
+      throw new Error('Candle file is empty');
+    }
+
+    const hasHeader = header.some(cell => isNaN(Number(cell)) && isNaN(Date.parse(cell)));
+    const columns = { timestamp: 0, open: 1, high: 2, low: 3, close: 4, volume: 5 };
+    if (hasHeader) {
+      const lower = header.map(cell => cell.toLowerCase());
+      (Object.keys(columns) as (keyof Candle)[]).forEach(field => {
+        const index = lower.findIndex(cell => FIELD_ALIASES[field].includes(cell));
+        if (index === -1 && field !== 'volume') {
+          throw new Error(`Candle file is missing a "${field}" column`);
+        }
+        columns[field] = index;
+      });
+    }
+
+    return this.normalizeCandles(
+      rows.slice(hasHeader ? 1 : 0).map(row => ({
+        timestamp: row[columns.timestamp],
+        open: row[columns.open],
+        high: row[columns.high],
+        low: row[columns.low],
+        close: row[columns.close],
+        volume: columns.volume >= 0 ? row[columns.volume] : 0,
+      })),
+    );
+  }
+
+  /**
+   * Parse a JSON array of candle objects or exchange style kline arrays
+   */
+  parseJsonCandles(text: string): Candle[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (_error) {
+      throw new Error('Candle file is not valid JSON');
+    }
+
+    const list =
+      parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? ((parsed as Record<string, unknown>).candles ?? (parsed as Record<string, unknown>).data)
+        : parsed;
+    if (!Array.isArray(list)) {
+      throw new Error('Candle JSON must be an array or contain a "candles" array');
+    }
+
+    return this.normalizeCandles(list);
+  }
+
+  /**
+   * Validate raw rows, coerce numbers and sort by time
+   */
+  normalizeCandles(rows: unknown[]): Candle[] {
+    const candles = rows.map((row, index) => {
+      let raw: Record<keyof Candle, unknown>;
+      if (Array.isArray(row)) {
+        raw = {
+          timestamp: row[0],
+          open: row[1],
+          high: row[2],
+          low: row[3],
+          close: row[4],
+          volume: row[5],
+        };
+      } else if (row && typeof row === 'object') {
+        const record = row as Record<string, unknown>;
+        const pick = (field: keyof Candle) => {
+          const key = Object.keys(record).find(k => FIELD_ALIASES[field].includes(k.toLowerCase()));
+          return key ? record[key] : undefined;
+        };
+        raw = {
+          timestamp: pick('timestamp'),
+          open: pick('open'),
+          high: pick('high'),
+          low: pick('low'),
+          close: pick('close'),
+          volume: pick('volume'),
+        };
+      } else {
+        throw new Error(`Candle ${index + 1} is not a valid row`);
+      }
+
+      const candle: Candle = {
+        timestamp: toTimestamp(raw.timestamp),
+        open: Number(raw.open),
+        high: Number(raw.high),
+        low: Number(raw.low),
+        close: Number(raw.close),
+        volume: Number(raw.volume ?? 0) || 0,
+      };
+
+      if (
+        isNaN(candle.timestamp) ||
+        [candle.open, candle.high, candle.low, candle.close].some(v => isNaN(v) || v <= 0)
+      ) {
+        throw new Error(`Candle ${index + 1} has an invalid timestamp or price`);
+      }
+      if (candle.high < Math.max(candle.open, candle.close, candle.low)) {
+        throw new Error(`Candle ${index + 1} has a high below its open, close or low`);
+      }
+
+      return candle;
+    });
+
+    return candles.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Replay a bot configuration over historical candles. The run is deterministic:
+   * the same input, candles and options always produce the same result.
+   */
+  runBacktest(input: CreateBotInput, candles: Candle[], options: BacktestOptions): BacktestResult {
+    if (!BACKTEST_SUPPORTED_STRATEGIES.includes(input.strategy.type)) {
+      throw new Error(`Backtesting is not supported for the ${input.strategy.type} strategy`);
+    }
+    if (candles.length < 2) {
+      throw new Error('At least two candles are required to run a backtest');
+    }
+    if (options.initial_balance <= 0) {
+      throw new Error('Initial balance must be greater than 0');
+    }
+
+    const configLeverage =
+      input.strategy.type === 'ai_signal'
+        ? (input.strategy.config as unknown as AISignalConfig).max_leverage
+        : undefined;
+    const sim = new Simulator(
+      candles,
+      options.symbol,
+      resolveLeverage(input, configLeverage),
+      Math.max(options.fee_percent, 0) / 100,
+      Math.max(options.slippage_percent, 0) / 100,
+      options.initial_balance,
+    );
+    const step = buildStrategyStep(input, candles, options.symbol);
+    const warnings: string[] = [];
+
+    const equityCurve: EquityPoint[] = [];
+    let peak = options.initial_balance;
+    let processed = 0;
+
+    for (let i = 0; i < candles.length; i++) {
+      const candle = sim.candle(i);
+      step(sim, i);
+      processed++;
+
+      const equity = sim.equity(candle.close);
+      peak = Math.max(peak, equity);
+      equityCurve.push({
+        timestamp: candle.timestamp,
+        equity,
+        drawdown_percent: peak > 0 ? ((peak - equity) / peak) * 100 : 0,
+      });
+
+      if (equity <= 0) {
+        warnings.push(`Account was wiped out on ${new Date(candle.timestamp).toISOString()}`);
+        break;
+      }
+    }
+
+    const last = sim.candle(processed - 1);
+    if (sim.lots.length > 0) {
+      if (options.close_open_positions) {
+        warnings.push(`${sim.lots.length} open position(s) were closed at the last candle`);
+        [...sim.lots].forEach(lot => sim.close(lot, last.close, last.timestamp, 'end_of_data'));
+      } else {
+        warnings.push(`${sim.lots.length} position(s) are still open and valued at the last close`);
+      }
+    }
+    if (input.strategy.type === 'ai_signal') {
+      warnings.push('AI signals are approximated from the configured indicator rules');
+    }
+
+    const finalBalance = sim.equity(last.close);
+    const intervals = candles
+      .slice(1, processed)
+      .map((c, i) => c.timestamp - (candles[i]?.timestamp ?? 0));
+    const medianInterval = intervals.sort((a, b) => a - b)[Math.floor(intervals.length / 2)] || 1;
+
+    return {
+      strategy_type: input.strategy.type,
+      symbol: options.symbol,
+      statistics: buildStatistics(
+        sim.trades,
+        equityCurve,
+        sim.totalVolume,
+        YEAR_MS / medianInterval,
+      ),
+      trades: sim.trades,
+      equity_curve: equityCurve,
+      initial_balance: options.initial_balance,
+      final_balance: finalBalance,
+      total_return_percent:
+        ((finalBalance - options.initial_balance) / options.initial_balance) * 100,
+      total_fees: sim.totalFees,
+      candles_processed: processed,
+      start_time: new Date(sim.candle(0).timestamp).toISOString(),
+      end_time: new Date(last.timestamp).toISOString(),
+      warnings,
+    };
+  }
+}
+
+export const backtestService = new BacktestService();
@@ -0,0 +1,372 @@
+import api from './api';
+import { isAxiosError } from 'axios';
+import { ZodError } from 'zod';
+import {
+  BotStrategy,
+  CreateBotInput,
+  LocalLLMConfig,
+  StrategyType,
+  SupportedStrategy,
+  TradingBot,
+} from './tradingBot';
+import {
+  BOT_TEMPLATE_KIND,
+  BOT_TEMPLATE_SCHEMA_VERSION,
+  BotTemplate,
+  BotTemplateConfig,
+  botTemplateConfigSchema,
+  botTemplateSchema,
+} from '@/schemas/botTemplate';
+
+export type { BotTemplate, BotTemplateConfig } from '@/schemas/botTemplate';
+
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  message?: string;
+}
+
+// A validation problem in an imported template. `field` is a CreateBotInput path such as
+// "starting_balance" or "strategy.config.symbols[BTCUSDT].take_profit_percentage";
+// empty for problems with the file as a whole.
+export interface BotTemplateFieldError {
+  field: string;
+  message: string;
+}
+
+export interface BotTemplateParseResult {
+  template?: BotTemplate;
+  errors: BotTemplateFieldError[];
+}
+
+// A template saved to the user's personal library
+export interface SavedBotTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  strategy_type: StrategyType;
+  template: BotTemplate;
+  created_at: string;
+  updated_at: string;
+}
+
+interface SchemaFieldRule {
+  required?: boolean;
+  type?: string;
+  min?: number;
+  max?: number;
+}
+
+const STRATEGY_CONFIG_PREFIX = 'strategy.config.';
+
+class BotTemplateService {
+  /**
+   * Build a template from create-bot form input. Exchange credentials, AI provider keys, the
+   * local model server and prompt library references are never included.
+   */
+  fromCreateInput(input: CreateBotInput, name = input.name, description?: string): BotTemplate {
+    const { exchange_credentials_id: _credentials, ...config } = input;
+    return {
+      kind: BOT_TEMPLATE_KIND,
+      schema_version: BOT_TEMPLATE_SCHEMA_VERSION,
+      name,
+      description: description ?? input.description,
+      exported_at: new Date().toISOString(),
+      config: this.stripUndefined({
+        ...config,
+        strategy: this.withoutPersonalSettings(config.strategy),
+      }) as BotTemplateConfig,
+    };
+  }
+
+  /**
+   * Build a template from an existing bot's configuration
+   */
+  fromBot(bot: TradingBot): BotTemplate {
+    return this.fromCreateInput({
+      name: bot.name,
+      description: bot.description || undefined,
+      exchange_credentials_id: '',
+      symbols: bot.symbols,
+      strategy: bot.strategy,
+      trading_mode: bot.trading_mode,
+      starting_balance: bot.starting_balance,
+      max_active_positions: bot.max_active_positions,
+      leverage: bot.leverage,
+      position_size_percent: bot.position_size_percent,
+      max_position_size: bot.max_position_size,
+      use_auto_leverage: bot.use_auto_leverage,
+      risk_per_trade: bot.risk_per_trade,
+      execution_mode: bot.execution_mode,
+      paper_settings: bot.paper_settings,
+    });
+  }
+
+  /**
+   * Turn a validated template back into create-bot input for the given exchange key
+   */
+  toCreateInput(template: BotTemplate, exchangeCredentialsId: string): CreateBotInput {
+    return {
+      ...template.config,
+      exchange_credentials_id: exchangeCredentialsId,
+    };
+  }
+
+  /**
+   * Parse a template JSON document. A template is returned whenever its structure is valid;
+   * errors then describe values that must be fixed in the form before the bot can be created.
+   */
+  parseTemplate(json: string, strategies: SupportedStrategy[] = []): BotTemplateParseResult {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch (_error) {
+      return { errors: [{ field: '', message: 'The file is not valid JSON' }] };
+    }
+
+    const result = botTemplateSchema.safeParse(raw);
+    if (!result.success) {
+      return { errors: this.toFieldErrors(result.error) };
+    }
+
+    const template = result.data;
+    const secretFields = this.findSecrets(template.config.strategy);
+    if (secretFields.length > 0) {
+      return {
+        errors: secretFields.map(field => ({
+          field,
+          message: 'Templates must not contain API keys. Remove the key and import again.',
+        })),
+      };
+    }
+
+    if (strategies.length > 0 && !strategies.some(s => s.type === template.config.strategy.type)) {
+      return {
+        errors: [
+          { field: 'strategy.type', message: 'This strategy is not available for new bots' },
+        ],
+      };
+    }
+
+    // A template must not choose where the importer's market and position data is sent
+    const sanitized: BotTemplate = {
+      ...template,
+      config: {
+        ...template.config,
+        strategy: this.withoutPersonalSettings(template.config.strategy),
+      },
+    };
+    return { template: sanitized, errors: this.validateConfig(sanitized.config, strategies) };
+  }
+
+  /**
+   * Validate create-bot input against the template schema and the strategy's
+   * configuration_schema. Exchange credentials are not checked.
+   */
+  validateConfig(
+    config: BotTemplateConfig | CreateBotInput,
+    strategies: SupportedStrategy[] = [],
+  ): BotTemplateFieldError[] {
+    const { exchange_credentials_id: _credentials, ...fields } = config as CreateBotInput;
+    const result = botTemplateConfigSchema.safeParse(this.stripUndefined(fields));
+    const errors = result.success ? [] : this.toFieldErrors(result.error, false);
+
+    const localLLM = config.strategy.config.local_llm as LocalLLMConfig | undefined;
+    if (config.strategy.config.ai_provider === 'local' && !localLLM?.base_url?.trim()) {
+      errors.push({
+        field: `${STRATEGY_CONFIG_PREFIX}local_llm.base_url`,
+        message: 'Enter the URL of your own local model server',
+      });
+    }
+
+    const strategy = strategies.find(s => s.type === config.strategy.type);
+    return strategy ? [...errors, ...this.validateAgainstSchema(config, strategy)] : errors;
+  }
+
+  /**
+   * Strategy config errors keyed by their config path, as used by StrategyConfigForm
+   */
+  getStrategyConfigErrors(errors: BotTemplateFieldError[]): Record<string, string> {
+    return errors
+      .filter(error => error.field.startsWith(STRATEGY_CONFIG_PREFIX))
+      .reduce<Record<string, string>>((acc, error) => {
+        acc[error.field.slice(STRATEGY_CONFIG_PREFIX.length)] ??= error.message;
+        return acc;
+      }, {});
+  }
+
+  downloadTemplate(template: BotTemplate): void {
+    const baseName = template.name.replace(/[^a-z0-9]+/gi, '_').toLowerCase() || 'bot';
+    const blob = new Blob([JSON.stringify(template, null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `${baseName}.bot-template.json`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  async copyTemplateToClipboard(template: BotTemplate): Promise<void> {
+    await navigator.clipboard.writeText(JSON.stringify(template, null, 2));
+  }
+
+  // Personal template library
+
+  async getSavedTemplates(): Promise<SavedBotTemplate[]> {
+    try {
+      const response = await api.get<ApiResponse<SavedBotTemplate[]>>('/trading-bots/templates');
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      return [];
+    } catch (error) {
+      if (isAxiosError(error)) {
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  async saveTemplate(template: BotTemplate): Promise<SavedBotTemplate> {
+    try {
+      const response = await api.post<ApiResponse<SavedBotTemplate>>('/trading-bots/templates', {
+        name: template.name,
+        description: template.description,
+        strategy_type: template.config.strategy.type,
+        template,
+      });
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.error || 'Failed to save template');
+    } catch (error) {
+      if (isAxiosError(error)) {
+        const errorData = error.response?.data;
+        if (errorData?.error && typeof errorData.error === 'object') {
+          const errorMessage =
+            errorData.error.message || errorData.error.details || 'Failed to save template';
+          throw new Error(errorMessage);
+        }
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    try {
+      const response = await api.delete<ApiResponse<null>>(`/trading-bots/templates/${id}`);
+      if (!response.data.success) {
+        throw new Error(response.data.error || 'Failed to delete template');
+      }
+    } catch (error) {
+      if (isAxiosError(error)) {
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  private validateAgainstSchema(
+    config: BotTemplateConfig | CreateBotInput,
+    strategy: SupportedStrategy,
+  ): BotTemplateFieldError[] {
+    const errors: BotTemplateFieldError[] = [];
+
+    if (!strategy.supported_modes.includes(config.trading_mode)) {
+      errors.push({
+        field: 'trading_mode',
+        message: `${strategy.name} does not support ${config.trading_mode} trading`,
+      });
+    }
+
+    const schema = strategy.configuration_schema as Record<string, SchemaFieldRule | undefined>;
+    // Alpha Compounder keeps its limits per symbol, which the schema refinement already checks
+    if (strategy.type === 'alpha_compounder') {
+      return errors;
+    }
+
+    Object.entries(schema).forEach(([key, rule]) => {
+      if (!rule) return;
+      const field = `${STRATEGY_CONFIG_PREFIX}${key}`;
+      const value = config.strategy.config[key];
+      const label = key.replace(/_/g, ' ');
+
+      if (value === undefined || value === null || value === '') {
+        // Unset AI signal settings fall back to the defaults shown in StrategyConfigForm
+        if (rule.required && strategy.type !== 'ai_signal') {
+          errors.push({ field, message: `${label} is required for this strategy` });
+        }
+        return;
+      }
+
+      if (rule.type === 'number') {
+        if (typeof value !== 'number' || Number.isNaN(value)) {
+          errors.push({ field, message: `${label} must be a number` });
+          return;
+        }
+        if (rule.min !== undefined && value < rule.min) {
+          errors.push({ field, message: `${label} must be at least ${rule.min}` });
+        }
+        if (rule.max !== undefined && value > rule.max) {
+          errors.push({ field, message: `${label} cannot exceed ${rule.max}` });
+        }
+      } else if (rule.type && typeof value !== rule.type) {
+        errors.push({ field, message: `${label} must be a ${rule.type}` });
+      }
+    });
+
+    return errors;
+  }
+
+  private toFieldErrors(error: ZodError, inEnvelope = true): BotTemplateFieldError[] {
+    return error.issues.map(issue => {
+      // Issues inside the config are reported against CreateBotInput, not the template envelope
+      const path = inEnvelope && issue.path[0] === 'config' ? issue.path.slice(1) : issue.path;
+      return {
+        field: path.reduce<string>((acc, segment) => {
+          if (typeof segment === 'number') return `${acc}[${segment}]`;
+          return acc ? `${acc}.${segment}` : segment;
+        }, ''),
+        message: issue.message,
+      };
+    });
+  }
+
+  // Settings that only make sense for their owner: the AI provider key (AISignalConfig.api_key),
+  // the local model server (its URL, key and detected capabilities) and references to the
+  // owner's prompt template library
+  private withoutPersonalSettings(strategy: BotStrategy): BotStrategy {
+    const {
+      api_key: _apiKey,
+      local_llm: _localLLM,
+      prompt_template_id: _promptTemplateId,
+      prompt_template_version: _promptTemplateVersion,
+      ...config
+    } = strategy.config;
+    return { ...strategy, config };
+  }
+
+  private findSecrets(strategy: BotStrategy): string[] {
+    const fields: string[] = [];
+    if (strategy.config.api_key) {
+      fields.push(`${STRATEGY_CONFIG_PREFIX}api_key`);
+    }
+    if ((strategy.config.local_llm as LocalLLMConfig | undefined)?.api_key) {
+      fields.push(`${STRATEGY_CONFIG_PREFIX}local_llm.api_key`);
+    }
+    return fields;
+  }
+
+  private stripUndefined<T extends object>(value: T): Partial<T> {
+    return Object.fromEntries(
+      Object.entries(value).filter(([, entry]) => entry !== undefined),
+    ) as Partial<T>;
+  }
+}
+
+export const botTemplateService = new BotTemplateService();
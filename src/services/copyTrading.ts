@@ -0,0 +1,318 @@
+import api from './api';
+import { isAxiosError } from 'axios';
+import { BotStatistics, CopyBotInput, StrategyType, TradingBot } from './tradingBot';
+
+// Copy-trading marketplace: leader rankings, performance fees and fee settlement
+
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  message?: string;
+}
+
+export type LeaderSortKey = 'return' | 'sharpe' | 'drawdown' | 'followers' | 'aum' | 'age';
+
+export interface LeaderFilters {
+  strategy?: StrategyType;
+  max_drawdown?: number; // Percent, e.g. 20 keeps leaders that never lost more than 20%
+  min_age_days?: number;
+  min_aum?: number;
+  max_aum?: number;
+  sort_by?: LeaderSortKey;
+  limit?: number;
+  offset?: number;
+}
+
+export interface LeaderProfile {
+  bot: TradingBot;
+  owner_id: string;
+  owner_name: string;
+  owner_avatar_url?: string;
+  statistics: BotStatistics;
+  follower_count: number;
+  aum: number; // Capital allocated by all followers, in USDT
+  performance_fee_percent: number;
+}
+
+// Track record derived from a leader's statistics
+export interface LeaderTrackRecord {
+  return_percent: number;
+  age_days: number;
+  max_drawdown_percent: number;
+  is_verified: boolean;
+  unverified_reasons: string[];
+}
+
+export interface LeaderSettings {
+  is_copyable: boolean;
+  performance_fee_percent: number;
+}
+
+export type FeeSettlementStatus = 'pending' | 'settled' | 'failed';
+
+export interface PerformanceFeeSettlement {
+  id: string;
+  leader_bot_id: string;
+  leader_bot_name: string;
+  follower_bot_id: string;
+  follower_bot_name: string;
+  period_start: string;
+  period_end: string;
+  high_water_mark: number; // Follower equity above which profits are charged
+  closing_equity: number;
+  fee_percent: number;
+  fee_amount: number; // USDT
+  status: FeeSettlementStatus;
+  commission_transaction_id?: string; // Wallet commission credited to the leader
+  settled_at?: string;
+}
+
+export interface PerformanceFeePreview {
+  chargeable_profit: number;
+  fee_amount: number;
+  new_high_water_mark: number;
+}
+
+// Performance fees are capped so followers always keep most of their profits
+export const MAX_PERFORMANCE_FEE_PERCENT = 50;
+
+// A track record is verified once it is long and active enough to be meaningful
+const VERIFIED_MIN_TRADES = 30;
+const VERIFIED_MIN_AGE_DAYS = 30;
+const VERIFIED_MAX_STALENESS_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class CopyTradingService {
+  async getLeaders(filters: LeaderFilters = {}): Promise<LeaderProfile[]> {
+    try {
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') {
+          params.append(key, String(value));
+        }
+      });
+      const response = await api.get<ApiResponse<LeaderProfile[]>>(
+        `/trading-bots/copy/leaders?${params}`,
+      );
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      return [];
+    } catch (error) {
+      if (isAxiosError(error)) {
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  async getLeaderSettings(botId: string): Promise<LeaderSettings> {
+    try {
+      const response = await api.get<ApiResponse<LeaderSettings>>(
+        `/trading-bots/${botId}/copy-settings`,
+      );
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.error || 'Failed to load copy-trading settings');
+    } catch (error) {
+      if (isAxiosError(error)) {
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  async updateLeaderSettings(botId: string, settings: LeaderSettings): Promise<LeaderSettings> {
+    const validationError = this.validatePerformanceFee(settings.performance_fee_percent);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    try {
+      const response = await api.put<ApiResponse<LeaderSettings>>(
+        `/trading-bots/${botId}/copy-settings`,
+        settings,
+      );
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.error || 'Failed to update copy-trading settings');
+    } catch (error) {
+      if (isAxiosError(error)) {
+        const errorData = error.response?.data;
+        if (errorData?.error && typeof errorData.error === 'object') {
+          const errorMessage =
+            errorData.error.message ||
+            errorData.error.details ||
+            'Failed to update copy-trading settings';
+          throw new Error(errorMessage);
+        }
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fee settlements for a bot: fees paid when it is a copy, fees earned when it is a leader
+   */
+  async getFeeSettlements(botId: string): Promise<PerformanceFeeSettlement[]> {
+    try {
+      const response = await api.get<ApiResponse<PerformanceFeeSettlement[]>>(
+        `/trading-bots/${botId}/fee-settlements`,
+      );
+      if (response.data.success && response.data.data) {
+        return response.data.data.sort(
+          (a, b) => Date.parse(b.period_end) - Date.parse(a.period_end),
+        );
+      }
+      return [];
+    } catch (error) {
+      if (isAxiosError(error)) {
+        if (error.response?.status === 404) {
+          return [];
+        }
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Settle the outstanding performance fee of a copy bot. The backend debits the follower
+   * and credits the leader's wallet with a `commission` transaction.
+   */
+  async settlePerformanceFee(followerBotId: string): Promise<PerformanceFeeSettlement> {
+    try {
+      const response = await api.post<ApiResponse<PerformanceFeeSettlement>>(
+        `/trading-bots/${followerBotId}/fee-settlements`,
+      );
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.error || 'Failed to settle performance fee');
+    } catch (error) {
+      if (isAxiosError(error)) {
+        const errorData = error.response?.data;
+        if (errorData?.error && typeof errorData.error === 'object') {
+          const errorMessage =
+            errorData.error.message ||
+            errorData.error.details ||
+            'Failed to settle performance fee';
+          throw new Error(errorMessage);
+        }
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  validatePerformanceFee(feePercent: number): string | null {
+    if (!Number.isFinite(feePercent) || feePercent < 0) {
+      return 'Performance fee cannot be negative';
+    }
+    if (feePercent > MAX_PERFORMANCE_FEE_PERCENT) {
+      return `Performance fee cannot exceed ${MAX_PERFORMANCE_FEE_PERCENT}%`;
+    }
+    return null;
+  }
+
+  /**
+   * Validate follower allocation settings before copying a leader. The accepted performance
+   * fee is checked by the backend against the leader's current fee, not here.
+   */
+  validateAllocation(input: CopyBotInput): string | null {
+    if (input.allocation_amount !== undefined) {
+      if (input.allocation_amount <= 0) {
+        return 'Allocation must be greater than 0';
+      }
+    }
+    if (input.allocation_mode === 'proportional') {
+      if (!input.allocation_amount) {
+        return 'Proportional sizing needs an allocation amount';
+      }
+      if (
+        input.size_multiplier !== undefined &&
+        (input.size_multiplier <= 0 || input.size_multiplier > 5)
+      ) {
+        return 'Size multiplier must be between 0 and 5';
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Size of the follower's copy of a leader trade, in USDT
+   */
+  previewCopySize(
+    leader: TradingBot,
+    leaderTradeSize: number,
+    input: Pick<
+      CopyBotInput,
+      'allocation_mode' | 'allocation_amount' | 'size_multiplier' | 'position_size_percent'
+    >,
+  ): number {
+    const allocation = input.allocation_amount ?? 0;
+    if (allocation <= 0) return 0;
+
+    if (input.allocation_mode === 'proportional') {
+      const leaderBalance = leader.current_balance || leader.starting_balance;
+      if (leaderBalance <= 0) return 0;
+      return (leaderTradeSize / leaderBalance) * allocation * (input.size_multiplier ?? 1);
+    }
+
+    const sizePercent = input.position_size_percent ?? leader.position_size_percent ?? 100;
+    return (allocation * sizePercent) / 100;
+  }
+
+  /**
+   * Fee owed on follower equity above the high-water mark; losses must be recovered first
+   */
+  previewPerformanceFee(
+    equity: number,
+    highWaterMark: number,
+    feePercent: number,
+  ): PerformanceFeePreview {
+    const chargeableProfit = Math.max(0, equity - highWaterMark);
+    return {
+      chargeable_profit: chargeableProfit,
+      fee_amount: (chargeableProfit * feePercent) / 100,
+      new_high_water_mark: Math.max(highWaterMark, equity),
+    };
+  }
+
+  getTrackRecord(leader: LeaderProfile, now: number = Date.now()): LeaderTrackRecord {
+    const { bot, statistics } = leader;
+    const startedAt = Date.parse(bot.started_at ?? bot.created_at);
+    const ageDays = Math.max(0, Math.floor((now - startedAt) / DAY_MS));
+    const staleDays = (now - Date.parse(statistics.last_updated)) / DAY_MS;
+
+    const unverifiedReasons: string[] = [];
+    if (bot.execution_mode === 'paper') {
+      unverifiedReasons.push('Paper trading only');
+    }
+    if (statistics.total_trades < VERIFIED_MIN_TRADES) {
+      unverifiedReasons.push(`Fewer than ${VERIFIED_MIN_TRADES} trades`);
+    }
+    if (ageDays < VERIFIED_MIN_AGE_DAYS) {
+      unverifiedReasons.push(`Running for less than ${VERIFIED_MIN_AGE_DAYS} days`);
+    }
+    if (!(staleDays <= VERIFIED_MAX_STALENESS_DAYS)) {
+      unverifiedReasons.push('Statistics are out of date');
+    }
+
+    return {
+      return_percent:
+        bot.starting_balance > 0 ? (statistics.total_pnl / bot.starting_balance) * 100 : 0,
+      age_days: ageDays,
+      max_drawdown_percent: Math.abs(statistics.max_drawdown),
+      is_verified: unverifiedReasons.length === 0,
+      unverified_reasons: unverifiedReasons,
+    };
+  }
+}
+
+export const copyTradingService = new CopyTradingService();
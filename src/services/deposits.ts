@@ -1,6 +1,15 @@
 import api from './api';
 import { isAxiosError } from 'axios';
 import QRCode from 'qrcode';
+import {
+  DepositCurrency,
+  NetworkConfig,
+  NetworkOs,
+  NetworkType,
+  networkRegistry,
+} from './networks';
+
+export type { DepositCurrency, NetworkOs, NetworkType } from './networks';
 
 // API response wrapper
 interface ApiResponse<T> {
@@ -20,13 +29,6 @@ export interface DepositAddress {
   updated_at: string;
 }
 
-// Network type for deposits
-export type NetworkType = 'polygon';
-export type NetworkOs = 'evm';
-
-// Currency type for deposits
-export type DepositCurrency = 'USDT' | 'POL';
-
 // Deposit address request
 export interface CreateDepositAddressRequest {
   currency: DepositCurrency;
@@ -41,6 +43,42 @@ export interface DepositQRCode {
   currency: string;
 }
 
+// On-chain deposit seen by the chain watcher before it is credited to the wallet.
+// underpaid and wrong_token deposits are held for manual review by support.
+export type PendingDepositStatus =
+  | 'detected'
+  | 'confirming'
+  | 'credited'
+  | 'underpaid'
+  | 'wrong_token'
+  | 'failed';
+
+export interface PendingDeposit {
+  id: string;
+  user_id: string;
+  address: string;
+  network: NetworkType;
+  tx_hash: string;
+  currency: string; // Token symbol as seen on chain, may be outside DepositCurrency for wrong_token
+  token_contract?: string;
+  amount: number;
+  confirmations: number;
+  required_confirmations: number;
+  status: PendingDepositStatus;
+  issue?: string; // Why the deposit was not credited
+  support_reference?: string; // Quote this when contacting support
+  transaction_id?: string; // Wallet transaction once credited
+  detected_at: string;
+  credited_at?: string;
+  updated_at: string;
+}
+
+export const DEPOSIT_ISSUE_STATUSES: PendingDepositStatus[] = [
+  'underpaid',
+  'wrong_token',
+  'failed',
+];
+
 class DepositService {
   // Get or create deposit address for a specific currency/network
   async getOrCreateDepositAddress(
@@ -94,6 +132,64 @@ class DepositService {
     }
   }
 
+  // Get deposits detected on chain in the last days, credited or not
+  async getPendingDeposits(): Promise<PendingDeposit[]> {
+    try {
+      const response =
+        await api.get<ApiResponse<{ deposits: PendingDeposit[] }>>('/deposits/pending');
+
+      if (!response.data?.success || !response.data.data) {
+        throw new Error(response.data?.message || 'Failed to get pending deposits');
+      }
+
+      return response.data.data.deposits || [];
+    } catch (error) {
+      console.error('Get pending deposits error:', error);
+      if (isAxiosError(error)) {
+        // Chain watcher has nothing for this user yet
+        if (error.response?.status === 404) {
+          return [];
+        }
+        if (error.response?.data?.message) {
+          throw new Error(error.response.data.message);
+        }
+      }
+      throw new Error('Failed to get pending deposits');
+    }
+  }
+
+  isDepositIssue(deposit: PendingDeposit): boolean {
+    return DEPOSIT_ISSUE_STATUSES.includes(deposit.status);
+  }
+
+  // Estimated time the deposit is credited, from the remaining confirmations and block time
+  getExpectedCreditTime(deposit: PendingDeposit, now: number = Date.now()): Date | null {
+    if (deposit.status !== 'detected' && deposit.status !== 'confirming') {
+      return null;
+    }
+    const network = networkRegistry.get(deposit.network);
+    const remaining = Math.max(deposit.required_confirmations - deposit.confirmations, 0);
+    return new Date(now + remaining * (network?.block_time_seconds ?? 15) * 1000);
+  }
+
+  // Plain-text summary to paste into a support ticket for a deposit that was not credited
+  getSupportTicketText(deposit: PendingDeposit): string {
+    const network = networkRegistry.get(deposit.network);
+    const lines = [
+      `Deposit issue: ${deposit.status.replace('_', ' ')}`,
+      deposit.support_reference && `Reference: ${deposit.support_reference}`,
+      `Network: ${network?.name ?? deposit.network}`,
+      `Token: ${deposit.currency}${deposit.token_contract ? ` (${deposit.token_contract})` : ''}`,
+      `Amount: ${deposit.amount}`,
+      `Transaction: ${deposit.tx_hash}`,
+      `Explorer: ${this.getExplorerUrl(deposit.network, deposit.tx_hash, 'tx')}`,
+      `Deposit address: ${deposit.address}`,
+      `Detected: ${new Date(deposit.detected_at).toISOString()}`,
+      deposit.issue && `Details: ${deposit.issue}`,
+    ];
+    return lines.filter(Boolean).join('\n');
+  }
+
   // Get deposit address by chain type
   async getDepositAddressByChain(chainType: NetworkType): Promise<DepositAddress | null> {
     try {
@@ -135,30 +231,25 @@ class DepositService {
     }
   }
 
-  // Create QR code data string
+  // Create QR code data string. EVM chains use an EIP-681 URI so wallets pick the right
+  // chain and token; other chains get the bare address.
   private createQRData(
     address: string,
     currency: DepositCurrency,
     network: string,
     amount?: number,
   ): string {
-    let qrData = '';
-
-    switch (network.toLowerCase()) {
-      case 'polygon':
-        if (currency === 'POL') {
-          qrData = `ethereum:${address}`;
-        } else {
-          // For USDT on Polygon, include contract address
-          const usdtContract = '0xc2132D05D31c914a87C6611C10748AEb04B58e8F';
-          qrData = `ethereum:${usdtContract}/transfer?address=${address}`;
-        }
-        break;
-      default:
-        qrData = address;
+    const config = networkRegistry.get(network.toLowerCase() as NetworkType);
+    let qrData = address;
+
+    if (config?.os === 'evm') {
+      const contract = config.token_contracts[currency];
+      qrData = contract
+        ? `ethereum:${contract}@${config.chain_id}/transfer?address=${address}`
+        : `ethereum:${address}@${config.chain_id}`;
     }
 
-    if (amount && amount > 0) {
+    if (amount && amount > 0 && config?.os === 'evm') {
       qrData += `${qrData.includes('?') ? '&' : '?'}value=${amount}`;
     }
 
@@ -187,48 +278,23 @@ class DepositService {
   }
 
   // Get supported networks
-  getSupportedNetworks(): {
-    id: number;
-    name: string;
-    type: NetworkType;
-    os: NetworkOs;
-    currencies: DepositCurrency[];
-  }[] {
-    return [
-      {
-        id: 137,
-        name: 'Polygon',
-        type: 'polygon',
-        os: 'evm',
-        currencies: ['USDT', 'POL'],
-      },
-    ];
+  getSupportedNetworks(): NetworkConfig[] {
+    return networkRegistry.getAll();
   }
 
   // Get network by chain ID
-  getNetworkByChainId(
-    chainId: number,
-  ): { id: number; name: string; type: NetworkType; currencies: DepositCurrency[] } | null {
-    return this.getSupportedNetworks().find(network => network.id === chainId) || null;
+  getNetworkByChainId(chainId: number): NetworkConfig | null {
+    return networkRegistry.getByChainId(chainId) || null;
   }
 
   // Get currencies for a network
   getCurrenciesForNetwork(networkType: NetworkType): DepositCurrency[] {
-    const network = this.getSupportedNetworks().find(n => n.type === networkType);
-    return network?.currencies || [];
+    return networkRegistry.get(networkType)?.currencies || [];
   }
 
   // Validate deposit address format
   validateDepositAddress(address: string, network: NetworkType): boolean {
-    // Basic Ethereum address validation (works for Polygon too)
-    const ethAddressRegex = /^0x[a-fA-F0-9]{40}$/;
-
-    switch (network) {
-      case 'polygon':
-        return ethAddressRegex.test(address);
-      default:
-        return false;
-    }
+    return networkRegistry.validateAddress(address, network);
   }
 
   // Get network explorer URL
@@ -237,39 +303,32 @@ class DepositService {
     address: string,
     type: 'address' | 'tx' = 'address',
   ): string {
-    const baseUrls: Record<NetworkType, string> = {
-      polygon: 'https://polygonscan.com',
-    };
-
-    const baseUrl = baseUrls[network];
-    if (!baseUrl) return '';
-
-    return `${baseUrl}/${type}/${address}`;
+    return networkRegistry.getExplorerUrl(network, address, type);
   }
 
   // Get minimum deposit amounts
-  getMinimumDepositAmount(currency: DepositCurrency): number {
-    const minimums: Record<DepositCurrency, number> = {
-      USDT: 1, // 1 USDT minimum
-      POL: 0.1, // 0.1 POL minimum
-    };
-
-    return minimums[currency] || 0;
+  getMinimumDepositAmount(currency: DepositCurrency, network: NetworkType): number {
+    return networkRegistry.getMinimumDeposit(currency, network);
   }
 
   // Format deposit instructions
   getDepositInstructions(currency: DepositCurrency, network: NetworkType): string[] {
+    const config = networkRegistry.get(network);
+    const networkName = config?.name ?? network;
     const instructions = [
       `Send only ${currency} tokens to this address.`,
       `Sending other tokens may result in permanent loss.`,
-      `Network: ${network.charAt(0).toUpperCase() + network.slice(1)}`,
-      `Minimum deposit: ${this.getMinimumDepositAmount(currency)} ${currency}`,
-      'Deposits are credited after network confirmations.',
-      'Processing time: 5-30 minutes depending on network congestion.',
+      `Network: ${networkName}. Deposits sent on any other network are lost.`,
+      `Minimum deposit: ${this.getMinimumDepositAmount(currency, network)} ${currency}`,
+      `Deposits are credited after ${config?.confirmations ?? 'network'} confirmations.`,
+      `Processing time: ${config?.estimated_time ?? '5-30 minutes'} depending on network congestion.`,
     ];
 
-    if (currency === 'USDT' && network === 'polygon') {
-      instructions.push('Make sure to use Polygon USDT contract address.');
+    const contract = config?.token_contracts[currency];
+    if (contract) {
+      instructions.push(
+        `Use ${currency} ${config.token_standard} on ${networkName} (contract ${contract}).`,
+      );
     }
 
     return instructions;
@@ -42,6 +42,8 @@ export interface MaskedExchangeCredentials {
   connection_status: 'connected' | 'disconnected' | 'error';
   last_connected?: string;
   permissions: string[];
+  ip_restricted?: boolean; // Whether the exchange reports an IP whitelist on the key
+  expires_at?: string; // Set for keys the exchange expires, e.g. unrestricted Binance keys
   created_at: string;
   updated_at: string;
 }
@@ -73,6 +75,57 @@ export interface TestConnectionResult {
   };
 }
 
+export type ExchangeMarket = 'spot' | 'futures';
+
+export interface ExchangeAssetBalance {
+  asset: string;
+  free: number;
+  locked: number; // Held by open orders or used as margin
+  total: number;
+  usd_value?: number;
+}
+
+export interface ExchangeOpenOrder {
+  id: string;
+  symbol: string;
+  market: ExchangeMarket;
+  side: 'buy' | 'sell';
+  type: string; // Exchange order type, e.g. "limit", "stop_market"
+  price?: number; // Absent for market orders
+  stop_price?: number;
+  quantity: number;
+  filled_quantity: number;
+  reduce_only?: boolean;
+  client_order_id?: string;
+  bot_id?: string; // Set when the order was placed by one of the user's bots
+  created_at: string;
+}
+
+export interface ExchangePosition {
+  symbol: string;
+  side: 'long' | 'short';
+  size: number; // Base asset quantity
+  entry_price: number;
+  mark_price: number;
+  unrealized_pnl: number;
+  leverage?: number;
+  liquidation_price?: number;
+  margin_mode?: 'cross' | 'isolated';
+}
+
+// What is on the exchange right now, read with the credential's API key
+export interface ExchangeAccountSnapshot {
+  credential_id: string;
+  spot_balances: ExchangeAssetBalance[];
+  futures_balances: ExchangeAssetBalance[];
+  open_orders: ExchangeOpenOrder[];
+  positions: ExchangePosition[]; // Futures positions
+  total_usd_value?: number;
+  fetched_at: string;
+  // Parts the exchange refused, e.g. futures on a spot-only key
+  errors?: Partial<Record<'spot' | 'futures' | 'orders' | 'positions', string>>;
+}
+
 class ExchangeService {
   async createExchangeCredentials(
     input: CreateExchangeCredentialsInput,
@@ -198,6 +251,35 @@ class ExchangeService {
     }
   }
 
+  async getAccountSnapshot(id: string): Promise<ExchangeAccountSnapshot> {
+    try {
+      const response = await api.get<ApiResponse<ExchangeAccountSnapshot>>(
+        `/exchange-configs/${id}/account`,
+      );
+      if (response.data.success && response.data.data) {
+        const snapshot = response.data.data;
+        return {
+          ...snapshot,
+          spot_balances: snapshot.spot_balances || [],
+          futures_balances: snapshot.futures_balances || [],
+          open_orders: snapshot.open_orders || [],
+          positions: snapshot.positions || [],
+        };
+      }
+      const errorObj = response.data.error;
+      const errorMessage =
+        errorObj?.details || errorObj?.message || 'Failed to load exchange account';
+      throw new Error(errorMessage);
+    } catch (error) {
+      if (isAxiosError(error)) {
+        const errorObj = error.response?.data?.error;
+        const errorMessage = errorObj?.details || errorObj?.message || error.message;
+        throw new Error(errorMessage);
+      }
+      throw error;
+    }
+  }
+
   async getSupportedExchanges(): Promise<SupportedExchange[]> {
     try {
       const response = await api.get<ApiResponse<SupportedExchange[]>>('/exchanges/supported');
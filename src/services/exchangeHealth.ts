@@ -0,0 +1,358 @@
+import api from './api';
+import { isAxiosError } from 'axios';
+import { ExchangeName, MaskedExchangeCredentials } from './exchange';
+
+// API response wrapper
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: {
+    code: string;
+    message: string;
+    details?: string;
+  };
+  message?: string;
+}
+
+// Health checks, permission auditing and failure handling for exchange API keys.
+// The backend tests every active key on its check interval and pauses bots on failing keys;
+// the client only reads the results.
+
+export type CredentialHealthStatus = 'healthy' | 'degraded' | 'failing' | 'unknown';
+
+export interface CredentialHealthCheck {
+  id: string;
+  credential_id: string;
+  checked_at: string;
+  success: boolean;
+  trigger: 'scheduled' | 'manual';
+  latency_ms?: number;
+  message?: string; // Exchange error on failure
+  permissions?: string[]; // Permissions the exchange reported at check time
+  ip_restricted?: boolean;
+}
+
+export interface CredentialHealthSettings {
+  check_interval_minutes: number;
+  failure_threshold: number; // Consecutive failed checks before a key counts as failing
+  auto_pause_bots: boolean; // Pause running bots bound to a failing key
+  key_rotation_days: number; // Remind to rotate keys older than this
+}
+
+export type KeyWarningCode =
+  | 'withdrawal_permission'
+  | 'missing_ip_whitelist'
+  | 'key_expired'
+  | 'key_expiring'
+  | 'key_age'
+  | 'connection_failing';
+
+export interface KeyWarning {
+  code: KeyWarningCode;
+  severity: 'critical' | 'warning' | 'info';
+  message: string;
+}
+
+export interface IPWhitelistGuidance {
+  supported: boolean;
+  required: boolean;
+  steps: string[];
+}
+
+// A bot the backend paused because its exchange key kept failing health checks
+export interface CredentialFailurePause {
+  credential_id: string;
+  account_name: string;
+  bot_id: string;
+  bot_name: string;
+  consecutive_failures: number;
+  paused_at: string;
+}
+
+// Address the bot runners connect to exchanges from, as listed on the API security help page
+export const PLATFORM_OUTBOUND_IP = '107.189.19.87';
+
+export const DEFAULT_HEALTH_SETTINGS: CredentialHealthSettings = {
+  check_interval_minutes: 30,
+  failure_threshold: 3,
+  auto_pause_bots: true,
+  key_rotation_days: 90,
+};
+
+export const IP_WHITELIST_GUIDANCE: Record<ExchangeName, IPWhitelistGuidance> = {
+  binance: {
+    supported: true,
+    required: true,
+    steps: [
+      'Open API Management and click "Edit restrictions" on the key',
+      'Select "Restrict access to trusted IPs only"',
+      `Add ${PLATFORM_OUTBOUND_IP} and save`,
+      'Binance periodically revokes unrestricted keys that can trade, which stops the bots',
+    ],
+  },
+  bybit: {
+    supported: true,
+    required: false,
+    steps: [
+      'Open API Management and edit the key',
+      'Choose "Only IPs with permissions granted are allowed to access the OpenAPI"',
+      `Enter ${PLATFORM_OUTBOUND_IP} and confirm`,
+      'Bybit keys without an IP restriction expire after 3 months',
+    ],
+  },
+  okx: {
+    supported: true,
+    required: false,
+    steps: [
+      'Open API on the OKX account page and edit the key',
+      `Link the IP address ${PLATFORM_OUTBOUND_IP}`,
+      'Trading keys without a linked IP are deleted after 14 days without use',
+    ],
+  },
+  bitget: {
+    supported: true,
+    required: false,
+    steps: ['Open API Management and edit the key', `Bind the IP address ${PLATFORM_OUTBOUND_IP}`],
+  },
+  hyperliquid: {
+    supported: false,
+    required: false,
+    steps: [
+      'Hyperliquid API wallets cannot be restricted by IP',
+      'Use a dedicated API wallet for the bots and revoke it when you stop trading',
+    ],
+  },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Warn this long before an exchange-side expiry
+const EXPIRY_WARNING_DAYS = 14;
+const WITHDRAWAL_PERMISSION_PATTERN = /withdraw|transfer/i;
+
+class ExchangeHealthService {
+  async getHealthHistory(credentialId: string, limit = 30): Promise<CredentialHealthCheck[]> {
+    try {
+      const response = await api.get<ApiResponse<CredentialHealthCheck[]>>(
+        `/exchange-configs/${credentialId}/health-checks?limit=${limit}`,
+      );
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      return [];
+    } catch (error) {
+      if (isAxiosError(error)) {
+        // Not checked yet
+        if (error.response?.status === 404) {
+          return [];
+        }
+        const errorObj = error.response?.data?.error;
+        const errorMessage = errorObj?.details || errorObj?.message || error.message;
+        throw new Error(errorMessage);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Bots paused automatically because of failing keys, newest first
+   */
+  async getFailurePauses(limit = 20): Promise<CredentialFailurePause[]> {
+    try {
+      const response = await api.get<ApiResponse<CredentialFailurePause[]>>(
+        `/exchange-configs/health-pauses?limit=${limit}`,
+      );
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      return [];
+    } catch (error) {
+      if (isAxiosError(error)) {
+        // Nothing paused yet
+        if (error.response?.status === 404) {
+          return [];
+        }
+        const errorObj = error.response?.data?.error;
+        const errorMessage = errorObj?.details || errorObj?.message || error.message;
+        throw new Error(errorMessage);
+      }
+      throw error;
+    }
+  }
+
+  async getHealthSettings(): Promise<CredentialHealthSettings> {
+    try {
+      const response = await api.get<ApiResponse<CredentialHealthSettings>>(
+        '/exchange-configs/health-settings',
+      );
+      if (response.data.success && response.data.data) {
+        return { ...DEFAULT_HEALTH_SETTINGS, ...response.data.data };
+      }
+      return DEFAULT_HEALTH_SETTINGS;
+    } catch (error) {
+      if (isAxiosError(error)) {
+        // Never saved, use the defaults
+        if (error.response?.status === 404) {
+          return DEFAULT_HEALTH_SETTINGS;
+        }
+        const errorObj = error.response?.data?.error;
+        const errorMessage = errorObj?.details || errorObj?.message || error.message;
+        throw new Error(errorMessage);
+      }
+      throw error;
+    }
+  }
+
+  async updateHealthSettings(input: CredentialHealthSettings): Promise<CredentialHealthSettings> {
+    const validationError = this.validateHealthSettings(input);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    try {
+      const response = await api.put<ApiResponse<CredentialHealthSettings>>(
+        '/exchange-configs/health-settings',
+        input,
+      );
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      const errorObj = response.data.error;
+      const errorMessage =
+        errorObj?.details || errorObj?.message || 'Failed to save key health settings';
+      throw new Error(errorMessage);
+    } catch (error) {
+      if (isAxiosError(error)) {
+        const errorObj = error.response?.data?.error;
+        const errorMessage = errorObj?.details || errorObj?.message || error.message;
+        throw new Error(errorMessage);
+      }
+      throw error;
+    }
+  }
+
+  validateHealthSettings(settings: CredentialHealthSettings): string | null {
+    if (
+      !Number.isInteger(settings.check_interval_minutes) ||
+      settings.check_interval_minutes < 5 ||
+      settings.check_interval_minutes > 1440
+    ) {
+      return 'Check interval must be between 5 and 1440 minutes';
+    }
+    if (
+      !Number.isInteger(settings.failure_threshold) ||
+      settings.failure_threshold < 1 ||
+      settings.failure_threshold > 20
+    ) {
+      return 'Failure threshold must be between 1 and 20 checks';
+    }
+    if (
+      !Number.isInteger(settings.key_rotation_days) ||
+      settings.key_rotation_days < 7 ||
+      settings.key_rotation_days > 365
+    ) {
+      return 'Key rotation reminder must be between 7 and 365 days';
+    }
+    return null;
+  }
+
+  /**
+   * Failed checks since the last successful one. History is newest first.
+   */
+  consecutiveFailures(history: CredentialHealthCheck[]): number {
+    const index = history.findIndex(check => check.success);
+    return index === -1 ? history.length : index;
+  }
+
+  getHealthStatus(
+    credential: MaskedExchangeCredentials,
+    history: CredentialHealthCheck[],
+    settings: CredentialHealthSettings = DEFAULT_HEALTH_SETTINGS,
+  ): CredentialHealthStatus {
+    const failures = this.consecutiveFailures(history);
+    if (failures >= settings.failure_threshold) return 'failing';
+    if (failures > 0 || credential.connection_status === 'error') return 'degraded';
+    if (history.length > 0 || credential.connection_status === 'connected') return 'healthy';
+    return 'unknown';
+  }
+
+  keyAgeDays(credential: MaskedExchangeCredentials, now = Date.now()): number {
+    return Math.floor((now - new Date(credential.created_at).getTime()) / DAY_MS);
+  }
+
+  /**
+   * Permission, IP whitelist, expiry and connection problems of a key, most severe first
+   */
+  auditCredential(
+    credential: MaskedExchangeCredentials,
+    history: CredentialHealthCheck[] = [],
+    settings: CredentialHealthSettings = DEFAULT_HEALTH_SETTINGS,
+    now = Date.now(),
+  ): KeyWarning[] {
+    const warnings: KeyWarning[] = [];
+    // The latest check reflects changes made on the exchange since the key was added
+    const latest = history[0];
+    const permissions = latest?.permissions ?? credential.permissions ?? [];
+    const ipRestricted = latest?.ip_restricted ?? credential.ip_restricted;
+
+    const withdrawal = permissions.filter(permission =>
+      WITHDRAWAL_PERMISSION_PATTERN.test(permission),
+    );
+    if (withdrawal.length > 0) {
+      warnings.push({
+        code: 'withdrawal_permission',
+        severity: 'critical',
+        message: `This key has ${withdrawal.join(', ')} permission. Bots never need it; disable it on the exchange so a leaked key cannot move funds.`,
+      });
+    }
+
+    if (this.getHealthStatus(credential, history, settings) === 'failing') {
+      const failures = this.consecutiveFailures(history);
+      warnings.push({
+        code: 'connection_failing',
+        severity: 'critical',
+        message: `The last ${failures} health checks failed${latest?.message ? `: ${latest.message}` : ''}.`,
+      });
+    }
+
+    if (credential.expires_at) {
+      const daysLeft = Math.ceil((new Date(credential.expires_at).getTime() - now) / DAY_MS);
+      if (daysLeft <= 0) {
+        warnings.push({
+          code: 'key_expired',
+          severity: 'critical',
+          message: 'The exchange has expired this key. Create a new one and replace it here.',
+        });
+      } else if (daysLeft <= EXPIRY_WARNING_DAYS) {
+        warnings.push({
+          code: 'key_expiring',
+          severity: 'warning',
+          message: `The exchange expires this key in ${daysLeft} day${daysLeft === 1 ? '' : 's'}.`,
+        });
+      }
+    }
+
+    const guidance = IP_WHITELIST_GUIDANCE[credential.exchange];
+    if (guidance?.supported && ipRestricted === false) {
+      warnings.push({
+        code: 'missing_ip_whitelist',
+        severity: guidance.required ? 'critical' : 'warning',
+        message: guidance.required
+          ? `Trading will fail until ${PLATFORM_OUTBOUND_IP} is whitelisted on this key.`
+          : `Restrict this key to ${PLATFORM_OUTBOUND_IP} so it is useless if leaked.`,
+      });
+    }
+
+    const ageDays = this.keyAgeDays(credential, now);
+    if (ageDays >= settings.key_rotation_days) {
+      warnings.push({
+        code: 'key_age',
+        severity: 'info',
+        message: `This key is ${ageDays} days old. Consider rotating it.`,
+      });
+    }
+
+    return warnings;
+  }
+}
+
+export const exchangeHealthService = new ExchangeHealthService();
@@ -82,6 +82,33 @@ export interface TransactionSummary {
   last_transaction_date?: string;
 }
 
+// Low-balance alerts and automatic top-up. The backend checks the forecast and buys the package;
+// every invoice it creates counts towards max_top_ups_per_day, paid or not.
+export interface FuelTopUpSettings {
+  alert_below_days: number; // Warn when the forecast drops below this many days
+  auto_top_up: boolean;
+  top_up_below_days: number; // Buy a package when the forecast drops below this many days
+  package_id?: string;
+  payment_currency?: string; // Wallet currency to pay with; empty picks the first that covers the price
+  max_top_ups_per_day: number;
+}
+
+export const DEFAULT_TOP_UP_SETTINGS: FuelTopUpSettings = {
+  alert_below_days: 3,
+  auto_top_up: false,
+  top_up_below_days: 1,
+  max_top_ups_per_day: 1,
+};
+
+// One automatic top-up attempt made by the backend
+export interface FuelTopUpRun {
+  id: string;
+  status: 'paid' | 'unpaid' | 'skipped';
+  message: string;
+  invoice_id?: string; // Set when an invoice was created, paid or not
+  created_at: string;
+}
+
 class FuelService {
   // Get user's fuel balance
   async getFuelBalance(): Promise<FuelBalance> {
@@ -210,6 +237,103 @@ class FuelService {
       throw error;
     }
   }
+
+  async getTopUpSettings(): Promise<FuelTopUpSettings> {
+    try {
+      const response = await api.get<ApiResponse<FuelTopUpSettings>>('/fuel/top-up-settings');
+
+      if (!response.data || !response.data.success || !response.data.data) {
+        return DEFAULT_TOP_UP_SETTINGS;
+      }
+
+      return { ...DEFAULT_TOP_UP_SETTINGS, ...response.data.data };
+    } catch (error) {
+      if (isAxiosError(error)) {
+        // Never saved, use the defaults
+        if (error.response?.status === 404) {
+          return DEFAULT_TOP_UP_SETTINGS;
+        }
+        throw new Error(
+          error.response?.data?.message || error.message || 'Failed to get top-up settings',
+        );
+      }
+      throw error;
+    }
+  }
+
+  async updateTopUpSettings(settings: FuelTopUpSettings): Promise<FuelTopUpSettings> {
+    const validationError = this.validateTopUpSettings(settings);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    try {
+      const response = await api.put<ApiResponse<FuelTopUpSettings>>(
+        '/fuel/top-up-settings',
+        settings,
+      );
+
+      if (!response.data || !response.data.success || !response.data.data) {
+        throw new Error(response.data?.message || 'Failed to save top-up settings');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Update top-up settings error:', error);
+      if (isAxiosError(error)) {
+        throw new Error(
+          error.response?.data?.message || error.message || 'Failed to save top-up settings',
+        );
+      }
+      throw error;
+    }
+  }
+
+  validateTopUpSettings(settings: FuelTopUpSettings): string | null {
+    if (!(settings.alert_below_days > 0) || settings.alert_below_days > 90) {
+      return 'Alert threshold must be between 0 and 90 days';
+    }
+    if (settings.auto_top_up) {
+      if (!settings.package_id) {
+        return 'Choose the fuel package to buy';
+      }
+      if (!(settings.top_up_below_days > 0) || settings.top_up_below_days > 30) {
+        return 'Top-up threshold must be between 0 and 30 days';
+      }
+      if (
+        !Number.isInteger(settings.max_top_ups_per_day) ||
+        settings.max_top_ups_per_day < 1 ||
+        settings.max_top_ups_per_day > 10
+      ) {
+        return 'Top-ups per day must be between 1 and 10';
+      }
+    }
+    return null;
+  }
+
+  // Recent automatic top-up attempts, newest first
+  async getTopUpRuns(limit = 10): Promise<FuelTopUpRun[]> {
+    try {
+      const response = await api.get<ApiResponse<FuelTopUpRun[]>>(`/fuel/top-ups?limit=${limit}`);
+
+      if (!response.data || !response.data.success || !response.data.data) {
+        return [];
+      }
+
+      return response.data.data;
+    } catch (error) {
+      if (isAxiosError(error)) {
+        // No top-ups yet
+        if (error.response?.status === 404) {
+          return [];
+        }
+        throw new Error(
+          error.response?.data?.message || error.message || 'Failed to get auto top-ups',
+        );
+      }
+      throw error;
+    }
+  }
 }
 
 // Export singleton instance
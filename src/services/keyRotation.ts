@@ -0,0 +1,150 @@
+import api from './api';
+import { isAxiosError } from 'axios';
+import { ExchangeName, MaskedExchangeCredentials } from './exchange';
+import { TradingBot, tradingBotService } from './tradingBot';
+
+// API response wrapper
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: {
+    code: string;
+    message: string;
+    details?: string;
+  };
+  message?: string;
+}
+
+// Replacing the API key behind running bots without re-creating them. The backend runs the
+// whole rotation and writes its audit record, so closing the tab cannot leave bots half moved.
+
+export type RotationStepName =
+  | 'test_new_key'
+  | 'pause_bot'
+  | 'repoint_bot'
+  | 'deactivate_old_key'
+  | 'resume_bot';
+
+export interface RotationStep {
+  step: RotationStepName;
+  status: 'succeeded' | 'failed';
+  bot_id?: string;
+  bot_name?: string;
+  message?: string;
+  at: string;
+}
+
+// failed: no bot was moved, since all bots are re-pointed in one transaction;
+// completed_with_errors: bots use the new key but a later step (deactivate, resume) failed
+export type KeyRotationStatus = 'completed' | 'completed_with_errors' | 'failed';
+
+export interface KeyRotation {
+  id: string;
+  user_id: string;
+  exchange: ExchangeName;
+  old_credential_id: string;
+  old_account_name: string;
+  new_credential_id: string;
+  new_account_name: string;
+  bot_ids: string[];
+  status: KeyRotationStatus;
+  steps: RotationStep[];
+  error?: string; // Why the rotation stopped when it did not complete
+  started_at: string;
+  completed_at: string;
+}
+
+class KeyRotationService {
+  async getRotations(credentialId?: string): Promise<KeyRotation[]> {
+    try {
+      const query = credentialId ? `?credential_id=${credentialId}` : '';
+      const response = await api.get<ApiResponse<KeyRotation[]>>(
+        `/exchange-configs/rotations${query}`,
+      );
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      return [];
+    } catch (error) {
+      if (isAxiosError(error)) {
+        // No rotations yet
+        if (error.response?.status === 404) {
+          return [];
+        }
+        const errorObj = error.response?.data?.error;
+        const errorMessage = errorObj?.details || errorObj?.message || error.message;
+        throw new Error(errorMessage);
+      }
+      throw error;
+    }
+  }
+
+  validateRotation(
+    oldCredential: MaskedExchangeCredentials,
+    newCredential: MaskedExchangeCredentials | undefined,
+  ): string | null {
+    if (!newCredential) {
+      return 'Select the new API key';
+    }
+    if (newCredential.id === oldCredential.id) {
+      return 'The new key must be different from the old one';
+    }
+    if (newCredential.exchange !== oldCredential.exchange) {
+      return 'The new key must be for the same exchange';
+    }
+    if (newCredential.is_testnet !== oldCredential.is_testnet) {
+      return oldCredential.is_testnet
+        ? 'The new key must also be a testnet key'
+        : 'The new key must be a mainnet key';
+    }
+    if (!newCredential.is_active) {
+      return 'The new key is deactivated';
+    }
+    return null;
+  }
+
+  /**
+   * Every bot bound to the key, whatever its status, so none is left on a deactivated key
+   */
+  async getAffectedBots(credentialId: string): Promise<TradingBot[]> {
+    const bots = await tradingBotService.getUserBots();
+    return bots.filter(bot => bot.exchange_credentials_id === credentialId);
+  }
+
+  /**
+   * Rotate on the backend: it tests the new key, pauses running bots, re-points every bot in
+   * one transaction, deactivates the old key, resumes the bots and records each step.
+   * Resolves with the recorded rotation, also when it failed; rejects only if it never started.
+   */
+  async rotateKey(
+    oldCredential: MaskedExchangeCredentials,
+    newCredential: MaskedExchangeCredentials,
+  ): Promise<KeyRotation> {
+    const validationError = this.validateRotation(oldCredential, newCredential);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    try {
+      const response = await api.post<ApiResponse<KeyRotation>>(
+        `/exchange-configs/${oldCredential.id}/rotate`,
+        { new_credential_id: newCredential.id },
+      );
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      const errorObj = response.data.error;
+      const errorMessage = errorObj?.details || errorObj?.message || 'Failed to rotate key';
+      throw new Error(errorMessage);
+    } catch (error) {
+      if (isAxiosError(error)) {
+        const errorObj = error.response?.data?.error;
+        const errorMessage = errorObj?.details || errorObj?.message || error.message;
+        throw new Error(errorMessage);
+      }
+      throw error;
+    }
+  }
+}
+
+export const keyRotationService = new KeyRotationService();
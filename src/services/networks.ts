@@ -0,0 +1,226 @@
+import { isEvmAddress, isTronAddress } from '@/utils/addressFormats';
+
+// Chains the wallet can receive and send on
+export type NetworkType = 'polygon' | 'ethereum' | 'bsc' | 'arbitrum' | 'tron';
+
+// Address family. EVM chains share one deposit address per user, Tron has its own.
+export type NetworkOs = 'evm' | 'tron';
+
+// Currency type for deposits
+export type DepositCurrency = 'USDT' | 'POL';
+
+export interface NetworkFeeDefault {
+  amount: number;
+  currency: DepositCurrency;
+}
+
+export interface NetworkConfig {
+  type: NetworkType;
+  name: string;
+  chain_id: number; // EVM chain id; Tron uses its mainnet id 0x2b6653dc
+  os: NetworkOs;
+  native_currency: string; // Gas token, e.g. ETH, BNB, TRX
+  token_standard: string; // Shown next to token names, e.g. ERC-20, TRC-20
+  currencies: DepositCurrency[];
+  token_contracts: Partial<Record<DepositCurrency, string>>; // Absent for the chain's native coin
+  min_deposit: Partial<Record<DepositCurrency, number>>;
+  min_withdrawal: Partial<Record<DepositCurrency, number>>;
+  default_withdrawal_fee: Partial<Record<DepositCurrency, NetworkFeeDefault>>; // When the fee API is down
+  confirmations: number; // Blocks before a deposit is credited
+  block_time_seconds: number; // Average, for credit time estimates
+  estimated_time: string;
+  fee_estimate: string;
+  explorer_name: string;
+  explorer_address_url: string; // {address} is replaced
+  explorer_tx_url: string; // {hash} is replaced
+  address_placeholder: string;
+  badge_class: string;
+  icon: string;
+}
+
+const ADDRESS_VALIDATORS: Record<NetworkOs, (address: string) => boolean> = {
+  evm: isEvmAddress,
+  tron: isTronAddress,
+};
+
+const DEFAULT_NETWORKS: NetworkConfig[] = [
+  {
+    type: 'polygon',
+    name: 'Polygon',
+    chain_id: 137,
+    os: 'evm',
+    native_currency: 'POL',
+    token_standard: 'ERC-20',
+    currencies: ['USDT', 'POL'],
+    token_contracts: { USDT: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F' },
+    min_deposit: { USDT: 1, POL: 0.1 },
+    min_withdrawal: { USDT: 1, POL: 0.1 },
+    default_withdrawal_fee: {
+      USDT: { amount: 1, currency: 'POL' },
+      POL: { amount: 0.01, currency: 'POL' },
+    },
+    confirmations: 20,
+    block_time_seconds: 2,
+    estimated_time: '2-5 minutes',
+    fee_estimate: '~$0.01',
+    explorer_name: 'PolygonScan',
+    explorer_address_url: 'https://polygonscan.com/address/{address}',
+    explorer_tx_url: 'https://polygonscan.com/tx/{hash}',
+    address_placeholder: '0x…',
+    badge_class: 'text-purple-600 bg-purple-50 border-purple-200',
+    icon: '🟣',
+  },
+  {
+    type: 'tron',
+    name: 'Tron',
+    chain_id: 728126428,
+    os: 'tron',
+    native_currency: 'TRX',
+    token_standard: 'TRC-20',
+    currencies: ['USDT'],
+    token_contracts: { USDT: 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t' },
+    min_deposit: { USDT: 1 },
+    min_withdrawal: { USDT: 5 },
+    default_withdrawal_fee: { USDT: { amount: 1, currency: 'USDT' } },
+    confirmations: 19,
+    block_time_seconds: 3,
+    estimated_time: '1-3 minutes',
+    fee_estimate: '~$1',
+    explorer_name: 'Tronscan',
+    explorer_address_url: 'https://tronscan.org/#/address/{address}',
+    explorer_tx_url: 'https://tronscan.org/#/transaction/{hash}',
+    address_placeholder: 'T…',
+    badge_class: 'text-red-600 bg-red-50 border-red-200',
+    icon: '🔴',
+  },
+  {
+    type: 'bsc',
+    name: 'BNB Smart Chain',
+    chain_id: 56,
+    os: 'evm',
+    native_currency: 'BNB',
+    token_standard: 'BEP-20',
+    currencies: ['USDT'],
+    token_contracts: { USDT: '0x55d398326f99059fF775485246999027B3197955' },
+    min_deposit: { USDT: 1 },
+    min_withdrawal: { USDT: 2 },
+    default_withdrawal_fee: { USDT: { amount: 0.3, currency: 'USDT' } },
+    confirmations: 15,
+    block_time_seconds: 3,
+    estimated_time: '1-3 minutes',
+    fee_estimate: '~$0.10',
+    explorer_name: 'BscScan',
+    explorer_address_url: 'https://bscscan.com/address/{address}',
+    explorer_tx_url: 'https://bscscan.com/tx/{hash}',
+    address_placeholder: '0x…',
+    badge_class: 'text-yellow-600 bg-yellow-50 border-yellow-200',
+    icon: '🟡',
+  },
+  {
+    type: 'arbitrum',
+    name: 'Arbitrum One',
+    chain_id: 42161,
+    os: 'evm',
+    native_currency: 'ETH',
+    token_standard: 'ERC-20',
+    currencies: ['USDT'],
+    token_contracts: { USDT: '0xFd086bC7CD5C481DCC9C85ee9478A1C0b7d6Ac3e' },
+    min_deposit: { USDT: 1 },
+    min_withdrawal: { USDT: 2 },
+    default_withdrawal_fee: { USDT: { amount: 0.3, currency: 'USDT' } },
+    confirmations: 20,
+    block_time_seconds: 0.25,
+    estimated_time: '1-3 minutes',
+    fee_estimate: '~$0.10',
+    explorer_name: 'Arbiscan',
+    explorer_address_url: 'https://arbiscan.io/address/{address}',
+    explorer_tx_url: 'https://arbiscan.io/tx/{hash}',
+    address_placeholder: '0x…',
+    badge_class: 'text-blue-600 bg-blue-50 border-blue-200',
+    icon: '🔵',
+  },
+  {
+    type: 'ethereum',
+    name: 'Ethereum',
+    chain_id: 1,
+    os: 'evm',
+    native_currency: 'ETH',
+    token_standard: 'ERC-20',
+    currencies: ['USDT'],
+    token_contracts: { USDT: '0xdAC17F958D2ee523a2206206994597C13D831ec7' },
+    min_deposit: { USDT: 10 },
+    min_withdrawal: { USDT: 20 },
+    default_withdrawal_fee: { USDT: { amount: 5, currency: 'USDT' } },
+    confirmations: 12,
+    block_time_seconds: 12,
+    estimated_time: '3-10 minutes',
+    fee_estimate: '~$2-10',
+    explorer_name: 'Etherscan',
+    explorer_address_url: 'https://etherscan.io/address/{address}',
+    explorer_tx_url: 'https://etherscan.io/tx/{hash}',
+    address_placeholder: '0x…',
+    badge_class: 'text-indigo-600 bg-indigo-50 border-indigo-200',
+    icon: '⚪',
+  },
+];
+
+/**
+ * Single source of network facts for deposits, withdrawals and crypto invoice payments.
+ * Networks are listed in registration order, cheapest first.
+ */
+class NetworkRegistry {
+  private networks = new Map<NetworkType, NetworkConfig>();
+
+  constructor(networks: NetworkConfig[]) {
+    networks.forEach(network => this.register(network));
+  }
+
+  // Add or replace a network
+  register(network: NetworkConfig): void {
+    this.networks.set(network.type, network);
+  }
+
+  getAll(): NetworkConfig[] {
+    return [...this.networks.values()];
+  }
+
+  get(type: NetworkType): NetworkConfig | undefined {
+    return this.networks.get(type);
+  }
+
+  getByChainId(chainId: number): NetworkConfig | undefined {
+    return this.getAll().find(network => network.chain_id === chainId);
+  }
+
+  getNetworksForCurrency(currency: DepositCurrency): NetworkConfig[] {
+    return this.getAll().filter(network => network.currencies.includes(currency));
+  }
+
+  // Every currency supported on at least one network
+  getCurrencies(): DepositCurrency[] {
+    return [...new Set(this.getAll().flatMap(network => network.currencies))];
+  }
+
+  validateAddress(address: string, type: NetworkType): boolean {
+    const network = this.get(type);
+    return network ? ADDRESS_VALIDATORS[network.os](address.trim()) : false;
+  }
+
+  getExplorerUrl(type: NetworkType, value: string, kind: 'address' | 'tx' = 'address'): string {
+    const network = this.get(type);
+    if (!network) return '';
+    return kind === 'tx'
+      ? network.explorer_tx_url.replace('{hash}', value)
+      : network.explorer_address_url.replace('{address}', value);
+  }
+
+  getMinimumDeposit(currency: DepositCurrency, type: NetworkType): number {
+    return this.get(type)?.min_deposit[currency] ?? 0;
+  }
+
+  getMinimumWithdrawal(currency: DepositCurrency, type: NetworkType): number {
+    return this.get(type)?.min_withdrawal[currency] ?? 0;
+  }
+}
+
+export const networkRegistry = new NetworkRegistry(DEFAULT_NETWORKS);
@@ -0,0 +1,658 @@
+import api from './api';
+import { isAxiosError } from 'axios';
+import { DepositCurrency as Currency, NetworkType } from './deposits';
+import { networkRegistry } from './networks';
+import withdrawalService, {
+  AddressBookEntry,
+  NetworkFee,
+  WithdrawalAllowlistSettings,
+  WithdrawalLimits,
+  WithdrawalResponse,
+} from './withdrawals';
+import walletService from './wallet';
+import { Weekday } from './tradingBot';
+import { isValidTimezone, TIME_PATTERN, WEEKDAY_LABELS } from '@/utils/botSchedule';
+
+// Batch withdrawals from a CSV upload, and recurring payouts run by the backend on a schedule
+
+// API response wrapper
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  message?: string;
+}
+
+// One payout parsed from a CSV row
+export interface PayoutRow {
+  line: number; // 1-based line in the uploaded file
+  recipient_address: string;
+  amount: number;
+  currency: Currency;
+  network: NetworkType;
+  description?: string;
+}
+
+export interface PayoutCsvError {
+  line: number;
+  message: string;
+}
+
+export interface PayoutRowPreview extends PayoutRow {
+  fee?: NetworkFee;
+  errors: string[];
+  warnings: string[];
+}
+
+// Amounts leaving one wallet. Fees count against the wallet of their fee currency.
+export interface PayoutCurrencyTotal {
+  currency: Currency;
+  amount: number;
+  fees: number;
+  available: number;
+  limits?: WithdrawalLimits;
+}
+
+export interface PayoutBatchPreview {
+  rows: PayoutRowPreview[];
+  totals: PayoutCurrencyTotal[];
+  errors: string[]; // Batch-wide problems such as exceeding the daily limit
+}
+
+export type PayoutBatchStatus =
+  | 'pending'
+  | 'processing'
+  | 'completed'
+  | 'partially_completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface PayoutBatchItem {
+  id: string;
+  line?: number;
+  recipient_address: string;
+  amount: number;
+  currency: Currency;
+  network: NetworkType;
+  fee_amount: number;
+  status: WithdrawalResponse['status'];
+  withdrawal_id?: string;
+  transaction_hash?: string;
+  error?: string;
+}
+
+export interface PayoutBatch {
+  id: string;
+  user_id: string;
+  name: string;
+  status: PayoutBatchStatus;
+  items: PayoutBatchItem[];
+  schedule_id?: string; // Set for batches created by a scheduled payout
+  created_at: string;
+  updated_at: string;
+}
+
+export type PayoutFrequency = 'daily' | 'weekly' | 'monthly';
+
+// 'sweep_above' withdraws everything above amount; 'fixed' withdraws amount each run
+export type PayoutMode = 'sweep_above' | 'fixed';
+
+export interface ScheduledPayout {
+  id: string;
+  name: string;
+  currency: Currency;
+  network: NetworkType;
+  recipient_address: string;
+  mode: PayoutMode;
+  amount: number;
+  frequency: PayoutFrequency;
+  day_of_week?: Weekday; // Weekly schedules
+  day_of_month?: number; // Monthly schedules, 1-28 so every month has the day
+  time: string; // "HH:MM" in timezone
+  timezone: string;
+  is_active: boolean;
+  next_run_at?: string;
+  last_run_at?: string;
+  last_batch_id?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ScheduledPayoutInput = Omit<
+  ScheduledPayout,
+  'id' | 'next_run_at' | 'last_run_at' | 'last_batch_id' | 'created_at' | 'updated_at'
+>;
+
+export const MAX_BATCH_ROWS = 100;
+
+export const PAYOUT_CSV_TEMPLATE =
+  'address,amount,currency,network,description\n0x0000000000000000000000000000000000000000,25,USDT,polygon,Seller payout\n';
+
+// Header names accepted for each column
+const CSV_COLUMNS: Record<keyof Omit<PayoutRow, 'line'>, string[]> = {
+  recipient_address: ['address', 'recipient_address', 'recipient', 'wallet'],
+  amount: ['amount'],
+  currency: ['currency', 'token'],
+  network: ['network', 'chain'],
+  description: ['description', 'note', 'memo'],
+};
+
+class PayoutService {
+  // Split one CSV line, honouring double-quoted fields with "" escapes
+  private splitCsvLine(line: string): string[] {
+    const fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quoted) {
+        if (char === '"' && line[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        fields.push(field.trim());
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+    fields.push(field.trim());
+    return fields;
+  }
+
+  // Network by type or display name, e.g. "bsc" or "BNB Smart Chain"
+  private resolveNetwork(value: string): NetworkType | undefined {
+    const normalized = value.trim().toLowerCase();
+    return networkRegistry
+      .getAll()
+      .find(network => network.type === normalized || network.name.toLowerCase() === normalized)
+      ?.type;
+  }
+
+  /**
+   * Parse a payout CSV. The first line is the header; columns are matched by name, so their
+   * order is free and unknown columns are ignored. Rows that cannot be parsed are reported
+   * by line instead of failing the whole file.
+   */
+  parseCsv(text: string): { rows: PayoutRow[]; errors: PayoutCsvError[] } {
+    const lines = text.split(/\r?\n/);
+    const header = this.splitCsvLine(lines[0] ?? '').map(name => name.toLowerCase());
+    const columnIndex = (names: string[]) => header.findIndex(name => names.includes(name));
+
+    const indexes = {
+      recipient_address: columnIndex(CSV_COLUMNS.recipient_address),
+      amount: columnIndex(CSV_COLUMNS.amount),
+      currency: columnIndex(CSV_COLUMNS.currency),
+      network: columnIndex(CSV_COLUMNS.network),
+      description: columnIndex(CSV_COLUMNS.description),
+    };
+
+    const missing = (['recipient_address', 'amount', 'currency', 'network'] as const).filter(
+      column => indexes[column] < 0,
+    );
+    if (missing.length > 0) {
+      return {
+        rows: [],
+        errors: [
+          {
+            line: 1,
+            message: `Missing column${missing.length > 1 ? 's' : ''}: ${missing
+              .map(column => CSV_COLUMNS[column][0])
+              .join(', ')}`,
+          },
+        ],
+      };
+    }
+
+    const currencies = networkRegistry.getCurrencies();
+    const rows: PayoutRow[] = [];
+    const errors: PayoutCsvError[] = [];
+
+    lines.slice(1).forEach((raw, index) => {
+      const line = index + 2;
+      if (!raw.trim()) return;
+
+      const fields = this.splitCsvLine(raw);
+      const field = (column: number) => (column >= 0 ? (fields[column] ?? '') : '');
+
+      const address = field(indexes.recipient_address);
+      const amount = Number(field(indexes.amount));
+      const currency = field(indexes.currency).toUpperCase() as Currency;
+      const network = this.resolveNetwork(field(indexes.network));
+
+      if (!address) {
+        errors.push({ line, message: 'Address is empty' });
+      } else if (!Number.isFinite(amount) || amount <= 0) {
+        errors.push({ line, message: `Invalid amount "${field(indexes.amount)}"` });
+      } else if (!currencies.includes(currency)) {
+        errors.push({ line, message: `Unsupported currency "${field(indexes.currency)}"` });
+      } else if (!network) {
+        errors.push({ line, message: `Unknown network "${field(indexes.network)}"` });
+      } else {
+        rows.push({
+          line,
+          recipient_address: address,
+          amount,
+          currency,
+          network,
+          description: field(indexes.description) || undefined,
+        });
+      }
+    });
+
+    if (rows.length > MAX_BATCH_ROWS) {
+      errors.push({
+        line: rows[MAX_BATCH_ROWS]!.line,
+        message: `A batch can have at most ${MAX_BATCH_ROWS} payouts; split the file`,
+      });
+    }
+
+    return { rows, errors };
+  }
+
+  /**
+   * Check every row the way a single withdrawal is checked (network minimum, per-withdrawal
+   * limits, address format and risk, allowlist) and fetch its fee, then check the totals
+   * against balances and daily limits. Fees are fetched once per currency and network.
+   * Pass null for the allowlist or address book when they could not be loaded; rows are then
+   * flagged as unchecked rather than treated as allowed.
+   */
+  async previewBatch(
+    rows: PayoutRow[],
+    allowlist: WithdrawalAllowlistSettings | null,
+    addressBook: AddressBookEntry[] | null,
+  ): Promise<PayoutBatchPreview> {
+    const feeKeys = [...new Set(rows.map(row => `${row.currency}:${row.network}`))];
+    const rowCurrencies = [...new Set(rows.map(row => row.currency))];
+
+    const [fees, limits, summary] = await Promise.all([
+      Promise.all(
+        feeKeys.map(key => {
+          const [currency, network] = key.split(':') as [Currency, NetworkType];
+          return withdrawalService.getNetworkFee(currency, network).catch(() => undefined);
+        }),
+      ),
+      Promise.all(
+        rowCurrencies.map(currency =>
+          withdrawalService.getWithdrawalLimits(currency).catch(() => undefined),
+        ),
+      ),
+      walletService.getWalletSummary(),
+    ]);
+
+    const feeFor = (row: PayoutRow) => fees[feeKeys.indexOf(`${row.currency}:${row.network}`)];
+    const limitsFor = (currency: Currency) => limits[rowCurrencies.indexOf(currency)];
+
+    const previews = await Promise.all(
+      rows.map(async (row): Promise<PayoutRowPreview> => {
+        const errors: string[] = [];
+        const warnings: string[] = [];
+        const network = networkRegistry.get(row.network);
+        const minimum = networkRegistry.getMinimumWithdrawal(row.currency, row.network);
+
+        if (!network?.currencies.includes(row.currency)) {
+          errors.push(`${row.currency} is not supported on ${network?.name ?? row.network}`);
+        } else if (row.amount < minimum) {
+          errors.push(`Minimum on ${network.name} is ${minimum} ${row.currency}`);
+        }
+
+        const rowLimits = limitsFor(row.currency);
+        if (!rowLimits) {
+          warnings.push('Withdrawal limits unavailable');
+        } else if (row.amount < rowLimits.minimum_amount) {
+          errors.push(`Minimum withdrawal is ${rowLimits.minimum_amount} ${row.currency}`);
+        } else if (row.amount > rowLimits.maximum_amount) {
+          errors.push(`Maximum withdrawal is ${rowLimits.maximum_amount} ${row.currency}`);
+        }
+
+        if (!networkRegistry.validateAddress(row.recipient_address, row.network)) {
+          errors.push(`Not a valid ${network?.name ?? row.network} address`);
+        } else {
+          const validation = await withdrawalService.validateWithdrawalAddress(
+            row.recipient_address,
+            row.currency,
+            row.network,
+          );
+          if (!validation.is_valid) {
+            errors.push('Invalid address');
+          }
+          if (validation.risk_level === 'high') {
+            errors.push('Address flagged as high risk');
+          }
+          warnings.push(...(validation.warnings ?? []));
+
+          if (!allowlist || (allowlist.enabled && !addressBook)) {
+            warnings.push('Allowlist status unknown; not allowlisted addresses will be rejected');
+          } else {
+            const allowlistError = withdrawalService.validateAllowlistedAddress(
+              allowlist,
+              addressBook ?? [],
+              row.recipient_address,
+              row.network,
+            );
+            if (allowlistError) {
+              errors.push(allowlistError);
+            }
+          }
+        }
+
+        const fee = feeFor(row);
+        if (!fee) {
+          warnings.push('Fee estimate unavailable');
+        }
+
+        return { ...row, fee, errors, warnings };
+      }),
+    );
+
+    const totals = new Map<Currency, PayoutCurrencyTotal>();
+    const totalFor = (currency: Currency) => {
+      let total = totals.get(currency);
+      if (!total) {
+        const wallet = summary.wallets.find(w => w.currency === currency);
+        total = {
+          currency,
+          amount: 0,
+          fees: 0,
+          available: wallet ? wallet.available.display : 0,
+          limits: limitsFor(currency),
+        };
+        totals.set(currency, total);
+      }
+      return total;
+    };
+
+    previews.forEach(row => {
+      totalFor(row.currency).amount += row.amount;
+      if (row.fee) {
+        totalFor(row.fee.fee_currency).fees += row.fee.fee_amount;
+      }
+    });
+
+    const errors: string[] = [];
+    if (rows.length > MAX_BATCH_ROWS) {
+      errors.push(`A batch can have at most ${MAX_BATCH_ROWS} payouts`);
+    }
+    totals.forEach(total => {
+      if (total.amount + total.fees > total.available) {
+        errors.push(
+          `Total ${total.currency} needed (${(total.amount + total.fees).toFixed(6)}) is more than the available ${total.available.toFixed(6)}`,
+        );
+      }
+      if (total.limits && total.amount > total.limits.remaining_today) {
+        errors.push(
+          `Total ${total.currency} (${total.amount}) exceeds today's remaining limit of ${total.limits.remaining_today}`,
+        );
+      }
+    });
+
+    return { rows: previews, totals: [...totals.values()], errors };
+  }
+
+  // Submit a batch. The backend creates one withdrawal per row.
+  async createBatch(name: string, rows: PayoutRow[]): Promise<PayoutBatch> {
+    try {
+      const response = await api.post<ApiResponse<PayoutBatch>>('/wallet/withdrawals/batches', {
+        name,
+        items: rows.map(row => ({
+          line: row.line,
+          recipient_address: row.recipient_address,
+          amount: row.amount,
+          currency: row.currency,
+          network: row.network,
+          description: row.description,
+        })),
+      });
+
+      if (!response.data?.success || !response.data.data) {
+        throw new Error(response.data?.message || 'Failed to create batch');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Create batch error:', error);
+      if (isAxiosError(error) && error.response?.data?.message) {
+        throw new Error(error.response.data.message);
+      }
+      throw new Error('Failed to create batch');
+    }
+  }
+
+  async getBatches(): Promise<PayoutBatch[]> {
+    try {
+      const response = await api.get<ApiResponse<{ batches: PayoutBatch[] }>>(
+        '/wallet/withdrawals/batches',
+      );
+
+      if (!response.data?.success || !response.data.data) {
+        throw new Error(response.data?.message || 'Failed to get batches');
+      }
+
+      return response.data.data.batches || [];
+    } catch (error) {
+      console.error('Get batches error:', error);
+      if (isAxiosError(error) && error.response?.status === 404) {
+        return [];
+      }
+      if (isAxiosError(error) && error.response?.data?.message) {
+        throw new Error(error.response.data.message);
+      }
+      throw new Error('Failed to get batches');
+    }
+  }
+
+  async getBatch(batchId: string): Promise<PayoutBatch> {
+    try {
+      const response = await api.get<ApiResponse<PayoutBatch>>(
+        `/wallet/withdrawals/batches/${batchId}`,
+      );
+
+      if (!response.data?.success || !response.data.data) {
+        throw new Error(response.data?.message || 'Failed to get batch');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Get batch error:', error);
+      if (isAxiosError(error) && error.response?.data?.message) {
+        throw new Error(error.response.data.message);
+      }
+      throw new Error('Failed to get batch');
+    }
+  }
+
+  // Cancel the rows of a batch that have not been sent yet
+  async cancelBatch(batchId: string): Promise<PayoutBatch> {
+    try {
+      const response = await api.post<ApiResponse<PayoutBatch>>(
+        `/wallet/withdrawals/batches/${batchId}/cancel`,
+      );
+
+      if (!response.data?.success || !response.data.data) {
+        throw new Error(response.data?.message || 'Failed to cancel batch');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Cancel batch error:', error);
+      if (isAxiosError(error) && error.response?.data?.message) {
+        throw new Error(error.response.data.message);
+      }
+      throw new Error('Failed to cancel batch');
+    }
+  }
+
+  async getScheduledPayouts(): Promise<ScheduledPayout[]> {
+    try {
+      const response = await api.get<ApiResponse<{ schedules: ScheduledPayout[] }>>(
+        '/wallet/scheduled-payouts',
+      );
+
+      if (!response.data?.success || !response.data.data) {
+        throw new Error(response.data?.message || 'Failed to get scheduled payouts');
+      }
+
+      return response.data.data.schedules || [];
+    } catch (error) {
+      console.error('Get scheduled payouts error:', error);
+      if (isAxiosError(error) && error.response?.status === 404) {
+        return [];
+      }
+      if (isAxiosError(error) && error.response?.data?.message) {
+        throw new Error(error.response.data.message);
+      }
+      throw new Error('Failed to get scheduled payouts');
+    }
+  }
+
+  async createScheduledPayout(input: ScheduledPayoutInput): Promise<ScheduledPayout> {
+    try {
+      const response = await api.post<ApiResponse<ScheduledPayout>>(
+        '/wallet/scheduled-payouts',
+        input,
+      );
+
+      if (!response.data?.success || !response.data.data) {
+        throw new Error(response.data?.message || 'Failed to create scheduled payout');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Create scheduled payout error:', error);
+      if (isAxiosError(error) && error.response?.data?.message) {
+        throw new Error(error.response.data.message);
+      }
+      throw new Error('Failed to create scheduled payout');
+    }
+  }
+
+  async updateScheduledPayout(
+    scheduleId: string,
+    input: Partial<ScheduledPayoutInput>,
+  ): Promise<ScheduledPayout> {
+    try {
+      const response = await api.put<ApiResponse<ScheduledPayout>>(
+        `/wallet/scheduled-payouts/${scheduleId}`,
+        input,
+      );
+
+      if (!response.data?.success || !response.data.data) {
+        throw new Error(response.data?.message || 'Failed to update scheduled payout');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Update scheduled payout error:', error);
+      if (isAxiosError(error) && error.response?.data?.message) {
+        throw new Error(error.response.data.message);
+      }
+      throw new Error('Failed to update scheduled payout');
+    }
+  }
+
+  async deleteScheduledPayout(scheduleId: string): Promise<void> {
+    try {
+      const response = await api.delete<ApiResponse<void>>(
+        `/wallet/scheduled-payouts/${scheduleId}`,
+      );
+
+      if (!response.data?.success) {
+        throw new Error(response.data?.message || 'Failed to delete scheduled payout');
+      }
+    } catch (error) {
+      console.error('Delete scheduled payout error:', error);
+      if (isAxiosError(error) && error.response?.data?.message) {
+        throw new Error(error.response.data.message);
+      }
+      throw new Error('Failed to delete scheduled payout');
+    }
+  }
+
+  validateScheduledPayout(
+    input: ScheduledPayoutInput,
+    allowlist: WithdrawalAllowlistSettings,
+    addressBook: AddressBookEntry[],
+  ): string | null {
+    if (!input.name.trim()) {
+      return 'Name is required';
+    }
+    const network = networkRegistry.get(input.network);
+    if (!network?.currencies.includes(input.currency)) {
+      return `${input.currency} is not supported on ${network?.name ?? input.network}`;
+    }
+    if (!networkRegistry.validateAddress(input.recipient_address, input.network)) {
+      return `Not a valid ${network.name} address`;
+    }
+    if (!(input.amount >= 0)) {
+      return 'Amount must be zero or more';
+    }
+    const minimum = networkRegistry.getMinimumWithdrawal(input.currency, input.network);
+    if (input.mode === 'fixed' && input.amount < minimum) {
+      return `Minimum on ${network.name} is ${minimum} ${input.currency}`;
+    }
+    if (input.frequency === 'weekly' && input.day_of_week === undefined) {
+      return 'Choose the day of the week';
+    }
+    if (
+      input.frequency === 'monthly' &&
+      !(input.day_of_month !== undefined && input.day_of_month >= 1 && input.day_of_month <= 28)
+    ) {
+      return 'Day of month must be between 1 and 28';
+    }
+    if (!TIME_PATTERN.test(input.time)) {
+      return 'Time must be HH:MM';
+    }
+    if (!isValidTimezone(input.timezone)) {
+      return 'Unknown timezone';
+    }
+    // A scheduled payout runs unattended, so under the allowlist the address must be usable
+    // now rather than failing on every run
+    return withdrawalService.validateAllowlistedAddress(
+      allowlist,
+      addressBook,
+      input.recipient_address,
+      input.network,
+    );
+  }
+
+  // e.g. "Everything above 100 USDT every Friday at 17:00 (Europe/London)"
+  describeSchedule(schedule: ScheduledPayoutInput): string {
+    const what =
+      schedule.mode === 'sweep_above'
+        ? `Everything above ${schedule.amount} ${schedule.currency}`
+        : `${schedule.amount} ${schedule.currency}`;
+    let when = 'every day';
+    if (schedule.frequency === 'weekly' && schedule.day_of_week !== undefined) {
+      when = `every ${WEEKDAY_LABELS[schedule.day_of_week]}`;
+    } else if (schedule.frequency === 'monthly') {
+      when = `on day ${schedule.day_of_month} of every month`;
+    }
+    return `${what} ${when} at ${schedule.time} (${schedule.timezone})`;
+  }
+
+  getBatchStatusDisplayInfo(status: PayoutBatchStatus): { label: string; color: string } {
+    const statusInfo = {
+      pending: { label: 'Pending', color: 'text-orange-600 bg-orange-50 border-orange-200' },
+      processing: { label: 'Processing', color: 'text-blue-600 bg-blue-50 border-blue-200' },
+      completed: { label: 'Completed', color: 'text-green-600 bg-green-50 border-green-200' },
+      partially_completed: {
+        label: 'Partially completed',
+        color: 'text-yellow-700 bg-yellow-50 border-yellow-200',
+      },
+      failed: { label: 'Failed', color: 'text-red-600 bg-red-50 border-red-200' },
+      cancelled: { label: 'Cancelled', color: 'text-gray-600 bg-gray-50 border-gray-200' },
+    };
+
+    return statusInfo[status] || statusInfo.pending;
+  }
+}
+
+const payoutService = new PayoutService();
+export default payoutService;
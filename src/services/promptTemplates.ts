@@ -0,0 +1,389 @@
+import api from './api';
+import { isAxiosError } from 'axios';
+import { backtestService } from './backtest';
+import {
+  IndicatorSettings,
+  MarketConditions,
+  PositionSide,
+  TechnicalIndicatorData,
+  TradingMode,
+} from './tradingBot';
+import { DEFAULT_INDICATOR_SETTINGS, macd, rsi, sma } from '@/utils/indicators';
+
+// User-authored prompt templates for the ai_signal strategy. Every save creates a new
+// immutable version so analysis logs can reference exactly what was sent to the model.
+
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  message?: string;
+}
+
+export interface PromptTemplateVersion {
+  id: string;
+  template_id: string;
+  version: number; // Increments with every saved change, starting at 1
+  body: string;
+  change_note?: string;
+  created_at: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  latest_version: number;
+  body: string; // Body of the latest version
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PromptTemplateInput {
+  name: string;
+  description?: string;
+  body: string;
+  change_note?: string; // Stored on the version created by this save
+}
+
+export interface PromptPositionContext {
+  side: PositionSide;
+  entry_price: number;
+  quantity: number;
+  unrealized_pnl: number;
+  unrealized_pnl_percent: number;
+  dca_level?: number;
+}
+
+// Values available to placeholders when a prompt is rendered
+export interface PromptRenderContext {
+  symbol: string;
+  current_price: number;
+  main_timeframe: string;
+  higher_timeframe: string;
+  technical: TechnicalIndicatorData;
+  market: MarketConditions;
+  position?: PromptPositionContext; // Absent when the bot has no open position on the symbol
+}
+
+export type PlaceholderGroup = 'market_data' | 'technical' | 'market' | 'position';
+
+export interface PromptPlaceholder {
+  key: string;
+  group: PlaceholderGroup;
+  description: string;
+}
+
+export const PLACEHOLDER_GROUP_LABELS: Record<PlaceholderGroup, string> = {
+  market_data: 'Market Data',
+  technical: 'Technical Indicators',
+  market: 'Market Conditions',
+  position: 'Position Context',
+};
+
+export const PROMPT_PLACEHOLDERS: PromptPlaceholder[] = [
+  { key: 'symbol', group: 'market_data', description: 'Trading pair, e.g. BTCUSDT' },
+  { key: 'current_price', group: 'market_data', description: 'Latest price' },
+  { key: 'main_timeframe', group: 'market_data', description: 'Primary analysis timeframe' },
+  { key: 'higher_timeframe', group: 'market_data', description: 'Trend context timeframe' },
+  { key: 'technical.short_sma', group: 'technical', description: 'Short simple moving average' },
+  { key: 'technical.long_sma', group: 'technical', description: 'Long simple moving average' },
+  { key: 'technical.rsi', group: 'technical', description: 'Relative strength index' },
+  { key: 'technical.macd', group: 'technical', description: 'MACD line' },
+  { key: 'technical.macd_signal', group: 'technical', description: 'MACD signal line' },
+  { key: 'technical.macd_histogram', group: 'technical', description: 'MACD histogram' },
+  { key: 'technical.change_24h', group: 'technical', description: '24h price change' },
+  { key: 'technical.change_percent_24h', group: 'technical', description: '24h change in %' },
+  { key: 'technical.volume_24h', group: 'technical', description: '24h volume' },
+  { key: 'technical.high_24h', group: 'technical', description: '24h high' },
+  { key: 'technical.low_24h', group: 'technical', description: '24h low' },
+  { key: 'market.overall_trend', group: 'market', description: 'bullish, bearish or sideways' },
+  { key: 'market.volatility_level', group: 'market', description: 'low, medium or high' },
+  { key: 'market.market_sentiment', group: 'market', description: 'fear, neutral or greed' },
+  { key: 'market.btc_dominance', group: 'market', description: 'BTC dominance in %' },
+  {
+    key: 'position.summary',
+    group: 'position',
+    description: 'One-line description, or "No open position"',
+  },
+  { key: 'position.side', group: 'position', description: 'long or short' },
+  { key: 'position.entry_price', group: 'position', description: 'Average entry price' },
+  { key: 'position.quantity', group: 'position', description: 'Open quantity' },
+  { key: 'position.unrealized_pnl', group: 'position', description: 'Unrealized PnL in USDT' },
+  {
+    key: 'position.unrealized_pnl_percent',
+    group: 'position',
+    description: 'Unrealized PnL in %',
+  },
+  { key: 'position.dca_level', group: 'position', description: 'Current DCA level' },
+];
+
+export const DEFAULT_PROMPT_TEMPLATE = `Analyze {{symbol}} on the {{main_timeframe}} chart with {{higher_timeframe}} trend context.
+
+Price: {{current_price}} ({{technical.change_percent_24h}}% over 24h, range {{technical.low_24h}}–{{technical.high_24h}})
+SMA short/long: {{technical.short_sma}} / {{technical.long_sma}}
+RSI: {{technical.rsi}}
+MACD: {{technical.macd}} (signal {{technical.macd_signal}}, histogram {{technical.macd_histogram}})
+Market: {{market.overall_trend}} trend, {{market.volatility_level}} volatility, {{market.market_sentiment}} sentiment
+Position: {{position.summary}}
+
+Respond with a buy, sell or hold signal, a confidence between 0 and 1 and your reasoning.`;
+
+export const MAX_PROMPT_TEMPLATE_LENGTH = 8000;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+const MISSING_VALUE = 'n/a';
+const PREVIEW_CANDLE_LIMIT = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) return MISSING_VALUE;
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return MISSING_VALUE;
+    return Math.abs(value) >= 1 ? value.toFixed(2) : value.toPrecision(4);
+  }
+  return String(value);
+};
+
+class PromptTemplateService {
+  async getTemplates(): Promise<PromptTemplate[]> {
+    try {
+      const response = await api.get<ApiResponse<PromptTemplate[]>>('/ai/prompt-templates');
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      return [];
+    } catch (error) {
+      if (isAxiosError(error)) {
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  async getTemplateVersions(templateId: string): Promise<PromptTemplateVersion[]> {
+    try {
+      const response = await api.get<ApiResponse<PromptTemplateVersion[]>>(
+        `/ai/prompt-templates/${templateId}/versions`,
+      );
+      if (response.data.success && response.data.data) {
+        return response.data.data.sort((a, b) => b.version - a.version);
+      }
+      return [];
+    } catch (error) {
+      if (isAxiosError(error)) {
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  async createTemplate(input: PromptTemplateInput): Promise<PromptTemplate> {
+    const validationError = this.validateTemplate(input);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    try {
+      const response = await api.post<ApiResponse<PromptTemplate>>('/ai/prompt-templates', input);
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.error || 'Failed to create prompt template');
+    } catch (error) {
+      if (isAxiosError(error)) {
+        const errorData = error.response?.data;
+        if (errorData?.error && typeof errorData.error === 'object') {
+          const errorMessage =
+            errorData.error.message ||
+            errorData.error.details ||
+            'Failed to create prompt template';
+          throw new Error(errorMessage);
+        }
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Save changes as a new version. Bots pinned to an older version keep using it.
+   */
+  async updateTemplate(templateId: string, input: PromptTemplateInput): Promise<PromptTemplate> {
+    const validationError = this.validateTemplate(input);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    try {
+      const response = await api.put<ApiResponse<PromptTemplate>>(
+        `/ai/prompt-templates/${templateId}`,
+        input,
+      );
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.error || 'Failed to update prompt template');
+    } catch (error) {
+      if (isAxiosError(error)) {
+        const errorData = error.response?.data;
+        if (errorData?.error && typeof errorData.error === 'object') {
+          const errorMessage =
+            errorData.error.message ||
+            errorData.error.details ||
+            'Failed to update prompt template';
+          throw new Error(errorMessage);
+        }
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  async deleteTemplate(templateId: string): Promise<void> {
+    try {
+      await api.delete(`/ai/prompt-templates/${templateId}`);
+    } catch (error) {
+      if (isAxiosError(error)) {
+        const errorData = error.response?.data;
+        if (errorData?.error && typeof errorData.error === 'object') {
+          const errorMessage =
+            errorData.error.message ||
+            errorData.error.details ||
+            'Failed to delete prompt template';
+          throw new Error(errorMessage);
+        }
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Placeholder keys used in a template body, in order of first use
+   */
+  extractPlaceholders(body: string): string[] {
+    return [...new Set([...body.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1] ?? ''))];
+  }
+
+  validateTemplate(input: PromptTemplateInput): string | null {
+    if (!input.name.trim()) {
+      return 'Template name is required';
+    }
+    if (!input.body.trim()) {
+      return 'Template body is required';
+    }
+    if (input.body.length > MAX_PROMPT_TEMPLATE_LENGTH) {
+      return `Template body cannot exceed ${MAX_PROMPT_TEMPLATE_LENGTH} characters`;
+    }
+
+    const known = new Set(PROMPT_PLACEHOLDERS.map(placeholder => placeholder.key));
+    const unknown = this.extractPlaceholders(input.body).filter(key => !known.has(key));
+    if (unknown.length > 0) {
+      return `Unknown placeholder${unknown.length > 1 ? 's' : ''}: ${unknown
+        .map(key => `{{${key}}}`)
+        .join(', ')}`;
+    }
+    return null;
+  }
+
+  /**
+   * Fill a template's placeholders. Unknown or unavailable values render as "n/a".
+   */
+  renderPrompt(body: string, context: PromptRenderContext): string {
+    const { position } = context;
+    const values: Record<string, unknown> = {
+      symbol: context.symbol,
+      current_price: context.current_price,
+      main_timeframe: context.main_timeframe,
+      higher_timeframe: context.higher_timeframe,
+      'position.summary': position
+        ? `${position.side} ${formatValue(position.quantity)} @ ${formatValue(position.entry_price)}, ` +
+          `unrealized ${formatValue(position.unrealized_pnl)} USDT (${formatValue(position.unrealized_pnl_percent)}%)`
+        : 'No open position',
+    };
+    Object.entries(context.technical).forEach(([key, value]) => {
+      values[`technical.${key}`] = value;
+    });
+    Object.entries(context.market).forEach(([key, value]) => {
+      values[`market.${key}`] = value;
+    });
+    if (position) {
+      Object.entries(position).forEach(([key, value]) => {
+        values[`position.${key}`] = value;
+      });
+    }
+
+    return body.replace(PLACEHOLDER_PATTERN, (_match, key: string) => formatValue(values[key]));
+  }
+
+  /**
+   * Context for previewing a template, computed from recent candles. Market conditions are
+   * approximated from the same candles, so the live prompt may differ slightly.
+   */
+  async buildPreviewContext(
+    symbol: string,
+    mainTimeframe: string,
+    higherTimeframe: string,
+    tradingMode: TradingMode = 'spot',
+    indicators: IndicatorSettings = DEFAULT_INDICATOR_SETTINGS,
+  ): Promise<PromptRenderContext> {
+    const candles = await backtestService.fetchCandles(
+      symbol,
+      mainTimeframe,
+      PREVIEW_CANDLE_LIMIT,
+      tradingMode,
+    );
+    const last = candles[candles.length - 1];
+    if (!last) {
+      throw new Error(`No market data available for ${symbol}`);
+    }
+
+    const closes = candles.map(candle => candle.close);
+    const lastValue = (series: (number | null)[]) => series[series.length - 1] ?? NaN;
+    const macdSeries = macd(
+      closes,
+      indicators.macd_fast,
+      indicators.macd_slow,
+      indicators.macd_signal,
+    );
+    const dayCandles = candles.filter(candle => candle.timestamp > last.timestamp - DAY_MS);
+    const dayOpen = dayCandles[0]?.open ?? last.open;
+
+    const technical: TechnicalIndicatorData = {
+      short_sma: lastValue(sma(closes, indicators.short_sma)),
+      long_sma: lastValue(sma(closes, indicators.long_sma)),
+      rsi: lastValue(rsi(closes, indicators.rsi_period)),
+      macd: lastValue(macdSeries.macd),
+      macd_signal: lastValue(macdSeries.signal),
+      macd_histogram: lastValue(macdSeries.histogram),
+      change_24h: last.close - dayOpen,
+      change_percent_24h: dayOpen > 0 ? ((last.close - dayOpen) / dayOpen) * 100 : 0,
+      volume_24h: dayCandles.reduce((sum, candle) => sum + candle.volume, 0),
+      high_24h: Math.max(...dayCandles.map(candle => candle.high)),
+      low_24h: Math.min(...dayCandles.map(candle => candle.low)),
+    };
+
+    const rangePercent = ((technical.high_24h - technical.low_24h) / last.close) * 100;
+    const market: MarketConditions = {
+      overall_trend:
+        technical.short_sma > technical.long_sma * 1.005
+          ? 'bullish'
+          : technical.short_sma < technical.long_sma * 0.995
+            ? 'bearish'
+            : 'sideways',
+      volatility_level: rangePercent < 3 ? 'low' : rangePercent < 8 ? 'medium' : 'high',
+      market_sentiment: technical.rsi > 65 ? 'greed' : technical.rsi < 35 ? 'fear' : 'neutral',
+    };
+
+    return {
+      symbol,
+      current_price: last.close,
+      main_timeframe: mainTimeframe,
+      higher_timeframe: higherTimeframe,
+      technical,
+      market,
+    };
+  }
+}
+
+export const promptTemplateService = new PromptTemplateService();
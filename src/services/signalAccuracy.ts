@@ -0,0 +1,332 @@
+import { aiAnalysisService, AIAnalysisLog } from './aiAnalysis';
+import { backtestService, Candle } from './backtest';
+import { TradingMode } from './tradingBot';
+
+// Grades AI signals against what price did after them
+
+export const ACCURACY_HORIZONS = [1, 4, 24] as const; // Hours
+export type AccuracyHorizon = (typeof ACCURACY_HORIZONS)[number];
+
+// no_data: the horizon has passed but market data does not cover it
+export type SignalOutcome = 'hit' | 'miss' | 'pending' | 'no_data';
+
+export interface SignalGrade {
+  log_id: string;
+  symbol: string;
+  model: string; // "provider/model"
+  action: 'buy' | 'sell' | 'hold';
+  strength?: number;
+  horizon_hours: number;
+  outcome: SignalOutcome;
+  move_percent?: number; // Price change at the horizon, signed in the signal's direction
+  mfe_percent?: number; // Max favorable excursion within the horizon
+  mae_percent?: number; // Max adverse excursion within the horizon
+}
+
+export interface CalibrationBucket {
+  min_strength: number;
+  max_strength: number;
+  graded: number;
+  avg_strength: number;
+  hit_rate: number; // 0 to 1
+}
+
+export interface AccuracyGroupStats {
+  key: string;
+  graded: number;
+  pending: number;
+  hit_rate: number; // 0 to 1
+  avg_strength: number;
+  avg_move_percent: number;
+  avg_mfe_percent: number;
+  avg_mae_percent: number;
+}
+
+export interface HorizonAccuracy {
+  horizon_hours: number;
+  overall: AccuracyGroupStats;
+  calibration: CalibrationBucket[];
+  by_model: AccuracyGroupStats[];
+  by_symbol: AccuracyGroupStats[];
+}
+
+export interface SignalAccuracyReport {
+  bot_id: string;
+  logs_considered: number;
+  horizons: HorizonAccuracy[];
+  generated_at: string;
+}
+
+export interface VariantComparison {
+  variant_id: string;
+  name: string;
+  model: string; // "provider/model"
+  is_live: boolean;
+  runs: number;
+  paired: number; // Shadow runs whose live analysis is in the sample
+  agreement_rate: number; // 0 to 1, same signal_action as the live analysis
+  avg_processing_time_ms: number;
+  error_rate: number; // 0 to 1
+  graded: number;
+  hit_rate: number; // 0 to 1
+  avg_move_percent: number;
+}
+
+export const LIVE_VARIANT_ID = 'live';
+
+// A hold is right when price stayed within this band either way
+export const HOLD_BAND_PERCENT = 0.5;
+
+// 15m candles resolve excursions inside a 1h horizon; 1000 of them cover ~10 days
+const CANDLE_INTERVAL = '15m';
+const CANDLE_INTERVAL_MS = 15 * 60 * 1000;
+const CANDLE_LIMIT = 1000;
+const LOG_LIMIT = 500;
+
+const CALIBRATION_BUCKETS = 5;
+const HOUR_MS = 60 * 60 * 1000;
+
+const isGradable = (log: AIAnalysisLog) =>
+  !!log.signal_action && log.current_price > 0 && !log.error_message;
+
+const isGraded = (grade: SignalGrade) => grade.outcome === 'hit' || grade.outcome === 'miss';
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+class SignalAccuracyService {
+  /**
+   * Grade a bot's recent signals at every horizon using market candles
+   */
+  async getSignalAccuracy(
+    botId: string,
+    tradingMode: TradingMode = 'spot',
+    horizons: readonly number[] = ACCURACY_HORIZONS,
+  ): Promise<SignalAccuracyReport> {
+    const { analysis_logs: logs } = await aiAnalysisService.getAnalysisLogs({
+      bot_id: botId,
+      limit: LOG_LIMIT,
+    });
+    const gradable = logs.filter(log => isGradable(log) && !log.is_shadow);
+
+    const candlesBySymbol = await this.fetchCandlesBySymbol(gradable, tradingMode);
+
+    return {
+      bot_id: botId,
+      logs_considered: gradable.length,
+      horizons: horizons.map(horizon => {
+        const grades = gradable.map(log =>
+          this.gradeSignal(log, candlesBySymbol.get(log.symbol) ?? [], horizon),
+        );
+        return this.summarizeGrades(grades, horizon);
+      }),
+      generated_at: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Compare the live model with the bot's shadow variants over the same analyses
+   */
+  async getVariantComparison(
+    botId: string,
+    tradingMode: TradingMode = 'spot',
+    horizonHours: number = 4,
+  ): Promise<VariantComparison[]> {
+    const { analysis_logs: logs } = await aiAnalysisService.getAnalysisLogs({
+      bot_id: botId,
+      limit: LOG_LIMIT,
+      include_shadow: true,
+    });
+    const candlesBySymbol = await this.fetchCandlesBySymbol(logs.filter(isGradable), tradingMode);
+    return this.compareVariants(logs, candlesBySymbol, horizonHours);
+  }
+
+  /**
+   * Per-variant agreement with the live signal, latency, reliability and graded accuracy.
+   * The live model comes first; shadow runs are matched to live logs by primary_log_id.
+   */
+  compareVariants(
+    logs: AIAnalysisLog[],
+    candlesBySymbol: Map<string, Candle[]>,
+    horizonHours: number,
+    now: number = Date.now(),
+  ): VariantComparison[] {
+    const primaryById = new Map(logs.filter(log => !log.is_shadow).map(log => [log.id, log]));
+    const groups = new Map<string, AIAnalysisLog[]>([[LIVE_VARIANT_ID, [...primaryById.values()]]]);
+    logs
+      .filter(log => log.is_shadow)
+      .forEach(log => {
+        const key = log.variant_id ?? `${log.ai_provider}/${log.ai_model}`;
+        groups.set(key, [...(groups.get(key) ?? []), log]);
+      });
+
+    return [...groups.entries()].map(([variantId, runs]) => {
+      const isLive = variantId === LIVE_VARIANT_ID;
+      const first = runs[0];
+      const paired = isLive
+        ? []
+        : runs.filter(run => run.primary_log_id && primaryById.has(run.primary_log_id));
+      const agreeing = paired.filter(
+        run => run.signal_action === primaryById.get(run.primary_log_id ?? '')?.signal_action,
+      );
+      const grades = runs
+        .filter(isGradable)
+        .map(run =>
+          this.gradeSignal(run, candlesBySymbol.get(run.symbol) ?? [], horizonHours, now),
+        );
+      const stats = this.groupStats(variantId, grades);
+
+      return {
+        variant_id: variantId,
+        name: isLive ? 'Live' : (first?.variant_name ?? variantId),
+        model: first ? `${first.ai_provider}/${first.ai_model}` : '',
+        is_live: isLive,
+        runs: runs.length,
+        paired: paired.length,
+        agreement_rate: isLive ? 1 : average(paired.map(run => (agreeing.includes(run) ? 1 : 0))),
+        avg_processing_time_ms: average(runs.map(run => run.processing_time_ms)),
+        error_rate: average(runs.map(run => (run.error_message ? 1 : 0))),
+        graded: stats.graded,
+        hit_rate: stats.hit_rate,
+        avg_move_percent: stats.avg_move_percent,
+      };
+    });
+  }
+
+  /**
+   * Grade one signal over the horizon. Candles must be sorted by open time. The grade is
+   * pending until the horizon has passed.
+   */
+  gradeSignal(
+    log: AIAnalysisLog,
+    candles: Candle[],
+    horizonHours: number,
+    now: number = Date.now(),
+  ): SignalGrade {
+    const action = log.signal_action ?? 'hold';
+    const grade: SignalGrade = {
+      log_id: log.id,
+      symbol: log.symbol,
+      model: `${log.ai_provider}/${log.ai_model}`,
+      action,
+      strength: log.signal_strength,
+      horizon_hours: horizonHours,
+      outcome: 'pending',
+    };
+
+    const signalTime = Date.parse(log.timestamp);
+    const horizonEnd = signalTime + horizonHours * HOUR_MS;
+    if (horizonEnd > now) {
+      return grade;
+    }
+
+    const window = candles.filter(c => c.timestamp >= signalTime && c.timestamp < horizonEnd);
+    const last = window[window.length - 1];
+    if (!last || last.timestamp + CANDLE_INTERVAL_MS < horizonEnd) {
+      grade.outcome = 'no_data';
+      return grade;
+    }
+
+    const entry = log.current_price;
+    const rawMove = ((last.close - entry) / entry) * 100;
+    const high = ((Math.max(...window.map(c => c.high)) - entry) / entry) * 100;
+    const low = ((entry - Math.min(...window.map(c => c.low))) / entry) * 100;
+
+    if (action === 'hold') {
+      grade.move_percent = rawMove;
+      grade.outcome = Math.abs(rawMove) < HOLD_BAND_PERCENT ? 'hit' : 'miss';
+      return grade;
+    }
+
+    const direction = action === 'buy' ? 1 : -1;
+    grade.move_percent = rawMove * direction;
+    grade.mfe_percent = Math.max(0, direction === 1 ? high : low);
+    grade.mae_percent = Math.max(0, direction === 1 ? low : high);
+    grade.outcome = grade.move_percent > 0 ? 'hit' : 'miss';
+    return grade;
+  }
+
+  summarizeGrades(grades: SignalGrade[], horizonHours: number): HorizonAccuracy {
+    return {
+      horizon_hours: horizonHours,
+      overall: this.groupStats('all', grades),
+      calibration: this.calibrate(grades),
+      by_model: this.groupBy(grades, grade => grade.model),
+      by_symbol: this.groupBy(grades, grade => grade.symbol),
+    };
+  }
+
+  /**
+   * Realized hit rate of directional signals per signal_strength bucket. A well calibrated
+   * model hits about as often as its stated strength.
+   */
+  calibrate(grades: SignalGrade[]): CalibrationBucket[] {
+    const directional = grades.filter(
+      grade => grade.action !== 'hold' && isGraded(grade) && grade.strength !== undefined,
+    );
+
+    return Array.from({ length: CALIBRATION_BUCKETS }, (_, index) => {
+      const min = index / CALIBRATION_BUCKETS;
+      const max = (index + 1) / CALIBRATION_BUCKETS;
+      const inBucket = directional.filter(grade => {
+        const strength = grade.strength ?? 0;
+        return (
+          strength >= min &&
+          (strength < max || (index === CALIBRATION_BUCKETS - 1 && strength <= max))
+        );
+      });
+
+      return {
+        min_strength: min,
+        max_strength: max,
+        graded: inBucket.length,
+        avg_strength: average(inBucket.map(grade => grade.strength ?? 0)),
+        hit_rate: average(inBucket.map(grade => (grade.outcome === 'hit' ? 1 : 0))),
+      };
+    });
+  }
+
+  private async fetchCandlesBySymbol(logs: AIAnalysisLog[], tradingMode: TradingMode) {
+    const symbols = [...new Set(logs.map(log => log.symbol))];
+    const candleSets = await Promise.all(
+      symbols.map(symbol =>
+        backtestService
+          .fetchCandles(symbol, CANDLE_INTERVAL, CANDLE_LIMIT, tradingMode)
+          .catch(() => [] as Candle[]),
+      ),
+    );
+    return new Map(symbols.map((symbol, index) => [symbol, candleSets[index] ?? []]));
+  }
+
+  private groupBy(grades: SignalGrade[], keyOf: (grade: SignalGrade) => string) {
+    const groups = new Map<string, SignalGrade[]>();
+    grades.forEach(grade => {
+      const key = keyOf(grade);
+      groups.set(key, [...(groups.get(key) ?? []), grade]);
+    });
+
+    return [...groups.entries()]
+      .map(([key, group]) => this.groupStats(key, group))
+      .sort((a, b) => b.hit_rate - a.hit_rate || b.graded - a.graded);
+  }
+
+  private groupStats(key: string, grades: SignalGrade[]): AccuracyGroupStats {
+    const graded = grades.filter(isGraded);
+    const directional = graded.filter(grade => grade.action !== 'hold');
+
+    return {
+      key,
+      graded: graded.length,
+      pending: grades.filter(grade => grade.outcome === 'pending').length,
+      hit_rate: average(graded.map(grade => (grade.outcome === 'hit' ? 1 : 0))),
+      avg_strength: average(
+        graded.filter(grade => grade.strength !== undefined).map(grade => grade.strength ?? 0),
+      ),
+      avg_move_percent: average(directional.map(grade => grade.move_percent ?? 0)),
+      avg_mfe_percent: average(directional.map(grade => grade.mfe_percent ?? 0)),
+      avg_mae_percent: average(directional.map(grade => grade.mae_percent ?? 0)),
+    };
+  }
+}
+
+export const signalAccuracyService = new SignalAccuracyService();
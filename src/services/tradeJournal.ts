@@ -0,0 +1,510 @@
+import { tradingBotService, TradingBot, TradingPosition, PositionSide } from './tradingBot';
+
+// Trade journal and tax-lot reporting built from bot position history
+
+export type JournalExportFormat = 'csv' | 'json' | 'tax_lots';
+export type TaxLotMethod = 'fifo' | 'lifo';
+
+export interface JournalFill {
+  type: 'entry' | 'dca' | 'exit';
+  level: number; // 0 for the initial entry and the exit
+  price: number;
+  quantity: number;
+  timestamp: string;
+  fee?: number;
+  order_id?: string;
+}
+
+export interface JournalEntry {
+  position_id: string;
+  bot_id: string;
+  bot_name: string;
+  symbol: string;
+  side: PositionSide;
+  entry_time: string;
+  exit_time: string;
+  average_entry_price: number;
+  exit_price: number;
+  quantity: number; // Quantity sold so far; the whole position once closed
+  remaining_quantity: number; // Still open on a partially closed position
+  dca_levels: number;
+  fees: number;
+  realized_pnl: number;
+  hold_time_hours: number;
+  simulated: boolean;
+  fills: JournalFill[];
+}
+
+export interface TaxLotMatch {
+  symbol: string;
+  side: PositionSide;
+  quantity: number;
+  acquired_at: string;
+  disposed_at: string;
+  cost_basis: number;
+  proceeds: number;
+  gain: number;
+  holding_days: number;
+  term: 'short' | 'long';
+  position_id: string; // Position whose exit disposed of the lot
+}
+
+export interface YearlyGainSummary {
+  year: number;
+  proceeds: number;
+  cost_basis: number;
+  gain: number;
+  short_term_gain: number;
+  long_term_gain: number;
+  lots: number;
+}
+
+export interface TaxLotReport {
+  method: TaxLotMethod;
+  matches: TaxLotMatch[];
+  yearly: YearlyGainSummary[];
+  unmatched_quantity: Record<string, number>; // Disposed quantity with no lot left, per symbol
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Lots held longer than a year are reported as long-term
+const LONG_TERM_DAYS = 365;
+// Quantities below this are treated as fully consumed
+const QUANTITY_EPSILON = 1e-12;
+
+interface OpenLot {
+  quantity: number;
+  price: number;
+  timestamp: string;
+}
+
+// The part of a position sold so far: all of it once closed, the closed part otherwise
+interface Disposal {
+  quantity: number;
+  price: number;
+  timestamp: string;
+}
+
+class TradeJournalService {
+  /**
+   * Entry and DCA fills of a position. When DCA entries are present the initial
+   * fill is reconstructed from initial_entry_price/initial_quantity.
+   */
+  getEntryFills(position: TradingPosition): JournalFill[] {
+    const dcaEntries = position.dca_entries ?? [];
+    if (dcaEntries.length === 0) {
+      return [
+        {
+          type: 'entry',
+          level: 0,
+          price: position.entry_price,
+          quantity: position.quantity,
+          timestamp: position.entry_time,
+        },
+      ];
+    }
+
+    const dcaQuantity = dcaEntries.reduce((sum, entry) => sum + entry.quantity, 0);
+    return [
+      {
+        type: 'entry',
+        level: 0,
+        price: position.initial_entry_price ?? position.entry_price,
+        quantity: position.initial_quantity ?? Math.max(position.quantity - dcaQuantity, 0),
+        timestamp: position.entry_time,
+      },
+      ...dcaEntries.map(entry => ({
+        type: 'dca' as const,
+        level: entry.level,
+        price: entry.price,
+        quantity: entry.quantity,
+        timestamp: entry.timestamp,
+        fee: entry.fee,
+        order_id: entry.order_id,
+      })),
+    ];
+  }
+
+  /**
+   * What a closed or partially closed position has sold, or null while nothing has been sold.
+   * A partial close is dated by its latest exit. Without an exit price the average is
+   * recovered from the realized PnL.
+   */
+  getDisposal(position: TradingPosition): Disposal | null {
+    const timestamp = tradingBotService.getRealizedAt(position);
+    const quantity =
+      position.status === 'closed'
+        ? position.quantity
+        : position.quantity - position.remaining_quantity;
+    if (!timestamp || quantity <= QUANTITY_EPSILON) {
+      return null;
+    }
+
+    const pnlPerUnit = position.realized_pnl / quantity;
+    const price =
+      position.exit_price ??
+      (position.side === 'long'
+        ? position.entry_price + pnlPerUnit
+        : position.entry_price - pnlPerUnit);
+    return { quantity, price, timestamp };
+  }
+
+  /**
+   * Closed and partially closed positions flattened into journal entries, oldest exit first
+   */
+  buildJournal(bot: TradingBot, positions: TradingPosition[]): JournalEntry[] {
+    return positions
+      .flatMap(position => {
+        const disposal = this.getDisposal(position);
+        return disposal ? [{ position, disposal }] : [];
+      })
+      .map(({ position, disposal }) => {
+        const entryFills = this.getEntryFills(position);
+        const exitPrice = disposal.price;
+        const exitTime = disposal.timestamp;
+
+        return {
+          position_id: position.id,
+          bot_id: bot.id,
+          bot_name: bot.name,
+          symbol: position.symbol,
+          side: position.side,
+          entry_time: position.entry_time,
+          exit_time: exitTime,
+          average_entry_price: position.entry_price,
+          exit_price: exitPrice,
+          quantity: disposal.quantity,
+          remaining_quantity: position.status === 'closed' ? 0 : position.remaining_quantity,
+          dca_levels: position.dca_entries?.length ?? 0,
+          fees: position.total_fees ?? 0,
+          realized_pnl: position.realized_pnl,
+          hold_time_hours: (Date.parse(exitTime) - Date.parse(position.entry_time)) / HOUR_MS,
+          simulated: !!position.is_simulated,
+          fills: [
+            ...entryFills,
+            {
+              type: 'exit' as const,
+              level: 0,
+              price: exitPrice,
+              quantity: disposal.quantity,
+              timestamp: exitTime,
+            },
+          ],
+        };
+      })
+      .sort((a, b) => Date.parse(a.exit_time) - Date.parse(b.exit_time));
+  }
+
+  /**
+   * Match every disposal, including partial closes, against earlier acquisitions of the same
+   * symbol and side. Open positions still contribute lots so FIFO/LIFO ordering is correct.
+   * For shorts the opening sale is the lot and the covering buy is the disposal. Position
+   * fees are deducted pro rata from the proceeds of its exits. Simulated (paper) positions
+   * have no tax consequences and are left out entirely.
+   */
+  buildTaxLots(positions: TradingPosition[], method: TaxLotMethod): TaxLotReport {
+    type LotEvent =
+      | { kind: 'acquire'; time: number; lot: OpenLot }
+      | { kind: 'dispose'; time: number; position: TradingPosition; disposal: Disposal };
+
+    const eventsByBook = new Map<string, LotEvent[]>();
+    positions
+      .filter(position => !position.is_simulated)
+      .forEach(position => {
+        const book = `${position.symbol}:${position.side}`;
+        const events = eventsByBook.get(book) ?? [];
+        this.getEntryFills(position).forEach(fill =>
+          events.push({
+            kind: 'acquire',
+            time: Date.parse(fill.timestamp),
+            lot: { quantity: fill.quantity, price: fill.price, timestamp: fill.timestamp },
+          }),
+        );
+        const disposal = this.getDisposal(position);
+        if (disposal) {
+          events.push({
+            kind: 'dispose',
+            time: Date.parse(disposal.timestamp),
+            position,
+            disposal,
+          });
+        }
+        eventsByBook.set(book, events);
+      });
+
+    const matches: TaxLotMatch[] = [];
+    const unmatched: Record<string, number> = {};
+
+    eventsByBook.forEach(events => {
+      // Acquisitions sort before disposals at the same instant
+      events.sort((a, b) => a.time - b.time || (a.kind === 'acquire' ? -1 : 1));
+      const lots: OpenLot[] = [];
+
+      events.forEach(event => {
+        if (event.kind === 'acquire') {
+          lots.push({ ...event.lot });
+          return;
+        }
+
+        const { position, disposal } = event;
+        const exitPrice = disposal.price;
+        const feePerUnit =
+          position.quantity > 0 ? (position.total_fees ?? 0) / position.quantity : 0;
+        let remaining = disposal.quantity;
+
+        while (remaining > QUANTITY_EPSILON && lots.length > 0) {
+          const lot = method === 'fifo' ? lots[0]! : lots[lots.length - 1]!;
+          const quantity = Math.min(lot.quantity, remaining);
+          const acquiredAt = Date.parse(lot.timestamp);
+          const holdingDays = (event.time - acquiredAt) / DAY_MS;
+          const fee = feePerUnit * quantity;
+
+          // Long: bought at the lot price, sold at exit. Short: sold at the lot price, bought back at exit.
+          const costBasis = position.side === 'long' ? lot.price * quantity : exitPrice * quantity;
+          const proceeds =
+            (position.side === 'long' ? exitPrice * quantity : lot.price * quantity) - fee;
+
+          matches.push({
+            symbol: position.symbol,
+            side: position.side,
+            quantity,
+            acquired_at: lot.timestamp,
+            disposed_at: disposal.timestamp,
+            cost_basis: costBasis,
+            proceeds,
+            gain: proceeds - costBasis,
+            holding_days: holdingDays,
+            term: holdingDays > LONG_TERM_DAYS ? 'long' : 'short',
+            position_id: position.id,
+          });
+
+          lot.quantity -= quantity;
+          remaining -= quantity;
+          if (lot.quantity <= QUANTITY_EPSILON) {
+            if (method === 'fifo') lots.shift();
+            else lots.pop();
+          }
+        }
+
+        if (remaining > QUANTITY_EPSILON) {
+          unmatched[position.symbol] = (unmatched[position.symbol] ?? 0) + remaining;
+        }
+      });
+    });
+
+    matches.sort((a, b) => Date.parse(a.disposed_at) - Date.parse(b.disposed_at));
+
+    return {
+      method,
+      matches,
+      yearly: this.summarizeByYear(matches),
+      unmatched_quantity: unmatched,
+    };
+  }
+
+  /**
+   * Realized gain/loss per calendar year (UTC) of disposal
+   */
+  summarizeByYear(matches: TaxLotMatch[]): YearlyGainSummary[] {
+    const years = new Map<number, YearlyGainSummary>();
+
+    matches.forEach(match => {
+      const year = new Date(match.disposed_at).getUTCFullYear();
+      const summary = years.get(year) ?? {
+        year,
+        proceeds: 0,
+        cost_basis: 0,
+        gain: 0,
+        short_term_gain: 0,
+        long_term_gain: 0,
+        lots: 0,
+      };
+      summary.proceeds += match.proceeds;
+      summary.cost_basis += match.cost_basis;
+      summary.gain += match.gain;
+      if (match.term === 'long') summary.long_term_gain += match.gain;
+      else summary.short_term_gain += match.gain;
+      summary.lots += 1;
+      years.set(year, summary);
+    });
+
+    return [...years.values()].sort((a, b) => a.year - b.year);
+  }
+
+  journalToCsv(entries: JournalEntry[]): string {
+    const headers = [
+      'Position ID',
+      'Bot',
+      'Symbol',
+      'Side',
+      'Fill Type',
+      'DCA Level',
+      'Fill Time',
+      'Fill Price',
+      'Fill Quantity',
+      'Fill Fee',
+      'Order ID',
+      'Entry Time',
+      'Exit Time',
+      'Average Entry Price',
+      'Exit Price',
+      'Total Quantity',
+      'Remaining Quantity',
+      'Position Fees',
+      'Realized PnL',
+      'Hold Time (hours)',
+      'Simulated',
+    ];
+
+    // One row per fill so every DCA entry is visible; position totals repeat on each row
+    const rows = entries.flatMap(entry =>
+      entry.fills.map(fill => [
+        entry.position_id,
+        entry.bot_name,
+        entry.symbol,
+        entry.side,
+        fill.type,
+        fill.level,
+        fill.timestamp,
+        fill.price,
+        fill.quantity,
+        fill.fee ?? '',
+        fill.order_id ?? '',
+        entry.entry_time,
+        entry.exit_time,
+        entry.average_entry_price,
+        entry.exit_price,
+        entry.quantity,
+        entry.remaining_quantity,
+        entry.fees,
+        entry.realized_pnl,
+        entry.hold_time_hours.toFixed(2),
+        entry.simulated,
+      ]),
+    );
+
+    return this.toCsv(headers, rows);
+  }
+
+  taxLotsToCsv(report: TaxLotReport): string {
+    const lotHeaders = [
+      'Symbol',
+      'Side',
+      'Quantity',
+      'Acquired',
+      'Disposed',
+      'Cost Basis',
+      'Proceeds',
+      'Gain/Loss',
+      'Holding Days',
+      'Term',
+      'Position ID',
+    ];
+    const lotRows = report.matches.map(match => [
+      match.symbol,
+      match.side,
+      match.quantity,
+      match.acquired_at,
+      match.disposed_at,
+      match.cost_basis.toFixed(2),
+      match.proceeds.toFixed(2),
+      match.gain.toFixed(2),
+      match.holding_days.toFixed(1),
+      match.term,
+      match.position_id,
+    ]);
+
+    const summaryHeaders = [
+      'Year',
+      'Proceeds',
+      'Cost Basis',
+      'Gain/Loss',
+      'Short-Term Gain/Loss',
+      'Long-Term Gain/Loss',
+      'Lots',
+    ];
+    const summaryRows = report.yearly.map(summary => [
+      summary.year,
+      summary.proceeds.toFixed(2),
+      summary.cost_basis.toFixed(2),
+      summary.gain.toFixed(2),
+      summary.short_term_gain.toFixed(2),
+      summary.long_term_gain.toFixed(2),
+      summary.lots,
+    ]);
+
+    return [
+      `"Tax lots (${report.method.toUpperCase()})"`,
+      this.toCsv(lotHeaders, lotRows),
+      '',
+      '"Yearly realized gain/loss"',
+      this.toCsv(summaryHeaders, summaryRows),
+    ].join('\n');
+  }
+
+  /**
+   * Build the requested export for a bot and trigger a browser download
+   */
+  exportPositions(
+    bot: TradingBot,
+    positions: TradingPosition[],
+    format: JournalExportFormat,
+    method: TaxLotMethod = 'fifo',
+  ): void {
+    const baseName = bot.name.replace(/[^a-z0-9]+/gi, '_').toLowerCase() || 'bot';
+
+    if (format === 'csv') {
+      this.downloadFile(
+        this.journalToCsv(this.buildJournal(bot, positions)),
+        `${baseName}_trade_journal.csv`,
+        'text/csv;charset=utf-8;',
+      );
+      return;
+    }
+
+    if (format === 'json') {
+      const report = this.buildTaxLots(positions, method);
+      const content = {
+        bot: { id: bot.id, name: bot.name, execution_mode: bot.execution_mode ?? 'live' },
+        exported_at: new Date().toISOString(),
+        positions: this.buildJournal(bot, positions),
+        yearly_summary: report.yearly,
+      };
+      this.downloadFile(
+        JSON.stringify(content, null, 2),
+        `${baseName}_trade_journal.json`,
+        'application/json',
+      );
+      return;
+    }
+
+    this.downloadFile(
+      this.taxLotsToCsv(this.buildTaxLots(positions, method)),
+      `${baseName}_tax_lots_${method}.csv`,
+      'text/csv;charset=utf-8;',
+    );
+  }
+
+  private toCsv(headers: string[], rows: Array<Array<string | number | boolean>>): string {
+    const escape = (field: string | number | boolean) => `"${String(field).replace(/"/g, '""')}"`;
+    return [headers.map(escape).join(','), ...rows.map(row => row.map(escape).join(','))].join(
+      '\n',
+    );
+  }
+
+  private downloadFile(content: string, filename: string, type: string): void {
+    const blob = new Blob([content], { type });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', filename);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+}
+
+export const tradeJournalService = new TradeJournalService();
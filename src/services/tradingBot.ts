@@ -1,5 +1,6 @@
 import api from './api';
 import { isAxiosError } from 'axios';
+import { isValidTimezone, TIME_PATTERN } from '@/utils/botSchedule';
 
 // API response wrapper
 interface ApiResponse<T> {
@@ -13,6 +14,8 @@ interface ApiResponse<T> {
 export type ExchangeName = 'binance' | 'bybit' | 'hyperliquid' | 'okx' | 'bitget';
 export type BotStatus = 'draft' | 'running' | 'paused' | 'stopped' | 'error';
 export type TradingMode = 'spot' | 'futures';
+// Live bots trade on the connected exchange, paper bots fill against a simulated account
+export type BotExecutionMode = 'live' | 'paper';
 export type StrategyType =
   | 'alpha_compounder'
   | 'grid_trading'
@@ -24,6 +27,93 @@ export type StrategyType =
   | 'ai_signal'
   | 'custom';
 
+export interface PaperTradingSettings {
+  virtual_balance: number; // Simulated account balance in USDT
+  fee_percent: number; // Fee charged on every simulated fill as % of notional
+  slippage_percent: number; // Adverse slippage applied to every simulated fill
+}
+
+export interface PaperAccount {
+  bot_id: string;
+  virtual_balance: number;
+  available_balance: number;
+  equity: number;
+  realized_pnl: number;
+  unrealized_pnl: number;
+  total_fees: number;
+  fee_percent: number;
+  slippage_percent: number;
+  reset_at?: string;
+  updated_at: string;
+}
+
+export const DEFAULT_PAPER_TRADING_SETTINGS: Omit<PaperTradingSettings, 'virtual_balance'> = {
+  fee_percent: 0.1,
+  slippage_percent: 0.05,
+};
+
+// Risk guardrails. Limits are in quote currency (USDT) unless noted; undefined means no limit.
+export interface BotRiskGuardrails {
+  max_daily_loss?: number; // Realized loss allowed for this bot since 00:00 UTC
+  max_open_exposure?: number; // Notional value of this bot's open positions
+  max_consecutive_losses?: number; // Losing trades in a row before pausing
+}
+
+export interface UserRiskGuardrails {
+  max_daily_loss?: number; // Realized loss allowed across all live bots since 00:00 UTC
+  max_open_exposure_per_exchange?: number; // Open notional across all bots on one exchange credential
+  max_consecutive_losses?: number; // Applies to every bot without its own limit
+}
+
+export type GuardrailRule = 'max_daily_loss' | 'max_open_exposure' | 'max_consecutive_losses';
+
+// Schedules. Times are wall-clock "HH:MM" in the schedule's IANA timezone.
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6; // 0 = Sunday, as in Date.getDay()
+
+export interface TradingWindow {
+  days: Weekday[];
+  start: string; // "HH:MM"
+  end: string; // "HH:MM"; earlier than start for windows that run past midnight
+}
+
+// A user-entered high-impact event (e.g. CPI, FOMC) around which the bot is paused
+export interface ScheduledMarketEvent {
+  id: string;
+  title: string;
+  starts_at: string; // ISO timestamp
+  pause_before_minutes: number;
+  resume_after_minutes: number;
+}
+
+export interface BotSchedule {
+  enabled: boolean;
+  timezone: string;
+  trading_windows: TradingWindow[]; // Empty means trade around the clock
+  market_events: ScheduledMarketEvent[];
+  auto_stop_at?: string; // ISO timestamp after which the bot is stopped for good
+  auto_resume: boolean; // Resume when a window opens or an event ends; otherwise stay paused
+}
+
+export interface GuardrailBreach {
+  bot_id: string;
+  bot_name: string;
+  rule: GuardrailRule;
+  scope: 'bot' | 'user';
+  limit: number;
+  value: number;
+}
+
+// Running bot the backend paused because it breached a guardrail
+export interface GuardrailPause extends GuardrailBreach {
+  paused_at: string;
+}
+
+export interface KillSwitchResult {
+  stopped_bot_ids: string[];
+  closed_position_count: number;
+  failed_bot_ids?: string[];
+}
+
 export interface BotStrategy {
   type: StrategyType;
   config: Record<string, unknown>;
@@ -32,7 +122,7 @@ export interface BotStrategy {
 export interface TradingBot {
   id: string;
   user_id: string;
-  exchange_credentials_id: string;
+  exchange_credentials_id: string; // Empty for paper bots without a market data exchange
   name: string;
   description: string;
   symbols: string[]; // Updated to support multiple symbols
@@ -48,6 +138,8 @@ export interface TradingBot {
   last_trade_at?: string;
   parent_id?: string;
   is_copyable: boolean;
+  performance_fee_percent?: number; // Share of follower profits paid to the owner; on copies, the agreed fee
+  follower_count?: number; // Active copies of this bot
   max_active_positions: number; // New field for max active positions
   // Bot-specific trading configuration (overrides strategy defaults)
   leverage?: number; // Bot-specific leverage (1-100)
@@ -55,6 +147,11 @@ export interface TradingBot {
   max_position_size?: number; // Maximum position size in base currency
   use_auto_leverage?: boolean; // Auto-adjust leverage based on confidence
   risk_per_trade?: number; // Risk per trade as % of balance
+  execution_mode?: BotExecutionMode; // Defaults to 'live' when absent
+  paper_settings?: PaperTradingSettings; // Only set for paper bots
+  risk_guardrails?: BotRiskGuardrails;
+  paused_reason?: string; // Set when a guardrail or the schedule auto-paused the bot
+  schedule?: BotSchedule;
   created_at: string;
   updated_at: string;
   started_at?: string;
@@ -64,7 +161,7 @@ export interface TradingBot {
 export interface CreateBotInput {
   name: string;
   description?: string;
-  exchange_credentials_id: string;
+  exchange_credentials_id: string; // Optional for paper bots, leave empty to skip
   symbols: string[]; // Updated to support multiple symbols
   strategy: BotStrategy;
   trading_mode: TradingMode;
@@ -80,6 +177,9 @@ export interface CreateBotInput {
   take_profit_percentage?: number;
   pull_back_percentage?: number;
   max_drawdown_percentage?: number;
+  // Paper trading (simulated fills, no real orders)
+  execution_mode?: BotExecutionMode;
+  paper_settings?: PaperTradingSettings;
 }
 
 export interface CopyBotInput {
@@ -93,13 +193,24 @@ export interface CopyBotInput {
   max_position_size?: number; // Override parent's max position size
   use_auto_leverage?: boolean; // Override parent's auto leverage setting
   risk_per_trade?: number; // Override parent's risk per trade %
+  // Copy-trading allocation (see copyTrading.ts)
+  allocation_mode?: CopyAllocationMode;
+  allocation_amount?: number; // Capital in USDT dedicated to following the leader
+  size_multiplier?: number; // Scales proportional position sizes (1 = mirror the leader)
+  accepted_performance_fee_percent?: number; // Fee the follower agreed to; rejected if the leader changed it
 }
 
+// fixed: every copied trade uses position_size_percent of the allocation.
+// proportional: trades mirror the leader's position size relative to its balance.
+export type CopyAllocationMode = 'fixed' | 'proportional';
+
 export interface InitializeDefaultBotInput {
-  exchange_credentials_id: string;
+  exchange_credentials_id?: string; // Omitted for paper bots
   bot_type: 'alpha-compounder' | 'xpat-trader';
   name: string;
   starting_balance?: number;
+  execution_mode?: BotExecutionMode;
+  paper_settings?: PaperTradingSettings;
 }
 
 export interface UpdateBotConfigInput {
@@ -113,6 +224,26 @@ export interface UpdateBotConfigInput {
   max_position_size?: number; // Maximum position size in base currency
   use_auto_leverage?: boolean; // Auto-adjust leverage based on confidence
   risk_per_trade?: number; // Risk per trade as % of balance
+  risk_guardrails?: BotRiskGuardrails;
+  schedule?: BotSchedule;
+  exchange_credentials_id?: string; // Re-points the bot to another key of the same exchange
+  change_note?: string; // Stored on the config version created by this update
+}
+
+// Bot configuration as recorded in a config version
+export type BotConfigSnapshot = Omit<UpdateBotConfigInput, 'change_note'>;
+
+export interface BotConfigVersion {
+  id: string;
+  bot_id: string;
+  version: number; // Increments with every saved change, starting at 1
+  changed_by: string; // User ID
+  changed_by_name?: string;
+  created_at: string;
+  before: BotConfigSnapshot;
+  after: BotConfigSnapshot;
+  change_note?: string;
+  rollback_of_version?: number; // Set when this version restored an earlier one
 }
 
 export interface BotStatistics {
@@ -165,10 +296,12 @@ export interface TradingPosition {
   total_pnl: number;
   realized_pnl: number;
   unrealized_pnl: number;
+  total_fees?: number; // Trading fees paid on entry, DCA and exit fills
   status: PositionStatus;
   entry_time: string;
   closed_at?: string;
   metadata?: Record<string, unknown>;
+  is_simulated?: boolean; // True for positions filled by a paper trading account
   // Trailing stop fields
   trailing_stop_active?: boolean;
   trailing_high_price?: number;
@@ -191,6 +324,7 @@ export interface DCAEntry {
   timestamp: string; // When this DCA entry was made
   ai_confidence: number; // AI confidence score at entry
   order_id: string; // Exchange order ID
+  fee?: number; // Fee paid on this fill
 }
 
 export interface PositionHistorySummary {
@@ -252,6 +386,25 @@ export interface DCAConfig {
   safety_order_step_scale: number;
 }
 
+export type AIProvider = 'openai' | 'anthropic' | 'local';
+
+// Self-hosted model server speaking the OpenAI chat completions API (llama.cpp, Ollama, vLLM)
+export interface LocalLLMConfig {
+  base_url: string; // e.g. "http://10.0.0.5:11434/v1"; must be reachable from the bot runners
+  api_key?: string; // Only needed when the server requires a bearer token
+  supports_vision?: boolean; // Detected by the connection test; charts are skipped when false
+}
+
+// An alternate model/prompt that re-runs each analysis in shadow mode for A/B comparison
+export interface AIShadowVariant {
+  id: string;
+  name: string; // Shown in comparisons, e.g. "Claude, stricter prompt"
+  ai_provider: AIProvider;
+  ai_model: string;
+  prompt_override?: string; // Replaces the bot's analysis prompt; empty keeps it
+  enabled: boolean;
+}
+
 export interface AISignalConfig {
   // Analysis Configuration
   analysis_timeframes: string[]; // e.g., ["1m", "5m", "15m", "30m", "1h", "4h", "1d"]
@@ -259,9 +412,13 @@ export interface AISignalConfig {
   higher_timeframe: string; // Higher timeframe for trend context (e.g., "4h")
 
   // AI Configuration
-  ai_provider: 'openai' | 'anthropic' | 'local';
+  ai_provider: AIProvider;
   ai_model: string; // "gpt-4o", "claude-3-sonnet", etc.
   api_key?: string; // API key for AI service (optional for display)
+  local_llm?: LocalLLMConfig; // Required when ai_provider is "local"
+  shadow_variants?: AIShadowVariant[]; // Analyzed alongside the bot but never traded
+  prompt_template_id?: string; // Custom analysis prompt; absent uses the built-in prompt
+  prompt_template_version?: number; // Pinned version; absent follows the latest version
 
   // Technical Indicators
   indicator_settings: IndicatorSettings;
@@ -405,10 +562,11 @@ class TradingBotService {
   }
 
   private transformCreateBotInput(input: CreateBotInput): Record<string, unknown> {
+    const isPaper = input.execution_mode === 'paper';
     const baseInput = {
       name: input.name,
       description: input.description,
-      exchange_credentials_id: input.exchange_credentials_id,
+      exchange_credentials_id: input.exchange_credentials_id || undefined,
       symbols: input.symbols, // Now using symbols array
       strategy: input.strategy,
       trading_mode: input.trading_mode,
@@ -420,6 +578,14 @@ class TradingBotService {
       max_position_size: input.max_position_size,
       use_auto_leverage: input.use_auto_leverage,
       risk_per_trade: input.risk_per_trade,
+      execution_mode: input.execution_mode || 'live',
+      paper_settings: isPaper
+        ? {
+            ...DEFAULT_PAPER_TRADING_SETTINGS,
+            virtual_balance: input.starting_balance,
+            ...input.paper_settings,
+          }
+        : undefined,
     };
 
     // For Alpha Compounder strategy, send the new multi-symbol config format
@@ -598,6 +764,19 @@ class TradingBotService {
   }
 
   async updateBotConfig(id: string, input: UpdateBotConfigInput): Promise<TradingBot> {
+    if (input.risk_guardrails) {
+      const validationError = this.validateRiskGuardrails(input.risk_guardrails);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+    }
+    if (input.schedule) {
+      const validationError = this.validateBotSchedule(input.schedule);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+    }
+
     try {
       const response = await api.put<ApiResponse<TradingBot>>(`/trading-bots/${id}/config`, input);
       if (response.data.success && response.data.data) {
@@ -622,6 +801,49 @@ class TradingBotService {
     }
   }
 
+  async getBotConfigVersions(botId: string): Promise<BotConfigVersion[]> {
+    try {
+      const response = await api.get<ApiResponse<BotConfigVersion[]>>(
+        `/trading-bots/${botId}/config/versions`,
+      );
+      if (response.data.success && response.data.data) {
+        // Newest first
+        return [...response.data.data].sort((a, b) => b.version - a.version);
+      }
+      return [];
+    } catch (error) {
+      if (isAxiosError(error)) {
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  async rollbackBotConfig(botId: string, versionId: string): Promise<TradingBot> {
+    try {
+      const response = await api.post<ApiResponse<TradingBot>>(
+        `/trading-bots/${botId}/config/versions/${versionId}/rollback`,
+      );
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.error || 'Failed to roll back bot configuration');
+    } catch (error) {
+      if (isAxiosError(error)) {
+        const errorData = error.response?.data;
+        if (errorData?.error && typeof errorData.error === 'object') {
+          const errorMessage =
+            errorData.error.message ||
+            errorData.error.details ||
+            'Failed to roll back bot configuration';
+          throw new Error(errorMessage);
+        }
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
   async getBotStatistics(id: string): Promise<BotStatistics> {
     try {
       const response = await api.get<ApiResponse<BotStatistics>>(`/trading-bots/${id}/statistics`);
@@ -724,6 +946,347 @@ class TradingBotService {
     };
   }
 
+  async getPaperAccount(botId: string): Promise<PaperAccount> {
+    try {
+      const response = await api.get<ApiResponse<PaperAccount>>(
+        `/trading-bots/${botId}/paper-account`,
+      );
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.error || 'Failed to get paper trading account');
+    } catch (error) {
+      if (isAxiosError(error)) {
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  async resetPaperAccount(botId: string, virtualBalance?: number): Promise<PaperAccount> {
+    try {
+      const response = await api.post<ApiResponse<PaperAccount>>(
+        `/trading-bots/${botId}/paper-account/reset`,
+        { virtual_balance: virtualBalance },
+      );
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.error || 'Failed to reset paper trading account');
+    } catch (error) {
+      if (isAxiosError(error)) {
+        const errorData = error.response?.data;
+        if (errorData?.error && typeof errorData.error === 'object') {
+          const errorMessage =
+            errorData.error.message ||
+            errorData.error.details ||
+            'Failed to reset paper trading account';
+          throw new Error(errorMessage);
+        }
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Validate guardrail limits before they are sent to the backend.
+   * Returns an error message, or null when the limits are valid.
+   */
+  validateRiskGuardrails(guardrails: BotRiskGuardrails | UserRiskGuardrails): string | null {
+    const exposure =
+      (guardrails as BotRiskGuardrails).max_open_exposure ??
+      (guardrails as UserRiskGuardrails).max_open_exposure_per_exchange;
+
+    if (guardrails.max_daily_loss !== undefined && guardrails.max_daily_loss <= 0) {
+      return 'Max daily loss must be greater than 0';
+    }
+    if (exposure !== undefined && exposure <= 0) {
+      return 'Max open exposure must be greater than 0';
+    }
+    if (
+      guardrails.max_consecutive_losses !== undefined &&
+      (!Number.isInteger(guardrails.max_consecutive_losses) ||
+        guardrails.max_consecutive_losses < 1)
+    ) {
+      return 'Max consecutive losses must be a whole number of at least 1';
+    }
+    return null;
+  }
+
+  /**
+   * Validate a bot schedule before it is sent to the backend.
+   * Returns an error message, or null when the schedule is valid.
+   */
+  validateBotSchedule(schedule: BotSchedule): string | null {
+    if (!isValidTimezone(schedule.timezone)) {
+      return `Unknown timezone "${schedule.timezone}"`;
+    }
+
+    for (const [index, window] of schedule.trading_windows.entries()) {
+      const label = `Trading window ${index + 1}`;
+      if (window.days.length === 0) {
+        return `${label} must include at least one day`;
+      }
+      if (!TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end)) {
+        return `${label} needs start and end times in HH:MM format`;
+      }
+    }
+
+    for (const event of schedule.market_events) {
+      if (!event.title.trim()) {
+        return 'Every market event needs a title';
+      }
+      if (Number.isNaN(Date.parse(event.starts_at))) {
+        return `"${event.title}" needs a valid date and time`;
+      }
+      if (event.pause_before_minutes < 0 || event.resume_after_minutes < 0) {
+        return `Pause and resume minutes for "${event.title}" cannot be negative`;
+      }
+    }
+
+    if (schedule.auto_stop_at && Number.isNaN(Date.parse(schedule.auto_stop_at))) {
+      return 'Auto-stop needs a valid date and time';
+    }
+    return null;
+  }
+
+  async getUserRiskGuardrails(): Promise<UserRiskGuardrails> {
+    try {
+      const response = await api.get<ApiResponse<UserRiskGuardrails>>(
+        '/trading-bots/risk-guardrails',
+      );
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      return {};
+    } catch (error) {
+      if (isAxiosError(error)) {
+        // No guardrails configured yet
+        if (error.response?.status === 404) {
+          return {};
+        }
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  async updateUserRiskGuardrails(input: UserRiskGuardrails): Promise<UserRiskGuardrails> {
+    const validationError = this.validateRiskGuardrails(input);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    try {
+      const response = await api.put<ApiResponse<UserRiskGuardrails>>(
+        '/trading-bots/risk-guardrails',
+        input,
+      );
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.error || 'Failed to update risk guardrails');
+    } catch (error) {
+      if (isAxiosError(error)) {
+        const errorData = error.response?.data;
+        if (errorData?.error && typeof errorData.error === 'object') {
+          const errorMessage =
+            errorData.error.message ||
+            errorData.error.details ||
+            'Failed to update risk guardrails';
+          throw new Error(errorMessage);
+        }
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * When a position last realized PnL: closed_at once it is closed, or the time of its latest
+   * partial close (updated_at) while partially closed. Null while nothing has been sold.
+   */
+  getRealizedAt(position: TradingPosition): string | null {
+    if (position.status === 'closed') return position.closed_at ?? null;
+    if (position.status === 'partially_closed') return position.updated_at;
+    return null;
+  }
+
+  /**
+   * Check running bots against their own and the user's guardrails, for display only.
+   * The backend evaluates the saved limits and pauses bots itself; see getGuardrailPauses.
+   * positionsByBot should hold the position history (open and closed) of every bot that is
+   * not a draft, so account-wide daily loss includes bots that were stopped today.
+   * Bots missing from positionsByBot are skipped; account-wide totals then only cover the
+   * bots that are present, so a breach still holds but its absence proves nothing.
+   */
+  evaluateRiskGuardrails(
+    bots: TradingBot[],
+    positionsByBot: Record<string, TradingPosition[]>,
+    userGuardrails: UserRiskGuardrails,
+    now: Date = new Date(),
+  ): GuardrailBreach[] {
+    const dayStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+    const breaches: GuardrailBreach[] = [];
+
+    const realizedSince = (positions: TradingPosition[], since: number) =>
+      positions.filter(p => {
+        const realizedAt = this.getRealizedAt(p);
+        return realizedAt !== null && Date.parse(realizedAt) >= since;
+      });
+
+    const dailyLoss = (positions: TradingPosition[]) => {
+      const pnl = realizedSince(positions, dayStart).reduce((sum, p) => sum + p.realized_pnl, 0);
+      return pnl < 0 ? -pnl : 0;
+    };
+
+    const openExposure = (positions: TradingPosition[]) =>
+      positions
+        .filter(p => p.status !== 'closed')
+        .reduce((sum, p) => sum + p.entry_price * p.remaining_quantity, 0);
+
+    // Only losses since the bot was last started count, so a reviewed bot can be restarted
+    const consecutiveLosses = (bot: TradingBot, positions: TradingPosition[]) => {
+      const since = bot.started_at ? Date.parse(bot.started_at) : 0;
+      const realized = realizedSince(positions, since).sort(
+        (a, b) => Date.parse(this.getRealizedAt(b)!) - Date.parse(this.getRealizedAt(a)!),
+      );
+      let streak = 0;
+      for (const position of realized) {
+        if (position.realized_pnl >= 0) break;
+        streak++;
+      }
+      return streak;
+    };
+
+    // Paper bots are excluded from account-wide limits since their losses are simulated
+    const liveBots = bots.filter(bot => bot.execution_mode !== 'paper');
+    const accountDailyLoss = liveBots.reduce(
+      (sum, bot) => sum + dailyLoss(positionsByBot[bot.id] ?? []),
+      0,
+    );
+    const exposureByCredential = new Map<string, number>();
+    liveBots.forEach(bot => {
+      if (!bot.exchange_credentials_id) return;
+      exposureByCredential.set(
+        bot.exchange_credentials_id,
+        (exposureByCredential.get(bot.exchange_credentials_id) ?? 0) +
+          openExposure(positionsByBot[bot.id] ?? []),
+      );
+    });
+
+    bots
+      .filter(bot => bot.status === 'running' && positionsByBot[bot.id] !== undefined)
+      .forEach(bot => {
+        const positions = positionsByBot[bot.id] ?? [];
+        const guardrails = bot.risk_guardrails ?? {};
+        const isLive = bot.execution_mode !== 'paper';
+        const breach = (
+          rule: GuardrailRule,
+          scope: GuardrailBreach['scope'],
+          limit: number,
+          value: number,
+        ) => breaches.push({ bot_id: bot.id, bot_name: bot.name, rule, scope, limit, value });
+
+        const botDailyLoss = dailyLoss(positions);
+        if (guardrails.max_daily_loss !== undefined && botDailyLoss >= guardrails.max_daily_loss) {
+          breach('max_daily_loss', 'bot', guardrails.max_daily_loss, botDailyLoss);
+        }
+
+        const botExposure = openExposure(positions);
+        if (
+          guardrails.max_open_exposure !== undefined &&
+          botExposure > guardrails.max_open_exposure
+        ) {
+          breach('max_open_exposure', 'bot', guardrails.max_open_exposure, botExposure);
+        }
+
+        const lossLimit =
+          guardrails.max_consecutive_losses ?? userGuardrails.max_consecutive_losses;
+        const streak = consecutiveLosses(bot, positions);
+        if (lossLimit !== undefined && streak >= lossLimit) {
+          breach(
+            'max_consecutive_losses',
+            guardrails.max_consecutive_losses !== undefined ? 'bot' : 'user',
+            lossLimit,
+            streak,
+          );
+        }
+
+        if (!isLive) return;
+
+        if (
+          userGuardrails.max_daily_loss !== undefined &&
+          accountDailyLoss >= userGuardrails.max_daily_loss
+        ) {
+          breach('max_daily_loss', 'user', userGuardrails.max_daily_loss, accountDailyLoss);
+        }
+
+        const credentialExposure = exposureByCredential.get(bot.exchange_credentials_id) ?? 0;
+        if (
+          userGuardrails.max_open_exposure_per_exchange !== undefined &&
+          credentialExposure > userGuardrails.max_open_exposure_per_exchange
+        ) {
+          breach(
+            'max_open_exposure',
+            'user',
+            userGuardrails.max_open_exposure_per_exchange,
+            credentialExposure,
+          );
+        }
+      });
+
+    return breaches;
+  }
+
+  /**
+   * Bots paused automatically because of a guardrail breach, newest first
+   */
+  async getGuardrailPauses(limit = 20): Promise<GuardrailPause[]> {
+    try {
+      const response = await api.get<ApiResponse<GuardrailPause[]>>(
+        `/trading-bots/risk-guardrails/pauses?limit=${limit}`,
+      );
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      return [];
+    } catch (error) {
+      if (isAxiosError(error)) {
+        // Nothing paused yet
+        if (error.response?.status === 404) {
+          return [];
+        }
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
+  async killAllBots(closePositions = false): Promise<KillSwitchResult> {
+    try {
+      const response = await api.post<ApiResponse<KillSwitchResult>>('/trading-bots/kill-switch', {
+        close_positions: closePositions,
+      });
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new Error(response.data.error || 'Failed to stop all trading bots');
+    } catch (error) {
+      if (isAxiosError(error)) {
+        const errorData = error.response?.data;
+        if (errorData?.error && typeof errorData.error === 'object') {
+          const errorMessage =
+            errorData.error.message || errorData.error.details || 'Failed to stop all trading bots';
+          throw new Error(errorMessage);
+        }
+        throw new Error(error.response?.data?.error || error.message);
+      }
+      throw error;
+    }
+  }
+
   async getCopyableBots(limit = 20, offset = 0): Promise<TradingBot[]> {
     try {
       const response = await api.get<ApiResponse<TradingBot[]>>(
@@ -1,6 +1,7 @@
 import api from './api';
 import { isAxiosError } from 'axios';
 import { Money } from '../types/api';
+import { NetworkType } from './networks';
 
 // API response wrapper
 interface ApiResponse<T> {
@@ -41,7 +42,9 @@ export type TransactionType =
   | 'fee'
   | 'commission'
   | 'crypto_deposit'
-  | 'crypto_withdraw';
+  | 'crypto_withdraw'
+  | 'conversion_out' // Debit from the source wallet of a currency conversion
+  | 'conversion_in'; // Matching credit to the target wallet
 
 export type TransactionStatus =
   | 'pending'
@@ -72,6 +75,7 @@ export interface TransactionMetadata {
   payment_provider?: PaymentProvider;
   external_reference?: string;
   blockchain_tx_hash?: string;
+  network?: NetworkType; // Chain of the on-chain transfer; Polygon when absent
   blockchain_block?: number;
   confirmations?: number;
   exchange_rate?: number;
@@ -85,6 +89,15 @@ export interface TransactionMetadata {
   device_fingerprint?: string;
   risk_score?: number;
   notes?: string;
+  // Copy-trading performance fee commissions
+  bot_id?: string;
+  fee_settlement_id?: string;
+  // Currency conversions: both legs share conversion_id, counter_amount is the other leg
+  conversion_id?: string;
+  counter_amount?: {
+    amount: number;
+    currency: string;
+  };
 }
 
 // Transaction interface (matching backend response)
@@ -110,6 +123,31 @@ export interface TransactionListResponse {
   pagination: Pagination;
 }
 
+// Exchange rates to USD
+export interface ExchangeRates {
+  usdt_usd: number;
+  pol_usd: number;
+}
+
+// Firm quote for converting between two wallet balances
+export interface ConversionQuote {
+  id: string;
+  from_currency: Currency;
+  to_currency: Currency;
+  from_amount: number;
+  to_amount: number;
+  rate: number; // to_currency per from_currency, spread included
+  mid_rate: number; // From the exchange rates, before spread
+  spread_percent: number;
+  expires_at: string;
+}
+
+export interface ConversionResult {
+  conversion_id: string;
+  debit_transaction: Transaction;
+  credit_transaction: Transaction;
+}
+
 // Wallet summary interface
 export interface WalletSummary {
   wallets: WalletBalance[];
@@ -218,10 +256,9 @@ class WalletService {
   }
 
   // Get exchange rates for currency conversion
-  async getExchangeRates(): Promise<{ usdt_usd: number; pol_usd: number }> {
+  async getExchangeRates(): Promise<ExchangeRates> {
     try {
-      const response =
-        await api.get<ApiResponse<{ usdt_usd: number; pol_usd: number }>>('/wallet/exchange-rates');
+      const response = await api.get<ApiResponse<ExchangeRates>>('/wallet/exchange-rates');
 
       if (!response.data?.success || !response.data.data) {
         throw new Error(response.data?.message || 'Failed to get exchange rates');
@@ -266,6 +303,70 @@ class WalletService {
     }
   }
 
+  // Get a firm quote for converting an amount between two of the user's wallets
+  async getConversionQuote(
+    fromCurrency: Currency,
+    toCurrency: Currency,
+    fromAmount: number,
+  ): Promise<ConversionQuote> {
+    try {
+      const response = await api.post<ApiResponse<ConversionQuote>>('/wallet/conversions/quote', {
+        from_currency: fromCurrency,
+        to_currency: toCurrency,
+        from_amount: fromAmount,
+      });
+
+      if (!response.data?.success || !response.data.data) {
+        throw new Error(response.data?.message || 'Failed to get conversion quote');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Get conversion quote error:', error);
+      if (isAxiosError(error) && error.response?.data?.message) {
+        throw new Error(error.response.data.message);
+      }
+      throw new Error('Failed to get conversion quote');
+    }
+  }
+
+  // Execute a quote before it expires. Creates a conversion_out and conversion_in transaction.
+  async executeConversion(quoteId: string): Promise<ConversionResult> {
+    try {
+      const response = await api.post<ApiResponse<ConversionResult>>('/wallet/conversions', {
+        quote_id: quoteId,
+      });
+
+      if (!response.data?.success || !response.data.data) {
+        throw new Error(response.data?.message || 'Failed to convert');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Execute conversion error:', error);
+      if (isAxiosError(error) && error.response?.data?.message) {
+        throw new Error(error.response.data.message);
+      }
+      throw new Error('Failed to convert');
+    }
+  }
+
+  // Indicative amount at the mid rate, for display while typing. Quotes add the spread.
+  estimateConversion(
+    rates: ExchangeRates,
+    fromCurrency: Currency,
+    toCurrency: Currency,
+    fromAmount: number,
+  ): number {
+    const usdRates: Record<Currency, number> = {
+      USD: 1,
+      USDT: rates.usdt_usd,
+      POL: rates.pol_usd,
+    };
+    const toRate = usdRates[toCurrency];
+    return toRate > 0 ? (fromAmount * usdRates[fromCurrency]) / toRate : 0;
+  }
+
   // Format currency amount for display
   formatCurrency(amount: number | string, currency: string): string {
     const numAmount = typeof amount === 'string' ? parseFloat(amount) || 0 : amount;
@@ -299,6 +400,8 @@ class WalletService {
       commission: 'Commission',
       crypto_deposit: 'Crypto Deposit',
       crypto_withdraw: 'Crypto Withdrawal',
+      conversion_out: 'Conversion',
+      conversion_in: 'Conversion',
     };
 
     return typeNames[type] || type;
@@ -326,6 +429,7 @@ class WalletService {
       'refund',
       'escrow_release',
       'commission',
+      'conversion_in',
     ];
 
     // For transfers, check if current user is recipient
@@ -1,4 +1,7 @@
 import { Message, Conversation } from './messaging';
+import { BotStatus, DCAEntry, TradingBot, TradingPosition } from './tradingBot';
+import { AIAnalysisLog } from './aiAnalysis';
+import { PendingDeposit } from './deposits';
 import { auth } from '@/lib/firebase';
 
 // Specific data types for different message types
@@ -30,6 +33,43 @@ export interface MessageReadData {
   read_at: string;
 }
 
+export interface BotStatusData {
+  bot_id: string;
+  status: BotStatus;
+  previous_status?: BotStatus;
+  bot?: Partial<TradingBot>;
+  reason?: string;
+}
+
+export interface PositionData {
+  bot_id: string;
+  position: TradingPosition;
+}
+
+export interface PositionDCAData {
+  bot_id: string;
+  position: TradingPosition;
+  entry: DCAEntry;
+}
+
+export interface TrailingStopData {
+  bot_id: string;
+  position_id: string;
+  symbol: string;
+  trailing_high_price: number;
+  trailing_trigger_price: number;
+  position?: TradingPosition;
+}
+
+export interface AIAnalysisData {
+  bot_id: string;
+  log: AIAnalysisLog;
+}
+
+export interface DepositUpdateData {
+  deposit: PendingDeposit;
+}
+
 export interface WebSocketMessage {
   type:
     | 'message'
@@ -38,6 +78,13 @@ export interface WebSocketMessage {
     | 'user_offline'
     | 'typing'
     | 'message_read'
+    | 'bot_status'
+    | 'position_opened'
+    | 'position_closed'
+    | 'position_dca'
+    | 'trailing_stop_activated'
+    | 'ai_analysis'
+    | 'deposit_update'
     | 'pong';
   data:
     | MessageData
@@ -45,6 +92,12 @@ export interface WebSocketMessage {
     | UserStatusData
     | TypingData
     | MessageReadData
+    | BotStatusData
+    | PositionData
+    | PositionDCAData
+    | TrailingStopData
+    | AIAnalysisData
+    | DepositUpdateData
     | unknown;
   timestamp: string;
 }
@@ -81,12 +134,74 @@ export interface MessageReadEvent {
   read_at: string;
 }
 
+export interface BotStatusEvent {
+  type: 'bot_status';
+  bot_id: string;
+  status: BotStatus;
+  previous_status?: BotStatus;
+  bot?: Partial<TradingBot>;
+  reason?: string;
+}
+
+export interface PositionEvent {
+  type: 'position_opened' | 'position_closed';
+  bot_id: string;
+  position: TradingPosition;
+}
+
+export interface PositionDCAEvent {
+  type: 'position_dca';
+  bot_id: string;
+  position: TradingPosition;
+  entry: DCAEntry;
+}
+
+export interface TrailingStopEvent {
+  type: 'trailing_stop_activated';
+  bot_id: string;
+  position_id: string;
+  symbol: string;
+  trailing_high_price: number;
+  trailing_trigger_price: number;
+  position?: TradingPosition;
+}
+
+export interface AIAnalysisEvent {
+  type: 'ai_analysis';
+  bot_id: string;
+  log: AIAnalysisLog;
+}
+
+// Sent to the depositing user for every confirmation and status change
+export interface DepositUpdateEvent {
+  type: 'deposit_update';
+  deposit: PendingDeposit;
+}
+
+export type BotRealtimeEvent =
+  | BotStatusEvent
+  | PositionEvent
+  | PositionDCAEvent
+  | TrailingStopEvent
+  | AIAnalysisEvent;
+
 export type RealtimeEvent =
   | MessageEvent
   | ConversationUpdateEvent
   | UserStatusEvent
   | TypingEvent
-  | MessageReadEvent;
+  | MessageReadEvent
+  | BotRealtimeEvent
+  | DepositUpdateEvent;
+
+const BOT_EVENT_TYPES: BotRealtimeEvent['type'][] = [
+  'bot_status',
+  'position_opened',
+  'position_closed',
+  'position_dca',
+  'trailing_stop_activated',
+  'ai_analysis',
+];
 
 export class WebSocketService {
   private ws: WebSocket | null = null;
@@ -102,6 +217,8 @@ export class WebSocketService {
   // Queue for pending actions while disconnected
   private pendingActions: Array<() => void> = [];
   private joinedConversations: Set<string> = new Set();
+  // Reference counts per bot id, so several widgets can watch the same bot
+  private subscribedBots: Map<string, number> = new Map();
 
   constructor() {
     this.setupGlobalListeners();
@@ -116,6 +233,12 @@ export class WebSocketService {
     this.listeners.set('typing_start', new Set());
     this.listeners.set('typing_stop', new Set());
     this.listeners.set('message_read', new Set());
+
+    // Trading bot events
+    BOT_EVENT_TYPES.forEach(eventType => this.listeners.set(eventType, new Set()));
+
+    // Wallet events
+    this.listeners.set('deposit_update', new Set());
   }
 
   async connect(userId: string) {
@@ -131,7 +254,10 @@ export class WebSocketService {
       return;
     }
 
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+    if (
+      this.ws &&
+      (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING)
+    ) {
       return;
     }
 
@@ -155,6 +281,9 @@ export class WebSocketService {
 
         // Process pending actions
         this.processPendingActions();
+
+        // The server forgets bot subscriptions when the socket drops
+        this.subscribedBots.forEach((_, botId) => this.sendBotSubscription(botId, true));
       };
 
       this.ws.onmessage = event => {
@@ -264,6 +393,68 @@ export class WebSocketService {
         };
         break;
 
+      case 'bot_status':
+        const botStatusData = data as BotStatusData;
+        event = {
+          type: 'bot_status',
+          bot_id: botStatusData.bot_id,
+          status: botStatusData.status,
+          previous_status: botStatusData.previous_status,
+          bot: botStatusData.bot,
+          reason: botStatusData.reason,
+        };
+        break;
+
+      case 'position_opened':
+      case 'position_closed':
+        const positionData = data as PositionData;
+        event = {
+          type,
+          bot_id: positionData.bot_id,
+          position: positionData.position,
+        };
+        break;
+
+      case 'position_dca':
+        const dcaData = data as PositionDCAData;
+        event = {
+          type: 'position_dca',
+          bot_id: dcaData.bot_id,
+          position: dcaData.position,
+          entry: dcaData.entry,
+        };
+        break;
+
+      case 'trailing_stop_activated':
+        const trailingData = data as TrailingStopData;
+        event = {
+          type: 'trailing_stop_activated',
+          bot_id: trailingData.bot_id,
+          position_id: trailingData.position_id,
+          symbol: trailingData.symbol,
+          trailing_high_price: trailingData.trailing_high_price,
+          trailing_trigger_price: trailingData.trailing_trigger_price,
+          position: trailingData.position,
+        };
+        break;
+
+      case 'ai_analysis':
+        const analysisData = data as AIAnalysisData;
+        event = {
+          type: 'ai_analysis',
+          bot_id: analysisData.bot_id,
+          log: analysisData.log,
+        };
+        break;
+
+      case 'deposit_update':
+        const depositData = data as DepositUpdateData;
+        event = {
+          type: 'deposit_update',
+          deposit: depositData.deposit,
+        };
+        break;
+
       case 'pong':
         // Handle pong response from server
         console.info('🏓 Received pong from server');
@@ -348,6 +539,7 @@ export class WebSocketService {
     // Clear pending actions and joined conversations on explicit disconnect
     this.pendingActions = [];
     this.joinedConversations.clear();
+    this.subscribedBots.clear();
 
     this.notifyConnectionListeners(false);
   }
@@ -397,6 +589,20 @@ export class WebSocketService {
     return this.addEventListener('message_read', callback as (event: RealtimeEvent) => void);
   }
 
+  onBotEvent(callback: (event: BotRealtimeEvent) => void): () => void {
+    const unsubscribers = BOT_EVENT_TYPES.map(eventType =>
+      this.addEventListener(eventType, callback as (event: RealtimeEvent) => void),
+    );
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }
+
+  onDepositUpdate(callback: (event: DepositUpdateEvent) => void): () => void {
+    return this.addEventListener('deposit_update', callback as (event: RealtimeEvent) => void);
+  }
+
   onConnectionChange(callback: (connected: boolean) => void): () => void {
     this.connectionListeners.add(callback);
 
@@ -482,6 +688,49 @@ export class WebSocketService {
     }
   }
 
+  subscribeToBot(botId: string) {
+    const count = this.subscribedBots.get(botId) ?? 0;
+    this.subscribedBots.set(botId, count + 1);
+
+    // Only the first subscriber needs to tell the server
+    if (count > 0) {
+      return;
+    }
+
+    // Connection open handler resubscribes everything in subscribedBots
+    if (this.isConnected) {
+      this.sendBotSubscription(botId, true);
+    }
+  }
+
+  unsubscribeFromBot(botId: string) {
+    const count = this.subscribedBots.get(botId);
+    if (!count) {
+      return;
+    }
+
+    if (count > 1) {
+      this.subscribedBots.set(botId, count - 1);
+      return;
+    }
+
+    this.subscribedBots.delete(botId);
+    this.sendBotSubscription(botId, false);
+  }
+
+  private sendBotSubscription(botId: string, subscribe: boolean) {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(
+        JSON.stringify({
+          type: subscribe ? 'subscribe_bot' : 'unsubscribe_bot',
+          data: {
+            bot_id: botId,
+          },
+        }),
+      );
+    }
+  }
+
   private processPendingActions() {
     console.info('🔄 Processing pending actions:', this.pendingActions.length);
 
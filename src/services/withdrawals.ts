@@ -1,6 +1,7 @@
 import api from './api';
 import { isAxiosError } from 'axios';
 import { DepositCurrency as Currency, NetworkType } from './deposits';
+import { networkRegistry } from './networks';
 
 // API response wrapper
 interface ApiResponse<T> {
@@ -67,10 +68,33 @@ export interface AddressBookEntry {
   network: NetworkType;
   currency: Currency;
   is_verified: boolean;
+  email_confirmed_at?: string; // Set once the emailed confirmation link is opened
+  unlocks_at?: string; // End of the allowlist cooling period, counted from email confirmation
   created_at: string;
   updated_at: string;
 }
 
+// Where an address-book entry stands under the withdrawal allowlist
+export type AddressBookStatus = 'pending_email' | 'cooling_down' | 'active';
+
+// Withdrawal address allowlist. Turning it on applies immediately; turning it off needs a
+// 2FA code and only takes effect after disable_delay_hours, so a stolen session cannot
+// switch it off and withdraw in one go.
+export interface WithdrawalAllowlistSettings {
+  enabled: boolean;
+  cooling_period_hours: number; // How long a newly confirmed address stays locked
+  disable_delay_hours: number;
+  disable_scheduled_at?: string; // When a requested switch-off takes effect
+}
+
+export const ALLOWLIST_COOLING_PERIOD_OPTIONS = [24, 48, 72, 168];
+
+export const DEFAULT_ALLOWLIST_SETTINGS: WithdrawalAllowlistSettings = {
+  enabled: false,
+  cooling_period_hours: 24,
+  disable_delay_hours: 24,
+};
+
 class WithdrawalService {
   // Initiate a withdrawal
   async createWithdrawal(request: WithdrawalRequest): Promise<WithdrawalResponse> {
@@ -339,49 +363,202 @@ class WithdrawalService {
     }
   }
 
-  // Basic client-side address validation
-  private basicAddressValidation(address: string, network: NetworkType): boolean {
-    const ethAddressRegex = /^0x[a-fA-F0-9]{40}$/;
+  // Resend the confirmation email for a new address-book entry
+  async resendAddressConfirmation(addressId: string): Promise<void> {
+    try {
+      const response = await api.post<ApiResponse<void>>(
+        `/wallet/address-book/${addressId}/resend-confirmation`,
+      );
 
-    switch (network) {
-      case 'polygon':
-        return ethAddressRegex.test(address);
-      default:
-        return false;
+      if (!response.data?.success) {
+        throw new Error(response.data?.message || 'Failed to resend confirmation email');
+      }
+    } catch (error) {
+      console.error('Resend address confirmation error:', error);
+      if (isAxiosError(error) && error.response?.data?.message) {
+        throw new Error(error.response.data.message);
+      }
+      throw new Error('Failed to resend confirmation email');
     }
   }
 
-  // Get default network fees when API is unavailable
-  private getDefaultNetworkFee(currency: Currency, network: NetworkType): NetworkFee {
-    const defaultFees: Record<string, NetworkFee> = {
-      'USDT-polygon': {
-        currency: 'USDT',
-        network: 'polygon',
-        fee_amount: 1,
-        fee_currency: 'POL',
-        estimated_time: '2-5 minutes',
-      },
-      'POL-polygon': {
-        currency: 'POL',
-        network: 'polygon',
-        fee_amount: 0.01,
-        fee_currency: 'POL',
-        estimated_time: '2-5 minutes',
-      },
-    };
+  // Confirm a new address-book entry with the token from the confirmation email
+  async confirmAddressBookEntry(token: string): Promise<AddressBookEntry> {
+    try {
+      const response = await api.post<ApiResponse<AddressBookEntry>>(
+        '/wallet/address-book/confirm',
+        { token },
+      );
 
-    const key = `${currency}-${network}`;
-    return (
-      defaultFees[key] || {
-        currency,
-        network,
-        fee_amount: 0,
-        fee_currency: currency,
-        estimated_time: '5-30 minutes',
+      if (!response.data?.success || !response.data.data) {
+        throw new Error(response.data?.message || 'Failed to confirm address');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Confirm address error:', error);
+      if (isAxiosError(error) && error.response?.data?.message) {
+        throw new Error(error.response.data.message);
+      }
+      throw new Error('Failed to confirm address');
+    }
+  }
+
+  // Get withdrawal allowlist settings
+  async getAllowlistSettings(): Promise<WithdrawalAllowlistSettings> {
+    try {
+      const response = await api.get<ApiResponse<WithdrawalAllowlistSettings>>('/wallet/allowlist');
+
+      if (!response.data?.success || !response.data.data) {
+        throw new Error(response.data?.message || 'Failed to get allowlist settings');
+      }
+
+      return { ...DEFAULT_ALLOWLIST_SETTINGS, ...response.data.data };
+    } catch (error) {
+      console.error('Get allowlist settings error:', error);
+      if (isAxiosError(error) && error.response?.status === 404) {
+        return DEFAULT_ALLOWLIST_SETTINGS;
+      }
+      if (isAxiosError(error) && error.response?.data?.message) {
+        throw new Error(error.response.data.message);
+      }
+      throw new Error('Failed to get allowlist settings');
+    }
+  }
+
+  // Turn the allowlist on. Takes effect immediately.
+  async enableAllowlist(coolingPeriodHours: number): Promise<WithdrawalAllowlistSettings> {
+    try {
+      const response = await api.post<ApiResponse<WithdrawalAllowlistSettings>>(
+        '/wallet/allowlist/enable',
+        { cooling_period_hours: coolingPeriodHours },
+      );
+
+      if (!response.data?.success || !response.data.data) {
+        throw new Error(response.data?.message || 'Failed to enable allowlist');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Enable allowlist error:', error);
+      if (isAxiosError(error) && error.response?.data?.message) {
+        throw new Error(error.response.data.message);
       }
+      throw new Error('Failed to enable allowlist');
+    }
+  }
+
+  // Schedule the allowlist to turn off after the disable delay
+  async requestAllowlistDisable(twoFactorCode: string): Promise<WithdrawalAllowlistSettings> {
+    try {
+      const response = await api.post<ApiResponse<WithdrawalAllowlistSettings>>(
+        '/wallet/allowlist/disable',
+        { two_factor_code: twoFactorCode },
+      );
+
+      if (!response.data?.success || !response.data.data) {
+        throw new Error(response.data?.message || 'Failed to turn off allowlist');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Disable allowlist error:', error);
+      if (isAxiosError(error) && error.response?.data?.message) {
+        throw new Error(error.response.data.message);
+      }
+      throw new Error('Failed to turn off allowlist');
+    }
+  }
+
+  // Cancel a scheduled switch-off
+  async cancelAllowlistDisable(): Promise<WithdrawalAllowlistSettings> {
+    try {
+      const response = await api.post<ApiResponse<WithdrawalAllowlistSettings>>(
+        '/wallet/allowlist/disable/cancel',
+      );
+
+      if (!response.data?.success || !response.data.data) {
+        throw new Error(response.data?.message || 'Failed to cancel');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Cancel allowlist disable error:', error);
+      if (isAxiosError(error) && error.response?.data?.message) {
+        throw new Error(error.response.data.message);
+      }
+      throw new Error('Failed to cancel');
+    }
+  }
+
+  getAddressBookStatus(entry: AddressBookEntry, now: number = Date.now()): AddressBookStatus {
+    if (!entry.is_verified && !entry.email_confirmed_at) {
+      return 'pending_email';
+    }
+    if (entry.unlocks_at && new Date(entry.unlocks_at).getTime() > now) {
+      return 'cooling_down';
+    }
+    return 'active';
+  }
+
+  // Address-book entry for an address on a network. EVM addresses compare case-insensitively.
+  findAddressBookEntry(
+    addressBook: AddressBookEntry[],
+    address: string,
+    network: NetworkType,
+  ): AddressBookEntry | undefined {
+    const caseInsensitive = networkRegistry.get(network)?.os === 'evm';
+    const normalize = (value: string) =>
+      caseInsensitive ? value.trim().toLowerCase() : value.trim();
+    const target = normalize(address);
+    return addressBook.find(
+      entry => entry.network === network && normalize(entry.address) === target,
     );
   }
 
+  // Check a withdrawal destination against the allowlist
+  validateAllowlistedAddress(
+    settings: WithdrawalAllowlistSettings,
+    addressBook: AddressBookEntry[],
+    address: string,
+    network: NetworkType,
+    now: number = Date.now(),
+  ): string | null {
+    if (!settings.enabled) return null;
+
+    const entry = this.findAddressBookEntry(addressBook, address, network);
+    if (!entry) {
+      return 'Address allowlist is on. Save this address to your address book and confirm it first.';
+    }
+
+    const status = this.getAddressBookStatus(entry, now);
+    if (status === 'pending_email') {
+      return 'Confirm this address from the email we sent you before withdrawing to it';
+    }
+    if (status === 'cooling_down') {
+      return `This address unlocks for withdrawals on ${new Date(entry.unlocks_at!).toLocaleString()}`;
+    }
+    return null;
+  }
+
+  // Basic client-side address validation
+  private basicAddressValidation(address: string, network: NetworkType): boolean {
+    return networkRegistry.validateAddress(address, network);
+  }
+
+  // Get default network fees when API is unavailable
+  private getDefaultNetworkFee(currency: Currency, network: NetworkType): NetworkFee {
+    const config = networkRegistry.get(network);
+    const fee = config?.default_withdrawal_fee[currency];
+    return {
+      currency,
+      network,
+      fee_amount: fee?.amount ?? 0,
+      fee_currency: fee?.currency ?? currency,
+      estimated_time: config?.estimated_time ?? '5-30 minutes',
+    };
+  }
+
   // Get supported withdrawal methods
   getSupportedWithdrawalMethods(): Array<{
     currency: Currency;
@@ -392,30 +569,15 @@ class WithdrawalService {
       fee_estimate: string;
     }>;
   }> {
-    return [
-      {
-        currency: 'USDT',
-        networks: [
-          {
-            network: 'polygon',
-            name: 'Polygon',
-            min_amount: 1,
-            fee_estimate: '~$0.01',
-          },
-        ],
-      },
-      {
-        currency: 'POL',
-        networks: [
-          {
-            network: 'polygon',
-            name: 'Polygon',
-            min_amount: 0.1,
-            fee_estimate: '~$0.01',
-          },
-        ],
-      },
-    ];
+    return networkRegistry.getCurrencies().map(currency => ({
+      currency,
+      networks: networkRegistry.getNetworksForCurrency(currency).map(network => ({
+        network: network.type,
+        name: network.name,
+        min_amount: network.min_withdrawal[currency] ?? 0,
+        fee_estimate: network.fee_estimate,
+      })),
+    }));
   }
 
   // Format withdrawal status for display
@@ -0,0 +1,100 @@
+import { createHash } from 'crypto';
+import { base58Decode, isEvmAddress, isTronAddress, sha256 } from '../addressFormats';
+
+const toHex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+describe('sha256', () => {
+  it('matches the FIPS 180-2 test vectors', () => {
+    expect(toHex(sha256(utf8('')))).toBe(
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+    );
+    expect(toHex(sha256(utf8('abc')))).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    );
+    expect(toHex(sha256(utf8('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')))).toBe(
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1',
+    );
+  });
+
+  it('matches Node crypto around the padding block boundaries', () => {
+    for (let length = 0; length <= 130; length++) {
+      const data = Uint8Array.from({ length }, (_, i) => (i * 31 + length) & 0xff);
+      expect(toHex(sha256(data))).toBe(createHash('sha256').update(data).digest('hex'));
+    }
+  });
+});
+
+describe('base58Decode', () => {
+  it('decodes known strings', () => {
+    expect(Buffer.from(base58Decode('StV1DL6CwTryKyV')!).toString()).toBe('hello world');
+    expect(Array.from(base58Decode('')!)).toEqual([]);
+  });
+
+  it('keeps leading zero bytes', () => {
+    expect(Array.from(base58Decode('1')!)).toEqual([0]);
+    expect(Array.from(base58Decode('11')!)).toEqual([0, 0]);
+    expect(Array.from(base58Decode('12')!)).toEqual([0, 1]);
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    ['0', 'O', 'I', 'l', '+', 'abc!'].forEach(input => {
+      expect(base58Decode(input)).toBeNull();
+    });
+  });
+});
+
+describe('isTronAddress', () => {
+  it('accepts valid mainnet addresses', () => {
+    expect(isTronAddress('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t')).toBe(true);
+    expect(isTronAddress('TLa2f6VPqDgRE67v1736s7bJ8Ray5wYjU7')).toBe(true);
+    expect(isTronAddress('T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb')).toBe(true);
+  });
+
+  it('rejects a bad checksum', () => {
+    expect(isTronAddress('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6u')).toBe(false);
+    expect(isTronAddress('TR7NHqjeKQxGTCi9q8ZY4pL8otSzgjLj6t')).toBe(false);
+  });
+
+  it('rejects a valid base58check payload with another version byte', () => {
+    // 0x42 prefix, checksum correct
+    expect(isTronAddress('TpSyGx2w2bR9GdrDrYtrYwbvSPhwSmg7ER')).toBe(false);
+  });
+
+  it('rejects malformed input', () => {
+    [
+      '',
+      'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6',
+      'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6tt',
+      'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj0t',
+      'AR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t',
+      ' TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t',
+      '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa',
+      '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+    ].forEach(address => {
+      expect(isTronAddress(address)).toBe(false);
+    });
+  });
+});
+
+describe('isEvmAddress', () => {
+  it('accepts 20-byte hex addresses in any case', () => {
+    expect(isEvmAddress('0x742d35Cc6634C0532925a3b844Bc454e4438f44e')).toBe(true);
+    expect(isEvmAddress('0x742d35cc6634c0532925a3b844bc454e4438f44e')).toBe(true);
+    expect(isEvmAddress('0x0000000000000000000000000000000000000000')).toBe(true);
+  });
+
+  it('rejects malformed input', () => {
+    [
+      '',
+      '742d35Cc6634C0532925a3b844Bc454e4438f44e',
+      '0x742d35Cc6634C0532925a3b844Bc454e4438f44',
+      '0x742d35Cc6634C0532925a3b844Bc454e4438f44e0',
+      '0x742d35Cc6634C0532925a3b844Bc454e4438f44g',
+      '0X742d35Cc6634C0532925a3b844Bc454e4438f44e',
+      'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t',
+    ].forEach(address => {
+      expect(isEvmAddress(address)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Compares what live bots believe they hold with what the exchange account actually holds.
+ *
+ * Futures positions are matched by symbol and side. Spot positions are matched against the
+ * balance of their base asset, since spot exchanges have no position concept. Quantities within
+ * the tolerance count as equal to absorb fees and rounding.
+ *
+ * Checks are skipped rather than failed when their data is missing: parts the exchange refused
+ * (snapshot.errors) and bots left out of positionsByBot because their positions did not load.
+ */
+import { ExchangeAccountSnapshot, ExchangeOpenOrder, ExchangePosition } from '@/services/exchange';
+import { TradingBot, TradingMode, TradingPosition } from '@/services/tradingBot';
+
+export type ReconciliationIssueKind =
+  | 'missing_on_exchange'
+  | 'quantity_mismatch'
+  | 'balance_shortfall';
+
+export interface ReconciliationIssue {
+  kind: ReconciliationIssueKind;
+  symbol?: string;
+  expected: number; // What the bots recorded
+  actual: number; // What the exchange reports
+  message: string;
+}
+
+export interface BotReconciliation {
+  bot_id: string;
+  bot_name: string;
+  trading_mode: TradingMode;
+  open_positions: number;
+  reconciled: boolean; // False when the bot's positions could not be loaded
+  issues: ReconciliationIssue[];
+}
+
+export interface ReconciliationReport {
+  bots: BotReconciliation[];
+  account_issues: ReconciliationIssue[]; // Balance drift across all bots on the key
+  unowned_positions: ExchangePosition[];
+  position_owners_known: boolean; // False when some futures bot's positions are unknown
+  unowned_orders: ExchangeOpenOrder[];
+  skipped_checks: string[]; // Checks that could not run, and why
+  allocated: Record<TradingMode, number>; // Sum of the bots' current_balance
+  available: Record<TradingMode, number>; // Quote asset balance on the exchange
+  issue_count: number;
+}
+
+export const DEFAULT_TOLERANCE_PERCENT = 1;
+
+const QUOTE_ASSETS = ['FDUSD', 'USDT', 'USDC', 'BUSD', 'USD'];
+
+const formatQuantity = (value: number) => Number(value.toPrecision(6)).toString();
+
+/**
+ * Exchange-neutral symbol, e.g. "BTC/USDT", "BTC-USDT-SWAP" and "btcusdt" all become "BTCUSDT"
+ */
+export function normalizeSymbol(symbol: string): string {
+  return symbol
+    .toUpperCase()
+    .replace(/[-_/:]?(SWAP|PERP)$/, '')
+    .replace(/[^A-Z0-9]/g, '');
+}
+
+export function splitSymbol(symbol: string): { base: string; quote: string } {
+  const normalized = normalizeSymbol(symbol);
+  const quote = QUOTE_ASSETS.find(asset => normalized.endsWith(asset) && normalized !== asset);
+  return quote
+    ? { base: normalized.slice(0, -quote.length), quote }
+    : { base: normalized, quote: 'USDT' };
+}
+
+const differs = (expected: number, actual: number, tolerancePercent: number) =>
+  Math.abs(expected - actual) > Math.abs(expected) * (tolerancePercent / 100);
+
+export function reconcileAccount(
+  snapshot: ExchangeAccountSnapshot,
+  bots: TradingBot[],
+  positionsByBot: Record<string, TradingPosition[]>,
+  tolerancePercent: number = DEFAULT_TOLERANCE_PERCENT,
+): ReconciliationReport {
+  const liveBots = bots.filter(
+    bot =>
+      bot.exchange_credentials_id === snapshot.credential_id &&
+      bot.execution_mode !== 'paper' &&
+      bot.status !== 'draft',
+  );
+  const openPositions = (botId: string) =>
+    (positionsByBot[botId] ?? []).filter(
+      position => position.status !== 'closed' && !position.is_simulated,
+    );
+
+  const isLoaded = (bot: TradingBot) => positionsByBot[bot.id] !== undefined;
+  const errors = snapshot.errors ?? {};
+  const skippedChecks: string[] = [];
+
+  // Bots of a mode whose positions are unknown may hold part of what the exchange reports
+  const incomplete: Record<TradingMode, boolean> = {
+    spot: liveBots.some(bot => bot.trading_mode === 'spot' && !isLoaded(bot)),
+    futures: liveBots.some(bot => bot.trading_mode === 'futures' && !isLoaded(bot)),
+  };
+
+  const reports = new Map<string, BotReconciliation>(
+    liveBots.map(bot => [
+      bot.id,
+      {
+        bot_id: bot.id,
+        bot_name: bot.name,
+        trading_mode: bot.trading_mode,
+        open_positions: openPositions(bot.id).length,
+        reconciled: isLoaded(bot),
+        issues: [],
+      },
+    ]),
+  );
+
+  // Futures: total bot quantity per symbol and side against the exchange position
+  const futuresHoldings = new Map<string, { symbol: string; quantity: number; botIds: string[] }>();
+  // Spot: total bot quantity per base asset against the asset balance
+  const spotHoldings = new Map<string, { symbol: string; quantity: number; botIds: string[] }>();
+
+  liveBots.forEach(bot => {
+    openPositions(bot.id).forEach(position => {
+      const holdings = bot.trading_mode === 'futures' ? futuresHoldings : spotHoldings;
+      const key =
+        bot.trading_mode === 'futures'
+          ? `${normalizeSymbol(position.symbol)}:${position.side}`
+          : splitSymbol(position.symbol).base;
+      const entry = holdings.get(key) ?? { symbol: position.symbol, quantity: 0, botIds: [] };
+      entry.quantity += position.remaining_quantity;
+      if (!entry.botIds.includes(bot.id)) entry.botIds.push(bot.id);
+      holdings.set(key, entry);
+    });
+  });
+
+  const addIssue = (botIds: string[], issue: ReconciliationIssue) => {
+    botIds.forEach(botId => reports.get(botId)?.issues.push(issue));
+  };
+
+  const exchangePositions = new Map(
+    snapshot.positions.map(position => [
+      `${normalizeSymbol(position.symbol)}:${position.side}`,
+      position,
+    ]),
+  );
+
+  if (errors.positions) {
+    skippedChecks.push(`Futures positions were not compared: ${errors.positions}`);
+  }
+  futuresHoldings.forEach((holding, key) => {
+    if (errors.positions) return;
+    const actual = exchangePositions.get(key)?.size ?? 0;
+    const side = key.split(':')[1];
+    if (actual === 0) {
+      addIssue(holding.botIds, {
+        kind: 'missing_on_exchange',
+        symbol: holding.symbol,
+        expected: holding.quantity,
+        actual,
+        message: `Bots hold ${formatQuantity(holding.quantity)} ${holding.symbol} ${side}, but the exchange has no such position`,
+      });
+    } else if (
+      differs(holding.quantity, actual, tolerancePercent) &&
+      // A surplus may belong to a bot whose positions did not load
+      (!incomplete.futures || actual < holding.quantity)
+    ) {
+      addIssue(holding.botIds, {
+        kind: 'quantity_mismatch',
+        symbol: holding.symbol,
+        expected: holding.quantity,
+        actual,
+        message: `Bots hold ${formatQuantity(holding.quantity)} ${holding.symbol} ${side}, the exchange position is ${formatQuantity(actual)}`,
+      });
+    }
+  });
+
+  const spotBalances = new Map(
+    snapshot.spot_balances.map(balance => [balance.asset.toUpperCase(), balance.total]),
+  );
+  if (errors.spot) {
+    skippedChecks.push(`Spot holdings and balance were not compared: ${errors.spot}`);
+  }
+  spotHoldings.forEach((holding, asset) => {
+    if (errors.spot) return;
+    const actual = spotBalances.get(asset) ?? 0;
+    // Extra coins may belong to the user, so only a shortfall is drift
+    if (actual < holding.quantity * (1 - tolerancePercent / 100)) {
+      addIssue(holding.botIds, {
+        kind: actual === 0 ? 'missing_on_exchange' : 'quantity_mismatch',
+        symbol: holding.symbol,
+        expected: holding.quantity,
+        actual,
+        message: `Bots hold ${formatQuantity(holding.quantity)} ${asset}, the spot balance is ${formatQuantity(actual)}`,
+      });
+    }
+  });
+
+  // Balance: what the bots think they have against the quote asset on the exchange
+  const quoteBalance = (balances: ExchangeAccountSnapshot['spot_balances']) =>
+    balances
+      .filter(balance => QUOTE_ASSETS.includes(balance.asset.toUpperCase()))
+      .reduce((sum, balance) => sum + balance.total, 0);
+  const allocated: Record<TradingMode, number> = { spot: 0, futures: 0 };
+  liveBots.forEach(bot => {
+    allocated[bot.trading_mode] += bot.current_balance;
+  });
+  const available: Record<TradingMode, number> = {
+    spot: quoteBalance(snapshot.spot_balances),
+    futures: quoteBalance(snapshot.futures_balances),
+  };
+
+  const accountIssues: ReconciliationIssue[] = [];
+  if (errors.futures) {
+    skippedChecks.push(`Futures balance was not compared: ${errors.futures}`);
+  }
+  if (!errors.spot && incomplete.spot) {
+    skippedChecks.push('Spot balance was not compared: some spot bots have unknown positions');
+  }
+  (['spot', 'futures'] as TradingMode[]).forEach(mode => {
+    if (errors[mode] || (mode === 'spot' && incomplete.spot)) return;
+    // Spot bots with open positions hold part of their balance in coins
+    const spotInCoins = mode === 'spot' && spotHoldings.size > 0;
+    if (
+      allocated[mode] > 0 &&
+      !spotInCoins &&
+      available[mode] < allocated[mode] * (1 - tolerancePercent / 100)
+    ) {
+      accountIssues.push({
+        kind: 'balance_shortfall',
+        expected: allocated[mode],
+        actual: available[mode],
+        message: `${mode === 'spot' ? 'Spot' : 'Futures'} bots on this key track ${allocated[mode].toFixed(2)} in balance, but the ${mode} wallet holds ${available[mode].toFixed(2)}`,
+      });
+    }
+  });
+
+  const ownedKeys = new Set(futuresHoldings.keys());
+  const unownedPositions = incomplete.futures
+    ? []
+    : snapshot.positions.filter(
+        position => !ownedKeys.has(`${normalizeSymbol(position.symbol)}:${position.side}`),
+      );
+  const unownedOrders = snapshot.open_orders.filter(order => !order.bot_id);
+
+  const unreconciled = liveBots.filter(bot => !isLoaded(bot)).length;
+  if (unreconciled > 0) {
+    skippedChecks.push(
+      `${unreconciled} bot${unreconciled === 1 ? '' : 's'} not reconciled: positions could not be loaded`,
+    );
+  }
+
+  const botReports = [...reports.values()].sort((a, b) => b.issues.length - a.issues.length);
+  return {
+    bots: botReports,
+    account_issues: accountIssues,
+    unowned_positions: unownedPositions,
+    position_owners_known: !incomplete.futures,
+    unowned_orders: unownedOrders,
+    skipped_checks: skippedChecks,
+    allocated,
+    available,
+    issue_count:
+      botReports.reduce((sum, report) => sum + report.issues.length, 0) +
+      accountIssues.length +
+      unownedPositions.length,
+  };
+}
@@ -0,0 +1,265 @@
+/**
+ * Evaluation of bot schedules: trading windows, market-event pauses and auto-stop.
+ *
+ * Trading windows are wall-clock times in the schedule's timezone, so a window keeps
+ * its local hours across daylight-saving changes.
+ */
+import { BotSchedule, ScheduledMarketEvent, TradingWindow, Weekday } from '@/services/tradingBot';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+export type ScheduleReason =
+  | 'unscheduled'
+  | 'in_window'
+  | 'outside_window'
+  | 'market_event'
+  | 'stopped';
+
+export interface ScheduleState {
+  active: boolean; // Whether the schedule allows trading
+  reason: ScheduleReason;
+  label: string;
+  event?: ScheduledMarketEvent;
+}
+
+export interface ScheduleSegment {
+  start: number;
+  end: number;
+  state: ScheduleState;
+}
+
+export interface SchedulePreset {
+  id: string;
+  label: string;
+  description: string;
+  timezone: string;
+  trading_windows: TradingWindow[];
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+const WEEKDAYS: Weekday[] = [1, 2, 3, 4, 5];
+
+export const SCHEDULE_PRESETS: SchedulePreset[] = [
+  {
+    id: 'london_ny_overlap',
+    label: 'London/NY Overlap',
+    description: '08:00–12:00 New York time, Mon–Fri',
+    timezone: 'America/New_York',
+    trading_windows: [{ days: WEEKDAYS, start: '08:00', end: '12:00' }],
+  },
+  {
+    id: 'london_session',
+    label: 'London Session',
+    description: '08:00–16:30 London time, Mon–Fri',
+    timezone: 'Europe/London',
+    trading_windows: [{ days: WEEKDAYS, start: '08:00', end: '16:30' }],
+  },
+  {
+    id: 'new_york_session',
+    label: 'New York Session',
+    description: '09:30–16:00 New York time, Mon–Fri',
+    timezone: 'America/New_York',
+    trading_windows: [{ days: WEEKDAYS, start: '09:30', end: '16:00' }],
+  },
+  {
+    id: 'asia_session',
+    label: 'Tokyo Session',
+    description: '09:00–15:00 Tokyo time, Mon–Fri',
+    timezone: 'Asia/Tokyo',
+    trading_windows: [{ days: WEEKDAYS, start: '09:00', end: '15:00' }],
+  },
+];
+
+export const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const createEmptySchedule = (): BotSchedule => ({
+  enabled: true,
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  trading_windows: [],
+  market_events: [],
+  auto_resume: true,
+});
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (_error) {
+    return false;
+  }
+}
+
+const parseTime = (time: string) => {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Weekday and minute of day of a timestamp in the given timezone
+ */
+function zonedTime(timestamp: number, timezone: string): { weekday: Weekday; minutes: number } {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatterCache.set(timezone, formatter);
+  }
+
+  const parts = formatter.formatToParts(new Date(timestamp));
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+  const weekday = WEEKDAY_LABELS.indexOf(part('weekday') as (typeof WEEKDAY_LABELS)[number]);
+
+  return {
+    weekday: (weekday < 0 ? 0 : weekday) as Weekday,
+    minutes: (parseInt(part('hour'), 10) % 24) * 60 + parseInt(part('minute'), 10),
+  };
+}
+
+/**
+ * Whether a timestamp falls inside any trading window. A schedule without windows trades
+ * around the clock. Windows whose end is not after their start run past midnight and
+ * belong to the day they start on; equal start and end means the whole day.
+ */
+export function isInTradingWindow(schedule: BotSchedule, timestamp: number): boolean {
+  if (schedule.trading_windows.length === 0) return true;
+
+  const { weekday, minutes } = zonedTime(timestamp, schedule.timezone);
+  const previousDay = ((weekday + 6) % 7) as Weekday;
+
+  return schedule.trading_windows.some(window => {
+    const start = parseTime(window.start);
+    const end = parseTime(window.end);
+
+    if (start < end) {
+      return window.days.includes(weekday) && minutes >= start && minutes < end;
+    }
+    if (start === end) {
+      return window.days.includes(weekday);
+    }
+    return (
+      (window.days.includes(weekday) && minutes >= start) ||
+      (window.days.includes(previousDay) && minutes < end)
+    );
+  });
+}
+
+const eventRange = (event: ScheduledMarketEvent) => {
+  const startsAt = Date.parse(event.starts_at);
+  return {
+    start: startsAt - event.pause_before_minutes * MINUTE_MS,
+    end: startsAt + event.resume_after_minutes * MINUTE_MS,
+  };
+};
+
+export function activeMarketEvent(
+  schedule: BotSchedule,
+  timestamp: number,
+): ScheduledMarketEvent | undefined {
+  return schedule.market_events.find(event => {
+    const { start, end } = eventRange(event);
+    return timestamp >= start && timestamp < end;
+  });
+}
+
+/**
+ * What the schedule says the bot should be doing at a point in time
+ */
+export function getScheduleState(
+  schedule: BotSchedule | undefined,
+  timestamp: number = Date.now(),
+): ScheduleState {
+  if (!schedule || !schedule.enabled) {
+    return { active: true, reason: 'unscheduled', label: 'No schedule' };
+  }
+
+  if (schedule.auto_stop_at && timestamp >= Date.parse(schedule.auto_stop_at)) {
+    return { active: false, reason: 'stopped', label: 'Auto-stopped' };
+  }
+
+  const event = activeMarketEvent(schedule, timestamp);
+  if (event) {
+    return { active: false, reason: 'market_event', label: `Paused for ${event.title}`, event };
+  }
+
+  if (!isInTradingWindow(schedule, timestamp)) {
+    return { active: false, reason: 'outside_window', label: 'Outside trading hours' };
+  }
+
+  return {
+    active: true,
+    reason: 'in_window',
+    label: schedule.trading_windows.length > 0 ? 'In trading window' : 'Trading',
+  };
+}
+
+/**
+ * Contiguous schedule states between two timestamps. Window changes are resolved to
+ * `stepMinutes`; event and auto-stop boundaries are exact.
+ */
+export function buildScheduleTimeline(
+  schedule: BotSchedule,
+  from: number,
+  to: number,
+  stepMinutes = 15,
+): ScheduleSegment[] {
+  const step = stepMinutes * MINUTE_MS;
+  const breakpoints = new Set<number>([from]);
+
+  for (let t = Math.ceil(from / step) * step; t < to; t += step) {
+    breakpoints.add(t);
+  }
+  schedule.market_events.forEach(event => {
+    const { start, end } = eventRange(event);
+    [start, end].forEach(t => t > from && t < to && breakpoints.add(t));
+  });
+  if (schedule.auto_stop_at) {
+    const stopAt = Date.parse(schedule.auto_stop_at);
+    if (stopAt > from && stopAt < to) breakpoints.add(stopAt);
+  }
+
+  const times = [...breakpoints].sort((a, b) => a - b);
+  const segments: ScheduleSegment[] = [];
+
+  times.forEach((start, index) => {
+    const end = times[index + 1] ?? to;
+    const state = getScheduleState(schedule, start);
+    const previous = segments[segments.length - 1];
+
+    if (
+      previous &&
+      previous.state.reason === state.reason &&
+      previous.state.event?.id === state.event?.id
+    ) {
+      previous.end = end;
+    } else {
+      segments.push({ start, end, state });
+    }
+  });
+
+  return segments;
+}
+
+/**
+ * The next time the schedule changes state within the horizon, if any
+ */
+export function nextScheduleChange(
+  schedule: BotSchedule,
+  timestamp: number = Date.now(),
+  horizonDays = 7,
+): ScheduleSegment | undefined {
+  const timeline = buildScheduleTimeline(
+    schedule,
+    timestamp,
+    timestamp + horizonDays * DAY_MINUTES * MINUTE_MS,
+  );
+  return timeline[1];
+}
@@ -0,0 +1,163 @@
+/**
+ * Turns bot activity into markers and price levels for the interactive candlestick chart.
+ *
+ * Times are epoch milliseconds like Candle.timestamp. Markers are placed on the candle
+ * whose period contains them.
+ */
+
+import { AIAnalysisLog } from '@/services/aiAnalysis';
+import { Candle } from '@/services/backtest';
+import { PositionSide, TradingPosition } from '@/services/tradingBot';
+
+export type ChartMarkerKind = 'entry' | 'exit' | 'dca' | 'ai_buy' | 'ai_sell';
+
+export interface ChartMarker {
+  id: string;
+  kind: ChartMarkerKind;
+  time: number;
+  price: number;
+  side?: PositionSide;
+  label: string; // Tooltip text
+  log_id?: string; // AI markers link back to their analysis
+}
+
+export type ChartLevelKind = 'entry' | 'trailing_trigger' | 'next_dca';
+
+export interface ChartLevel {
+  id: string;
+  kind: ChartLevelKind;
+  price: number;
+  label: string;
+}
+
+const formatPrice = (price: number) => (price >= 1 ? price.toFixed(2) : price.toPrecision(4));
+
+/**
+ * Entries, exits and DCA fills of a symbol's positions
+ */
+export function positionMarkers(positions: TradingPosition[], symbol: string): ChartMarker[] {
+  return positions
+    .filter(position => position.symbol === symbol)
+    .flatMap(position => {
+      const side = position.side.toUpperCase();
+      const entryPrice = position.initial_entry_price ?? position.entry_price;
+      const markers: ChartMarker[] = [
+        {
+          id: `${position.id}_entry`,
+          kind: 'entry',
+          time: new Date(position.entry_time).getTime(),
+          price: entryPrice,
+          side: position.side,
+          label: `${side} entry @ ${formatPrice(entryPrice)}`,
+        },
+      ];
+
+      (position.dca_entries ?? []).forEach(entry => {
+        markers.push({
+          id: `${position.id}_dca_${entry.level}`,
+          kind: 'dca',
+          time: new Date(entry.timestamp).getTime(),
+          price: entry.price,
+          side: position.side,
+          label: `DCA level ${entry.level} @ ${formatPrice(entry.price)} (AI confidence ${Math.round(entry.ai_confidence * 100)}%)`,
+        });
+      });
+
+      if (position.closed_at && position.exit_price !== undefined) {
+        markers.push({
+          id: `${position.id}_exit`,
+          kind: 'exit',
+          time: new Date(position.closed_at).getTime(),
+          price: position.exit_price,
+          side: position.side,
+          label: `${side} exit @ ${formatPrice(position.exit_price)}, PnL ${position.total_pnl >= 0 ? '+' : ''}${position.total_pnl.toFixed(2)}`,
+        });
+      }
+
+      return markers;
+    });
+}
+
+/**
+ * Horizontal levels of a symbol's open positions: average entry, trailing-stop trigger and
+ * next DCA threshold
+ */
+export function openPositionLevels(positions: TradingPosition[], symbol: string): ChartLevel[] {
+  return positions
+    .filter(position => position.symbol === symbol && position.status !== 'closed')
+    .flatMap(position => {
+      const side = position.side.toUpperCase();
+      const levels: ChartLevel[] = [
+        {
+          id: `${position.id}_entry_level`,
+          kind: 'entry',
+          price: position.entry_price,
+          label: `${side} avg entry ${formatPrice(position.entry_price)}`,
+        },
+      ];
+      if (position.trailing_trigger_price) {
+        levels.push({
+          id: `${position.id}_trailing`,
+          kind: 'trailing_trigger',
+          price: position.trailing_trigger_price,
+          label: `Trailing ${position.trailing_stop_active ? 'active' : 'trigger'} ${formatPrice(position.trailing_trigger_price)}`,
+        });
+      }
+      if (position.next_dca_threshold) {
+        levels.push({
+          id: `${position.id}_next_dca`,
+          kind: 'next_dca',
+          price: position.next_dca_threshold,
+          label: `Next DCA ${formatPrice(position.next_dca_threshold)}`,
+        });
+      }
+      return levels;
+    });
+}
+
+/**
+ * Buy and sell signals from live (non-shadow) analyses of a symbol
+ */
+export function signalMarkers(logs: AIAnalysisLog[], symbol: string): ChartMarker[] {
+  return logs
+    .filter(
+      log =>
+        log.symbol === symbol &&
+        !log.is_shadow &&
+        (log.signal_action === 'buy' || log.signal_action === 'sell'),
+    )
+    .map(
+      (log): ChartMarker => ({
+        id: `${log.id}_signal`,
+        kind: log.signal_action === 'buy' ? 'ai_buy' : 'ai_sell',
+        time: new Date(log.timestamp).getTime(),
+        price: log.current_price,
+        label: `AI ${log.signal_action?.toUpperCase()} ${
+          log.signal_strength !== undefined ? `${Math.round(log.signal_strength * 100)}%` : ''
+        }${log.trade_executed ? ' · executed' : ''}`,
+        log_id: log.id,
+      }),
+    );
+}
+
+/**
+ * Index of the candle whose period contains `time`, or -1 when it is outside the candles
+ */
+export function candleIndexAt(candles: Candle[], time: number): number {
+  const first = candles[0];
+  const last = candles[candles.length - 1];
+  if (!first || !last || time < first.timestamp) return -1;
+
+  const interval =
+    candles.length > 1 ? (last.timestamp - first.timestamp) / (candles.length - 1) : 0;
+  if (time >= last.timestamp + interval) return -1;
+
+  let low = 0;
+  let high = candles.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if ((candles[mid]?.timestamp ?? Infinity) <= time) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
@@ -0,0 +1,114 @@
+/**
+ * Field-level diff of bot configurations, used for config version history.
+ *
+ * Nested objects are flattened into dotted paths. Arrays of per-symbol settings
+ * (objects with a `symbol` key, as in AlphaCompounderConfig.symbols) are keyed by
+ * symbol so reordering them does not show up as a change.
+ */
+import { BotConfigSnapshot, TradingBot } from '@/services/tradingBot';
+
+export interface ConfigFieldChange {
+  path: string;
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSymbolList = (value: unknown[]): value is Array<Record<string, unknown>> =>
+  value.length > 0 && value.every(item => isPlainObject(item) && typeof item.symbol === 'string');
+
+function flatten(value: unknown, path: string, out: Map<string, unknown>) {
+  if (isPlainObject(value)) {
+    Object.entries(value).forEach(([key, child]) =>
+      flatten(child, path ? `${path}.${key}` : key, out),
+    );
+    return;
+  }
+
+  if (Array.isArray(value) && isSymbolList(value)) {
+    value.forEach(item => {
+      const { symbol, ...rest } = item;
+      flatten(rest, `${path}[${symbol}]`, out);
+    });
+    return;
+  }
+
+  out.set(path, Array.isArray(value) ? JSON.stringify(value) : value);
+}
+
+/**
+ * Human readable label for a flattened path, e.g.
+ * "strategy.config.symbols[BTCUSDT].take_profit_percentage" -> "BTCUSDT · Take Profit Percentage"
+ */
+export function formatConfigPath(path: string): string {
+  return path
+    .replace(/^strategy\.config\./, '')
+    .replace(/^risk_guardrails\./, 'guardrail.')
+    .split('.')
+    .map(segment =>
+      segment
+        .replace(/^\w+\[(.+)\]$/, '$1')
+        .replace(/_/g, ' ')
+        .replace(/\b\w/g, char => char.toUpperCase()),
+    )
+    .join(' · ');
+}
+
+export function formatConfigValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'On' : 'Off';
+  return String(value);
+}
+
+/**
+ * The config fields of a bot that are tracked by versioning
+ */
+export function snapshotBotConfig(bot: TradingBot): BotConfigSnapshot {
+  return {
+    name: bot.name,
+    description: bot.description,
+    strategy: bot.strategy,
+    starting_balance: bot.starting_balance,
+    leverage: bot.leverage,
+    position_size_percent: bot.position_size_percent,
+    max_position_size: bot.max_position_size,
+    use_auto_leverage: bot.use_auto_leverage,
+    risk_per_trade: bot.risk_per_trade,
+    risk_guardrails: bot.risk_guardrails,
+    schedule: bot.schedule,
+  };
+}
+
+/**
+ * Fields whose value differs between two configs, sorted by path.
+ * A field missing on one side is reported with an undefined value there.
+ */
+export function diffBotConfig(
+  before: BotConfigSnapshot,
+  after: BotConfigSnapshot,
+): ConfigFieldChange[] {
+  const beforeFields = new Map<string, unknown>();
+  const afterFields = new Map<string, unknown>();
+  flatten(before, '', beforeFields);
+  flatten(after, '', afterFields);
+
+  const paths = new Set([...beforeFields.keys(), ...afterFields.keys()]);
+
+  return [...paths]
+    .filter(path => {
+      const oldValue = beforeFields.get(path);
+      const newValue = afterFields.get(path);
+      // Treat empty and missing values as equal so untouched optional fields don't show up
+      return formatConfigValue(oldValue) !== formatConfigValue(newValue);
+    })
+    .sort()
+    .map(path => ({
+      path,
+      label: formatConfigPath(path),
+      before: beforeFields.get(path),
+      after: afterFields.get(path),
+    }));
+}
@@ -0,0 +1,181 @@
+/**
+ * Estimates how fast running bots burn fuel and how long the balance lasts.
+ *
+ * A bot's burn rate comes from its own spend transactions over the recent window, spread over
+ * the time since its first spend in that sample. Bots without spend history yet (new or just
+ * resumed) are estimated from their analysis frequency: symbols × analyses per day at the
+ * average fuel charged per analysis across the account.
+ */
+import { FuelTransaction } from '@/services/fuel';
+import { TradingBot } from '@/services/tradingBot';
+
+export type BurnRateSource = 'history' | 'interval' | 'none';
+
+export interface BotBurnRate {
+  bot_id: string;
+  bot_name: string;
+  fuel_per_day: number;
+  analyses_per_day: number;
+  source: BurnRateSource;
+}
+
+export type FuelLevel = 'ok' | 'low' | 'critical' | 'empty';
+
+export interface FuelForecast {
+  balance: number;
+  fuel_per_day: number; // Running bots plus spend not tied to a bot
+  unattributed_per_day: number;
+  days_remaining: number | null; // Null when nothing is burning fuel
+  runs_out_at?: string;
+  level: FuelLevel;
+  bots: BotBurnRate[];
+}
+
+export const DEFAULT_BURN_WINDOW_DAYS = 7;
+
+// Under a day of fuel left is critical whatever the alert threshold is
+const CRITICAL_DAYS = 1;
+
+// Default analysis interval in minutes, as in the strategy form
+const DEFAULT_EXECUTION_INTERVAL = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Bot a spend transaction was charged for. The backend puts it in metadata.bot_id.
+ */
+export function spendBotId(transaction: FuelTransaction): string | undefined {
+  const botId = transaction.metadata?.bot_id;
+  return typeof botId === 'string' && botId ? botId : undefined;
+}
+
+function executionIntervalMinutes(bot: TradingBot): number {
+  const interval = Number(bot.strategy.config.execution_interval);
+  return interval > 0 ? interval : DEFAULT_EXECUTION_INTERVAL;
+}
+
+export function analysesPerDay(bot: TradingBot): number {
+  return (1440 / executionIntervalMinutes(bot)) * Math.max(bot.symbols.length, 1);
+}
+
+/**
+ * Burn rates from the newest transactions. `hasOlder` says whether older transactions exist
+ * that were not passed in, e.g. because only the first page of history was fetched.
+ */
+export function estimateBurnRates(
+  bots: TradingBot[],
+  transactions: FuelTransaction[],
+  hasOlder: boolean,
+  now: number = Date.now(),
+  windowDays: number = DEFAULT_BURN_WINDOW_DAYS,
+): { bots: BotBurnRate[]; unattributed_per_day: number } {
+  const windowStart = now - windowDays * DAY_MS;
+  const timeOf = (transaction: FuelTransaction) => new Date(transaction.created_at).getTime();
+  const spends = transactions.filter(
+    transaction => transaction.transaction_type === 'spend' && timeOf(transaction) >= windowStart,
+  );
+
+  // A sample that was cut off before the window start covers only the time since its oldest
+  // transaction. A busy account fills a page in hours, so it must not be averaged over a day.
+  const sampleStart = transactions.reduce(
+    (min, transaction) => Math.min(min, timeOf(transaction)),
+    now,
+  );
+  const truncated = hasOlder && sampleStart > windowStart;
+  // Complete history is spread over at least a day, so a short history is not over-extrapolated
+  const observedDays = (since: number, minimumMs: number) =>
+    Math.max(now - since, truncated ? minimumMs : DAY_MS) / DAY_MS;
+
+  const spentByBot = new Map<string, { amount: number; first: number }>();
+  let unattributed = 0;
+  let oldestUnattributed = now;
+  spends.forEach(transaction => {
+    const amount = Math.abs(transaction.amount);
+    const botId = spendBotId(transaction);
+    if (botId) {
+      const spent = spentByBot.get(botId);
+      spentByBot.set(botId, {
+        amount: (spent?.amount ?? 0) + amount,
+        first: Math.min(spent?.first ?? now, timeOf(transaction)),
+      });
+    } else {
+      unattributed += amount;
+      oldestUnattributed = Math.min(oldestUnattributed, timeOf(transaction));
+    }
+  });
+
+  const averagePerAnalysis =
+    spends.length > 0
+      ? spends.reduce((sum, transaction) => sum + Math.abs(transaction.amount), 0) / spends.length
+      : 0;
+
+  const rates = bots
+    .filter(bot => bot.status === 'running')
+    .map((bot): BotBurnRate => {
+      const perDay = analysesPerDay(bot);
+      const spent = spentByBot.get(bot.id);
+      if (spent !== undefined) {
+        // Its spends cover the time since its own first spend plus that first interval
+        const intervalMs = executionIntervalMinutes(bot) * 60_000;
+        return {
+          bot_id: bot.id,
+          bot_name: bot.name,
+          fuel_per_day: spent.amount / observedDays(spent.first - intervalMs, intervalMs),
+          analyses_per_day: perDay,
+          source: 'history',
+        };
+      }
+      return {
+        bot_id: bot.id,
+        bot_name: bot.name,
+        fuel_per_day: averagePerAnalysis * perDay,
+        analyses_per_day: perDay,
+        source: averagePerAnalysis > 0 ? 'interval' : 'none',
+      };
+    })
+    .sort((a, b) => b.fuel_per_day - a.fuel_per_day);
+
+  return {
+    bots: rates,
+    unattributed_per_day:
+      unattributed > 0 ? unattributed / observedDays(oldestUnattributed, now - sampleStart) : 0,
+  };
+}
+
+export function forecastFuel(
+  balance: number,
+  bots: TradingBot[],
+  transactions: FuelTransaction[],
+  hasOlder: boolean,
+  alertBelowDays: number,
+  now: number = Date.now(),
+): FuelForecast {
+  const { bots: rates, unattributed_per_day } = estimateBurnRates(
+    bots,
+    transactions,
+    hasOlder,
+    now,
+  );
+  const fuelPerDay = rates.reduce((sum, rate) => sum + rate.fuel_per_day, 0) + unattributed_per_day;
+  const daysRemaining = fuelPerDay > 0 ? Math.max(balance, 0) / fuelPerDay : null;
+
+  let level: FuelLevel = 'ok';
+  if (balance <= 0) {
+    level = 'empty';
+  } else if (daysRemaining !== null && daysRemaining < CRITICAL_DAYS) {
+    level = 'critical';
+  } else if (daysRemaining !== null && daysRemaining < alertBelowDays) {
+    level = 'low';
+  }
+
+  return {
+    balance,
+    fuel_per_day: fuelPerDay,
+    unattributed_per_day,
+    days_remaining: daysRemaining,
+    runs_out_at:
+      daysRemaining !== null ? new Date(now + daysRemaining * DAY_MS).toISOString() : undefined,
+    level,
+    bots: rates,
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Technical indicator calculations shared by the backtester and chart overlays.
+ *
+ * Every function returns a series aligned with its input: index i of the result
+ * belongs to index i of the input, and values that cannot be computed yet
+ * (not enough history) are null.
+ */
+
+import { IndicatorSettings } from '@/services/tradingBot';
+
+export type IndicatorSeries = (number | null)[];
+
+export interface MACDSeries {
+  macd: IndicatorSeries;
+  signal: IndicatorSeries;
+  histogram: IndicatorSeries;
+}
+
+// Indicator settings used where a bot leaves them unset, as shown in the strategy form
+export const DEFAULT_INDICATOR_SETTINGS: IndicatorSettings = {
+  short_sma: 20,
+  long_sma: 50,
+  rsi_period: 14,
+  rsi_overbought: 70,
+  rsi_oversold: 30,
+  macd_fast: 12,
+  macd_slow: 26,
+  macd_signal: 9,
+};
+
+/**
+ * Simple moving average
+ */
+export function sma(values: number[], period: number): IndicatorSeries {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  if (period <= 0) return result;
+
+  let sum = 0;
+  values.forEach((value, index) => {
+    sum += value;
+    if (index >= period) {
+      sum -= values[index - period] ?? 0;
+    }
+    if (index >= period - 1) {
+      result[index] = sum / period;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first `period` values
+ */
+export function ema(values: number[], period: number): IndicatorSeries {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  if (period <= 0 || values.length < period) return result;
+
+  const multiplier = 2 / (period + 1);
+  let previous = values.slice(0, period).reduce((sum, value) => sum + value, 0) / period;
+  result[period - 1] = previous;
+
+  for (let i = period; i < values.length; i++) {
+    previous = ((values[i] ?? 0) - previous) * multiplier + previous;
+    result[i] = previous;
+  }
+
+  return result;
+}
+
+/**
+ * Relative strength index using Wilder's smoothing
+ */
+export function rsi(values: number[], period: number): IndicatorSeries {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  if (period <= 0 || values.length <= period) return result;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = (values[i] ?? 0) - (values[i - 1] ?? 0);
+    if (change >= 0) avgGain += change;
+    else avgLoss -= change;
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  const toRsi = (gain: number, loss: number) => (loss === 0 ? 100 : 100 - 100 / (1 + gain / loss));
+  result[period] = toRsi(avgGain, avgLoss);
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = (values[i] ?? 0) - (values[i - 1] ?? 0);
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRsi(avgGain, avgLoss);
+  }
+
+  return result;
+}
+
+/**
+ * Moving average convergence divergence
+ */
+export function macd(
+  values: number[],
+  fastPeriod: number,
+  slowPeriod: number,
+  signalPeriod: number,
+): MACDSeries {
+  const fast = ema(values, fastPeriod);
+  const slow = ema(values, slowPeriod);
+
+  const macdLine: IndicatorSeries = values.map((_, i) => {
+    const f = fast[i];
+    const s = slow[i];
+    return f != null && s != null ? f - s : null;
+  });
+
+  // The signal line is an EMA over the defined part of the MACD line
+  const firstDefined = macdLine.findIndex(value => value != null);
+  const signal: IndicatorSeries = new Array(values.length).fill(null);
+  if (firstDefined >= 0) {
+    const defined = macdLine.slice(firstDefined).map(value => value ?? 0);
+    ema(defined, signalPeriod).forEach((value, offset) => {
+      signal[firstDefined + offset] = value;
+    });
+  }
+
+  const histogram: IndicatorSeries = macdLine.map((value, i) => {
+    const s = signal[i];
+    return value != null && s != null ? value - s : null;
+  });
+
+  return { macd: macdLine, signal, histogram };
+}
@@ -0,0 +1,296 @@
+/**
+ * Cross-bot portfolio analytics computed from position history.
+ *
+ * Returns are measured per UTC day against the starting balance of the bots
+ * involved, using realized PnL of closed positions.
+ */
+import { TradingBot, TradingPosition } from '@/services/tradingBot';
+import { EquityPoint } from '@/services/backtest';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365;
+
+export interface PortfolioTrade {
+  bot_id: string;
+  symbol: string;
+  strategy: string;
+  exchange: string;
+  pnl: number;
+  notional: number;
+  closed_at: number;
+}
+
+export interface PnlBreakdownRow {
+  label: string;
+  pnl: number;
+  trades: number;
+  win_rate: number;
+  volume: number;
+}
+
+export interface RiskRatios {
+  total_return_percent: number;
+  annualized_return_percent: number;
+  max_drawdown_percent: number;
+  sharpe_ratio: number;
+  sortino_ratio: number;
+  calmar_ratio: number;
+}
+
+export interface CorrelationMatrix {
+  bot_ids: string[];
+  values: number[][]; // values[i][j] = Pearson correlation of daily returns of bot i and bot j
+}
+
+export interface ExposureHeatmap {
+  symbols: string[];
+  exchanges: string[];
+  values: number[][]; // values[symbol][exchange] = open notional in USDT
+  max: number;
+}
+
+const dayOf = (timestamp: number) => Math.floor(timestamp / DAY_MS) * DAY_MS;
+
+const closedPositions = (positions: TradingPosition[]) =>
+  positions.filter(p => p.status === 'closed' && p.closed_at);
+
+/**
+ * Flatten closed positions of all bots into trades tagged with their grouping keys
+ */
+export function buildPortfolioTrades(
+  bots: TradingBot[],
+  positionsByBot: Record<string, TradingPosition[]>,
+  exchangeLabels: Record<string, string>,
+): PortfolioTrade[] {
+  return bots
+    .flatMap(bot =>
+      closedPositions(positionsByBot[bot.id] ?? []).map(position => ({
+        bot_id: bot.id,
+        symbol: position.symbol,
+        strategy: bot.strategy.type,
+        exchange:
+          bot.execution_mode === 'paper'
+            ? 'Paper'
+            : (exchangeLabels[bot.exchange_credentials_id] ?? 'Unknown'),
+        pnl: position.realized_pnl,
+        notional: position.entry_price * position.quantity,
+        closed_at: Date.parse(position.closed_at!),
+      })),
+    )
+    .sort((a, b) => a.closed_at - b.closed_at);
+}
+
+/**
+ * Portfolio equity after every closed trade, starting from the combined starting balance
+ */
+export function buildEquityCurve(trades: PortfolioTrade[], startingEquity: number): EquityPoint[] {
+  if (trades.length === 0) return [];
+
+  let equity = startingEquity;
+  let peak = startingEquity;
+  const points: EquityPoint[] = [
+    { timestamp: trades[0]!.closed_at, equity: startingEquity, drawdown_percent: 0 },
+  ];
+
+  trades.forEach(trade => {
+    equity += trade.pnl;
+    peak = Math.max(peak, equity);
+    points.push({
+      timestamp: trade.closed_at,
+      equity,
+      drawdown_percent: peak > 0 ? ((peak - equity) / peak) * 100 : 0,
+    });
+  });
+
+  return points;
+}
+
+/**
+ * Aggregate realized PnL by a trade attribute, largest absolute PnL first
+ */
+export function groupPnl(
+  trades: PortfolioTrade[],
+  key: 'symbol' | 'strategy' | 'exchange',
+): PnlBreakdownRow[] {
+  const groups = new Map<string, { pnl: number; trades: number; wins: number; volume: number }>();
+
+  trades.forEach(trade => {
+    const group = groups.get(trade[key]) ?? { pnl: 0, trades: 0, wins: 0, volume: 0 };
+    group.pnl += trade.pnl;
+    group.trades += 1;
+    group.wins += trade.pnl > 0 ? 1 : 0;
+    group.volume += trade.notional;
+    groups.set(trade[key], group);
+  });
+
+  return [...groups.entries()]
+    .map(([label, group]) => ({
+      label,
+      pnl: group.pnl,
+      trades: group.trades,
+      win_rate: group.trades > 0 ? (group.wins / group.trades) * 100 : 0,
+      volume: group.volume,
+    }))
+    .sort((a, b) => Math.abs(b.pnl) - Math.abs(a.pnl));
+}
+
+/**
+ * Daily returns of each bot, keyed by UTC day start, relative to the bot's starting balance
+ */
+export function dailyReturnsByBot(
+  bots: TradingBot[],
+  trades: PortfolioTrade[],
+): Record<string, Map<number, number>> {
+  const balances = new Map(bots.map(bot => [bot.id, bot.starting_balance]));
+  const result: Record<string, Map<number, number>> = {};
+
+  trades.forEach(trade => {
+    const balance = balances.get(trade.bot_id);
+    if (!balance) return;
+    const returns = (result[trade.bot_id] ??= new Map());
+    const day = dayOf(trade.closed_at);
+    returns.set(day, (returns.get(day) ?? 0) + trade.pnl / balance);
+  });
+
+  return result;
+}
+
+/**
+ * Daily portfolio returns over every day between the first and last trade, including flat days
+ */
+export function portfolioDailyReturns(trades: PortfolioTrade[], startingEquity: number): number[] {
+  if (trades.length === 0 || startingEquity <= 0) return [];
+
+  const pnlByDay = new Map<number, number>();
+  trades.forEach(trade => {
+    const day = dayOf(trade.closed_at);
+    pnlByDay.set(day, (pnlByDay.get(day) ?? 0) + trade.pnl);
+  });
+
+  const first = dayOf(trades[0]!.closed_at);
+  const last = dayOf(trades[trades.length - 1]!.closed_at);
+  const returns: number[] = [];
+  let equity = startingEquity;
+
+  for (let day = first; day <= last; day += DAY_MS) {
+    const pnl = pnlByDay.get(day) ?? 0;
+    returns.push(equity > 0 ? pnl / equity : 0);
+    equity += pnl;
+  }
+
+  return returns;
+}
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+const stdDev = (values: number[]) => {
+  const avg = mean(values);
+  return Math.sqrt(mean(values.map(v => Math.pow(v - avg, 2))));
+};
+
+/**
+ * Sharpe, Sortino and Calmar ratios from daily returns (risk-free rate taken as 0)
+ */
+export function computeRiskRatios(dailyReturns: number[], equityCurve: EquityPoint[]): RiskRatios {
+  const first = equityCurve[0]?.equity ?? 0;
+  const last = equityCurve[equityCurve.length - 1]?.equity ?? first;
+  const totalReturn = first > 0 ? last / first - 1 : 0;
+  const days = Math.max(dailyReturns.length, 1);
+  const annualizedReturn =
+    totalReturn > -1 ? Math.pow(1 + totalReturn, DAYS_PER_YEAR / days) - 1 : -1;
+  const maxDrawdown = equityCurve.reduce((max, p) => Math.max(max, p.drawdown_percent), 0);
+
+  const avg = mean(dailyReturns);
+  const volatility = stdDev(dailyReturns);
+  const downsideDeviation = Math.sqrt(mean(dailyReturns.map(r => Math.pow(Math.min(r, 0), 2))));
+  const annualization = Math.sqrt(DAYS_PER_YEAR);
+
+  return {
+    total_return_percent: totalReturn * 100,
+    annualized_return_percent: annualizedReturn * 100,
+    max_drawdown_percent: maxDrawdown,
+    sharpe_ratio: volatility > 0 ? (avg / volatility) * annualization : 0,
+    sortino_ratio: downsideDeviation > 0 ? (avg / downsideDeviation) * annualization : 0,
+    calmar_ratio: maxDrawdown > 0 ? (annualizedReturn * 100) / maxDrawdown : 0,
+  };
+}
+
+/**
+ * Pearson correlation of daily bot returns over the union of trading days.
+ * Days on which a bot did not close a trade count as a 0% return.
+ */
+export function correlationMatrix(
+  returnsByBot: Record<string, Map<number, number>>,
+): CorrelationMatrix {
+  const botIds = Object.keys(returnsByBot);
+  const days = [...new Set(botIds.flatMap(id => [...returnsByBot[id]!.keys()]))].sort(
+    (a, b) => a - b,
+  );
+  const series = botIds.map(id => days.map(day => returnsByBot[id]!.get(day) ?? 0));
+
+  const correlate = (a: number[], b: number[]) => {
+    const meanA = mean(a);
+    const meanB = mean(b);
+    let covariance = 0;
+    let varianceA = 0;
+    let varianceB = 0;
+    a.forEach((value, i) => {
+      const dA = value - meanA;
+      const dB = (b[i] ?? 0) - meanB;
+      covariance += dA * dB;
+      varianceA += dA * dA;
+      varianceB += dB * dB;
+    });
+    const denominator = Math.sqrt(varianceA * varianceB);
+    return denominator > 0 ? covariance / denominator : 0;
+  };
+
+  return {
+    bot_ids: botIds,
+    values: series.map((a, i) => series.map((b, j) => (i === j ? 1 : correlate(a, b)))),
+  };
+}
+
+/**
+ * Open notional by symbol and exchange across all bots
+ */
+export function exposureHeatmap(
+  bots: TradingBot[],
+  positionsByBot: Record<string, TradingPosition[]>,
+  exchangeLabels: Record<string, string>,
+): ExposureHeatmap {
+  const cells = new Map<string, Map<string, number>>();
+  const exchanges = new Set<string>();
+
+  bots.forEach(bot => {
+    const exchange =
+      bot.execution_mode === 'paper'
+        ? 'Paper'
+        : (exchangeLabels[bot.exchange_credentials_id] ?? 'Unknown');
+    (positionsByBot[bot.id] ?? [])
+      .filter(p => p.status !== 'closed')
+      .forEach(position => {
+        exchanges.add(exchange);
+        const row = cells.get(position.symbol) ?? new Map<string, number>();
+        row.set(
+          exchange,
+          (row.get(exchange) ?? 0) + position.entry_price * position.remaining_quantity,
+        );
+        cells.set(position.symbol, row);
+      });
+  });
+
+  const symbols = [...cells.keys()].sort();
+  const exchangeList = [...exchanges].sort();
+  const values = symbols.map(symbol =>
+    exchangeList.map(exchange => cells.get(symbol)?.get(exchange) ?? 0),
+  );
+
+  return {
+    symbols,
+    exchanges: exchangeList,
+    values,
+    max: Math.max(0, ...values.flat()),
+  };
+}